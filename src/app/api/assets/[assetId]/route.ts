@@ -0,0 +1,88 @@
+/**
+ * Asset Download API Route
+ *
+ * Streams an asset from the content-addressed asset store. Supports HTTP range
+ * requests so <video> and <audio> elements can seek without downloading the whole file.
+ * Assets are immutable (the ID is a content hash), so responses are cached forever.
+ *
+ * GET /api/assets/:assetId
+ *
+ * Response:
+ * - The asset contents with its stored Content-Type
+ * - 206 Partial Content when a Range header is sent
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createReadStream } from "fs";
+import { Readable } from "stream";
+import { assetExists, getAssetRecord, resolveAssetPath } from "@/lib/assetStore";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ assetId: string }> }
+) {
+  try {
+    const { assetId } = await params;
+
+    if (!assetExists(assetId)) {
+      return NextResponse.json(
+        { error: `Asset ${assetId} not found` },
+        { status: 404 }
+      );
+    }
+
+    const record = await getAssetRecord(assetId);
+    const assetPath = await resolveAssetPath(assetId);
+
+    const headers: Record<string, string> = {
+      "Content-Type": record.mimeType,
+      "Accept-Ranges": "bytes",
+      "Cache-Control": "public, max-age=31536000, immutable",
+    };
+
+    const range = request.headers.get("range");
+    const rangeMatch = range?.match(/^bytes=(\d*)-(\d*)$/);
+
+    if (rangeMatch && (rangeMatch[1] || rangeMatch[2])) {
+      // "bytes=-500" means the last 500 bytes
+      const start = rangeMatch[1]
+        ? parseInt(rangeMatch[1], 10)
+        : Math.max(0, record.size - parseInt(rangeMatch[2], 10));
+      const end = rangeMatch[1] && rangeMatch[2]
+        ? Math.min(parseInt(rangeMatch[2], 10), record.size - 1)
+        : record.size - 1;
+
+      if (start >= record.size || start > end) {
+        return new NextResponse(null, {
+          status: 416,
+          headers: { "Content-Range": `bytes */${record.size}` },
+        });
+      }
+
+      const stream = Readable.toWeb(createReadStream(assetPath, { start, end })) as ReadableStream;
+      return new NextResponse(stream, {
+        status: 206,
+        headers: {
+          ...headers,
+          "Content-Range": `bytes ${start}-${end}/${record.size}`,
+          "Content-Length": String(end - start + 1),
+        },
+      });
+    }
+
+    const stream = Readable.toWeb(createReadStream(assetPath)) as ReadableStream;
+    return new NextResponse(stream, {
+      headers: {
+        ...headers,
+        "Content-Length": String(record.size),
+      },
+    });
+
+  } catch (error) {
+    console.error("Asset download error:", error);
+    return NextResponse.json(
+      { error: "Failed to read asset", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
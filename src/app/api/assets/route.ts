@@ -0,0 +1,61 @@
+/**
+ * Asset Upload API Route
+ *
+ * Stores a binary file in the content-addressed asset store. The raw file is sent
+ * as the request body (not JSON), with its MIME type in the Content-Type header.
+ *
+ * POST /api/assets
+ *
+ * Request:
+ * - body: raw file bytes
+ * - Content-Type header: MIME type of the file (e.g. "video/mp4")
+ *
+ * Response:
+ * - assetId: SHA-256 of the contents (same bytes always produce the same ID)
+ * - mimeType: Stored MIME type
+ * - size: Size in bytes
+ * - url: URL to stream the asset
+ * - createdAt: When the asset was first stored
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { putAsset } from "@/lib/assetStore";
+import { getAssetUrl } from "@/lib/assets";
+import type { AssetUploadResponse } from "@/types/asset";
+
+export async function POST(request: NextRequest) {
+  try {
+    const mimeType = request.headers.get("content-type")?.split(";")[0].trim();
+
+    if (!mimeType || mimeType === "application/json") {
+      return NextResponse.json(
+        { error: "Content-Type header with the file's MIME type is required" },
+        { status: 400 }
+      );
+    }
+
+    const buffer = Buffer.from(await request.arrayBuffer());
+    if (buffer.length === 0) {
+      return NextResponse.json(
+        { error: "Request body is empty" },
+        { status: 400 }
+      );
+    }
+
+    const record = await putAsset(buffer, mimeType);
+
+    const result: AssetUploadResponse = {
+      ...record,
+      url: getAssetUrl(record.assetId),
+    };
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error("Asset upload error:", error);
+    return NextResponse.json(
+      { error: "Failed to store asset", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Sound Effects Audio Track Assembly API Route
+ *
+ * Generates a full-length audio file with the timeline's sound effect and ambient
+ * clips positioned at their timeline times, each at its own volume, with silence
+ * filling the gaps. SFX play once and are cut at the end of their clip; ambient beds
+ * loop to fill their clip.
+ *
+ * POST /api/audio/effects/assemble
+ *
+ * Request body:
+ * - timeline: Timeline with sfx and ambient clips (their sourceId is the sound's asset ID)
+ * - totalDuration: Total duration of the video in seconds
+ *
+ * Response:
+ * - audioAssetId: asset ID of assembled effects track
+ * - audioUrl: URL to stream the assembled effects track
+ * - duration: Total duration in seconds
+ * - processingTimeMs: Time taken to assemble
+ *
+ * Note: Uses /tmp directory which has 512MB limit on Vercel (see issue #102)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { exec } from "child_process";
+import { promisify } from "util";
+import { unlink, mkdir } from "fs/promises";
+import { existsSync } from "fs";
+import path from "path";
+import { tmpdir } from "os";
+import type { Timeline } from "@/types/timeline";
+import { assetExists, putAssetFile, resolveAssetPath } from "@/lib/assetStore";
+import { getAssetUrl } from "@/lib/assets";
+import { isSoundEffectClip } from "@/types/timeline";
+
+const execAsync = promisify(exec);
+
+interface EffectsAssembleRequest {
+  timeline: Timeline;
+  totalDuration: number;
+}
+
+interface EffectsAssembleResponse {
+  audioAssetId: string;
+  audioUrl: string; // URL to stream the audio
+  duration: number;
+  processingTimeMs: number;
+  timestamp: string;
+}
+
+export async function POST(request: NextRequest) {
+  const tempDir = path.join(tmpdir(), 'sizzle-reel-effects');
+  const tempFiles: string[] = [];
+
+  try {
+    const body: EffectsAssembleRequest = await request.json();
+
+    if (!body.timeline || !body.totalDuration) {
+      return NextResponse.json(
+        { error: "timeline and totalDuration are required" },
+        { status: 400 }
+      );
+    }
+
+    const startTime = Date.now();
+
+    // Create temp directory if it doesn't exist
+    if (!existsSync(tempDir)) {
+      await mkdir(tempDir, { recursive: true });
+    }
+
+    const effectClips = body.timeline.tracks
+      .flatMap(track => track.clips)
+      .filter(isSoundEffectClip)
+      .filter(clip => clip.startTime < body.totalDuration)
+      .sort((a, b) => a.startTime - b.startTime);
+
+    const missingClip = effectClips.find(clip => !assetExists(clip.sourceId));
+    if (missingClip) {
+      throw new Error(`Sound not found for ${missingClip.id}`);
+    }
+
+    // Start with a silent base track (-t must come BEFORE -i to limit input duration),
+    // so the result always covers the whole reel, then add each clip's sound
+    let ffmpegCommand = `ffmpeg -t ${body.totalDuration} -f lavfi -i anullsrc=r=44100:cl=stereo`;
+    const filterParts: string[] = [];
+
+    for (let i = 0; i < effectClips.length; i++) {
+      const clip = effectClips[i];
+      const clipPath = await resolveAssetPath(clip.sourceId);
+
+      // Ambient beds repeat the input until the clip is full
+      const loop = clip.audioType === 'ambient' ? '-stream_loop -1 ' : '';
+      ffmpegCommand += ` ${loop}-i "${clipPath}"`;
+
+      // adelay expects milliseconds
+      const delayMs = Math.round(clip.startTime * 1000);
+      filterParts.push(
+        `[${i + 1}:a]atrim=0:${clip.duration},asetpts=PTS-STARTPTS,volume=${clip.volume ?? 1},adelay=${delayMs}|${delayMs}[e${i}]`
+      );
+    }
+
+    // normalize=0 keeps every clip at its own volume however many overlap
+    const mixInputs = ['[0:a]', ...effectClips.map((_, i) => `[e${i}]`)].join('');
+    filterParts.push(`${mixInputs}amix=inputs=${effectClips.length + 1}:duration=first:dropout_transition=0:normalize=0[out]`);
+
+    // Output path
+    const outputPath = path.join(tempDir, `effects-track-${Date.now()}.mp3`);
+    tempFiles.push(outputPath);
+
+    ffmpegCommand += ` -filter_complex "${filterParts.join('; ')}" -map "[out]" -t ${body.totalDuration} -c:a libmp3lame -q:a 2 -y "${outputPath}"`;
+
+    await execAsync(ffmpegCommand, { timeout: 30000 }); // 30 second timeout
+
+    // Read assembled audio
+    const audioAsset = await putAssetFile(outputPath, 'audio/mpeg');
+
+    const processingTimeMs = Date.now() - startTime;
+
+    const result: EffectsAssembleResponse = {
+      audioAssetId: audioAsset.assetId,
+      audioUrl: getAssetUrl(audioAsset.assetId),
+      duration: body.totalDuration,
+      processingTimeMs,
+      timestamp: new Date().toISOString(),
+    };
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error("Effects assembly error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to assemble sound effects track",
+        details: error instanceof Error ? error.message : String(error)
+      },
+      { status: 500 }
+    );
+  } finally {
+    // Cleanup temp files
+    for (const filePath of tempFiles) {
+      try {
+        if (existsSync(filePath)) {
+          await unlink(filePath);
+        }
+      } catch (cleanupError) {
+        console.error("Cleanup error:", cleanupError);
+      }
+    }
+  }
+}
@@ -3,17 +3,21 @@
  *
  * Generates a full-length music audio file with pre-baked volume automation (ducking)
  * that lowers volume during narration segments with smooth fades.
+ * Every music clip on the timeline is trimmed or looped to its duration with its fades,
+ * overlapping clips crossfade (see lib/musicFit.ts; loops use the beat grid to repeat
+ * whole bars), and the clips are mixed at their timeline positions.
  *
  * POST /api/audio/music/duck
  *
  * Request body:
- * - musicUrl: base64 data URL of background music
- * - timeline: Timeline with narration clips
+ * - timeline: Timeline with music and narration clips
  * - duckingSettings: Volume levels and fade duration
  * - totalDuration: Total duration of the video in seconds
+ * - beatGrids: (optional) Beat grid of each music track by asset ID, for bar-aligned loops and fades
  *
  * Response:
- * - audioUrl: base64 data URL of ducked music track
+ * - audioAssetId: asset ID of ducked music track
+ * - audioUrl: URL to stream the ducked music track
  * - duration: Total duration in seconds
  * - processingTimeMs: Time taken to process
  *
@@ -23,25 +27,30 @@
 import { NextRequest, NextResponse } from "next/server";
 import { exec } from "child_process";
 import { promisify } from "util";
-import { writeFile, unlink, mkdir } from "fs/promises";
+import { unlink, mkdir } from "fs/promises";
 import { existsSync } from "fs";
 import path from "path";
 import { tmpdir } from "os";
 import type { Timeline } from "@/types/timeline";
-import type { MusicDuckingSettings } from "@/types/music";
-import { isNarrationClip } from "@/types/timeline";
+import { assetExists, putAssetFile, resolveAssetPath } from "@/lib/assetStore";
+import { getAssetUrl } from "@/lib/assets";
+import type { MusicBeatGrid, MusicDuckingSettings } from "@/types/music";
+import { isMusicClip, isNarrationClip } from "@/types/timeline";
+import { probeAudioDuration } from "@/lib/narrationAlignment";
+import { buildMusicFitFilter, planMusicClips, type MusicTrackInfo } from "@/lib/musicFit";
 
 const execAsync = promisify(exec);
 
 interface MusicDuckRequest {
-  musicUrl: string; // base64 data URL
   timeline: Timeline;
   duckingSettings: MusicDuckingSettings;
   totalDuration: number;
+  beatGrids?: Record<string, MusicBeatGrid>;
 }
 
 interface MusicDuckResponse {
-  audioUrl: string; // base64 data URL
+  audioAssetId: string;
+  audioUrl: string; // URL to stream the audio
   duration: number;
   processingTimeMs: number;
   timestamp: string;
@@ -54,9 +63,9 @@ export async function POST(request: NextRequest) {
   try {
     const body: MusicDuckRequest = await request.json();
 
-    if (!body.musicUrl || !body.timeline || !body.duckingSettings || !body.totalDuration) {
+    if (!body.timeline || !body.duckingSettings || !body.totalDuration) {
       return NextResponse.json(
-        { error: "musicUrl, timeline, duckingSettings, and totalDuration are required" },
+        { error: "timeline, duckingSettings, and totalDuration are required" },
         { status: 400 }
       );
     }
@@ -68,55 +77,57 @@ export async function POST(request: NextRequest) {
       await mkdir(tempDir, { recursive: true });
     }
 
-    // Write music file to temp
-    const base64Data = body.musicUrl.split(',')[1] || body.musicUrl;
-    const musicBuffer = Buffer.from(base64Data, 'base64');
-    const musicPath = path.join(tempDir, `music-${Date.now()}.mp3`);
-    await writeFile(musicPath, musicBuffer);
-    tempFiles.push(musicPath);
-
-    // If ducking is disabled, just trim music to duration and return
-    if (!body.duckingSettings.enabled) {
-      const outputPath = path.join(tempDir, `music-output-${Date.now()}.mp3`);
-      tempFiles.push(outputPath);
-
-      const trimCommand = `ffmpeg -i "${musicPath}" -t ${body.totalDuration} -c:a libmp3lame -q:a 2 -y "${outputPath}"`;
-      await execAsync(trimCommand, { timeout: 30000 });
-
-      const { readFile } = await import('fs/promises');
-      const audioBuffer = await readFile(outputPath);
-      const audioBase64 = audioBuffer.toString('base64');
-      const audioUrl = `data:audio/mpeg;base64,${audioBase64}`;
-
-      return NextResponse.json({
-        audioUrl,
-        duration: body.totalDuration,
-        processingTimeMs: Date.now() - startTime,
-        timestamp: new Date().toISOString(),
-      });
+    // Music clips that have a track, read straight from the asset store
+    const musicClips = body.timeline.tracks
+      .flatMap(track => track.clips)
+      .filter(isMusicClip)
+      .filter(clip => clip.sourceId && assetExists(clip.sourceId))
+      .sort((a, b) => a.startTime - b.startTime);
+
+    const musicPaths: Record<string, string> = {};
+    const musicTracks: Record<string, MusicTrackInfo> = {};
+    for (const clip of musicClips) {
+      if (musicPaths[clip.sourceId]) continue;
+      musicPaths[clip.sourceId] = await resolveAssetPath(clip.sourceId);
+      musicTracks[clip.sourceId] = {
+        actualDurationSeconds: await probeAudioDuration(musicPaths[clip.sourceId]),
+        beatGrid: body.beatGrids?.[clip.sourceId],
+      };
     }
 
+    // Fit each clip, fade it, move it to its start and mix them (silence without music clips)
+    const clipPlans = planMusicClips(musicClips, musicTracks);
+    const inputs = musicClips.map(clip => `-i "${musicPaths[clip.sourceId]}"`).join(' ');
+    const clipFilters = musicClips.map((clip, i) => {
+      const { plan, fadeIn } = clipPlans[clip.id];
+      const delayMs = Math.round(clip.startTime * 1000);
+      const fade = fadeIn > 0 ? `afade=t=in:d=${fadeIn},` : '';
+      return `${buildMusicFitFilter(plan, `[${i}:a]`, `[fit${i}]`)};[fit${i}]${fade}adelay=${delayMs}|${delayMs}[clip${i}]`;
+    });
+    const mixFilter = musicClips.length === 0
+      ? `anullsrc=r=44100:cl=stereo,atrim=0:${body.totalDuration}[fit]`
+      : `${musicClips.map((_, i) => `[clip${i}]`).join('')}amix=inputs=${musicClips.length}:duration=longest:dropout_transition=0:normalize=0,apad,atrim=0:${body.totalDuration}[fit]`;
+    const fitFilter = [...clipFilters, mixFilter].join(';');
+
     // Get narration clips from timeline
     const audioTrack = body.timeline.tracks.find(track => track.type === 'audio');
     const narrationClips = audioTrack
       ? audioTrack.clips.filter(isNarrationClip).sort((a, b) => a.startTime - b.startTime)
       : [];
 
-    // If no narration clips, just trim music and return
-    if (narrationClips.length === 0) {
+    // If ducking is disabled or there's no narration, just fit the music and return
+    if (!body.duckingSettings.enabled || narrationClips.length === 0) {
       const outputPath = path.join(tempDir, `music-output-${Date.now()}.mp3`);
       tempFiles.push(outputPath);
 
-      const trimCommand = `ffmpeg -i "${musicPath}" -t ${body.totalDuration} -c:a libmp3lame -q:a 2 -y "${outputPath}"`;
-      await execAsync(trimCommand, { timeout: 30000 });
+      const fitCommand = `ffmpeg ${inputs} -filter_complex "${fitFilter}" -map "[fit]" -c:a libmp3lame -q:a 2 -y "${outputPath}"`;
+      await execAsync(fitCommand, { timeout: 30000 });
 
-      const { readFile } = await import('fs/promises');
-      const audioBuffer = await readFile(outputPath);
-      const audioBase64 = audioBuffer.toString('base64');
-      const audioUrl = `data:audio/mpeg;base64,${audioBase64}`;
+      const audioAsset = await putAssetFile(outputPath, 'audio/mpeg');
 
       return NextResponse.json({
-        audioUrl,
+        audioAssetId: audioAsset.assetId,
+        audioUrl: getAssetUrl(audioAsset.assetId),
         duration: body.totalDuration,
         processingTimeMs: Date.now() - startTime,
         timestamp: new Date().toISOString(),
@@ -152,21 +163,19 @@ export async function POST(request: NextRequest) {
     const outputPath = path.join(tempDir, `music-ducked-${Date.now()}.mp3`);
     tempFiles.push(outputPath);
 
-    // Apply volume automation and trim to duration
-    const ffmpegCommand = `ffmpeg -i "${musicPath}" -filter_complex "[0:a]volume='${volumeExpr}':eval=frame[out]" -map "[out]" -t ${body.totalDuration} -c:a libmp3lame -q:a 2 -y "${outputPath}"`;
+    // Mix the music clips, then apply volume automation
+    const ffmpegCommand = `ffmpeg ${inputs} -filter_complex "${fitFilter};[fit]volume='${volumeExpr}':eval=frame[out]" -map "[out]" -c:a libmp3lame -q:a 2 -y "${outputPath}"`;
 
     await execAsync(ffmpegCommand, { timeout: 30000 });
 
     // Read ducked music
-    const { readFile } = await import('fs/promises');
-    const audioBuffer = await readFile(outputPath);
-    const audioBase64 = audioBuffer.toString('base64');
-    const audioUrl = `data:audio/mpeg;base64,${audioBase64}`;
+    const audioAsset = await putAssetFile(outputPath, 'audio/mpeg');
 
     const processingTimeMs = Date.now() - startTime;
 
     const result: MusicDuckResponse = {
-      audioUrl,
+      audioAssetId: audioAsset.assetId,
+      audioUrl: getAssetUrl(audioAsset.assetId),
       duration: body.totalDuration,
       processingTimeMs,
       timestamp: new Date().toISOString(),
@@ -2,17 +2,20 @@
  * Narration Audio Track Assembly API Route
  *
  * Generates a full-length audio file with narration clips positioned at their
- * timeline times, with silence filling the gaps.
+ * timeline times, with silence filling the gaps. Segments split from a longer
+ * segment's audio play only their part of the file.
  *
  * POST /api/audio/narration/assemble
  *
  * Request body:
  * - timeline: Timeline with narration clips
- * - generatedNarration: Record of generated narration audio URLs by ID
+ * - generatedNarration: Record of generated narration audio asset IDs by ID, with
+ *   audioStartSeconds and durationSeconds for split segments
  * - totalDuration: Total duration of the video in seconds
  *
  * Response:
- * - audioUrl: base64 data URL of assembled narration track
+ * - audioAssetId: asset ID of assembled narration track
+ * - audioUrl: URL to stream the assembled narration track
  * - duration: Total duration in seconds
  * - processingTimeMs: Time taken to assemble
  *
@@ -22,23 +25,26 @@
 import { NextRequest, NextResponse } from "next/server";
 import { exec } from "child_process";
 import { promisify } from "util";
-import { writeFile, unlink, mkdir } from "fs/promises";
+import { unlink, mkdir } from "fs/promises";
 import { existsSync } from "fs";
 import path from "path";
 import { tmpdir } from "os";
 import type { Timeline } from "@/types/timeline";
+import { putAssetFile, resolveAssetPath } from "@/lib/assetStore";
+import { getAssetUrl } from "@/lib/assets";
 import { isNarrationClip } from "@/types/timeline";
 
 const execAsync = promisify(exec);
 
 interface NarrationAssembleRequest {
   timeline: Timeline;
-  generatedNarration: Record<string, { audioUrl: string }>;
+  generatedNarration: Record<string, { audioAssetId: string; audioStartSeconds?: number; durationSeconds?: number }>;
   totalDuration: number;
 }
 
 interface NarrationAssembleResponse {
-  audioUrl: string; // base64 data URL
+  audioAssetId: string;
+  audioUrl: string; // URL to stream the audio
   duration: number;
   processingTimeMs: number;
   timestamp: string;
@@ -75,13 +81,11 @@ export async function POST(request: NextRequest) {
       const silentCommand = `ffmpeg -t ${body.totalDuration} -f lavfi -i anullsrc=r=44100:cl=stereo -c:a libmp3lame -q:a 2 -y "${silentAudioPath}"`;
       await execAsync(silentCommand);
 
-      const { readFile } = await import('fs/promises');
-      const audioBuffer = await readFile(silentAudioPath);
-      const audioBase64 = audioBuffer.toString('base64');
-      const audioUrl = `data:audio/mpeg;base64,${audioBase64}`;
+      const audioAsset = await putAssetFile(silentAudioPath, 'audio/mpeg');
 
       return NextResponse.json({
-        audioUrl,
+        audioAssetId: audioAsset.assetId,
+        audioUrl: getAssetUrl(audioAsset.assetId),
         duration: body.totalDuration,
         processingTimeMs: Date.now() - startTime,
         timestamp: new Date().toISOString(),
@@ -101,13 +105,11 @@ export async function POST(request: NextRequest) {
       const silentCommand = `ffmpeg -t ${body.totalDuration} -f lavfi -i anullsrc=r=44100:cl=stereo -c:a libmp3lame -q:a 2 -y "${silentAudioPath}"`;
       await execAsync(silentCommand);
 
-      const { readFile } = await import('fs/promises');
-      const audioBuffer = await readFile(silentAudioPath);
-      const audioBase64 = audioBuffer.toString('base64');
-      const audioUrl = `data:audio/mpeg;base64,${audioBase64}`;
+      const audioAsset = await putAssetFile(silentAudioPath, 'audio/mpeg');
 
       return NextResponse.json({
-        audioUrl,
+        audioAssetId: audioAsset.assetId,
+        audioUrl: getAssetUrl(audioAsset.assetId),
         duration: body.totalDuration,
         processingTimeMs: Date.now() - startTime,
         timestamp: new Date().toISOString(),
@@ -122,24 +124,22 @@ export async function POST(request: NextRequest) {
       const clip = narrationClips[i];
       const narrationData = body.generatedNarration[clip.sourceId];
 
-      if (!narrationData?.audioUrl) {
+      if (!narrationData?.audioAssetId) {
         throw new Error(`Narration audio not found for ${clip.sourceId}`);
       }
 
-      // Extract base64 data
-      const base64Data = narrationData.audioUrl.split(',')[1] || narrationData.audioUrl;
-      const audioBuffer = Buffer.from(base64Data, 'base64');
-
-      // Write to temp file
-      const clipPath = path.join(tempDir, `narration-${i}-${clip.sourceId}.mp3`);
-      await writeFile(clipPath, audioBuffer);
-      tempFiles.push(clipPath);
+      // Read clip straight from the asset store
+      const clipPath = await resolveAssetPath(narrationData.audioAssetId);
       clipInputs.push(clipPath);
 
       // Create filter for this clip with delay
       // adelay expects milliseconds
       const delayMs = Math.round(clip.startTime * 1000);
-      filterParts.push(`[${i + 1}:a]adelay=${delayMs}|${delayMs}[a${i}]`);
+      // Split segments share their audio file, each playing its own part of it
+      const trim = narrationData.audioStartSeconds !== undefined
+        ? `atrim=start=${narrationData.audioStartSeconds}${narrationData.durationSeconds ? `:duration=${narrationData.durationSeconds}` : ''},asetpts=PTS-STARTPTS,`
+        : '';
+      filterParts.push(`[${i + 1}:a]${trim}adelay=${delayMs}|${delayMs}[a${i}]`);
     }
 
     // Build FFmpeg command
@@ -169,15 +169,13 @@ export async function POST(request: NextRequest) {
     await execAsync(ffmpegCommand, { timeout: 30000 }); // 30 second timeout
 
     // Read assembled audio
-    const { readFile } = await import('fs/promises');
-    const audioBuffer = await readFile(outputPath);
-    const audioBase64 = audioBuffer.toString('base64');
-    const audioUrl = `data:audio/mpeg;base64,${audioBase64}`;
+    const audioAsset = await putAssetFile(outputPath, 'audio/mpeg');
 
     const processingTimeMs = Date.now() - startTime;
 
     const result: NarrationAssembleResponse = {
-      audioUrl,
+      audioAssetId: audioAsset.assetId,
+      audioUrl: getAssetUrl(audioAsset.assetId),
       duration: body.totalDuration,
       processingTimeMs,
       timestamp: new Date().toISOString(),
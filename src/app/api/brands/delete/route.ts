@@ -0,0 +1,46 @@
+/**
+ * Brand Profile Delete API Route
+ *
+ * POST /api/brands/delete
+ *
+ * Request body:
+ * - id: Brand profile to delete
+ *
+ * Response:
+ * - id: The deleted profile ID
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { brandProfileExists, deleteBrandProfile } from "@/lib/brandStore";
+import type { DeleteBrandProfileRequest } from "@/types/brand";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: DeleteBrandProfileRequest = await request.json();
+
+    if (!body.id) {
+      return NextResponse.json(
+        { error: "id is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!brandProfileExists(body.id)) {
+      return NextResponse.json(
+        { error: `Brand profile ${body.id} not found` },
+        { status: 404 }
+      );
+    }
+
+    await deleteBrandProfile(body.id);
+
+    return NextResponse.json({ id: body.id });
+
+  } catch (error) {
+    console.error("Brand profile delete error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete brand profile", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Brand Profile List API Route
+ *
+ * Lists saved brand profiles, sorted by name. The Free World profile is created
+ * on first use so there is always at least one profile to choose from.
+ *
+ * GET /api/brands
+ *
+ * Response:
+ * - profiles: Array of BrandProfile
+ */
+
+import { NextResponse } from "next/server";
+import { listBrandProfiles } from "@/lib/brandStore";
+
+export async function GET() {
+  try {
+    const profiles = await listBrandProfiles();
+    return NextResponse.json({ profiles });
+  } catch (error) {
+    console.error("Brand profile list error:", error);
+    return NextResponse.json(
+      { error: "Failed to list brand profiles", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Brand Profile Save API Route
+ *
+ * Creates or updates a brand profile.
+ *
+ * POST /api/brands/save
+ *
+ * Request body:
+ * - id: (optional) existing profile to overwrite; a new ID is created if omitted
+ * - profile: Editable BrandProfile fields (name, companyContext, audience, tone,
+ *   allowedSettings, bannedImagery, visualStyleGuardrails)
+ *
+ * Response:
+ * - The saved BrandProfile
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { saveBrandProfile } from "@/lib/brandStore";
+import { isSafeId } from "@/lib/dataDir";
+import type { SaveBrandProfileRequest } from "@/types/brand";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: SaveBrandProfileRequest = await request.json();
+
+    if (!body.profile) {
+      return NextResponse.json(
+        { error: "profile is required" },
+        { status: 400 }
+      );
+    }
+
+    if (body.id && !isSafeId(body.id)) {
+      return NextResponse.json(
+        { error: "Invalid brand profile ID" },
+        { status: 400 }
+      );
+    }
+
+    const profile = await saveBrandProfile(body.id, {
+      name: body.profile.name || "",
+      companyContext: body.profile.companyContext || "",
+      audience: body.profile.audience || "",
+      tone: body.profile.tone || "",
+      allowedSettings: body.profile.allowedSettings || [],
+      bannedImagery: body.profile.bannedImagery || [],
+      visualStyleGuardrails: body.profile.visualStyleGuardrails || [],
+    });
+
+    return NextResponse.json(profile);
+
+  } catch (error) {
+    console.error("Brand profile save error:", error);
+    return NextResponse.json(
+      { error: "Failed to save brand profile", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Caption Generation API Route
+ *
+ * Builds word-timed captions from the timeline's narration clips, using the word
+ * timings recorded when the narration was generated. Narration generated before word
+ * timings existed is aligned to its audio here (see lib/narrationAlignment.ts).
+ * The SRT and WebVTT sidecar files are stored in the asset store.
+ *
+ * POST /api/captions/generate
+ *
+ * Request body:
+ * - timeline: Timeline with narration clips
+ * - generatedNarration: Record of generated narration audio asset IDs (with the text
+ *   the audio was generated from and its word timings) by narration ID
+ * - maxWordsPerCue: (optional) Longest caption in words (default 7)
+ *
+ * Response:
+ * - cues: Caption cues with timeline times and per-word timings
+ * - srtAssetId / srtUrl: SubRip sidecar
+ * - vttAssetId / vttUrl: WebVTT sidecar with per-word timestamps
+ * - processingTimeMs: Time taken to align and write the captions
+ *
+ * Narration clips without generated audio are skipped.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { putAsset, resolveAssetPath } from "@/lib/assetStore";
+import { getAssetUrl } from "@/lib/assets";
+import { alignWordsToAudio } from "@/lib/narrationAlignment";
+import { buildClipCues, DEFAULT_CAPTION_STYLE, formatSrt, formatVtt, mergeCues } from "@/lib/captions";
+import { isNarrationClip } from "@/types/timeline";
+import type { CaptionCue, CaptionGenerationRequest, CaptionGenerationResponse } from "@/types/captions";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: CaptionGenerationRequest = await request.json();
+
+    if (!body.timeline || !body.generatedNarration) {
+      return NextResponse.json(
+        { error: "timeline and generatedNarration are required" },
+        { status: 400 }
+      );
+    }
+
+    const maxWordsPerCue = body.maxWordsPerCue ?? DEFAULT_CAPTION_STYLE.maxWordsPerCue;
+    if (!Number.isInteger(maxWordsPerCue) || maxWordsPerCue < 1) {
+      return NextResponse.json(
+        { error: "maxWordsPerCue must be a positive integer" },
+        { status: 400 }
+      );
+    }
+
+    const startTime = Date.now();
+
+    const narrationClips = body.timeline.tracks
+      .filter(track => track.type === 'audio')
+      .flatMap(track => track.clips)
+      .filter(isNarrationClip);
+
+    const cues: CaptionCue[] = [];
+    for (const clip of narrationClips) {
+      const narration = body.generatedNarration[clip.sourceId];
+      if (!narration?.audioAssetId) continue;
+
+      // Align the text the audio was actually generated from, which may have been edited
+      const words = narration.words?.length
+        ? narration.words
+        : await alignWordsToAudio(narration.text || clip.text, await resolveAssetPath(narration.audioAssetId));
+      cues.push(...buildClipCues(words, clip.startTime, clip.duration, maxWordsPerCue));
+    }
+
+    const mergedCues = mergeCues(cues);
+    const srtAsset = await putAsset(Buffer.from(formatSrt(mergedCues), "utf-8"), "application/x-subrip");
+    const vttAsset = await putAsset(Buffer.from(formatVtt(mergedCues), "utf-8"), "text/vtt");
+
+    const result: CaptionGenerationResponse = {
+      cues: mergedCues,
+      srtAssetId: srtAsset.assetId,
+      srtUrl: getAssetUrl(srtAsset.assetId),
+      vttAssetId: vttAsset.assetId,
+      vttUrl: getAssetUrl(vttAsset.assetId),
+      processingTimeMs: Date.now() - startTime,
+      timestamp: new Date().toISOString(),
+    };
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error("Caption generation error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to generate captions",
+        details: error instanceof Error ? error.message : String(error)
+      },
+      { status: 500 }
+    );
+  }
+}
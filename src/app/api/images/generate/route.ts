@@ -1,101 +1,59 @@
-import { GoogleGenAI } from "@google/genai";
 import { NextRequest, NextResponse } from "next/server";
 import type { StillImageResponse, StillImageGenerationRequest } from "@/types/still-image";
-
-const genAI = new GoogleGenAI({
-  apiKey: process.env.GOOGLE_AI_API_KEY!,
-});
-
-const GEMINI_MODEL = "gemini-2.5-flash-image-preview";
-const DEFAULT_MIME_TYPE = "image/png";
-
-// Helper function to create data URL from image data
-const createDataUrl = (imageData: string, mimeType: string): string => {
-  return `data:${mimeType};base64,${imageData}`;
-};
-
-// Helper function to process Gemini response and extract image data
-const processGeminiResponse = async (response: Awaited<ReturnType<typeof genAI.models.generateContent>>) => {
-  if (response.candidates && response.candidates[0]) {
-    const candidate = response.candidates[0];
-
-    if (candidate.content && candidate.content.parts) {
-      for (const part of candidate.content.parts) {
-        // Check if this part contains image data
-        if (part.inlineData && part.inlineData.data) {
-          const imageData = part.inlineData.data;
-          const mimeType = part.inlineData.mimeType || DEFAULT_MIME_TYPE;
-
-          // Create data URL from image data
-          return createDataUrl(imageData, mimeType);
-        }
-      }
-    }
-  }
-
-  return null;
-};
+import { getAssetRecord, putAsset, readAsset } from "@/lib/assetStore";
+import { getAssetUrl } from "@/lib/assets";
+import { getStillImageProvider, ProviderError } from "@/lib/providers";
+import { formatStillImageBrandGuidance } from "@/lib/brandPrompts";
+import { ASPECT_RATIOS, isAspectRatio } from "@/lib/outputFormat";
 
 export async function POST(request: NextRequest) {
   try {
     const body: StillImageGenerationRequest = await request.json();
 
-    if (!body.prompt || !body.shotId || !body.baseImage) {
+    if (!body.prompt || !body.shotId || !body.baseImageAssetId) {
       return NextResponse.json(
-        { error: "Prompt, shotId, and baseImage are required" },
+        { error: "Prompt, shotId, and baseImageAssetId are required" },
         { status: 400 }
       );
     }
 
-    if (!process.env.GOOGLE_AI_API_KEY) {
+    if (body.aspectRatio && !isAspectRatio(body.aspectRatio)) {
       return NextResponse.json(
-        { error: "Google AI API key not configured" },
-        { status: 500 }
+        { error: "aspectRatio must be 16:9, 9:16 or 1:1" },
+        { status: 400 }
       );
     }
+    const aspectRatio = body.aspectRatio || "16:9";
+
+    const provider = getStillImageProvider();
 
-    const enhancedPrompt = `Generate a professional, cinematic still image based on this description. The image should be in landscape orientation (16:9 aspect ratio) and suitable for a high-quality sizzle reel.
+    const enhancedPrompt = `Generate a professional, cinematic still image based on this description. The image should be in ${ASPECT_RATIOS[aspectRatio].orientation} and suitable for a high-quality sizzle reel.
 
 ${body.prompt}
 
 Make this visually stunning, professional, and cinematic in quality. Reference image provided: base character/product image.`;
 
-    const startTime = Date.now();
-
-    // Build the content array - only include base image
-    const contents: Array<{ text: string } | { inlineData: { mimeType: string; data: string } }> = [{ text: enhancedPrompt }];
+    const brandGuidance = formatStillImageBrandGuidance(body.brandProfile);
+    const fullPrompt = brandGuidance ? `${enhancedPrompt}\n\n${brandGuidance}` : enhancedPrompt;
 
-    // Add base image (required)
-    const [mimeTypePart, base64Data] = body.baseImage.split(',');
-    const mimeType = mimeTypePart.match(/data:([^;]+)/)?.[1] || DEFAULT_MIME_TYPE;
+    // Load the base image (required) from the asset store
+    const baseImageRecord = await getAssetRecord(body.baseImageAssetId);
+    const baseImageData = await readAsset(body.baseImageAssetId);
 
-    contents.push({
-      inlineData: {
-        mimeType,
-        data: base64Data
-      }
-    });
+    const startTime = Date.now();
 
-    const response = await genAI.models.generateContent({
-      model: GEMINI_MODEL,
-      contents,
-    });
+    const generatedImage = await provider.generateStill(fullPrompt, [
+      { data: baseImageData, mimeType: baseImageRecord.mimeType },
+    ], aspectRatio);
 
     const processingTimeMs = Date.now() - startTime;
 
-    const imageUrl = await processGeminiResponse(response);
-
-    if (!imageUrl) {
-      console.error("No image generated in Gemini response");
-      return NextResponse.json(
-        { error: "Failed to generate image" },
-        { status: 500 }
-      );
-    }
+    const imageAsset = await putAsset(generatedImage.data, generatedImage.mimeType);
 
     const result: StillImageResponse = {
       shotId: body.shotId,
-      imageUrl,
+      imageAssetId: imageAsset.assetId,
+      imageUrl: getAssetUrl(imageAsset.assetId),
       prompt: body.prompt,
       processingTimeMs,
       timestamp: new Date().toISOString(),
@@ -105,6 +63,12 @@ Make this visually stunning, professional, and cinematic in quality. Reference i
 
   } catch (error) {
     console.error("Still image generation error:", error);
+    if (error instanceof ProviderError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
     return NextResponse.json(
       { error: "Failed to generate still image" },
       { status: 500 }
@@ -0,0 +1,100 @@
+/**
+ * Reel Translation API Route
+ *
+ * Translates a reel's narration and text overlays into another language with Gemini
+ * (or the local translation provider when GENERATION_PROVIDER=local). Narration is
+ * translated to fit the time the original takes to say (see lib/localization.ts).
+ * Invalid output is re-asked with the validation errors, up to 3 attempts.
+ *
+ * POST /api/localization/translate
+ *
+ * Request body:
+ * - targetLanguage: LanguageCode (e.g. "es")
+ * - narration: Array of { id, text, maxSeconds } for each narration segment
+ * - textOverlays: Array of { id, text } for each text clip
+ * - glossary: (optional) Product names to keep untranslated
+ * - brandProfile: (optional) BrandProfile whose tone the translation keeps
+ *
+ * Response:
+ * - targetLanguage: The language translated into
+ * - narration: Segment ID -> translated text
+ * - textOverlays: Text clip ID -> translated text
+ * - attempts: Model calls needed for valid output
+ * - processingTimeMs: Time taken to translate
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getTranslationProvider, ProviderError } from "@/lib/providers";
+import { generateValidated, StructuredOutputError } from "@/lib/structuredOutput";
+import { buildTranslationPrompt, buildTranslationSchema, isLanguageCode, validateTranslations } from "@/lib/localization";
+import type { TranslationRequest, TranslationResponse } from "@/types/localization";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: TranslationRequest = await request.json();
+
+    if (!isLanguageCode(body.targetLanguage)) {
+      return NextResponse.json(
+        { error: "targetLanguage must be a supported language code" },
+        { status: 400 }
+      );
+    }
+
+    const narration = body.narration || [];
+    const textOverlays = body.textOverlays || [];
+    const ids = [...narration, ...textOverlays].map(item => item.id);
+
+    if (ids.length === 0) {
+      return NextResponse.json(
+        { error: "Nothing to translate: narration or textOverlays are required" },
+        { status: 400 }
+      );
+    }
+
+    const provider = getTranslationProvider();
+    const prompt = buildTranslationPrompt(body.targetLanguage, narration, textOverlays, body.glossary, body.brandProfile);
+    const responseSchema = buildTranslationSchema(ids);
+
+    const startTime = Date.now();
+
+    const { value: translations, attempts } = await generateValidated(
+      (currentPrompt) => provider.translate(currentPrompt, body, responseSchema),
+      prompt,
+      (raw) => validateTranslations(raw, ids)
+    );
+
+    const pick = (items: { id: string }[]) =>
+      Object.fromEntries(items.map(item => [item.id, translations[item.id]]));
+
+    const result: TranslationResponse = {
+      targetLanguage: body.targetLanguage,
+      narration: pick(narration),
+      textOverlays: pick(textOverlays),
+      attempts,
+      processingTimeMs: Date.now() - startTime,
+      timestamp: new Date().toISOString(),
+    };
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error("Translation error:", error);
+    if (error instanceof StructuredOutputError) {
+      console.error("Last invalid translation response:", error.lastResponse);
+      return NextResponse.json(
+        { error: "Failed to generate valid translations", details: error.errors.join("; ") },
+        { status: 500 }
+      );
+    }
+    if (error instanceof ProviderError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+    return NextResponse.json(
+      { error: "Failed to translate reel", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
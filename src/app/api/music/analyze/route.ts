@@ -0,0 +1,63 @@
+/**
+ * Music Analysis API Route
+ *
+ * Detects the tempo, beats, downbeats and sections of a music asset (lib/beatDetection.ts).
+ * Music generation already returns a beat grid; this fills it in for music generated
+ * before beat detection existed.
+ *
+ * POST /api/music/analyze
+ *
+ * Request body:
+ * - audioAssetId: asset ID of the music to analyze
+ *
+ * Response:
+ * - audioAssetId: The analyzed asset
+ * - durationSeconds: Duration of the decoded audio
+ * - beatGrid: { bpm, beats, downbeats, sections }
+ * - processingTimeMs: Time taken to analyze
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { assetExists, resolveAssetPath } from "@/lib/assetStore";
+import { analyzeBeats } from "@/lib/beatDetection";
+import type { MusicAnalysisRequest, MusicAnalysisResponse } from "@/types/music";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: MusicAnalysisRequest = await request.json();
+
+    if (!body.audioAssetId) {
+      return NextResponse.json(
+        { error: "audioAssetId is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!assetExists(body.audioAssetId)) {
+      return NextResponse.json(
+        { error: `Audio asset ${body.audioAssetId} not found` },
+        { status: 404 }
+      );
+    }
+
+    const startTime = Date.now();
+
+    const { durationSeconds, beatGrid } = await analyzeBeats(await resolveAssetPath(body.audioAssetId));
+
+    const result: MusicAnalysisResponse = {
+      audioAssetId: body.audioAssetId,
+      durationSeconds,
+      beatGrid,
+      processingTimeMs: Date.now() - startTime,
+    };
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error("Music analysis error:", error);
+    return NextResponse.json(
+      { error: "Failed to analyze music", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,11 @@
 /**
  * Background Music Generation API Route
  *
- * Generates instrumental background music using ElevenLabs Music API.
+ * Generates instrumental background music using ElevenLabs Music API
+ * (or the local music provider when GENERATION_PROVIDER=local).
  * Takes a music prompt and duration to generate music that matches the sizzle reel.
+ * The result is analyzed for tempo, beats and sections (lib/beatDetection.ts) so cuts
+ * can be aligned to the music.
  *
  * POST /api/music/generate
  *
@@ -10,19 +13,28 @@
  * - prompt: Detailed music generation prompt
  * - durationMs: Requested music length in milliseconds
  * - modelId: (optional) ElevenLabs music model ID
+ * - brandProfile: (optional) BrandProfile whose tone is appended to the prompt
  *
  * Response:
- * - audioUrl: base64 data URL of generated music
+ * - audioAssetId: asset ID of generated music
+ * - audioUrl: URL to stream the music
  * - prompt: The prompt used
+ * - source: "generated"
  * - requestedDurationMs: What we asked for
- * - actualDurationSeconds: Actual duration from audio metadata
+ * - actualDurationSeconds: Actual duration of the decoded audio
+ * - beatGrid: { bpm, beats, downbeats, sections } (absent if the analysis failed)
  * - processingTimeMs: Time taken to generate
  */
 
 import { NextRequest, NextResponse } from "next/server";
+import { putAsset, resolveAssetPath } from "@/lib/assetStore";
+import { getAssetUrl } from "@/lib/assets";
+import { getMusicProvider, ProviderError } from "@/lib/providers";
+import { formatMusicBrandGuidance } from "@/lib/brandPrompts";
+import { analyzeBeats } from "@/lib/beatDetection";
+import { probeAudioDuration } from "@/lib/narrationAlignment";
 import type { MusicGenerationRequest, MusicGenerationResponse } from "@/types/music";
 
-const ELEVENLABS_MUSIC_API_URL = "https://api.elevenlabs.io/v1/music";
 const DEFAULT_MODEL_ID = "music_v1";
 
 export async function POST(request: NextRequest) {
@@ -36,61 +48,40 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!process.env.ELEVENLABS_API_KEY) {
-      return NextResponse.json(
-        { error: "ElevenLabs API key not configured" },
-        { status: 500 }
-      );
-    }
+    const provider = getMusicProvider();
 
     const modelId = body.modelId || DEFAULT_MODEL_ID;
 
     const startTime = Date.now();
 
-    // Call ElevenLabs Music API
-    const response = await fetch(ELEVENLABS_MUSIC_API_URL, {
-      method: "POST",
-      headers: {
-        "Accept": "application/octet-stream",
-        "Content-Type": "application/json",
-        "xi-api-key": process.env.ELEVENLABS_API_KEY,
-      },
-      body: JSON.stringify({
-        prompt: body.prompt,
-        music_length_ms: body.durationMs,
-        model_id: modelId,
-        force_instrumental: true,
-      }),
-    });
+    const brandGuidance = formatMusicBrandGuidance(body.brandProfile);
+    const prompt = brandGuidance ? `${body.prompt} ${brandGuidance}` : body.prompt;
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("ElevenLabs Music API error:", errorText);
-      return NextResponse.json(
-        { error: "Failed to generate music", details: errorText },
-        { status: response.status }
-      );
-    }
+    const audioBuffer = await provider.generateMusic(prompt, body.durationMs, modelId);
 
-    const processingTimeMs = Date.now() - startTime;
+    // Store audio in the asset store
+    const audioAsset = await putAsset(audioBuffer, 'audio/mpeg');
 
-    // Convert audio to base64 data URL
-    const audioBuffer = await response.arrayBuffer();
-    const audioBase64 = Buffer.from(audioBuffer).toString('base64');
-    const audioUrl = `data:audio/mpeg;base64,${audioBase64}`;
+    // Decoding for beat analysis also gives the exact duration. The track is already paid
+    // for, so if analysis fails it is returned without a beat grid rather than lost.
+    const audioPath = await resolveAssetPath(audioAsset.assetId);
+    const analysis = await analyzeBeats(audioPath).catch(error => {
+      console.error("Music beat analysis error:", error);
+      return null;
+    });
+    const durationSeconds = analysis?.durationSeconds
+      ?? await probeAudioDuration(audioPath).catch(() => body.durationMs / 1000);
 
-    // Calculate audio duration from MP3 data
-    // We'll estimate based on bitrate and file size as a fallback
-    // Client will load the actual audio to get precise duration
-    const fileSizeBytes = audioBuffer.byteLength;
-    const estimatedBitrateKbps = 128; // Standard MP3 bitrate
-    const estimatedDurationSeconds = (fileSizeBytes * 8) / (estimatedBitrateKbps * 1000);
+    const processingTimeMs = Date.now() - startTime;
 
     const result: MusicGenerationResponse = {
-      audioUrl,
+      audioAssetId: audioAsset.assetId,
+      audioUrl: getAssetUrl(audioAsset.assetId),
       prompt: body.prompt,
+      source: "generated",
       requestedDurationMs: body.durationMs,
-      actualDurationSeconds: estimatedDurationSeconds,
+      actualDurationSeconds: durationSeconds,
+      ...(analysis && { beatGrid: analysis.beatGrid }),
       processingTimeMs,
       timestamp: new Date().toISOString(),
     };
@@ -99,6 +90,12 @@ export async function POST(request: NextRequest) {
 
   } catch (error) {
     console.error("Music generation error:", error);
+    if (error instanceof ProviderError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
     return NextResponse.json(
       { error: "Failed to generate music", details: error instanceof Error ? error.message : String(error) },
       { status: 500 }
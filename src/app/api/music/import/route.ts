@@ -0,0 +1,95 @@
+/**
+ * Music Import API Route
+ *
+ * Turns an uploaded audio file (e.g. a track from a licensed music library) into a
+ * music candidate, usable anywhere generated music is. The file is uploaded to the
+ * asset store first (POST /api/assets); this route probes its duration with ffprobe
+ * and analyzes its beats (lib/beatDetection.ts).
+ *
+ * POST /api/music/import
+ *
+ * Request body:
+ * - audioAssetId: asset ID of the uploaded audio file
+ * - title: Name shown for the track, usually the file name
+ *
+ * Response:
+ * - audioAssetId: asset ID of the music
+ * - audioUrl: URL to stream the music
+ * - prompt: Always empty for imported music
+ * - source: "imported"
+ * - title: The track's name
+ * - requestedDurationMs: The track's own length
+ * - actualDurationSeconds: Duration from ffprobe
+ * - beatGrid: { bpm, beats, downbeats, sections }
+ * - processingTimeMs: Time taken to probe and analyze
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { assetExists, getAssetRecord, resolveAssetPath } from "@/lib/assetStore";
+import { getAssetUrl } from "@/lib/assets";
+import { probeAudioDuration } from "@/lib/narrationAlignment";
+import { analyzeBeats } from "@/lib/beatDetection";
+import type { MusicGenerationResponse, MusicImportRequest } from "@/types/music";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: MusicImportRequest = await request.json();
+
+    if (!body.audioAssetId) {
+      return NextResponse.json(
+        { error: "audioAssetId is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!assetExists(body.audioAssetId)) {
+      return NextResponse.json(
+        { error: `Audio asset ${body.audioAssetId} not found` },
+        { status: 404 }
+      );
+    }
+
+    const record = await getAssetRecord(body.audioAssetId);
+    if (!record.mimeType.startsWith("audio/")) {
+      return NextResponse.json(
+        { error: `Expected an audio file, got ${record.mimeType}` },
+        { status: 400 }
+      );
+    }
+
+    const startTime = Date.now();
+    const audioPath = await resolveAssetPath(body.audioAssetId);
+
+    const durationSeconds = await probeAudioDuration(audioPath).catch(() => 0);
+    if (durationSeconds <= 0) {
+      return NextResponse.json(
+        { error: "Could not read the audio file", details: "ffprobe found no duration" },
+        { status: 400 }
+      );
+    }
+
+    const { beatGrid } = await analyzeBeats(audioPath);
+
+    const result: MusicGenerationResponse = {
+      audioAssetId: body.audioAssetId,
+      audioUrl: getAssetUrl(body.audioAssetId),
+      prompt: "",
+      source: "imported",
+      title: body.title?.trim() || "Imported music",
+      requestedDurationMs: Math.round(durationSeconds * 1000),
+      actualDurationSeconds: durationSeconds,
+      beatGrid,
+      processingTimeMs: Date.now() - startTime,
+      timestamp: new Date().toISOString(),
+    };
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error("Music import error:", error);
+    return NextResponse.json(
+      { error: "Failed to import music", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,8 @@
 /**
  * Narration Audio Generation API Route
  *
- * Generates voiceover audio from text using ElevenLabs text-to-speech.
+ * Generates voiceover audio from text using ElevenLabs text-to-speech
+ * (or the local speech provider when GENERATION_PROVIDER=local).
  * Takes narration text and generates professional voiceover audio.
  *
  * POST /api/narration/generate
@@ -9,23 +10,36 @@
  * Request body:
  * - narrationId: Unique identifier for the narration segment
  * - text: Narration script text
- * - voiceId: (optional) ElevenLabs voice ID
+ * - voiceId: (optional) ElevenLabs voice ID (defaults to Rachel)
  * - model: (optional) ElevenLabs model ID
+ * - voiceSettings: (optional) VoiceSettings - stability, similarityBoost, style, speed
+ * - pronunciations: (optional) PronunciationEntry[] - project lexicon. Aliases replace
+ *   the term in the text sent to the provider; IPA entries become SSML <phoneme> tags,
+ *   which switches to a model that supports them unless a model is given
+ * - languageCode: (optional) ISO 639-1 language of the text, for localized narration.
+ *   Only alias pronunciations apply, since the phoneme model is English-only
  *
  * Response:
  * - narrationId: Narration identifier
- * - audioUrl: base64 data URL of generated audio
+ * - audioAssetId: asset ID of generated audio
+ * - audioUrl: URL to stream the audio
  * - text: The text used
+ * - durationSeconds: Duration of the generated audio, measured with ffprobe
+ * - words: Per-word timings of the original text (not the aliases), from the provider's
+ *   timestamps when it returns them (ElevenLabs) or estimated by the local aligner otherwise
+ * - wordTimingSource: "provider" or "aligner"
  * - processingTimeMs: Time taken to generate
  */
 
 import { NextRequest, NextResponse } from "next/server";
+import { putAsset, resolveAssetPath } from "@/lib/assetStore";
+import { getAssetUrl } from "@/lib/assets";
+import { getSpeechProvider, ProviderError } from "@/lib/providers";
+import { alignWordsToAudio, charactersToWords, probeAudioDuration } from "@/lib/narrationAlignment";
+import { DEFAULT_SPEECH_MODEL, DEFAULT_VOICE_ID, DEFAULT_VOICE_SETTINGS, validateVoiceSettings } from "@/lib/voices";
+import { applyPronunciations, PHONEME_SPEECH_MODEL, restoreSourceAlignment } from "@/lib/pronunciation";
 import type { NarrationGenerationRequest, NarrationGenerationResponse } from "@/types/narration";
 
-const ELEVENLABS_API_URL = "https://api.elevenlabs.io/v1/text-to-speech";
-const DEFAULT_VOICE_ID = "21m00Tcm4TlvDq8ikWAM"; // Rachel voice (default)
-const DEFAULT_MODEL = "eleven_turbo_v2_5"; // Fast, high-quality model
-
 export async function POST(request: NextRequest) {
   try {
     const body: NarrationGenerationRequest = await request.json();
@@ -37,66 +51,54 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!process.env.ELEVENLABS_API_KEY) {
+    const settings = body.voiceSettings || DEFAULT_VOICE_SETTINGS;
+    const settingsError = validateVoiceSettings(settings);
+    if (settingsError) {
       return NextResponse.json(
-        { error: "ElevenLabs API key not configured" },
-        { status: 500 }
+        { error: settingsError },
+        { status: 400 }
       );
     }
 
+    const provider = getSpeechProvider();
+
+    const pronunciations = body.languageCode
+      ? body.pronunciations?.filter(entry => entry.type === "alias")
+      : body.pronunciations;
+    const spoken = applyPronunciations(body.text, pronunciations);
     const voiceId = body.voiceId || DEFAULT_VOICE_ID;
-    const model = body.model || DEFAULT_MODEL;
+    const model = body.model || (spoken.usesPhonemes ? PHONEME_SPEECH_MODEL : DEFAULT_SPEECH_MODEL);
 
     const startTime = Date.now();
 
-    // Call ElevenLabs TTS API
-    const response = await fetch(`${ELEVENLABS_API_URL}/${voiceId}`, {
-      method: "POST",
-      headers: {
-        "Accept": "audio/mpeg",
-        "Content-Type": "application/json",
-        "xi-api-key": process.env.ELEVENLABS_API_KEY,
-      },
-      body: JSON.stringify({
-        text: body.text,
-        model_id: model,
-        voice_settings: {
-          stability: 0.5,
-          similarity_boost: 0.75,
-          style: 0.0,
-          use_speaker_boost: true,
-        },
-      }),
+    const { audio, alignment } = await provider.generateSpeech(spoken.text, {
+      voiceId,
+      modelId: model,
+      settings,
+      languageCode: body.languageCode,
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("ElevenLabs API error:", errorText);
-      return NextResponse.json(
-        { error: "Failed to generate audio", details: errorText },
-        { status: response.status }
-      );
-    }
-
-    const processingTimeMs = Date.now() - startTime;
+    // Store audio in the asset store
+    const audioAsset = await putAsset(audio, 'audio/mpeg');
+    const audioPath = await resolveAssetPath(audioAsset.assetId);
+    const durationSeconds = await probeAudioDuration(audioPath);
 
-    // Convert audio to base64 data URL
-    const audioBuffer = await response.arrayBuffer();
-    const audioBase64 = Buffer.from(audioBuffer).toString('base64');
-    const audioUrl = `data:audio/mpeg;base64,${audioBase64}`;
+    // Timings are for the text the provider spoke; map them back onto the script
+    const sourceAlignment = alignment ? restoreSourceAlignment(alignment, body.text, spoken) : null;
+    const words = sourceAlignment
+      ? charactersToWords(sourceAlignment)
+      : await alignWordsToAudio(body.text, audioPath, durationSeconds);
 
-    // Calculate audio duration from MP3 data
-    // We'll estimate based on bitrate and file size as a fallback
-    // Client will load the actual audio to get precise duration
-    const fileSizeBytes = audioBuffer.byteLength;
-    const estimatedBitrateKbps = 128; // ElevenLabs typically uses 128kbps
-    const estimatedDurationSeconds = (fileSizeBytes * 8) / (estimatedBitrateKbps * 1000);
+    const processingTimeMs = Date.now() - startTime;
 
     const result: NarrationGenerationResponse = {
       narrationId: body.narrationId,
-      audioUrl,
+      audioAssetId: audioAsset.assetId,
+      audioUrl: getAssetUrl(audioAsset.assetId),
       text: body.text,
-      durationSeconds: estimatedDurationSeconds,
+      durationSeconds,
+      words,
+      wordTimingSource: sourceAlignment ? "provider" : "aligner",
       processingTimeMs,
       timestamp: new Date().toISOString(),
     };
@@ -105,6 +107,12 @@ export async function POST(request: NextRequest) {
 
   } catch (error) {
     console.error("Narration generation error:", error);
+    if (error instanceof ProviderError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
     return NextResponse.json(
       { error: "Failed to generate narration", details: error instanceof Error ? error.message : String(error) },
       { status: 500 }
@@ -0,0 +1,51 @@
+/**
+ * Project Load API Route
+ *
+ * Reads a project bundle from disk, migrates it to the current schema version
+ * and re-imports any bundled assets missing from the local asset store.
+ *
+ * POST /api/projects/load
+ *
+ * Request body:
+ * - projectId: Project identifier returned by /api/projects/save
+ *
+ * Response:
+ * - projectId, name, createdAt, updatedAt: Project metadata
+ * - schemaVersion: Current schema version (older files are migrated on load)
+ * - state: ProjectState snapshot to restore into the editor
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { loadProject, projectExists } from "@/lib/projectStore";
+import type { LoadProjectRequest } from "@/types/project";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: LoadProjectRequest = await request.json();
+
+    if (!body.projectId) {
+      return NextResponse.json(
+        { error: "projectId is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!projectExists(body.projectId)) {
+      return NextResponse.json(
+        { error: `Project ${body.projectId} not found` },
+        { status: 404 }
+      );
+    }
+
+    const result = await loadProject(body.projectId);
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error("Project load error:", error);
+    return NextResponse.json(
+      { error: "Failed to load project", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
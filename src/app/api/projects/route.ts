@@ -0,0 +1,26 @@
+/**
+ * Project List API Route
+ *
+ * Lists saved projects, most recently updated first.
+ *
+ * GET /api/projects
+ *
+ * Response:
+ * - projects: Array of { projectId, name, schemaVersion, updatedAt }
+ */
+
+import { NextResponse } from "next/server";
+import { listProjects } from "@/lib/projectStore";
+
+export async function GET() {
+  try {
+    const projects = await listProjects();
+    return NextResponse.json({ projects });
+  } catch (error) {
+    console.error("Project list error:", error);
+    return NextResponse.json(
+      { error: "Failed to list projects", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
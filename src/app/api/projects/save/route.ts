@@ -0,0 +1,57 @@
+/**
+ * Project Save API Route
+ *
+ * Serializes the full editor state into a versioned project bundle on disk.
+ * Every asset referenced by the state (stills, videos, narration, music, uploaded
+ * recordings) is copied from the asset store into the bundle.
+ *
+ * POST /api/projects/save
+ *
+ * Request body:
+ * - projectId: (optional) existing project to overwrite; a new ID is created if omitted
+ * - name: Display name for the project
+ * - state: ProjectState snapshot of the editor
+ *
+ * Response:
+ * - projectId: Project identifier (use it to load the project later)
+ * - name: Display name
+ * - schemaVersion: Project file format version written
+ * - assetCount: Number of asset files in the bundle
+ * - updatedAt: Save timestamp
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { saveProject } from "@/lib/projectStore";
+import { isSafeId } from "@/lib/dataDir";
+import type { SaveProjectRequest } from "@/types/project";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: SaveProjectRequest = await request.json();
+
+    if (!body.name || !body.state) {
+      return NextResponse.json(
+        { error: "name and state are required" },
+        { status: 400 }
+      );
+    }
+
+    if (body.projectId && !isSafeId(body.projectId)) {
+      return NextResponse.json(
+        { error: "Invalid projectId" },
+        { status: 400 }
+      );
+    }
+
+    const result = await saveProject(body.projectId, body.name, body.state);
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error("Project save error:", error);
+    return NextResponse.json(
+      { error: "Failed to save project", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
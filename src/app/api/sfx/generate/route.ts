@@ -0,0 +1,103 @@
+/**
+ * Sound Effect Generation API Route
+ *
+ * Generates a sound effect or ambient bed using the ElevenLabs sound effects API
+ * (or the local sound effect provider when GENERATION_PROVIDER=local).
+ * Ambient beds are generated as seamless loops, since ambient clips loop to fill
+ * their length on the timeline.
+ *
+ * POST /api/sfx/generate
+ *
+ * Request body:
+ * - prompt: Description of the sound
+ * - kind: "sfx" or "ambient"
+ * - durationSeconds: (optional) Length between 0.5 and 30 seconds; the model picks one when omitted
+ * - promptInfluence: (optional) 0-1, how literally the prompt is followed (default 0.3)
+ *
+ * Response:
+ * - audioAssetId: asset ID of the generated sound
+ * - audioUrl: URL to stream the sound
+ * - kind: "sfx" or "ambient"
+ * - source: "generated"
+ * - name: The prompt, shortened for display
+ * - prompt: The prompt used
+ * - durationSeconds: Duration from ffprobe
+ * - processingTimeMs: Time taken to generate
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { putAsset, resolveAssetPath } from "@/lib/assetStore";
+import { getAssetUrl } from "@/lib/assets";
+import { getSoundEffectProvider, ProviderError } from "@/lib/providers";
+import { probeAudioDuration } from "@/lib/narrationAlignment";
+import type { SoundEffect, SoundEffectGenerationRequest } from "@/types/sound-effect";
+
+const MIN_DURATION_SECONDS = 0.5;
+const MAX_DURATION_SECONDS = 30;
+const DEFAULT_PROMPT_INFLUENCE = 0.3;
+const MAX_NAME_LENGTH = 40;
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: SoundEffectGenerationRequest = await request.json();
+
+    if (!body.prompt?.trim() || (body.kind !== "sfx" && body.kind !== "ambient")) {
+      return NextResponse.json(
+        { error: "prompt and kind (sfx or ambient) are required" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      body.durationSeconds !== undefined &&
+      (body.durationSeconds < MIN_DURATION_SECONDS || body.durationSeconds > MAX_DURATION_SECONDS)
+    ) {
+      return NextResponse.json(
+        { error: `durationSeconds must be between ${MIN_DURATION_SECONDS} and ${MAX_DURATION_SECONDS}` },
+        { status: 400 }
+      );
+    }
+
+    const provider = getSoundEffectProvider();
+
+    const startTime = Date.now();
+    const prompt = body.prompt.trim();
+
+    const audioBuffer = await provider.generateSoundEffect(prompt, {
+      durationSeconds: body.durationSeconds,
+      promptInfluence: body.promptInfluence ?? DEFAULT_PROMPT_INFLUENCE,
+      loop: body.kind === "ambient",
+    });
+
+    // Store audio in the asset store
+    const audioAsset = await putAsset(audioBuffer, 'audio/mpeg');
+    const durationSeconds = await probeAudioDuration(await resolveAssetPath(audioAsset.assetId));
+
+    const result: SoundEffect = {
+      audioAssetId: audioAsset.assetId,
+      audioUrl: getAssetUrl(audioAsset.assetId),
+      kind: body.kind,
+      source: "generated",
+      name: prompt.length > MAX_NAME_LENGTH ? `${prompt.slice(0, MAX_NAME_LENGTH - 1)}…` : prompt,
+      prompt,
+      durationSeconds,
+      processingTimeMs: Date.now() - startTime,
+      timestamp: new Date().toISOString(),
+    };
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error("Sound effect generation error:", error);
+    if (error instanceof ProviderError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+    return NextResponse.json(
+      { error: "Failed to generate sound effect", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Sound Effect Import API Route
+ *
+ * Adds an uploaded audio file (e.g. from a licensed SFX library) to the project's
+ * sound effect library. The file is uploaded to the asset store first (POST /api/assets);
+ * this route checks it is audio and probes its duration with ffprobe.
+ *
+ * POST /api/sfx/import
+ *
+ * Request body:
+ * - audioAssetId: asset ID of the uploaded audio file
+ * - name: Name shown for the sound, usually the file name
+ * - kind: "sfx" or "ambient"
+ *
+ * Response:
+ * - audioAssetId: asset ID of the sound
+ * - audioUrl: URL to stream the sound
+ * - kind: "sfx" or "ambient"
+ * - source: "uploaded"
+ * - name: The sound's name
+ * - prompt: Always empty for uploaded sounds
+ * - durationSeconds: Duration from ffprobe
+ * - processingTimeMs: Time taken to probe
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { assetExists, getAssetRecord, resolveAssetPath } from "@/lib/assetStore";
+import { getAssetUrl } from "@/lib/assets";
+import { probeAudioDuration } from "@/lib/narrationAlignment";
+import type { SoundEffect, SoundEffectImportRequest } from "@/types/sound-effect";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: SoundEffectImportRequest = await request.json();
+
+    if (!body.audioAssetId || (body.kind !== "sfx" && body.kind !== "ambient")) {
+      return NextResponse.json(
+        { error: "audioAssetId and kind (sfx or ambient) are required" },
+        { status: 400 }
+      );
+    }
+
+    if (!assetExists(body.audioAssetId)) {
+      return NextResponse.json(
+        { error: `Audio asset ${body.audioAssetId} not found` },
+        { status: 404 }
+      );
+    }
+
+    const record = await getAssetRecord(body.audioAssetId);
+    if (!record.mimeType.startsWith("audio/")) {
+      return NextResponse.json(
+        { error: `Expected an audio file, got ${record.mimeType}` },
+        { status: 400 }
+      );
+    }
+
+    const startTime = Date.now();
+
+    const durationSeconds = await probeAudioDuration(await resolveAssetPath(body.audioAssetId)).catch(() => 0);
+    if (durationSeconds <= 0) {
+      return NextResponse.json(
+        { error: "Could not read the audio file", details: "ffprobe found no duration" },
+        { status: 400 }
+      );
+    }
+
+    const result: SoundEffect = {
+      audioAssetId: body.audioAssetId,
+      audioUrl: getAssetUrl(body.audioAssetId),
+      kind: body.kind,
+      source: "uploaded",
+      name: body.name?.trim() || (body.kind === "ambient" ? "Uploaded ambience" : "Uploaded sound"),
+      prompt: "",
+      durationSeconds,
+      processingTimeMs: Date.now() - startTime,
+      timestamp: new Date().toISOString(),
+    };
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error("Sound effect import error:", error);
+    return NextResponse.json(
+      { error: "Failed to import sound effect", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -1,16 +1,45 @@
-import { GoogleGenAI } from "@google/genai";
-import { NextRequest, NextResponse } from "next/server";
-import type { StoryboardResponse, StoryboardGenerationRequest } from "@/types/storyboard";
-
-const genAI = new GoogleGenAI({
-  apiKey: process.env.GOOGLE_AI_API_KEY!,
-});
+/**
+ * Storyboard Generation API Route
+ *
+ * Generates a storyboard (shots, narration, music prompt) for a product feature,
+ * optionally using analyses of uploaded screen recordings for UI shots.
+ * An optional targetDuration (15/30/60s) and pacing preset constrain shot count,
+ * UI clip lengths and the narration word budget (see lib/storyboardPacing.ts).
+ *
+ * POST /api/storyboard/generate
+ *
+ * The model is asked for JSON matching the storyboard schema. The response is
+ * validated and deterministically repaired (shot order, unknown videoIds, UI clip
+ * times clamped to the recording, UI clips refit to the target duration, narration
+ * clamped to the reel). If problems remain (including a total duration outside the
+ * target's tolerance), the model is re-asked with the validation errors, up to 3 attempts.
+ *
+ * Response: StoryboardResponse plus attempts, repairs, processingTimeMs, timestamp
+ */
 
-const GEMINI_MODEL = "gemini-2.5-flash";
+import { NextRequest, NextResponse } from "next/server";
+import type { StoryboardGenerationRequest } from "@/types/storyboard";
+import { getStoryboardProvider, ProviderError } from "@/lib/providers";
+import { generateValidated, StructuredOutputError } from "@/lib/structuredOutput";
+import { buildStoryboardSchema, validateStoryboard } from "@/lib/storyboardValidation";
+import { buildDurationPlan, formatDurationPlanPrompt, TARGET_DURATIONS, PACING_PRESETS, type DurationPlan } from "@/lib/storyboardPacing";
+import { formatBrandGuardrails, formatBrandSettings, formatStoryboardBrandContext } from "@/lib/brandPrompts";
+import type { BrandProfile } from "@/types/brand";
+import type { AspectRatio } from "@/types/output-format";
+import { ASPECT_RATIOS, isAspectRatio } from "@/lib/outputFormat";
+import { isOwnKey } from "@/lib/utils";
 
 const SYSTEM_PROMPT = `You are a creative director specializing in cinematic sizzle reels for software products and app features. Create compelling visual stories that showcase specific product functionality and user experience.`;
 
-const generateStoryboardPrompt = (productDescription: string, videoAnalyses?: StoryboardGenerationRequest["videoAnalyses"]) => {
+const generateStoryboardPrompt = (
+  productDescription: string,
+  videoAnalyses: StoryboardGenerationRequest["videoAnalyses"],
+  brandProfile: BrandProfile | undefined,
+  plan: DurationPlan,
+  aspectRatio: AspectRatio
+) => {
+  const brandGuardrails = formatBrandGuardrails(brandProfile);
+
   const videoContext = videoAnalyses && videoAnalyses.length > 0 ? `
 
 UI SCREEN RECORDING ANALYSIS:
@@ -31,16 +60,14 @@ You can reference these specific UI moments by their timestamps when deciding to
 
 Product Feature to Showcase: ${productDescription}${videoContext}
 
-Create a cinematic storyboard for a sizzle reel with 4-6 shots that showcases THIS SPECIFIC PRODUCT FEATURE in action. The story should focus on demonstrating the feature's functionality, benefits, and user experience.
+Create a cinematic storyboard for a sizzle reel with ${plan.minShots}-${plan.maxShots} shots that showcases THIS SPECIFIC PRODUCT FEATURE in action. The story should focus on demonstrating the feature's functionality, benefits, and user experience.
 
 Build a simple narrative arc:
 1. THE SETUP: User context or need that this feature addresses
 2. THE FEATURE IN ACTION: Showing the specific functionality being used
 3. THE BENEFIT: The positive outcome or value delivered by this feature
 
-CONTEXT: This is for the Free World app - a portal helping formerly incarcerated individuals train for and find work in the trucking industry. Use this context to inform authentic settings and character circumstances, but keep the PRIMARY FOCUS on showcasing the specific product feature described above.
-
-Focus on realistic, authentic settings - modest homes, community spaces, truck stops, training facilities, and other grounded environments. Avoid corporate or expensive locations.
+${formatStoryboardBrandContext(brandProfile)}
 
 SHOT TYPES:
 Your storyboard should intelligently mix two types of shots based on what best tells the story:
@@ -56,8 +83,8 @@ Your storyboard should intelligently mix two types of shots based on what best t
    - Include "videoId" field to specify which video to extract the clip from (REQUIRED)
    - Include "uiDescription" describing what's shown
    - Include "startTime" and "endTime" timestamps (in seconds) indicating which portion of the source recording to extract
-   - CRITICAL: The duration (endTime - startTime) MUST be at least 3 seconds minimum
-   - Example: If video analysis shows "5.0s-5.5s: user taps button", expand it to at least "5.0s-8.0s" to include the interaction and its result
+   - CRITICAL: The duration (endTime - startTime) MUST be at least ${plan.minUiClipSeconds} seconds minimum and at most ${plan.maxUiClipSeconds} seconds
+   - Example: If video analysis shows "5.0s-5.5s: user taps button", expand it to at least "5.0s-${(5 + plan.minUiClipSeconds).toFixed(1)}s" to include the interaction and its result
    - The clip will be extracted from the source recording and shown in the final sizzle reel for its full duration
    - Set "shotType": "ui"
 
@@ -72,6 +99,8 @@ ${videoAnalyses && videoAnalyses.length > 1 ? `- When you have multiple videos a
 
 The cinematic story should be told through human behavior, emotional beats, and environmental storytelling focused on THIS SPECIFIC FEATURE.
 
+${formatDurationPlanPrompt(plan)}
+
 Return your response as a JSON object with this exact structure:
 {
   "title": "Catchy title for the sizzle reel",
@@ -82,7 +111,7 @@ Return your response as a JSON object with this exact structure:
       "shotType": "cinematic",
       "title": "Shot title",
       "description": "What happens in this shot and why it's important",
-      "stillPrompt": "Detailed prompt for generating a cinematic landscape still image...",
+      "stillPrompt": "Detailed prompt for generating a cinematic ${aspectRatio} still image...",
       "videoPrompt": "Detailed prompt for generating a cinematic video sequence...",
       "order": 1
     },
@@ -96,7 +125,7 @@ Return your response as a JSON object with this exact structure:
       "startTime": 5.0,
       "endTime": 10.5,
       "order": 2,
-      "note": "startTime/endTime should span 3-8 seconds to give viewers time to see and understand the UI. videoId MUST match one of the provided video IDs from the analysis above"
+      "note": "startTime/endTime should span ${plan.minUiClipSeconds}-${plan.maxUiClipSeconds} seconds to give viewers time to see and understand the UI. videoId MUST match one of the provided video IDs from the analysis above"
     }
   ],
   "narration": [
@@ -119,7 +148,7 @@ Return your response as a JSON object with this exact structure:
 For CINEMATIC shots, make the still and video prompts extremely detailed and cinematic, focusing on:
 
 CINEMATIC PRODUCTION:
-- Landscape orientation (16:9 aspect ratio)
+- Frame for ${ASPECT_RATIOS[aspectRatio].orientation}
 - Professional camera work: specific lens choices (35mm, 50mm, 85mm), camera movements (dolly, crane, handheld)
 - Advanced lighting: golden hour, blue hour, practical lighting, three-point lighting, rim lighting, dramatic shadows
 - Depth of field: shallow focus, bokeh effects, foreground/background separation
@@ -130,7 +159,7 @@ VISUAL STORYTELLING:
 - Human emotions, reactions, and body language that demonstrate the feature's value
 - Natural device interaction (without showing screens) - typing, scrolling, gesturing, holding
 - Environmental context that supports demonstrating this specific feature
-- Authentic settings: modest homes, community centers, truck stops, training facilities, highways
+- Authentic settings: ${formatBrandSettings(brandProfile)}
 - Technical cinematography details for AI generation: f-stop, focal length, lighting direction
 
 VIDEO PRODUCTION GUIDELINES (IMPORTANT - ALL VIDEOS ARE 8 SECONDS):
@@ -175,10 +204,10 @@ STYLE GUARDRAILS (CRITICAL):
 - Characters should NOT be speaking, singing, or making verbal sounds
 - NO extra fingers, body warping, or anatomical distortions
 - NO harsh, stylized color grading or heavy post-processing effects
-- NO text overlays, subtitles, or graphics in the shots
+- NO text overlays, subtitles, or graphics in the shots${brandGuardrails ? `\n${brandGuardrails}` : ''}
 
 NARRATIVE ARC REQUIREMENTS:
-Each shot should build upon the previous one to tell a cohesive story that demonstrates this specific product feature's functionality and value. The progression should feel authentic, natural, and focused on showcasing the feature in action. Remember: the Free World context provides setting and authenticity, but the PRIMARY FOCUS is demonstrating the specific feature described in the product description.
+Each shot should build upon the previous one to tell a cohesive story that demonstrates this specific product feature's functionality and value. The progression should feel authentic, natural, and focused on showcasing the feature in action. Remember: the brand context provides setting and authenticity, but the PRIMARY FOCUS is demonstrating the specific feature described in the product description.
 
 NARRATION REQUIREMENTS:
 Create professional voiceover narration segments that flow naturally across the visual timeline:
@@ -203,7 +232,7 @@ REQUIRED ELEMENTS:
 - MUST include the exact duration in the prompt (e.g., "32 seconds" or "45.5 seconds")
 - MUST include temporal structure with specific timestamps showing when instrumentation/dynamics change
 - Be descriptive and detailed - more information = better results
-- Include mood descriptors that match the emotional journey of the shots (uplifting, hopeful, contemplative, confident, warm, etc.)
+- Include mood descriptors that match the emotional journey of the shots (uplifting, hopeful, contemplative, confident, warm, etc.)${brandProfile?.tone ? ` and the brand tone (${brandProfile.tone})` : ''}
 - Include musical style/genre (Indie, acoustic, ambient, cinematic, etc.)
 - Include instrumentation details (acoustic guitar, piano, strings, subtle synth, etc.)
 - Optionally include tempo (e.g., "110 BPM") and key signature (e.g., "in C major")
@@ -224,7 +253,7 @@ CONTEXT-DRIVEN MUSIC:
 - If shots show feature use → build momentum and confidence
 - If shots show positive outcome → resolve with warmth and hope
 - Tie instrumentation changes to narrative beats, not arbitrary timestamps
-- DO NOT mention the product, feature, Free World, or narrative context in the music prompt
+- DO NOT mention the product, feature, brand, or narrative context in the music prompt
 - ONLY describe musical characteristics: mood, instrumentation, tempo, key, dynamics, timing
 
 Example format: "Contemplative acoustic indie instrumental only, 32 seconds, begins immediately at 0s with no leading silence or fade-in delay. Opens with sparse solo piano (0-10s), acoustic guitar enters at 10s building gentle momentum (10-22s), subtle strings join at 22s for warm confident resolution (22-32s), 100 BPM, in G major, natural reverb, gentle dynamics to allow space for voiceover, authentic and human-centered feel."
@@ -247,58 +276,71 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!process.env.GOOGLE_AI_API_KEY) {
+    if (body.targetDuration !== undefined && !TARGET_DURATIONS.includes(body.targetDuration)) {
       return NextResponse.json(
-        { error: "Google AI API key not configured" },
-        { status: 500 }
+        { error: `targetDuration must be one of ${TARGET_DURATIONS.join(", ")} seconds` },
+        { status: 400 }
       );
     }
 
-    const prompt = generateStoryboardPrompt(body.productDescription, body.videoAnalyses);
-
-    const startTime = Date.now();
-    const response = await genAI.models.generateContent({
-      model: GEMINI_MODEL,
-      contents: [{ text: prompt }],
-    });
-    const processingTimeMs = Date.now() - startTime;
-
-    if (!response.candidates?.[0]?.content?.parts?.[0]?.text) {
+    if (body.pacing !== undefined && !isOwnKey(PACING_PRESETS, body.pacing)) {
       return NextResponse.json(
-        { error: "No response generated from Gemini" },
-        { status: 500 }
+        { error: `pacing must be one of ${Object.keys(PACING_PRESETS).join(", ")}` },
+        { status: 400 }
       );
     }
 
-    const responseText = response.candidates[0].content.parts[0].text;
-
-    // Parse the JSON response - handle markdown code blocks
-    let storyboard: StoryboardResponse;
-    try {
-      // Remove markdown code blocks if present
-      let cleanedText = responseText.trim();
-      if (cleanedText.startsWith("```json")) {
-        cleanedText = cleanedText.replace(/^```json\s*/, "").replace(/\s*```$/, "");
-      } else if (cleanedText.startsWith("```")) {
-        cleanedText = cleanedText.replace(/^```\s*/, "").replace(/\s*```$/, "");
-      }
-
-      storyboard = JSON.parse(cleanedText);
-    } catch {
-      console.error("Failed to parse Gemini response:", responseText);
+    if (body.aspectRatio !== undefined && !isAspectRatio(body.aspectRatio)) {
       return NextResponse.json(
-        { error: "Failed to generate valid storyboard" },
-        { status: 500 }
+        { error: "aspectRatio must be 16:9, 9:16 or 1:1" },
+        { status: 400 }
       );
     }
 
+    const provider = getStoryboardProvider();
+    const plan = buildDurationPlan(body.targetDuration, body.pacing);
+    const prompt = generateStoryboardPrompt(
+      body.productDescription,
+      body.videoAnalyses,
+      body.brandProfile,
+      plan,
+      body.aspectRatio || "16:9"
+    );
+
+    const videoAnalyses = body.videoAnalyses || [];
+    const responseSchema = buildStoryboardSchema(videoAnalyses.map(analysis => analysis.videoId));
+
+    // Repair what can be fixed deterministically, re-ask the model for the rest
+    const startTime = Date.now();
+    const { value: storyboard, attempts, repairs } = await generateValidated(
+      (currentPrompt) => provider.generateStoryboard(currentPrompt, body, responseSchema),
+      prompt,
+      (raw) => validateStoryboard(raw, videoAnalyses, plan)
+    );
+    const processingTimeMs = Date.now() - startTime;
+
     return NextResponse.json({
       ...storyboard,
+      attempts,
+      repairs,
       processingTimeMs,
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
     console.error("Storyboard generation error:", error);
+    if (error instanceof StructuredOutputError) {
+      console.error("Last invalid storyboard response:", error.lastResponse);
+      return NextResponse.json(
+        { error: "Failed to generate valid storyboard", details: error.errors.join("; ") },
+        { status: 500 }
+      );
+    }
+    if (error instanceof ProviderError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
     return NextResponse.json(
       { error: "Failed to generate storyboard" },
       { status: 500 }
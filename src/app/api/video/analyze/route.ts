@@ -8,9 +8,12 @@
  * POST /api/video/analyze
  *
  * Request body:
- * - video: base64 encoded video data
+ * - videoAssetId: asset ID of the uploaded (compressed) recording
  * - mimeType: video MIME type (e.g., "video/mp4")
  *
+ * The response is validated (timestamps coerced to numbers and clamped to the duration);
+ * invalid output is sent back to the model with the errors, up to 3 attempts.
+ *
  * Response:
  * - segments: Array of timestamped segments with descriptions
  * - overallDescription: Summary of what the video shows
@@ -22,15 +25,12 @@
  * - Recommended video length: under 60 seconds
  */
 
-import { GoogleGenAI } from "@google/genai";
 import { NextRequest, NextResponse } from "next/server";
 import type { VideoAnalysisResponse, VideoUploadRequest } from "@/types/video-analysis";
-
-const genAI = new GoogleGenAI({
-  apiKey: process.env.GOOGLE_AI_API_KEY!,
-});
-
-const GEMINI_MODEL = "gemini-2.5-flash";
+import { getAssetRecord, readAsset } from "@/lib/assetStore";
+import { getVideoAnalysisProvider, ProviderError } from "@/lib/providers";
+import { generateValidated, StructuredOutputError } from "@/lib/structuredOutput";
+import { validateVideoAnalysis, VIDEO_ANALYSIS_SCHEMA } from "@/lib/videoAnalysisValidation";
 
 // File size limit: 10MB (Gemini API limitation)
 const MAX_FILE_SIZE_BYTES = 10 * 1024 * 1024;
@@ -83,28 +83,18 @@ export async function POST(request: NextRequest) {
   try {
     const body: VideoUploadRequest = await request.json();
 
-    if (!body.video || !body.mimeType) {
+    if (!body.videoAssetId || !body.mimeType) {
       return NextResponse.json(
-        { error: "Video data and mimeType are required" },
+        { error: "videoAssetId and mimeType are required" },
         { status: 400 }
       );
     }
 
-    if (!process.env.GOOGLE_AI_API_KEY) {
-      return NextResponse.json(
-        { error: "Google AI API key not configured" },
-        { status: 500 }
-      );
-    }
-
-    // Extract base64 data (remove data URL prefix if present)
-    let base64Data = body.video;
-    if (base64Data.includes(',')) {
-      base64Data = base64Data.split(',')[1];
-    }
+    const provider = getVideoAnalysisProvider();
 
-    // Validate file size (base64 is ~33% larger than original, so decode to check actual size)
-    const fileSizeBytes = (base64Data.length * 3) / 4;
+    // Validate file size before loading the video into memory
+    const videoRecord = await getAssetRecord(body.videoAssetId);
+    const fileSizeBytes = videoRecord.size;
     if (fileSizeBytes > MAX_FILE_SIZE_BYTES) {
       return NextResponse.json(
         {
@@ -115,55 +105,22 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const videoData = await readAsset(body.videoAssetId);
+
     const startTime = Date.now();
 
-    // Send video to Gemini for analysis
-    const response = await genAI.models.generateContent({
-      model: GEMINI_MODEL,
-      contents: [
-        { text: VIDEO_ANALYSIS_PROMPT },
-        {
-          inlineData: {
-            mimeType: body.mimeType,
-            data: base64Data
-          }
-        }
-      ],
-    });
+    // Send video to the model for analysis, re-asking if the output is invalid
+    const { value: analysis } = await generateValidated(
+      (prompt) => provider.analyzeVideo(prompt, { data: videoData, mimeType: body.mimeType }, VIDEO_ANALYSIS_SCHEMA),
+      VIDEO_ANALYSIS_PROMPT,
+      validateVideoAnalysis
+    );
 
     const processingTimeMs = Date.now() - startTime;
 
-    if (!response.candidates?.[0]?.content?.parts?.[0]?.text) {
-      return NextResponse.json(
-        { error: "No response generated from Gemini" },
-        { status: 500 }
-      );
-    }
-
-    const responseText = response.candidates[0].content.parts[0].text;
-
-    // Parse the JSON response - handle markdown code blocks
-    let analysis: Omit<VideoAnalysisResponse, "processingTimeMs" | "timestamp">;
-    try {
-      let cleanedText = responseText.trim();
-      if (cleanedText.startsWith("```json")) {
-        cleanedText = cleanedText.replace(/^```json\s*/, "").replace(/\s*```$/, "");
-      } else if (cleanedText.startsWith("```")) {
-        cleanedText = cleanedText.replace(/^```\s*/, "").replace(/\s*```$/, "");
-      }
-
-      analysis = JSON.parse(cleanedText);
-    } catch {
-      console.error("Failed to parse Gemini response:", responseText);
-      return NextResponse.json(
-        { error: "Failed to analyze video" },
-        { status: 500 }
-      );
-    }
-
     const result: VideoAnalysisResponse = {
-      videoId: body.videoId || 'default-video',
       ...analysis,
+      videoId: body.videoId || 'default-video',
       processingTimeMs,
       timestamp: new Date().toISOString(),
     };
@@ -172,6 +129,19 @@ export async function POST(request: NextRequest) {
 
   } catch (error) {
     console.error("Video analysis error:", error);
+    if (error instanceof StructuredOutputError) {
+      console.error("Last invalid video analysis response:", error.lastResponse);
+      return NextResponse.json(
+        { error: "Failed to analyze video", details: error.errors.join("; ") },
+        { status: 500 }
+      );
+    }
+    if (error instanceof ProviderError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
     return NextResponse.json(
       { error: "Failed to analyze video" },
       { status: 500 }
@@ -1,18 +1,31 @@
 /**
  * Final Video Assembly API Route
  *
- * Combines silent video with narration and ducked music audio tracks into final sizzle reel.
+ * Combines silent video with narration, ducked music and (optionally) sound effects
+ * audio tracks into final sizzle reel.
  *
  * POST /api/video/assemble
  *
  * Request body:
- * - videoUrl: base64 data URL of silent stitched video
- * - narrationAudioUrl: base64 data URL of positioned narration track
- * - musicAudioUrl: base64 data URL of ducked music track
+ * - videoAssetId: asset ID of silent stitched video
+ * - narrationAudioAssetId: asset ID of positioned narration track
+ * - musicAudioAssetId: asset ID of ducked music track
+ * - effectsAudioAssetId: (optional) asset ID of the sound effects and ambient track
+ * - captions: (optional) caption cues and style to burn into the video
+ * - loudnessPreset: (optional) "web" (default), "broadcast" or "podcast"
+ *
+ * Without captions the video stream is copied as-is; burning captions in re-encodes it,
+ * drawing each cue with FFmpeg drawtext like a text clip (see lib/captions.ts).
+ *
+ * The audio tracks are summed at their own levels and mastered to the preset's
+ * loudness: each track and the mix are measured (EBU R128) first, then the mix is
+ * normalized and true-peak limited (see lib/loudnessMastering.ts).
  *
  * Response:
- * - videoUrl: base64 data URL of final sizzle reel
+ * - videoAssetId: asset ID of final sizzle reel
+ * - videoUrl: URL to stream/download the final sizzle reel
  * - duration: Total duration in seconds
+ * - loudness: Loudness of each track, the mix and the final reel, and the target
  * - processingTimeMs: Time taken to assemble
  *
  * Note: Uses /tmp directory which has 512MB limit on Vercel (see issue #102)
@@ -21,23 +34,44 @@
 import { NextRequest, NextResponse } from "next/server";
 import { exec } from "child_process";
 import { promisify } from "util";
-import { writeFile, unlink, mkdir, stat } from "fs/promises";
+import { writeFile, unlink, mkdir } from "fs/promises";
 import { existsSync } from "fs";
 import path from "path";
 import { tmpdir } from "os";
+import { putAssetFile, resolveAssetPath } from "@/lib/assetStore";
+import { getAssetUrl } from "@/lib/assets";
+import { captionCueToTextClip } from "@/lib/captions";
+import { buildDrawtextFilter } from "@/lib/textOverlay";
+import { DEFAULT_LOUDNESS_PRESET, LOUDNESS_PRESETS, isLoudnessPreset } from "@/lib/loudness";
+import {
+  buildMasteringFilter,
+  measureFileLoudness,
+  measureFilterLoudness,
+  OUTPUT_SAMPLE_RATE,
+} from "@/lib/loudnessMastering";
+import type { CaptionCue, CaptionStyle } from "@/types/captions";
+import type { LoudnessPreset, LoudnessReport } from "@/types/loudness";
 
 const execAsync = promisify(exec);
 
 interface VideoAssembleRequest {
-  videoUrl: string; // base64 data URL
-  narrationAudioUrl: string; // base64 data URL
-  musicAudioUrl: string; // base64 data URL
+  videoAssetId: string;
+  narrationAudioAssetId: string;
+  musicAudioAssetId: string;
+  effectsAudioAssetId?: string;
+  captions?: {
+    cues: CaptionCue[];
+    style: CaptionStyle;
+  };
+  loudnessPreset?: LoudnessPreset;
 }
 
 interface VideoAssembleResponse {
-  videoUrl: string; // base64 data URL
+  videoAssetId: string;
+  videoUrl: string; // URL to stream the final video
   duration: number;
   fileSize: number; // bytes
+  loudness: LoudnessReport;
   processingTimeMs: number;
   timestamp: string;
 }
@@ -49,12 +83,21 @@ export async function POST(request: NextRequest) {
   try {
     const body: VideoAssembleRequest = await request.json();
 
-    if (!body.videoUrl || !body.narrationAudioUrl || !body.musicAudioUrl) {
+    if (!body.videoAssetId || !body.narrationAudioAssetId || !body.musicAudioAssetId) {
+      return NextResponse.json(
+        { error: "videoAssetId, narrationAudioAssetId, and musicAudioAssetId are required" },
+        { status: 400 }
+      );
+    }
+
+    const loudnessPreset = body.loudnessPreset ?? DEFAULT_LOUDNESS_PRESET;
+    if (!isLoudnessPreset(loudnessPreset)) {
       return NextResponse.json(
-        { error: "videoUrl, narrationAudioUrl, and musicAudioUrl are required" },
+        { error: `Unknown loudness preset: ${loudnessPreset}` },
         { status: 400 }
       );
     }
+    const target = LOUDNESS_PRESETS[loudnessPreset].target;
 
     const startTime = Date.now();
 
@@ -63,46 +106,66 @@ export async function POST(request: NextRequest) {
       await mkdir(tempDir, { recursive: true });
     }
 
-    // Write video file to temp
-    const videoBase64 = body.videoUrl.split(',')[1] || body.videoUrl;
-    const videoBuffer = Buffer.from(videoBase64, 'base64');
-    const videoPath = path.join(tempDir, `video-${Date.now()}.mp4`);
-    await writeFile(videoPath, videoBuffer);
-    tempFiles.push(videoPath);
-
-    // Write narration audio to temp
-    const narrationBase64 = body.narrationAudioUrl.split(',')[1] || body.narrationAudioUrl;
-    const narrationBuffer = Buffer.from(narrationBase64, 'base64');
-    const narrationPath = path.join(tempDir, `narration-${Date.now()}.mp3`);
-    await writeFile(narrationPath, narrationBuffer);
-    tempFiles.push(narrationPath);
-
-    // Write music audio to temp
-    const musicBase64 = body.musicAudioUrl.split(',')[1] || body.musicAudioUrl;
-    const musicBuffer = Buffer.from(musicBase64, 'base64');
-    const musicPath = path.join(tempDir, `music-${Date.now()}.mp3`);
-    await writeFile(musicPath, musicBuffer);
-    tempFiles.push(musicPath);
+    // Resolve inputs straight from the asset store
+    const videoPath = await resolveAssetPath(body.videoAssetId);
+    const narrationPath = await resolveAssetPath(body.narrationAudioAssetId);
+    const musicPath = await resolveAssetPath(body.musicAudioAssetId);
+    const effectsPath = body.effectsAudioAssetId ? await resolveAssetPath(body.effectsAudioAssetId) : null;
 
     // Output path
     const outputPath = path.join(tempDir, `final-sizzle-reel-${Date.now()}.mp4`);
     tempFiles.push(outputPath);
 
-    // Mix audio tracks and combine with video
-    // Use amix to combine narration + music, then map to video
-    const ffmpegCommand = `ffmpeg -i "${videoPath}" -i "${narrationPath}" -i "${musicPath}" -filter_complex "[1:a][2:a]amix=inputs=2:dropout_transition=0[a]" -map 0:v -map "[a]" -c:v copy -c:a aac -b:a 192k -y "${outputPath}"`;
+    // Burned-in captions need the video re-encoded; otherwise copy it untouched
+    let videoFilter = "";
+    let videoCodec = "-c:v copy";
+    const cues = body.captions?.cues.filter(cue => cue.text.trim()) || [];
+    if (body.captions && cues.length > 0) {
+      const { stdout: heightOutput } = await execAsync(
+        `ffprobe -v error -select_streams v:0 -show_entries stream=height -of default=noprint_wrappers=1:nokey=1 "${videoPath}"`
+      );
+      const frameHeight = parseInt(heightOutput.trim(), 10) || 1080;
+
+      const drawtextFilters: string[] = [];
+      for (let i = 0; i < cues.length; i++) {
+        // drawtext reads the text from a file so quotes, colons and newlines need no escaping
+        const textClip = captionCueToTextClip(cues[i], body.captions.style, i);
+        const textFilePath = path.join(tempDir, `caption-${Date.now()}-${i}.txt`);
+        await writeFile(textFilePath, textClip.text);
+        tempFiles.push(textFilePath);
+        drawtextFilters.push(buildDrawtextFilter(textClip, textFilePath, frameHeight));
+      }
+
+      videoFilter = `[0:v]${drawtextFilters.join(',')}[v];`;
+      videoCodec = "-c:v libx264 -preset fast -crf 23 -pix_fmt yuv420p";
+    }
 
-    await execAsync(ffmpegCommand, { timeout: 60000 }); // 60 second timeout
+    // Sum narration, music and effects at their own levels - the narration track is
+    // already normalized and the music ducked under it - then measure each and the mix
+    const effectsInput = effectsPath ? ` -i "${effectsPath}"` : '';
+    const inputs = `-i "${videoPath}" -i "${narrationPath}" -i "${musicPath}"${effectsInput}`;
+    const mixFilter = effectsPath
+      ? `[1:a][2:a][3:a]amix=inputs=3:dropout_transition=0:normalize=0[mix]`
+      : `[1:a][2:a]amix=inputs=2:dropout_transition=0:normalize=0[mix]`;
+
+    const stems = {
+      narration: await measureFileLoudness(narrationPath),
+      music: await measureFileLoudness(musicPath),
+      effects: effectsPath ? await measureFileLoudness(effectsPath) : null,
+    };
+    const mixLoudness = await measureFilterLoudness(inputs, mixFilter, "[mix]");
 
-    // Read final video
-    const { readFile } = await import('fs/promises');
-    const finalBuffer = await readFile(outputPath);
-    const finalBase64 = finalBuffer.toString('base64');
-    const videoUrl = `data:video/mp4;base64,${finalBase64}`;
+    // Master the mix and combine with video
+    const videoMap = videoFilter ? '-map "[v]"' : '-map 0:v';
+    const audioFilter = `${mixFilter};[mix]${buildMasteringFilter(target, mixLoudness)}[a]`;
+    const ffmpegCommand = `ffmpeg ${inputs} -filter_complex "${videoFilter}${audioFilter}" ${videoMap} -map "[a]" ${videoCodec} -c:a aac -b:a 192k -ar ${OUTPUT_SAMPLE_RATE} -y "${outputPath}"`;
 
-    // Get file stats
-    const stats = await stat(outputPath);
-    const fileSize = stats.size;
+    // Re-encoding for captions takes longer than a stream copy
+    await execAsync(ffmpegCommand, { timeout: videoFilter ? 300000 : 60000 });
+
+    // Store final video
+    const finalAsset = await putAssetFile(outputPath, 'video/mp4');
+    const fileSize = finalAsset.size;
 
     // Get video duration using ffprobe
     const { stdout: probeOutput } = await execAsync(
@@ -110,12 +173,22 @@ export async function POST(request: NextRequest) {
     );
     const duration = parseFloat(probeOutput.trim());
 
+    const loudness: LoudnessReport = {
+      preset: loudnessPreset,
+      target,
+      stems,
+      mix: mixLoudness,
+      output: await measureFileLoudness(outputPath),
+    };
+
     const processingTimeMs = Date.now() - startTime;
 
     const result: VideoAssembleResponse = {
-      videoUrl,
+      videoAssetId: finalAsset.assetId,
+      videoUrl: getAssetUrl(finalAsset.assetId),
       duration,
       fileSize,
+      loudness,
       processingTimeMs,
       timestamp: new Date().toISOString(),
     };
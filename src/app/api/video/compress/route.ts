@@ -7,11 +7,11 @@
  * POST /api/video/compress
  *
  * Request body:
- * - videoData: base64 data URL of video
+ * - videoAssetId: asset ID of the original video
  * - targetSizeMB: target file size in MB (default: 9)
  *
  * Response:
- * - compressedVideo: base64 data URL of compressed video
+ * - compressedAssetId: asset ID of compressed video
  * - originalSize: original file size in bytes
  * - compressedSize: compressed file size in bytes
  * - compressionRatio: ratio of compression
@@ -23,20 +23,21 @@
 import { NextRequest, NextResponse } from "next/server";
 import { exec } from "child_process";
 import { promisify } from "util";
-import { writeFile, unlink, mkdir } from "fs/promises";
+import { unlink, mkdir } from "fs/promises";
 import { existsSync } from "fs";
 import path from "path";
 import { tmpdir } from "os";
+import { getAssetRecord, putAssetFile, resolveAssetPath } from "@/lib/assetStore";
 
 const execAsync = promisify(exec);
 
 interface VideoCompressRequest {
-  videoData: string; // base64 data URL
+  videoAssetId: string;
   targetSizeMB?: number; // target size in MB (default: 9)
 }
 
 interface VideoCompressResponse {
-  compressedVideo: string; // base64 data URL
+  compressedAssetId: string;
   originalSize: number; // bytes
   compressedSize: number; // bytes
   compressionRatio: number; // e.g., 0.5 means 50% of original
@@ -51,9 +52,9 @@ export async function POST(request: NextRequest) {
   try {
     const body: VideoCompressRequest = await request.json();
 
-    if (!body.videoData) {
+    if (!body.videoAssetId) {
       return NextResponse.json(
-        { error: "videoData is required" },
+        { error: "videoAssetId is required" },
         { status: 400 }
       );
     }
@@ -66,14 +67,9 @@ export async function POST(request: NextRequest) {
       await mkdir(tempDir, { recursive: true });
     }
 
-    // Extract base64 data and write to temp file
-    const base64Data = body.videoData.split(',')[1] || body.videoData;
-    const videoBuffer = Buffer.from(base64Data, 'base64');
-    const originalSize = videoBuffer.length;
-
-    const inputPath = path.join(tempDir, `input-${Date.now()}.mp4`);
-    await writeFile(inputPath, videoBuffer);
-    tempFiles.push(inputPath);
+    // Read the original straight from the asset store
+    const originalSize = (await getAssetRecord(body.videoAssetId)).size;
+    const inputPath = await resolveAssetPath(body.videoAssetId);
 
     // Output path
     const outputPath = path.join(tempDir, `compressed-${Date.now()}.mp4`);
@@ -89,10 +85,9 @@ export async function POST(request: NextRequest) {
 
     await execAsync(ffmpegCommand, { timeout: 120000 }); // 2 minute timeout
 
-    // Read compressed video
-    const { readFile } = await import('fs/promises');
-    const compressedBuffer = await readFile(outputPath);
-    const compressedSize = compressedBuffer.length;
+    // Store compressed video
+    const compressedAsset = await putAssetFile(outputPath, 'video/mp4');
+    const compressedSize = compressedAsset.size;
 
     // Check if compression achieved target
     const compressedSizeMB = compressedSize / (1024 * 1024);
@@ -100,14 +95,11 @@ export async function POST(request: NextRequest) {
       console.warn(`Compressed video (${compressedSizeMB.toFixed(2)}MB) exceeds target (${targetSizeMB}MB)`);
     }
 
-    const compressedBase64 = compressedBuffer.toString('base64');
-    const compressedVideo = `data:video/mp4;base64,${compressedBase64}`;
-
     const compressionRatio = compressedSize / originalSize;
     const processingTimeMs = Date.now() - startTime;
 
     const result: VideoCompressResponse = {
-      compressedVideo,
+      compressedAssetId: compressedAsset.assetId,
       originalSize,
       compressedSize,
       compressionRatio,
@@ -8,13 +8,14 @@
  *
  * Request body:
  * - shotId: Unique identifier for the shot
- * - videoData: base64 encoded video data
+ * - videoAssetId: asset ID of the source recording
  * - startTime: Start time in seconds
  * - endTime: End time in seconds
  *
  * Response:
  * - shotId: Shot identifier
- * - videoUrl: base64 data URL of extracted clip
+ * - videoAssetId: asset ID of extracted clip
+ * - videoUrl: URL to stream the extracted clip
  * - duration: Actual duration of extracted clip
  * - processingTimeMs: Time taken to extract
  */
@@ -22,23 +23,26 @@
 import { NextRequest, NextResponse } from "next/server";
 import { exec } from "child_process";
 import { promisify } from "util";
-import { writeFile, unlink, mkdir } from "fs/promises";
+import { unlink, mkdir } from "fs/promises";
 import { existsSync } from "fs";
 import path from "path";
 import { tmpdir } from "os";
+import { putAssetFile, resolveAssetPath } from "@/lib/assetStore";
+import { getAssetUrl } from "@/lib/assets";
 
 const execAsync = promisify(exec);
 
 interface VideoExtractRequest {
   shotId: string;
-  videoData: string; // base64 data URL
+  videoAssetId: string;
   startTime: number;
   endTime: number;
 }
 
 interface VideoExtractResponse {
   shotId: string;
-  videoUrl: string; // base64 data URL of extracted clip
+  videoAssetId: string;
+  videoUrl: string; // URL to stream the extracted clip
   duration: number;
   processingTimeMs: number;
   timestamp: string;
@@ -46,15 +50,14 @@ interface VideoExtractResponse {
 
 export async function POST(request: NextRequest) {
   const tempDir = path.join(tmpdir(), 'sizzle-reel-extract');
-  let inputPath: string | null = null;
   let outputPath: string | null = null;
 
   try {
     const body: VideoExtractRequest = await request.json();
 
-    if (!body.shotId || !body.videoData || body.startTime === undefined || body.endTime === undefined) {
+    if (!body.shotId || !body.videoAssetId || body.startTime === undefined || body.endTime === undefined) {
       return NextResponse.json(
-        { error: "shotId, videoData, startTime, and endTime are required" },
+        { error: "shotId, videoAssetId, startTime, and endTime are required" },
         { status: 400 }
       );
     }
@@ -74,15 +77,9 @@ export async function POST(request: NextRequest) {
       await mkdir(tempDir, { recursive: true });
     }
 
-    // Extract base64 data from data URL
-    const base64Data = body.videoData.split(',')[1] || body.videoData;
-    const videoBuffer = Buffer.from(base64Data, 'base64');
-
-    // Write input video to temp file
-    inputPath = path.join(tempDir, `input-${body.shotId}.mp4`);
-    outputPath = path.join(tempDir, `output-${body.shotId}.mp4`);
-
-    await writeFile(inputPath, videoBuffer);
+    // Read the source recording straight from the asset store
+    const inputPath = await resolveAssetPath(body.videoAssetId);
+    outputPath = path.join(tempDir, `output-${body.shotId}-${Date.now()}.mp4`);
 
     // Extract clip using FFmpeg
     // -ss: start time (before input for faster seeking)
@@ -93,17 +90,15 @@ export async function POST(request: NextRequest) {
 
     await execAsync(ffmpegCommand);
 
-    // Read extracted clip
-    const { readFile } = await import('fs/promises');
-    const clipBuffer = await readFile(outputPath);
-    const clipBase64 = clipBuffer.toString('base64');
-    const videoUrl = `data:video/mp4;base64,${clipBase64}`;
+    // Store extracted clip
+    const clipAsset = await putAssetFile(outputPath, 'video/mp4');
 
     const processingTimeMs = Date.now() - startTime;
 
     const result: VideoExtractResponse = {
       shotId: body.shotId,
-      videoUrl,
+      videoAssetId: clipAsset.assetId,
+      videoUrl: getAssetUrl(clipAsset.assetId),
       duration,
       processingTimeMs,
       timestamp: new Date().toISOString(),
@@ -120,9 +115,6 @@ export async function POST(request: NextRequest) {
   } finally {
     // Cleanup temp files
     try {
-      if (inputPath && existsSync(inputPath)) {
-        await unlink(inputPath);
-      }
       if (outputPath && existsSync(outputPath)) {
         await unlink(outputPath);
       }
@@ -9,11 +9,25 @@
  * Request body:
  * - timeline: Timeline with video clips
  * - shots: Record of storyboard shots by ID
- * - generatedVideos: Record of generated video URLs by shot ID
- * - generatedImages: Record of generated image URLs by shot ID (for stills)
+ * - generatedVideos: Record of generated video asset IDs by shot ID
+ * - generatedImages: Record of generated image asset IDs by shot ID (for stills)
+ * - outputFormat: aspect ratio and UI reframe mode (default 16:9, smart reframe)
+ *
+ * Every clip is normalized to the output frame size (1920x1080, 1080x1920 or 1080x1080)
+ * at 30fps; see lib/videoReframe.ts for how cinematic and UI clips are fitted.
+ * Clips play from their in point (trim handles, see lib/videoTrim.ts) for their
+ * timeline duration, so clips trimmed or shortened on the timeline (e.g. cuts aligned
+ * to the music's downbeats) are trimmed in the export too. Gaps between clips on the
+ * timeline (e.g. left by an overwrite trim) are filled with black.
+ * Clips are then joined with their `transition` (lib/transitions.ts): a timeline of
+ * plain cuts is concatenated without re-encoding, anything else goes through FFmpeg
+ * xfade, which overlaps each transition so the output is shorter than the sum of clips.
+ * Text clips (title cards, callouts, end cards) are then burned in with FFmpeg drawtext;
+ * see lib/textOverlay.ts for the layout shared with the preview.
  *
  * Response:
- * - videoUrl: base64 data URL of stitched silent video
+ * - videoAssetId: asset ID of stitched silent video
+ * - videoUrl: URL to stream the stitched video
  * - duration: Total duration in seconds
  * - processingTimeMs: Time taken to stitch
  *
@@ -27,21 +41,34 @@ import { writeFile, unlink, mkdir } from "fs/promises";
 import { existsSync } from "fs";
 import path from "path";
 import { tmpdir } from "os";
-import type { Timeline } from "@/types/timeline";
+import type { ClipTransition, Timeline } from "@/types/timeline";
 import type { StoryboardShot } from "@/types/storyboard";
-import { isVideoClip } from "@/types/timeline";
+import { isTextClip, isVideoClip } from "@/types/timeline";
+import { putAssetFile, resolveAssetPath } from "@/lib/assetStore";
+import { getAssetUrl } from "@/lib/assets";
+import { ASPECT_RATIOS, DEFAULT_OUTPUT_FORMAT, isAspectRatio } from "@/lib/outputFormat";
+import { buildReframeFilter } from "@/lib/videoReframe";
+import { buildTransitionFilter, CUT, getTransitionOverlap } from "@/lib/transitions";
+import { getClipSourceOffset } from "@/lib/videoTrim";
+import { buildDrawtextFilter } from "@/lib/textOverlay";
+import type { OutputFormat } from "@/types/output-format";
 
 const execAsync = promisify(exec);
 
+// Shorter gaps between clips are rounding, not gaps
+const GAP_TOLERANCE_SECONDS = 0.05;
+
 interface VideoStitchRequest {
   timeline: Timeline;
   shots: Record<string, StoryboardShot>;
-  generatedVideos: Record<string, { videoUrl: string }>;
-  generatedImages?: Record<string, { imageUrl: string }>;
+  generatedVideos: Record<string, { videoAssetId: string }>;
+  generatedImages?: Record<string, { imageAssetId: string }>;
+  outputFormat?: OutputFormat;
 }
 
 interface VideoStitchResponse {
-  videoUrl: string; // base64 data URL
+  videoAssetId: string;
+  videoUrl: string; // URL to stream the stitched video
   duration: number;
   processingTimeMs: number;
   timestamp: string;
@@ -61,6 +88,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (body.outputFormat && !isAspectRatio(body.outputFormat.aspectRatio)) {
+      return NextResponse.json(
+        { error: "outputFormat.aspectRatio must be 16:9, 9:16 or 1:1" },
+        { status: 400 }
+      );
+    }
+    const outputFormat = { ...DEFAULT_OUTPUT_FORMAT, ...body.outputFormat };
+
     const startTime = Date.now();
 
     // Create temp directory if it doesn't exist
@@ -89,68 +124,125 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Write and normalize each clip to ensure consistent format
-    const clipPaths: string[] = [];
+    // Write and normalize each clip to ensure consistent format, with black for any gap before it
+    const { width, height } = ASPECT_RATIOS[outputFormat.aspectRatio];
+    const segments: { path: string; transition?: ClipTransition }[] = [];
     for (let i = 0; i < videoClips.length; i++) {
       const clip = videoClips[i];
       const shot = body.shots[clip.shotId];
+      const prevClip = videoClips[i - 1];
 
       if (!shot) {
         throw new Error(`Shot ${clip.shotId} not found`);
       }
 
-      // Get video source
+      // Get video source straight from the asset store
       const videoData = body.generatedVideos[clip.shotId];
-      if (!videoData?.videoUrl) {
+      if (!videoData?.videoAssetId) {
         throw new Error(`Video not found for shot ${clip.shotId}`);
       }
+      const originalClipPath = await resolveAssetPath(videoData.videoAssetId);
 
-      // Extract base64 data
-      const base64Data = videoData.videoUrl.split(',')[1] || videoData.videoUrl;
-      const videoBuffer = Buffer.from(base64Data, 'base64');
-
-      // Write original clip to temp file
-      const originalClipPath = path.join(tempDir, `clip-${i}-${clip.shotId}-original.mp4`);
-      await writeFile(originalClipPath, videoBuffer);
-      tempFiles.push(originalClipPath);
+      const expectedStart = prevClip
+        ? prevClip.startTime + prevClip.duration - getTransitionOverlap(clip.transition, prevClip.duration, clip.duration)
+        : 0;
+      const gap = clip.startTime - expectedStart;
+      if (gap > GAP_TOLERANCE_SECONDS) {
+        const gapPath = path.join(tempDir, `gap-${i}-${clip.shotId}.mp4`);
+        await execAsync(
+          `ffmpeg -f lavfi -i "color=c=black:s=${width}x${height}:r=30" -t ${gap.toFixed(3)} -c:v libx264 -preset fast -crf 23 -pix_fmt yuv420p -an -y "${gapPath}"`
+        );
+        tempFiles.push(gapPath);
+        segments.push({ path: gapPath, transition: CUT });
+      }
 
-      // Normalize clip: re-encode to consistent format (1920x1080, 30fps, h264)
+      // Normalize clip: re-encode to consistent format (output frame size, 30fps, h264)
       // This prevents freezing issues from mismatched frame rates/codecs
       const normalizedClipPath = path.join(tempDir, `clip-${i}-${clip.shotId}-normalized.mp4`);
-      const normalizeCommand = `ffmpeg -i "${originalClipPath}" -vf "scale=1920:1080:force_original_aspect_ratio=decrease,pad=1920:1080:(ow-iw)/2:(oh-ih)/2:black,fps=30" -c:v libx264 -preset fast -crf 23 -an -y "${normalizedClipPath}"`;
+      const reframeFilter = await buildReframeFilter(originalClipPath, shot.shotType, outputFormat);
+      const sourceOffset = getClipSourceOffset(clip, shot);
+      const seek = sourceOffset > 0 ? `-ss ${sourceOffset.toFixed(3)} ` : '';
+      const normalizeCommand = `ffmpeg ${seek}-t ${clip.duration} -i "${originalClipPath}" -filter_complex "[0:v]${reframeFilter}[v]" -map "[v]" -c:v libx264 -preset fast -crf 23 -pix_fmt yuv420p -an -y "${normalizedClipPath}"`;
       await execAsync(normalizeCommand);
 
       tempFiles.push(normalizedClipPath);
-      clipPaths.push(normalizedClipPath);
+      segments.push({ path: normalizedClipPath, transition: clip.transition });
     }
 
-    // Create concat file for FFmpeg
-    const concatFilePath = path.join(tempDir, 'concat-list.txt');
-    const concatContent = clipPaths.map(p => `file '${p}'`).join('\n');
-    await writeFile(concatFilePath, concatContent);
-    tempFiles.push(concatFilePath);
-
     // Output path
     const outputPath = path.join(tempDir, `stitched-${Date.now()}.mp4`);
     tempFiles.push(outputPath);
 
-    // Stitch normalized videos using FFmpeg concat
-    // Since clips are already normalized (same resolution, fps, codec), use copy for speed
-    const ffmpegCommand = `ffmpeg -f concat -safe 0 -i "${concatFilePath}" -c copy -y "${outputPath}"`;
+    let duration = body.timeline.totalDuration;
+    const hasTransitions = segments.some(
+      (segment, i) => i > 0 && segment.transition && segment.transition.type !== 'cut'
+    );
+
+    if (hasTransitions) {
+      // xfade offsets need the real clip lengths, which can differ from the timeline's
+      const durations: number[] = [];
+      for (const segment of segments) {
+        const { stdout } = await execAsync(
+          `ffprobe -v error -show_entries format=duration -of default=noprint_wrappers=1:nokey=1 "${segment.path}"`
+        );
+        durations.push(parseFloat(stdout.trim()) || 0);
+      }
+
+      const transitionGraph = buildTransitionFilter(segments.map(segment => segment.transition), durations);
+      const inputs = segments.map(segment => `-i "${segment.path}"`).join(' ');
+      const ffmpegCommand = `ffmpeg ${inputs} -filter_complex "${transitionGraph.filter}" -map "[v]" -c:v libx264 -preset fast -crf 23 -pix_fmt yuv420p -an -y "${outputPath}"`;
+
+      await execAsync(ffmpegCommand);
+      duration = transitionGraph.duration;
+    } else {
+      // Create concat file for FFmpeg
+      const concatFilePath = path.join(tempDir, 'concat-list.txt');
+      const concatContent = segments.map(segment => `file '${segment.path}'`).join('\n');
+      await writeFile(concatFilePath, concatContent);
+      tempFiles.push(concatFilePath);
+
+      // Stitch normalized videos using FFmpeg concat
+      // Since clips are already normalized (same resolution, fps, codec), use copy for speed
+      const ffmpegCommand = `ffmpeg -f concat -safe 0 -i "${concatFilePath}" -c copy -y "${outputPath}"`;
+
+      await execAsync(ffmpegCommand);
+    }
 
-    await execAsync(ffmpegCommand);
+    // Burn in text overlays
+    const textClips = body.timeline.tracks
+      .filter(track => track.type === 'text')
+      .flatMap(track => track.clips)
+      .filter(isTextClip)
+      .filter(clip => clip.text.trim());
+
+    let finalPath = outputPath;
+    if (textClips.length > 0) {
+      const drawtextFilters: string[] = [];
+
+      for (let i = 0; i < textClips.length; i++) {
+        // drawtext reads the text from a file so quotes, colons and newlines need no escaping
+        const textFilePath = path.join(tempDir, `text-${Date.now()}-${i}.txt`);
+        await writeFile(textFilePath, textClips[i].text);
+        tempFiles.push(textFilePath);
+        drawtextFilters.push(buildDrawtextFilter(textClips[i], textFilePath, height));
+      }
+
+      finalPath = path.join(tempDir, `stitched-text-${Date.now()}.mp4`);
+      tempFiles.push(finalPath);
+
+      const textCommand = `ffmpeg -i "${outputPath}" -vf "${drawtextFilters.join(',')}" -c:v libx264 -preset fast -crf 23 -pix_fmt yuv420p -an -y "${finalPath}"`;
+      await execAsync(textCommand);
+    }
 
-    // Read stitched video
-    const { readFile } = await import('fs/promises');
-    const stitchedBuffer = await readFile(outputPath);
-    const stitchedBase64 = stitchedBuffer.toString('base64');
-    const videoUrl = `data:video/mp4;base64,${stitchedBase64}`;
+    // Store stitched video
+    const stitchedAsset = await putAssetFile(finalPath, 'video/mp4');
 
     const processingTimeMs = Date.now() - startTime;
 
     const result: VideoStitchResponse = {
-      videoUrl,
-      duration: body.timeline.totalDuration,
+      videoAssetId: stitchedAsset.assetId,
+      videoUrl: getAssetUrl(stitchedAsset.assetId),
+      duration,
       processingTimeMs,
       timestamp: new Date().toISOString(),
     };
@@ -1,166 +1,93 @@
 /**
  * Video Generation API Route
  *
- * Generates video clips from still images using Google Gemini Veo 2.
- * Takes a still image and motion prompt to create an animated video clip.
+ * Queues a background job that generates a video clip from a still image using
+ * Google Gemini Veo. Returns immediately with a job ID; poll
+ * GET /api/videos/jobs/:jobId for progress and the finished video.
  *
  * POST /api/videos/generate
  *
  * Request body:
  * - shotId: Unique identifier for the shot
- * - imageUrl: base64 data URL of the still image
+ * - imageAssetId: asset ID of the still image
  * - prompt: Motion/video prompt describing desired animation
+ * - model: (optional) 'veo-2' | 'veo-3' (default: veo-3)
+ * - aspectRatio: (optional) '16:9' | '9:16' | '1:1' (default: 16:9; 1:1 is rendered 16:9 and cropped when stitching)
  *
- * Response:
+ * Response (202 Accepted):
+ * - jobId: Background job identifier
  * - shotId: Shot identifier
- * - videoUrl: base64 data URL of generated video
- * - prompt: The prompt used
- * - processingTimeMs: Time taken to generate
+ * - status: Initial job status ('queued')
  *
  * Notes:
- * - Uses Veo 2.0 model (veo-2.0-generate-001)
+ * - Uses Veo 3.0 (veo-3.0-generate-001) or Veo 2.0 (veo-2.0-generate-001)
  * - Generates 720p, 24fps video up to 8 seconds
  * - Cost: $0.35/second
  * - Videos are stored on server for 2 days only
+ * - Set GENERATION_PROVIDER=local to generate placeholder clips locally (see lib/providers/local.ts)
  */
 
-import { GoogleGenAI } from "@google/genai";
 import { NextRequest, NextResponse } from "next/server";
-import type { VideoGenerationRequest, VideoGenerationResponse } from "@/types/video-generation";
-
-const genAI = new GoogleGenAI({
-  apiKey: process.env.GOOGLE_AI_API_KEY!,
-});
-
-const VEO_MODELS = {
-  'veo-2': 'veo-2.0-generate-001',
-  'veo-3': 'veo-3.0-generate-001',
-} as const;
-
-const POLL_INTERVAL_MS = 20000; // Poll every 20 seconds
-const MAX_POLL_ATTEMPTS = 30; // Max 10 minutes (30 * 20s)
+import type { SubmitVideoJobResponse, VideoGenerationRequest } from "@/types/video-generation";
+import { assetExists } from "@/lib/assetStore";
+import { submitVideoJob } from "@/lib/videoJobQueue";
+import { getImageToVideoProvider, ProviderError } from "@/lib/providers";
+import { isAspectRatio } from "@/lib/outputFormat";
 
 export async function POST(request: NextRequest) {
   try {
     const body: VideoGenerationRequest = await request.json();
 
-    if (!body.shotId || !body.imageUrl || !body.prompt) {
+    if (!body.shotId || !body.imageAssetId || !body.prompt) {
       return NextResponse.json(
-        { error: "shotId, imageUrl, and prompt are required" },
+        { error: "shotId, imageAssetId, and prompt are required" },
         { status: 400 }
       );
     }
 
-    // Select model (default to veo-3)
-    const selectedModel = body.model || 'veo-3';
-    const modelId = VEO_MODELS[selectedModel];
-
-    if (!process.env.GOOGLE_AI_API_KEY) {
+    if (body.aspectRatio && !isAspectRatio(body.aspectRatio)) {
       return NextResponse.json(
-        { error: "Google AI API key not configured" },
-        { status: 500 }
-      );
-    }
-
-    // Extract base64 data from data URL
-    const [mimeTypePart, base64Data] = body.imageUrl.split(',');
-    const mimeType = mimeTypePart.match(/data:([^;]+)/)?.[1] || 'image/png';
-
-    const startTime = Date.now();
-
-    // Start video generation operation
-    const operation = await genAI.models.generateVideos({
-      model: modelId,
-      prompt: body.prompt,
-      image: {
-        imageBytes: base64Data,
-        mimeType: mimeType as 'image/png' | 'image/jpeg',
-      },
-      config: {
-        personGeneration: 'allow_adult',
-        aspectRatio: '16:9',
-      },
-    });
-
-    console.log('Operation created successfully:', operation);
-    console.log('Operation name:', operation?.name);
-    console.log('Operation type:', typeof operation);
-
-    if (!operation?.name) {
-      console.error('Invalid operation response:', operation);
-      return NextResponse.json(
-        { error: "Failed to start video generation operation" },
-        { status: 500 }
+        { error: "aspectRatio must be 16:9, 9:16 or 1:1" },
+        { status: 400 }
       );
     }
 
-    const operationName = operation.name;
-    console.log('Stored operation name:', operationName);
-    console.log('genAI.operations:', genAI.operations);
-    console.log('genAI keys:', Object.keys(genAI));
-
-    // Poll for completion
-    let attempts = 0;
-    let currentOperation = operation;
-
-    while (!currentOperation.done && attempts < MAX_POLL_ATTEMPTS) {
-      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
-      currentOperation = await genAI.operations.getVideosOperation({ operation: currentOperation });
-      attempts++;
-    }
-
-    if (!currentOperation.done) {
-      return NextResponse.json(
-        { error: "Video generation timed out. Please try again." },
-        { status: 408 }
-      );
-    }
+    // Fail fast on configuration errors (e.g. missing API key) instead of in the background job
+    getImageToVideoProvider();
 
-    if (!currentOperation.response?.generatedVideos?.[0]?.video) {
+    if (!assetExists(body.imageAssetId)) {
       return NextResponse.json(
-        { error: "No video generated" },
-        { status: 500 }
+        { error: `Image asset ${body.imageAssetId} not found` },
+        { status: 404 }
       );
     }
 
-    const processingTimeMs = Date.now() - startTime;
-
-    // Download the generated video from URI
-    const generatedVideo = currentOperation.response.generatedVideos[0];
-    if (!generatedVideo?.video?.uri) {
-      throw new Error("No video URI in response");
-    }
-    const videoUri = generatedVideo.video.uri;
-
-    // Fetch the video data directly from the URI with API key authentication
-    const videoResponse = await fetch(videoUri, {
-      headers: {
-        'x-goog-api-key': process.env.GOOGLE_AI_API_KEY!,
-      },
-    });
-    if (!videoResponse.ok) {
-      throw new Error(`Failed to download video: ${videoResponse.statusText}`);
-    }
-
-    // Convert video to base64 data URL
-    const videoBuffer = await videoResponse.arrayBuffer();
-    const videoBase64 = Buffer.from(videoBuffer).toString('base64');
-    const videoUrl = `data:video/mp4;base64,${videoBase64}`;
-
-    const result: VideoGenerationResponse = {
+    const job = await submitVideoJob({
       shotId: body.shotId,
-      videoUrl,
+      imageAssetId: body.imageAssetId,
       prompt: body.prompt,
-      processingTimeMs,
-      timestamp: new Date().toISOString(),
+      model: body.model || 'veo-3',
+      aspectRatio: body.aspectRatio || '16:9',
+    });
+
+    const result: SubmitVideoJobResponse = {
+      jobId: job.jobId,
+      shotId: job.request.shotId,
+      status: job.status,
     };
 
-    return NextResponse.json(result);
+    return NextResponse.json(result, { status: 202 });
 
   } catch (error) {
     console.error("Video generation error:", error);
+    if (error instanceof ProviderError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
     return NextResponse.json(
-      { error: "Failed to generate video", details: error instanceof Error ? error.message : String(error) },
+      { error: "Failed to start video generation", details: error instanceof Error ? error.message : String(error) },
       { status: 500 }
     );
   }
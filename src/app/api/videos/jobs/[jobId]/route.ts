@@ -0,0 +1,54 @@
+/**
+ * Video Generation Job Status API Route
+ *
+ * Reports the state of a background Veo generation job. Checking an unfinished job
+ * whose worker was lost (e.g. after a server restart) resumes polling Veo.
+ *
+ * GET /api/videos/jobs/:jobId
+ *
+ * Response: VideoGenerationJob
+ * - jobId: Job identifier
+ * - status: 'queued' | 'running' | 'succeeded' | 'failed'
+ * - request: The original generation request
+ * - operationName: Veo operation name (once running)
+ * - result: VideoGenerationResponse (when succeeded)
+ * - error: Failure reason (when failed)
+ * - createdAt / updatedAt: Timestamps
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { isSafeId } from "@/lib/dataDir";
+import { getVideoJob } from "@/lib/videoJobQueue";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await params;
+
+    if (!isSafeId(jobId)) {
+      return NextResponse.json(
+        { error: "Invalid job ID" },
+        { status: 400 }
+      );
+    }
+
+    const job = await getVideoJob(jobId);
+    if (!job) {
+      return NextResponse.json(
+        { error: `Job ${jobId} not found` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(job);
+
+  } catch (error) {
+    console.error("Video job status error:", error);
+    return NextResponse.json(
+      { error: "Failed to get video job status", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
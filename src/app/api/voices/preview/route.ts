@@ -0,0 +1,77 @@
+/**
+ * Voice Audition API Route
+ *
+ * Renders a short sample with a voice and its settings so they can be compared
+ * before regenerating narration. Samples are content-addressed assets, so auditioning
+ * the same voice, settings and text again reuses the stored audio.
+ *
+ * POST /api/voices/preview
+ *
+ * Request body:
+ * - voiceId: Voice to audition
+ * - voiceSettings: VoiceSettings - stability, similarityBoost, style, speed
+ * - text: (optional) Text to speak, defaults to a short sample sentence
+ * - pronunciations: (optional) PronunciationEntry[] - project lexicon, applied as for narration
+ *
+ * Response:
+ * - audioAssetId: asset ID of the sample
+ * - audioUrl: URL to stream the sample
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { putAsset } from "@/lib/assetStore";
+import { getAssetUrl } from "@/lib/assets";
+import { getSpeechProvider, ProviderError } from "@/lib/providers";
+import { AUDITION_TEXT, DEFAULT_SPEECH_MODEL, validateVoiceSettings } from "@/lib/voices";
+import { applyPronunciations, PHONEME_SPEECH_MODEL } from "@/lib/pronunciation";
+import type { VoicePreviewRequest, VoicePreviewResponse } from "@/types/voice";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: VoicePreviewRequest = await request.json();
+
+    if (!body.voiceId || !body.voiceSettings) {
+      return NextResponse.json(
+        { error: "voiceId and voiceSettings are required" },
+        { status: 400 }
+      );
+    }
+
+    const settingsError = validateVoiceSettings(body.voiceSettings);
+    if (settingsError) {
+      return NextResponse.json(
+        { error: settingsError },
+        { status: 400 }
+      );
+    }
+
+    const spoken = applyPronunciations(body.text?.trim() || AUDITION_TEXT, body.pronunciations);
+    const { audio } = await getSpeechProvider().generateSpeech(spoken.text, {
+      voiceId: body.voiceId,
+      modelId: spoken.usesPhonemes ? PHONEME_SPEECH_MODEL : DEFAULT_SPEECH_MODEL,
+      settings: body.voiceSettings,
+    });
+
+    const audioAsset = await putAsset(audio, 'audio/mpeg');
+
+    const result: VoicePreviewResponse = {
+      audioAssetId: audioAsset.assetId,
+      audioUrl: getAssetUrl(audioAsset.assetId),
+    };
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error("Voice preview error:", error);
+    if (error instanceof ProviderError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+    return NextResponse.json(
+      { error: "Failed to preview voice", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Voice List API Route
+ *
+ * Lists the voices available from the speech provider (the ElevenLabs voice library,
+ * or the local tones when GENERATION_PROVIDER=local), sorted by name.
+ *
+ * GET /api/voices
+ *
+ * Response:
+ * - voices: Array of VoiceOption
+ */
+
+import { NextResponse } from "next/server";
+import { getSpeechProvider, ProviderError } from "@/lib/providers";
+import type { VoiceListResponse } from "@/types/voice";
+
+export async function GET() {
+  try {
+    const voices = await getSpeechProvider().listVoices();
+    const result: VoiceListResponse = { voices };
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Voice list error:", error);
+    if (error instanceof ProviderError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+    return NextResponse.json(
+      { error: "Failed to list voices", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -1,48 +1,104 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { MainLayout } from "@/components/layout/main-layout";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Textarea } from "@/components/ui/textarea";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import type { StoryboardResponse } from "@/types/storyboard";
+import type { NarrationSegment, PacingPreset, StoryboardResponse, StoryboardShot, TargetDuration } from "@/types/storyboard";
 import type { StillImageResponse } from "@/types/still-image";
 import type { VideoGenerationResponse } from "@/types/video-generation";
 import type { NarrationGenerationResponse } from "@/types/narration";
-import type { MusicGenerationResponse, MusicDuckingSettings } from "@/types/music";
-import type { Timeline as TimelineType } from "@/types/timeline";
+import type { MusicBeatGrid, MusicGenerationResponse, MusicDuckingSettings } from "@/types/music";
+import { isMusicClip } from "@/types/timeline";
+import type { ProjectState } from "@/types/project";
+import type { OutputFormat } from "@/types/output-format";
+import type { CaptionStyle } from "@/types/captions";
+import type { LoudnessPreset } from "@/types/loudness";
+import type { NarrationVoice } from "@/types/voice";
+import type { PronunciationEntry } from "@/types/pronunciation";
+import type { SoundEffect } from "@/types/sound-effect";
 import { TimelineV2 } from "@/components/timeline/TimelineV2";
 import { PreviewPlayerV2 } from "@/components/timeline/PreviewPlayerV2";
+import { HistoryPanel } from "@/components/timeline/HistoryPanel";
 import { BlockEditorPanel } from "@/components/editors/BlockEditorPanel";
 import { UploadSection } from "@/components/upload/UploadSection";
 import { ExportSection } from "@/components/export/ExportSection";
-import { storyboardToTimeline, updateNarrationDuration, updateClipPosition, calculateStoryboardDuration, addMusicToTimeline } from "@/lib/timelineConverter";
+import { LocalizationSection } from "@/components/export/LocalizationSection";
+import { SoundEffectLibrary } from "@/components/audio/SoundEffectLibrary";
+import { ProjectToolbar } from "@/components/project/ProjectToolbar";
+import { BrandProfileEditor } from "@/components/brand/BrandProfileEditor";
+import { StoryboardLengthControls } from "@/components/storyboard/StoryboardLengthControls";
+import { OutputFormatControls } from "@/components/storyboard/OutputFormatControls";
+import { InsertShotControls } from "@/components/storyboard/InsertShotControls";
+import { VoicePicker } from "@/components/voice/VoicePicker";
+import { PronunciationLexiconEditor } from "@/components/voice/PronunciationLexiconEditor";
+import { storyboardToTimeline, updateNarrationDuration, updateClipPosition, updateClipTransition, trimVideoClip, reorderShot, insertShot, duplicateShot, splitShot, deleteShot, addNarrationSegment, getNextNarrationSegment, splitNarrationSegment, mergeNarrationSegments, deleteNarrationSegment, addTextClip, updateTextClip, removeTimelineClip, calculateStoryboardDuration, addMusicToTimeline, addMusicClip, updateMusicClip, addSoundEffectClip, updateSoundEffectClip, alignCutsToBeats, calculateVideoDuration } from "@/lib/timelineConverter";
 import { useErrorToast } from "@/hooks/use-error-toast";
 import { useExportSizzleReel } from "@/hooks/useExportSizzleReel";
 import { useVideoManagement } from "@/hooks/useVideoManagement";
+import { useProjectPersistence } from "@/hooks/useProjectPersistence";
+import { useVideoJobs } from "@/hooks/useVideoJobs";
+import { useBrandProfiles } from "@/hooks/useBrandProfiles";
+import { useVoices } from "@/hooks/useVoices";
+import { useLocalization } from "@/hooks/useLocalization";
+import { useSoundEffects } from "@/hooks/useSoundEffects";
+import { useProjectHistory } from "@/hooks/useProjectHistory";
 import { generateStoryboard } from "@/services/storyboardService";
 import { extractClip } from "@/services/videoService";
-import { generateStillImage, generateVideo } from "@/services/mediaService";
-import { generateNarration, generateMusic } from "@/services/audioService";
+import { generateStillImage } from "@/services/mediaService";
+import { generateNarration, generateMusic, analyzeMusic, importMusic } from "@/services/audioService";
+import { uploadAsset } from "@/services/assetService";
+import { getAssetUrl } from "@/lib/assets";
+import { getTimelineBeatTimes } from "@/lib/musicFit";
+import { DEFAULT_PACING } from "@/lib/storyboardPacing";
+import { DEFAULT_OUTPUT_FORMAT } from "@/lib/outputFormat";
+import { DEFAULT_CAPTION_STYLE } from "@/lib/captions";
+import { DEFAULT_LOUDNESS_PRESET } from "@/lib/loudness";
+import { DEFAULT_NARRATION_VOICE, resolveSegmentVoice } from "@/lib/voices";
 
 export default function Home() {
   const { showError } = useErrorToast();
   const [productDescription, setProductDescription] = useState("");
-  const [baseImage, setBaseImage] = useState<string | null>(null);
-  const [storyboard, setStoryboard] = useState<StoryboardResponse | null>(null);
-  const [timeline, setTimeline] = useState<TimelineType | null>(null);
+  const [baseImageAssetId, setBaseImageAssetId] = useState<string | null>(null);
+  const [targetDuration, setTargetDuration] = useState<TargetDuration | null>(null);
+  const [pacing, setPacing] = useState<PacingPreset>(DEFAULT_PACING);
+  const [outputFormat, setOutputFormat] = useState<OutputFormat>(DEFAULT_OUTPUT_FORMAT);
+  const [captionStyle, setCaptionStyle] = useState<CaptionStyle>(DEFAULT_CAPTION_STYLE);
+  const [loudnessPreset, setLoudnessPreset] = useState<LoudnessPreset>(DEFAULT_LOUDNESS_PRESET);
+  const [narrationVoice, setNarrationVoice] = useState<NarrationVoice>(DEFAULT_NARRATION_VOICE);
+  const [pronunciationLexicon, setPronunciationLexicon] = useState<PronunciationEntry[]>([]);
+  // Storyboard and timeline edits go through the history for undo/redo
+  const {
+    storyboard,
+    timeline,
+    setStoryboard,
+    setTimeline,
+    editProject,
+    updateAllEntries,
+    resetHistory,
+    sealHistory,
+    historyEntries,
+    currentEntryId,
+    canUndo,
+    canRedo,
+    handleUndo,
+    handleRedo,
+    handleJumpToEntry,
+  } = useProjectHistory();
   const [loading, setLoading] = useState(false);
   const [generatedImages, setGeneratedImages] = useState<Record<string, StillImageResponse>>({});
   const [generatingImages, setGeneratingImages] = useState<Record<string, boolean>>({});
   const [generatedVideos, setGeneratedVideos] = useState<Record<string, VideoGenerationResponse>>({});
-  const [generatingVideos, setGeneratingVideos] = useState<Record<string, boolean>>({});
   const [extractingClips, setExtractingClips] = useState<Record<string, boolean>>({});
   const [veoModel, setVeoModel] = useState<'veo-2' | 'veo-3'>('veo-3');
   const [generatedNarration, setGeneratedNarration] = useState<Record<string, NarrationGenerationResponse>>({});
   const [generatingNarration, setGeneratingNarration] = useState<Record<string, boolean>>({});
   const [generatedMusic, setGeneratedMusic] = useState<MusicGenerationResponse | null>(null);
+  const [musicCandidates, setMusicCandidates] = useState<MusicGenerationResponse[]>([]);
   const [generatingMusic, setGeneratingMusic] = useState(false);
+  const [importingMusic, setImportingMusic] = useState(false);
   const [musicDuckingSettings, setMusicDuckingSettings] = useState<MusicDuckingSettings>({
     enabled: true,
     normalVolume: 0.3,
@@ -54,26 +110,48 @@ export default function Home() {
   const [selectedBlockId, setSelectedBlockId] = useState<string | null>(null);
   const [isInputSectionCollapsed, setIsInputSectionCollapsed] = useState(false);
 
+  // Sound effect library hook
+  const {
+    soundEffects,
+    setSoundEffects,
+    generatingSoundEffect,
+    importingSoundEffect,
+    handleGenerateSoundEffect,
+    handleImportSoundEffect,
+    handleRemoveSoundEffect,
+  } = useSoundEffects({ timeline });
+
   // Export hook
   const {
     exportingVideo,
     exportProgress,
     exportedVideoUrl,
+    burnInCaptions,
+    setBurnInCaptions,
+    captionFiles,
+    loudnessReport,
+    localizedExports,
     handleExportSizzleReel,
+    handleExportLocalizedReel,
     handleDownloadVideo
   } = useExportSizzleReel({
     timeline,
     storyboard,
     generatedMusic,
+    musicCandidates,
     generatedNarration,
     generatedVideos,
     generatedImages,
     musicDuckingSettings,
+    outputFormat,
+    captionStyle,
+    loudnessPreset,
   });
 
   // Video management hook
   const {
     videoFiles,
+    videoAnalyses,
     analyzingVideos,
     currentAnalyzingVideo,
     compressingVideos,
@@ -88,24 +166,163 @@ export default function Home() {
     confirmDeleteVideo,
     setPreviewingVideo,
     setDeleteWarningOpen,
+    restoreVideos,
     analyzeVideosIfNeeded,
   } = useVideoManagement({
     onStoryboardClear: () => {
-      setStoryboard(null);
-      setTimeline(null);
+      resetHistory({ storyboard: null, timeline: null }, "Cleared storyboard");
       setGeneratedImages({});
       setGeneratedVideos({});
       setGeneratedNarration({});
       setGeneratedMusic(null);
+      setLocalizations({});
     },
   });
 
+  // Brand profiles hook
+  const {
+    brandProfiles,
+    selectedBrandId,
+    setSelectedBrandId,
+    selectedBrandProfile,
+    savingBrandProfile,
+    handleSaveBrandProfile,
+    handleDeleteBrandProfile,
+  } = useBrandProfiles();
+
+  // Voice library hook
+  const {
+    voices,
+    auditioningVoice,
+    handleAuditionVoice,
+  } = useVoices();
+
+  // Localized versions of the reel
+  const {
+    localizations,
+    localizingLanguage,
+    localizationProgress,
+    setLocalizations,
+    handleLocalize,
+    handleRemoveLocalization,
+  } = useLocalization({
+    storyboard,
+    timeline,
+    pronunciationLexicon,
+    brandProfile: selectedBrandProfile,
+  });
+
+  // Project persistence hook
+  const {
+    projectId,
+    projectName,
+    setProjectName,
+    savingProject,
+    loadingProject,
+    savedProjects,
+    lastSavedAt,
+    restoreComplete,
+    handleSaveProject,
+    handleLoadProject,
+  } = useProjectPersistence({
+    getProjectState: (): ProjectState => ({
+      productDescription,
+      brandProfileId: selectedBrandId,
+      baseImageAssetId,
+      targetDuration,
+      pacing,
+      outputFormat,
+      storyboard,
+      timeline,
+      generatedImages,
+      generatedVideos,
+      generatedNarration,
+      generatedMusic,
+      musicCandidates,
+      musicDuckingSettings,
+      soundEffects,
+      captionStyle,
+      loudnessPreset,
+      narrationVoice,
+      pronunciationLexicon,
+      localizations,
+      veoModel,
+      videoFiles,
+      videoAnalyses,
+    }),
+    onProjectLoaded: (state) => {
+      setProductDescription(state.productDescription);
+      if (state.brandProfileId) {
+        setSelectedBrandId(state.brandProfileId);
+      }
+      setBaseImageAssetId(state.baseImageAssetId);
+      setTargetDuration(state.targetDuration);
+      setPacing(state.pacing);
+      setOutputFormat(state.outputFormat);
+      resetHistory({ storyboard: state.storyboard, timeline: state.timeline }, "Opened project");
+      setGeneratedImages(state.generatedImages);
+      setGeneratedVideos(state.generatedVideos);
+      setGeneratedNarration(state.generatedNarration);
+      setGeneratedMusic(state.generatedMusic);
+      setMusicCandidates(state.musicCandidates);
+      setMusicDuckingSettings(state.musicDuckingSettings);
+      setSoundEffects(state.soundEffects);
+      setCaptionStyle(state.captionStyle);
+      setLoudnessPreset(state.loudnessPreset);
+      setNarrationVoice(state.narrationVoice);
+      setPronunciationLexicon(state.pronunciationLexicon);
+      setLocalizations(state.localizations);
+      setVeoModel(state.veoModel);
+      restoreVideos(state.videoFiles, state.videoAnalyses);
+      setSelectedBlockId(null);
+      setIsInputSectionCollapsed(!!state.storyboard);
+    },
+  });
+
+  // Background Veo generation jobs
+  const {
+    generatingVideos,
+    startVideoJob,
+    resumePendingVideoJobs,
+  } = useVideoJobs({
+    onVideoReady: (shotId, result) => {
+      setGeneratedVideos(prev => ({ ...prev, [shotId]: result }));
+    },
+    hasShot: (shotId) => !!storyboard?.shots.some(shot => shot.id === shotId),
+  });
+
+  // Resume jobs left running before a refresh, once the last project has been restored
+  // so its saved videos don't overwrite the results
+  useEffect(() => {
+    if (restoreComplete) {
+      resumePendingVideoJobs();
+    }
+  }, [restoreComplete, resumePendingVideoJobs]);
+
   // Create shots lookup for timeline components
   const shotsLookup = storyboard?.shots.reduce((acc, shot) => {
     acc[shot.id] = shot;
     return acc;
   }, {} as Record<string, typeof storyboard.shots[0]>) || {};
 
+  // Music tracks music clips can play, by asset ID
+  const musicTracks = useMemo(() => {
+    const tracks: Record<string, MusicGenerationResponse> = {};
+    for (const music of [...(generatedMusic ? [generatedMusic] : []), ...musicCandidates]) {
+      tracks[music.audioAssetId] = music;
+    }
+    return tracks;
+  }, [generatedMusic, musicCandidates]);
+
+  // Library sounds sfx and ambient clips can play, by asset ID
+  const soundEffectsLookup = useMemo(() => {
+    const lookup: Record<string, SoundEffect> = {};
+    for (const effect of soundEffects) {
+      lookup[effect.audioAssetId] = effect;
+    }
+    return lookup;
+  }, [soundEffects]);
+
   // Check if all cinematic shots have generated videos
   const allCinematicVideosGenerated = storyboard?.shots
     .filter(shot => shot.shotType === 'cinematic')
@@ -121,13 +338,12 @@ export default function Home() {
       return;
     }
 
-    // Convert to base64
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const result = e.target?.result as string;
-      setBaseImage(result);
-    };
-    reader.readAsDataURL(file);
+    try {
+      const result = await uploadAsset(file);
+      setBaseImageAssetId(result.assetId);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : "Failed to upload image");
+    }
   };
 
   const handleGenerateStoryboard = async () => {
@@ -136,7 +352,7 @@ export default function Home() {
       return;
     }
 
-    if (!baseImage) {
+    if (!baseImageAssetId) {
       showError("Please upload a base image");
       return;
     }
@@ -147,12 +363,12 @@ export default function Home() {
     }
 
     // Clear all previous generated content before starting regeneration
-    setStoryboard(null);
-    setTimeline(null);
+    resetHistory({ storyboard: null, timeline: null }, "Cleared storyboard");
     setGeneratedImages({});
     setGeneratedVideos({});
     setGeneratedNarration({});
     setGeneratedMusic(null);
+    setLocalizations({});
 
     setLoading(true);
 
@@ -162,13 +378,13 @@ export default function Home() {
 
       const result = await generateStoryboard(
         productDescription,
-        analysisResults
+        analysisResults,
+        selectedBrandProfile,
+        { targetDuration, pacing, aspectRatio: outputFormat.aspectRatio }
       );
-      setStoryboard(result);
-
-      // Convert storyboard to timeline
+      // Convert storyboard to timeline; a new storyboard starts a new history
       const newTimeline = storyboardToTimeline(result);
-      setTimeline(newTimeline);
+      resetHistory({ storyboard: result, timeline: newTimeline }, "Generated storyboard");
 
       // Collapse input section after successful generation
       setIsInputSectionCollapsed(true);
@@ -181,8 +397,8 @@ export default function Home() {
         }
       }
 
-      // Auto-generate stills for cinematic shots (baseImage should exist due to earlier validation)
-      if (baseImage) {
+      // Auto-generate stills for cinematic shots (base image should exist due to earlier validation)
+      if (baseImageAssetId) {
         for (const shot of result.shots) {
           if (shot.shotType === 'cinematic') {
             handleGenerateStill(shot.id, shot.stillPrompt);
@@ -213,31 +429,34 @@ export default function Home() {
   };
 
   const handleGenerateStill = async (shotId: string, prompt: string) => {
-    if (!baseImage) {
+    if (!baseImageAssetId) {
       showError("Please upload a base image before generating stills");
       return;
     }
 
     // Update storyboard with edited prompt to persist it
-    if (storyboard) {
+    const editedShot = storyboard?.shots.find(shot => shot.id === shotId);
+    if (storyboard && !(editedShot?.shotType === 'cinematic' && editedShot.stillPrompt === prompt)) {
       setStoryboard({
         ...storyboard,
         shots: storyboard.shots.map(shot =>
           shot.id === shotId ? { ...shot, stillPrompt: prompt } : shot
         ),
-      });
+      }, { label: "Edit still prompt" });
     }
 
     setGeneratingImages(prev => ({ ...prev, [shotId]: true }));
 
-    const previousShots: string[] = [];
+    const previousShotAssetIds: string[] = [];
 
     try {
       const result = await generateStillImage(
         shotId,
         prompt,
-        baseImage,
-        previousShots
+        baseImageAssetId,
+        previousShotAssetIds,
+        selectedBrandProfile,
+        outputFormat.aspectRatio
       );
       setGeneratedImages(prev => ({ ...prev, [shotId]: result }));
 
@@ -256,35 +475,33 @@ export default function Home() {
 
   const handleGenerateVideo = async (shotId: string, prompt: string) => {
     const imageData = generatedImages[shotId];
-    if (!imageData?.imageUrl) {
+    if (!imageData?.imageAssetId) {
       showError("Please generate a still image first before creating a video");
       return;
     }
 
     // Update storyboard with edited prompt to persist it
-    if (storyboard) {
+    const editedShot = storyboard?.shots.find(shot => shot.id === shotId);
+    if (storyboard && !(editedShot?.shotType === 'cinematic' && editedShot.videoPrompt === prompt)) {
       setStoryboard({
         ...storyboard,
         shots: storyboard.shots.map(shot =>
           shot.id === shotId ? { ...shot, videoPrompt: prompt } : shot
         ),
-      });
+      }, { label: "Edit video prompt" });
     }
 
-    setGeneratingVideos(prev => ({ ...prev, [shotId]: true }));
-
     try {
-      const result = await generateVideo(
+      // Runs as a background job; the video is added when the job finishes
+      await startVideoJob(
         shotId,
-        imageData.imageUrl,
+        imageData.imageAssetId,
         prompt,
-        veoModel
+        veoModel,
+        outputFormat.aspectRatio
       );
-      setGeneratedVideos(prev => ({ ...prev, [shotId]: result }));
     } catch (err) {
       showError(err instanceof Error ? err.message : "Failed to generate video");
-    } finally {
-      setGeneratingVideos(prev => ({ ...prev, [shotId]: false }));
     }
   };
 
@@ -301,7 +518,7 @@ export default function Home() {
     try {
       const result = await extractClip(
         shotId,
-        video.originalData, // Use original data for extraction
+        video.originalAssetId, // Use original recording for extraction
         startTime,
         endTime
       );
@@ -310,6 +527,7 @@ export default function Home() {
         ...prev,
         [shotId]: {
           shotId: result.shotId,
+          videoAssetId: result.videoAssetId,
           videoUrl: result.videoUrl,
           prompt: '',
           processingTimeMs: result.processingTimeMs,
@@ -324,35 +542,88 @@ export default function Home() {
     }
   };
 
-  const handleGenerateNarration = async (narrationId: string, text: string) => {
+  const handleInsertShot = (shot: StoryboardShot) => {
+    editProject(state => {
+      if (!state.storyboard || !state.timeline) return state;
+      return insertShot(state.storyboard, state.timeline, shot, previewTime);
+    }, { label: "Insert shot" });
+    setSelectedBlockId(shot.id);
+
+    // Cinematic shots are generated from the shot editor, where the prompts can still be changed
+    if (shot.shotType === 'ui') {
+      handleExtractClip(shot.id, shot.videoId, shot.startTime, shot.endTime);
+    }
+  };
+
+  // Duplicated and split shots play the same video as the original, so they reuse its assets
+  const copyShotAssets = (fromShotId: string, toShotId: string) => {
+    setGeneratedImages(prev => (prev[fromShotId] ? { ...prev, [toShotId]: { ...prev[fromShotId], shotId: toShotId } } : prev));
+    setGeneratedVideos(prev => (prev[fromShotId] ? { ...prev, [toShotId]: { ...prev[fromShotId], shotId: toShotId } } : prev));
+  };
+
+  const handleDuplicateShot = (shotId: string) => {
+    if (!storyboard || !timeline) return;
+    const { shot, ...result } = duplicateShot(storyboard, timeline, shotId);
+    if (!shot) return;
+
+    editProject(result, { label: "Duplicate shot" });
+    copyShotAssets(shotId, shot.id);
+    setSelectedBlockId(shot.id);
+  };
+
+  const handleSplitShot = (shotId: string) => {
+    if (!storyboard || !timeline) return;
+    const { shot, ...result } = splitShot(storyboard, timeline, shotId, previewTime);
+    if (!shot) return;
+
+    editProject(result, { label: "Split shot" });
+    copyShotAssets(shotId, shot.id);
+  };
+
+  const handleDeleteShot = (shotId: string) => {
+    // The shot's still and video are kept, so undoing the delete brings them back too
+    editProject(state => {
+      if (!state.storyboard || !state.timeline) return state;
+      return deleteShot(state.storyboard, state.timeline, shotId);
+    }, { label: "Delete shot" });
+    setSelectedBlockId(null);
+  };
+
+  // `segmentOverride` is for segments created in the same update, which aren't in `storyboard` yet
+  const handleGenerateNarration = async (narrationId: string, text: string, segmentOverride?: NarrationSegment) => {
+    if (!text.trim()) {
+      showError("Please enter narration text first");
+      return;
+    }
+
     // Update storyboard with edited text to persist it
-    if (storyboard && storyboard.narration) {
-      setStoryboard({
-        ...storyboard,
-        narration: storyboard.narration.map(segment =>
+    setStoryboard(prev => {
+      const narration = prev?.narration;
+      if (!prev || !narration?.some(segment => segment.id === narrationId && segment.text !== text)) return prev;
+      return {
+        ...prev,
+        narration: narration.map(segment =>
           segment.id === narrationId ? { ...segment, text } : segment
         ),
-      });
-    }
+      };
+    }, { label: "Edit narration text" });
 
     setGeneratingNarration(prev => ({ ...prev, [narrationId]: true }));
 
     try {
-      const result = await generateNarration(narrationId, text);
+      const segment = segmentOverride ?? storyboard?.narration?.find(s => s.id === narrationId);
+      const result = await generateNarration(
+        narrationId,
+        text,
+        resolveSegmentVoice(narrationVoice, segment),
+        pronunciationLexicon
+      );
       setGeneratedNarration(prev => ({ ...prev, [narrationId]: result }));
 
-      // Load audio to get actual duration and update timeline
-      const audio = new Audio(result.audioUrl);
-      audio.addEventListener('loadedmetadata', () => {
-        const actualDuration = audio.duration;
-
-        // Update timeline with actual audio duration
-        setTimeline(prevTimeline => {
-          if (!prevTimeline) return prevTimeline;
-          return updateNarrationDuration(prevTimeline, narrationId, actualDuration);
-        });
-      });
-      audio.load();
+      // The clip follows the audio, which isn't part of undo history, so every entry gets the new duration
+      updateAllEntries(state => state.timeline
+        ? { ...state, timeline: updateNarrationDuration(state.timeline, narrationId, result.durationSeconds) }
+        : state);
     } catch (err) {
       showError(err instanceof Error ? err.message : "Failed to generate narration");
     } finally {
@@ -360,7 +631,55 @@ export default function Home() {
     }
   };
 
-  const handleGenerateMusic = async (customPrompt?: string, customDurationMs?: number | null, storyboardData?: StoryboardResponse) => {
+  const handleAddNarration = () => {
+    if (!storyboard || !timeline) return;
+    const { segment, ...result } = addNarrationSegment(storyboard, timeline, previewTime);
+
+    editProject(result, { label: "Add narration" });
+    setSelectedBlockId(segment.id);
+  };
+
+  // Split and merged segments get new IDs, so the original audio is still there to undo to
+  const handleSplitNarration = (narrationId: string, wordIndex: number) => {
+    if (!storyboard || !timeline) return;
+    const audio = generatedNarration[narrationId];
+    const { segments, audio: splitAudio, ...result } = splitNarrationSegment(storyboard, timeline, narrationId, wordIndex, audio);
+    if (segments.length === 0) return;
+
+    editProject(result, { label: "Split narration" });
+    setGeneratedNarration(prev => splitAudio.reduce((acc, entry) => ({ ...acc, [entry.narrationId]: entry }), prev));
+    setSelectedBlockId(segments[0].id);
+
+    // The audio no longer matched the text, so both halves need a new take
+    if (audio && splitAudio.length === 0) {
+      segments.forEach(segment => handleGenerateNarration(segment.id, segment.text, segment));
+    }
+  };
+
+  const handleMergeNarration = (narrationId: string) => {
+    if (!storyboard || !timeline) return;
+    const next = getNextNarrationSegment(storyboard, timeline, narrationId);
+    const { segment, ...result } = mergeNarrationSegments(storyboard, timeline, narrationId);
+    if (!segment) return;
+
+    editProject(result, { label: "Merge narration" });
+    setSelectedBlockId(segment.id);
+
+    if (generatedNarration[narrationId] || (next && generatedNarration[next.id])) {
+      handleGenerateNarration(segment.id, segment.text, segment);
+    }
+  };
+
+  const handleDeleteNarration = (narrationId: string) => {
+    // The audio is kept, so undoing the delete brings it back too
+    editProject(state => {
+      if (!state.storyboard || !state.timeline) return state;
+      return deleteNarrationSegment(state.storyboard, state.timeline, narrationId);
+    }, { label: "Delete narration" });
+    setSelectedBlockId(null);
+  };
+
+  const handleGenerateMusic = async (customPrompt?: string, customDurationMs?: number | null, storyboardData?: StoryboardResponse, clipId?: string) => {
     // Use provided values or fall back to state
     const prompt = customPrompt || storyboard?.musicPrompt;
     const sb = storyboardData || storyboard;
@@ -375,27 +694,9 @@ export default function Home() {
         ? customDurationMs
         : Math.round(calculateStoryboardDuration(sb) * 1000);
 
-      const result = await generateMusic(prompt, durationMs);
-      setGeneratedMusic(result);
-
-      // Load audio to get actual duration and add to timeline
-      const audio = new Audio(result.audioUrl);
-      audio.addEventListener('loadedmetadata', () => {
-        const actualDuration = audio.duration;
-
-        // Update the music response with actual duration
-        setGeneratedMusic(prev => prev ? {
-          ...prev,
-          actualDurationSeconds: actualDuration
-        } : null);
-
-        // Add music to timeline
-        setTimeline(prevTimeline => {
-          if (!prevTimeline) return prevTimeline;
-          return addMusicToTimeline(prevTimeline, actualDuration);
-        });
-      });
-      audio.load();
+      const result = await generateMusic(prompt, durationMs, selectedBrandProfile);
+      setMusicCandidates(prev => [...prev, result]);
+      selectMusic(result, clipId);
     } catch (err) {
       showError(err instanceof Error ? err.message : "Failed to generate music");
     } finally {
@@ -403,9 +704,127 @@ export default function Home() {
     }
   };
 
+  /**
+   * Use a music candidate on one music clip, or on every clip without music when no
+   * clip is given. Export trims or loops the track to fit each clip (lib/musicFit.ts).
+   */
+  const selectMusic = (music: MusicGenerationResponse, clipId?: string) => {
+    setGeneratedMusic(music);
+    setTimeline(prevTimeline => {
+      if (!prevTimeline) return prevTimeline;
+      if (clipId) {
+        return updateMusicClip(prevTimeline, clipId, { sourceId: music.audioAssetId });
+      }
+      return addMusicToTimeline(prevTimeline, music.audioAssetId, calculateVideoDuration(prevTimeline) || music.actualDurationSeconds);
+    }, { label: "Select music" });
+  };
+
+  const handleImportMusic = async (file: File, clipId?: string) => {
+    if (!file.type.startsWith('audio/')) {
+      showError("Please select an audio file");
+      return;
+    }
+
+    setImportingMusic(true);
+
+    try {
+      const asset = await uploadAsset(file);
+      const result = await importMusic(asset.assetId, file.name);
+      // Importing the same file twice gives the same asset; keep one candidate for it
+      setMusicCandidates(prev => [...prev.filter(music => music.audioAssetId !== result.audioAssetId), result]);
+      selectMusic(result, clipId);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : "Failed to import music");
+    } finally {
+      setImportingMusic(false);
+    }
+  };
+
+  const handleSelectMusic = (audioAssetId: string, clipId?: string) => {
+    const music = musicCandidates.find(candidate => candidate.audioAssetId === audioAssetId);
+    if (music) selectMusic(music, clipId);
+  };
+
+  const handleRemoveMusicCandidate = (audioAssetId: string) => {
+    const inUse = timeline?.tracks.some(track =>
+      track.clips.some(clip => isMusicClip(clip) && clip.sourceId === audioAssetId)
+    );
+    if (inUse) {
+      showError("This track is used by a music clip");
+      return;
+    }
+    setMusicCandidates(prev => prev.filter(music => music.audioAssetId !== audioAssetId));
+  };
+
+  // New music cue at the playhead, crossfading out of the music playing there
+  const handleAddMusicClip = () => {
+    if (!timeline) return;
+    const { timeline: newTimeline, clip } = addMusicClip(timeline, generatedMusic?.audioAssetId ?? '', previewTime);
+    setTimeline(newTimeline, { label: "Add music cue" });
+    setSelectedBlockId(clip.id);
+  };
+
+  const handleAlignCutsToBeats = async () => {
+    if (!timeline) return;
+
+    try {
+      // Music generated before beat detection has no grid yet
+      const musicClips = timeline.tracks.flatMap(track => track.clips).filter(isMusicClip);
+      const beatGrids: Record<string, MusicBeatGrid> = {};
+      for (const assetId of new Set(musicClips.map(clip => clip.sourceId))) {
+        const music = musicTracks[assetId];
+        if (!music) continue;
+        beatGrids[assetId] = music.beatGrid ?? (await analyzeMusic(assetId)).beatGrid;
+      }
+
+      const withBeatGrid = (music: MusicGenerationResponse) =>
+        beatGrids[music.audioAssetId] && !music.beatGrid ? { ...music, beatGrid: beatGrids[music.audioAssetId] } : music;
+      setMusicCandidates(prev => prev.map(withBeatGrid));
+      setGeneratedMusic(prev => prev ? withBeatGrid(prev) : null);
+
+      const tracks = Object.fromEntries(
+        Object.entries(beatGrids).map(([assetId, beatGrid]) => [
+          assetId,
+          { actualDurationSeconds: musicTracks[assetId].actualDurationSeconds, beatGrid },
+        ])
+      );
+      if (getTimelineBeatTimes(musicClips, tracks, "downbeats").length < 2) {
+        showError("No beat was detected in the music");
+        return;
+      }
+
+      // Downbeats are already timeline times, so the music starts at 0
+      setTimeline(prevTimeline => {
+        if (!prevTimeline) return prevTimeline;
+        const clips = prevTimeline.tracks.flatMap(track => track.clips).filter(isMusicClip);
+        return alignCutsToBeats(prevTimeline, getTimelineBeatTimes(clips, tracks, "downbeats"), 0);
+      }, { label: "Align cuts to beats" });
+    } catch (err) {
+      showError(err instanceof Error ? err.message : "Failed to align cuts to beats");
+    }
+  };
+
   return (
     <MainLayout>
       <div className="max-w-4xl mx-auto space-y-8">
+        <Card>
+          <CardContent>
+            <ProjectToolbar
+              projectId={projectId}
+              projectName={projectName}
+              savedProjects={savedProjects}
+              lastSavedAt={lastSavedAt}
+              savingProject={savingProject}
+              loadingProject={loadingProject}
+              disabled={loading || exportingVideo}
+              onProjectNameChange={setProjectName}
+              onSave={() => handleSaveProject()}
+              onSaveAsNew={() => handleSaveProject(true)}
+              onLoad={handleLoadProject}
+            />
+          </CardContent>
+        </Card>
+
         <Card>
           <CardHeader>
             <div className="flex items-center justify-between">
@@ -442,7 +861,7 @@ export default function Home() {
           </CardHeader>
           <CardContent className={`space-y-6 ${isInputSectionCollapsed ? 'hidden' : ''}`}>
             <UploadSection
-              baseImage={baseImage}
+              baseImage={baseImageAssetId ? getAssetUrl(baseImageAssetId) : null}
               onImageUpload={handleImageUpload}
               videoFiles={videoFiles}
               compressingVideos={compressingVideos}
@@ -454,6 +873,16 @@ export default function Home() {
               disabled={loading}
             />
 
+            <BrandProfileEditor
+              brandProfiles={brandProfiles}
+              selectedBrandProfile={selectedBrandProfile}
+              saving={savingBrandProfile}
+              disabled={loading}
+              onSelect={setSelectedBrandId}
+              onSave={handleSaveBrandProfile}
+              onDelete={handleDeleteBrandProfile}
+            />
+
             {/* Product Description */}
             <div className="space-y-2">
               <label className="text-sm font-medium">Product Description *</label>
@@ -490,13 +919,54 @@ export default function Home() {
               )}
             </div>
 
+            {/* Reel Length and Pacing */}
+            <StoryboardLengthControls
+              targetDuration={targetDuration}
+              pacing={pacing}
+              disabled={loading}
+              onTargetDurationChange={setTargetDuration}
+              onPacingChange={setPacing}
+            />
+
+            {/* Output Format */}
+            <OutputFormatControls
+              outputFormat={outputFormat}
+              disabled={loading}
+              onChange={setOutputFormat}
+            />
+
+            {/* Narration Voice */}
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold">Narration Voice</h3>
+              <VoicePicker
+                voices={voices}
+                voice={narrationVoice}
+                disabled={loading}
+                auditioning={auditioningVoice}
+                onChange={setNarrationVoice}
+                onAudition={(voice) => handleAuditionVoice(voice, undefined, pronunciationLexicon)}
+              />
+            </div>
+
+            {/* Pronunciation Lexicon */}
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold">Pronunciations</h3>
+              <PronunciationLexiconEditor
+                entries={pronunciationLexicon}
+                disabled={loading}
+                auditioning={auditioningVoice}
+                onChange={setPronunciationLexicon}
+                onPreview={(term) => handleAuditionVoice(narrationVoice, term, pronunciationLexicon)}
+              />
+            </div>
+
             {/* Generate Button */}
             <Button
               onClick={handleGenerateStoryboard}
               disabled={
                 loading ||
                 !productDescription.trim() ||
-                !baseImage ||
+                !baseImageAssetId ||
                 videoFiles.length === 0 ||
                 uploadingVideosCount > 0 ||
                 Object.keys(compressingVideos).length > 0
@@ -549,7 +1019,7 @@ export default function Home() {
                   </Button>
                 </div>
                 <div className="flex gap-4 text-xs text-muted-foreground">
-                  {baseImage && <span>✓ Character image uploaded</span>}
+                  {baseImageAssetId && <span>✓ Character image uploaded</span>}
                   {videoFiles.length > 0 && <span>✓ {videoFiles.length} video{videoFiles.length > 1 ? 's' : ''} uploaded</span>}
                 </div>
               </div>
@@ -577,10 +1047,12 @@ export default function Home() {
                   generatedVideos={generatedVideos}
                   generatedImages={generatedImages}
                   generatedNarration={generatedNarration}
-                  generatedMusic={generatedMusic}
+                  musicTracks={musicTracks}
                   musicDuckingSettings={musicDuckingSettings}
+                  soundEffects={soundEffectsLookup}
                   onTimeUpdate={setPreviewTime}
                   seekTime={seekTime}
+                  outputFormat={outputFormat}
                 />
               )}
 
@@ -598,18 +1070,81 @@ export default function Home() {
                     generatedImages={generatedImages}
                     generatedNarration={generatedNarration}
                     generatedMusic={generatedMusic}
+                    musicTracks={musicTracks}
+                    soundEffects={soundEffectsLookup}
                     selectedClipId={selectedBlockId}
                     onSelectClip={setSelectedBlockId}
                     onClipPositionChange={(clipId, newStartTime) => {
                       setTimeline(prevTimeline => {
                         if (!prevTimeline) return prevTimeline;
                         return updateClipPosition(prevTimeline, clipId, newStartTime);
-                      });
+                      }, { label: "Move clip", coalesceKey: `move-${clipId}`, gesture: true });
+                    }}
+                    onVideoClipTrim={(clipId, edge, delta, mode) => {
+                      setTimeline(prevTimeline => {
+                        if (!prevTimeline) return prevTimeline;
+                        return trimVideoClip(prevTimeline, clipId, shotsLookup, edge, delta, mode);
+                      }, { label: mode === 'ripple' ? "Ripple trim" : "Trim clip", coalesceKey: `trim-${clipId}-${edge}`, gesture: true });
+                    }}
+                    onReorderShot={(shotId, newIndex, anchor) => {
+                      editProject(state => {
+                        if (!state.storyboard || !state.timeline) return state;
+                        return reorderShot(state.storyboard, state.timeline, shotId, newIndex, anchor);
+                      }, { label: "Reorder shots" });
                     }}
+                    onClipDragEnd={sealHistory}
+                    onAddText={(preset) => {
+                      if (!timeline) return;
+                      const { timeline: newTimeline, clip } = addTextClip(timeline, preset, previewTime);
+                      setTimeline(newTimeline, { label: "Add text" });
+                      setSelectedBlockId(clip.id);
+                    }}
+                    onAddMusicClip={handleAddMusicClip}
+                    onAddNarration={handleAddNarration}
+                    onAlignCutsToBeats={handleAlignCutsToBeats}
+                  />
+                </div>
+              )}
+
+              {timeline && (
+                <HistoryPanel
+                  entries={historyEntries}
+                  currentEntryId={currentEntryId}
+                  canUndo={canUndo}
+                  canRedo={canRedo}
+                  onUndo={handleUndo}
+                  onRedo={handleRedo}
+                  onJumpToEntry={handleJumpToEntry}
+                />
+              )}
+
+              {timeline && (
+                <div className="flex justify-center">
+                  <InsertShotControls
+                    videoFiles={videoFiles}
+                    videoAnalyses={videoAnalyses}
+                    onInsert={handleInsertShot}
                   />
                 </div>
               )}
 
+              {timeline && (
+                <SoundEffectLibrary
+                  soundEffects={soundEffects}
+                  generating={generatingSoundEffect}
+                  importing={importingSoundEffect}
+                  playheadTime={previewTime}
+                  onGenerate={handleGenerateSoundEffect}
+                  onImport={handleImportSoundEffect}
+                  onAddToTimeline={(effect) => {
+                    const { timeline: newTimeline, clip } = addSoundEffectClip(timeline, effect, previewTime);
+                    setTimeline(newTimeline, { label: "Add sound effect" });
+                    setSelectedBlockId(clip.id);
+                  }}
+                  onRemove={handleRemoveSoundEffect}
+                />
+              )}
+
               <ExportSection
                 hasTimeline={!!timeline}
                 hasGeneratedVideos={Object.keys(generatedVideos).length > 0}
@@ -617,13 +1152,42 @@ export default function Home() {
                 exportProgress={exportProgress}
                 allCinematicVideosGenerated={allCinematicVideosGenerated}
                 exportedVideoUrl={exportedVideoUrl}
+                burnInCaptions={burnInCaptions}
+                captionStyle={captionStyle}
+                captionFiles={captionFiles}
+                loudnessPreset={loudnessPreset}
+                loudnessReport={loudnessReport}
+                onBurnInCaptionsChange={setBurnInCaptions}
+                onCaptionStyleChange={setCaptionStyle}
+                onLoudnessPresetChange={setLoudnessPreset}
                 onExport={handleExportSizzleReel}
                 onDownload={handleDownloadVideo}
               />
 
+              {timeline && Object.keys(generatedVideos).length > 0 && (
+                <LocalizationSection
+                  timeline={timeline}
+                  localizations={localizations}
+                  localizedExports={localizedExports}
+                  projectVoice={narrationVoice}
+                  voices={voices}
+                  auditioningVoice={auditioningVoice}
+                  localizingLanguage={localizingLanguage}
+                  localizationProgress={localizationProgress}
+                  exportingVideo={exportingVideo}
+                  canExport={allCinematicVideosGenerated && !!generatedMusic}
+                  onLocalize={handleLocalize}
+                  onExport={handleExportLocalizedReel}
+                  onRemove={handleRemoveLocalization}
+                  onAuditionVoice={(voice) => handleAuditionVoice(voice, undefined, pronunciationLexicon)}
+                />
+              )}
+
               <BlockEditorPanel
                 selectedBlockId={selectedBlockId}
                 storyboard={storyboard}
+                timeline={timeline}
+                currentTime={previewTime}
                 generatedImages={generatedImages}
                 generatingImages={generatingImages}
                 generatedVideos={generatedVideos}
@@ -631,19 +1195,77 @@ export default function Home() {
                 extractingClips={extractingClips}
                 generatedNarration={generatedNarration}
                 generatingNarration={generatingNarration}
+                narrationVoice={narrationVoice}
+                voices={voices}
+                auditioningVoice={auditioningVoice}
                 generatedMusic={generatedMusic}
+                musicCandidates={musicCandidates}
                 generatingMusic={generatingMusic}
+                importingMusic={importingMusic}
                 musicDuckingSettings={musicDuckingSettings}
+                soundEffects={soundEffects}
                 videoFiles={videoFiles}
-                baseImage={baseImage}
+                baseImage={baseImageAssetId ? getAssetUrl(baseImageAssetId) : null}
                 veoModel={veoModel}
                 onGenerateStill={handleGenerateStill}
                 onGenerateVideo={handleGenerateVideo}
                 onExtractClip={handleExtractClip}
                 onGenerateNarration={handleGenerateNarration}
-                onGenerateMusic={handleGenerateMusic}
+                onNarrationVoiceChange={(narrationId, voice) => {
+                  setStoryboard(prevStoryboard => {
+                    if (!prevStoryboard?.narration) return prevStoryboard;
+                    return {
+                      ...prevStoryboard,
+                      narration: prevStoryboard.narration.map(segment =>
+                        segment.id === narrationId ? { ...segment, voice } : segment
+                      ),
+                    };
+                  }, { label: "Change narration voice" });
+                }}
+                onAuditionVoice={(voice, text) => handleAuditionVoice(voice, text, pronunciationLexicon)}
+                onGenerateMusic={(prompt, durationMs, clipId) => handleGenerateMusic(prompt, durationMs, undefined, clipId)}
+                onImportMusic={handleImportMusic}
+                onSelectMusic={handleSelectMusic}
+                onRemoveMusicCandidate={handleRemoveMusicCandidate}
+                onMusicClipChange={(clipId, updates) => {
+                  setTimeline(prevTimeline => {
+                    if (!prevTimeline) return prevTimeline;
+                    return updateMusicClip(prevTimeline, clipId, updates);
+                  }, { label: "Edit music clip", coalesceKey: `music-${clipId}` });
+                }}
                 onMusicDuckingSettingsChange={setMusicDuckingSettings}
                 onVeoModelChange={setVeoModel}
+                onTransitionChange={(clipId, transition) => {
+                  setTimeline(prevTimeline => {
+                    if (!prevTimeline) return prevTimeline;
+                    return updateClipTransition(prevTimeline, clipId, transition);
+                  }, { label: "Change transition", coalesceKey: `transition-${clipId}` });
+                }}
+                onTextClipChange={(clipId, updates) => {
+                  setTimeline(prevTimeline => {
+                    if (!prevTimeline) return prevTimeline;
+                    return updateTextClip(prevTimeline, clipId, updates);
+                  }, { label: "Edit text", coalesceKey: `text-${clipId}` });
+                }}
+                onSoundEffectClipChange={(clipId, updates) => {
+                  setTimeline(prevTimeline => {
+                    if (!prevTimeline) return prevTimeline;
+                    return updateSoundEffectClip(prevTimeline, clipId, updates);
+                  }, { label: "Edit sound effect", coalesceKey: `sfx-${clipId}` });
+                }}
+                onDeleteClip={(clipId) => {
+                  setTimeline(prevTimeline => {
+                    if (!prevTimeline) return prevTimeline;
+                    return removeTimelineClip(prevTimeline, clipId);
+                  }, { label: "Delete clip" });
+                  setSelectedBlockId(null);
+                }}
+                onDuplicateShot={handleDuplicateShot}
+                onSplitShot={handleSplitShot}
+                onDeleteShot={handleDeleteShot}
+                onSplitNarration={handleSplitNarration}
+                onMergeNarration={handleMergeNarration}
+                onDeleteNarration={handleDeleteNarration}
               />
             </CardContent>
           </Card>
@@ -659,7 +1281,7 @@ export default function Home() {
               <div className="space-y-3">
                 <video
                   key={previewingVideo.id}
-                  src={previewingVideo.compressedData}
+                  src={getAssetUrl(previewingVideo.compressedAssetId)}
                   controls
                   controlsList="nodownload"
                   autoPlay
@@ -0,0 +1,135 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { SoundEffect, SoundEffectKind } from "@/types/sound-effect";
+
+interface SoundEffectLibraryProps {
+  soundEffects: SoundEffect[];
+  generating: boolean;
+  importing: boolean;
+  playheadTime: number; // where "Add" places a sound, in seconds
+  onGenerate: (prompt: string, kind: SoundEffectKind, durationSeconds?: number) => void;
+  onImport: (file: File, kind: SoundEffectKind) => void;
+  onAddToTimeline: (effect: SoundEffect) => void;
+  onRemove: (audioAssetId: string) => void;
+}
+
+const selectClassName = "h-8 px-2 rounded-md border border-input bg-background text-sm";
+
+const KIND_LABELS: Record<SoundEffectKind, string> = {
+  sfx: "Sound effect",
+  ambient: "Ambient (loops)",
+};
+
+export function SoundEffectLibrary({
+  soundEffects,
+  generating,
+  importing,
+  playheadTime,
+  onGenerate,
+  onImport,
+  onAddToTimeline,
+  onRemove,
+}: SoundEffectLibraryProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [prompt, setPrompt] = useState("");
+  const [kind, setKind] = useState<SoundEffectKind>("sfx");
+  const [duration, setDuration] = useState(""); // empty = the model picks a length
+
+  const handleGenerate = () => {
+    const durationSeconds = parseFloat(duration);
+    onGenerate(prompt, kind, Number.isFinite(durationSeconds) ? durationSeconds : undefined);
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-4 pt-6 border-t">
+      <div className="w-full max-w-xl space-y-4">
+        <div className="space-y-0.5">
+          <h3 className="text-sm font-medium">Sound Effects</h3>
+          <p className="text-xs text-muted-foreground">
+            Generate sound effects and ambient beds from a description, or upload your own, then
+            add them to the timeline at the playhead
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Input
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            placeholder={kind === "ambient" ? "e.g. quiet open-plan office ambience" : "e.g. soft whoosh transition"}
+            disabled={generating}
+          />
+          <div className="flex items-center gap-2">
+            <select
+              value={kind}
+              onChange={(e) => setKind(e.target.value as SoundEffectKind)}
+              className={selectClassName}
+            >
+              {(Object.keys(KIND_LABELS) as SoundEffectKind[]).map(option => (
+                <option key={option} value={option}>{KIND_LABELS[option]}</option>
+              ))}
+            </select>
+            <Input
+              type="number"
+              step="0.5"
+              min="0.5"
+              max="30"
+              value={duration}
+              onChange={(e) => setDuration(e.target.value)}
+              placeholder="Auto length (s)"
+              className="w-36"
+            />
+            <Button size="sm" onClick={handleGenerate} disabled={generating || !prompt.trim()}>
+              {generating ? "Generating..." : "Generate"}
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={importing}
+            >
+              {importing ? "Uploading..." : "Upload"}
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="audio/*"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImport(file, kind);
+                e.target.value = "";
+              }}
+            />
+          </div>
+        </div>
+
+        {soundEffects.length > 0 && (
+          <div className="space-y-2">
+            {soundEffects.map(effect => (
+              <div key={effect.audioAssetId} className="flex items-center justify-between gap-2 text-sm">
+                <span className="truncate" title={effect.prompt || effect.name}>
+                  {effect.name}
+                  <span className="text-xs text-muted-foreground">
+                    {' '}• {effect.kind === "ambient" ? "ambient" : "sfx"} • {effect.durationSeconds.toFixed(1)}s
+                  </span>
+                </span>
+                <div className="flex items-center gap-2 shrink-0">
+                  <audio src={effect.audioUrl} controls className="h-8 w-40" />
+                  <Button size="sm" variant="outline" onClick={() => onAddToTimeline(effect)}>
+                    Add at {playheadTime.toFixed(1)}s
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => onRemove(effect.audioAssetId)}>
+                    Remove
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import type { BrandProfile, BrandProfileInput } from "@/types/brand";
+
+interface BrandProfileEditorProps {
+  brandProfiles: BrandProfile[];
+  selectedBrandProfile: BrandProfile | null;
+  saving: boolean;
+  disabled?: boolean;
+  onSelect: (brandId: string) => void;
+  onSave: (profile: BrandProfileInput, asNew: boolean) => void;
+  onDelete: (brandId: string) => void;
+}
+
+const EMPTY_PROFILE: BrandProfileInput = {
+  name: "",
+  companyContext: "",
+  audience: "",
+  tone: "",
+  allowedSettings: [],
+  bannedImagery: [],
+  visualStyleGuardrails: [],
+};
+
+// List fields are edited one item per line
+const toLines = (items: string[]) => items.join("\n");
+const fromLines = (text: string) => text.split("\n");
+
+export function BrandProfileEditor({
+  brandProfiles,
+  selectedBrandProfile,
+  saving,
+  disabled = false,
+  onSelect,
+  onSave,
+  onDelete,
+}: BrandProfileEditorProps) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState<BrandProfileInput>(selectedBrandProfile || EMPTY_PROFILE);
+
+  // Reset the draft whenever a different (or freshly saved) profile is selected
+  useEffect(() => {
+    setDraft(selectedBrandProfile || EMPTY_PROFILE);
+  }, [selectedBrandProfile]);
+
+  const updateDraft = (changes: Partial<BrandProfileInput>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleSave = (asNew: boolean) => {
+    onSave(draft, asNew);
+    setEditing(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium">Brand Profile</label>
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={selectedBrandProfile?.id || ""}
+          onChange={(e) => onSelect(e.target.value)}
+          disabled={disabled || brandProfiles.length === 0}
+          className="h-8 px-2 rounded-md border border-input bg-background text-sm max-w-64"
+        >
+          {brandProfiles.length === 0 && <option value="">No brand profiles</option>}
+          {brandProfiles.map(profile => (
+            <option key={profile.id} value={profile.id}>
+              {profile.name}
+            </option>
+          ))}
+        </select>
+        <Button
+          onClick={() => setEditing(!editing)}
+          disabled={disabled}
+          size="sm"
+          variant="outline"
+        >
+          {editing ? "Close" : selectedBrandProfile ? "Edit" : "Create"}
+        </Button>
+      </div>
+      {selectedBrandProfile && !editing && (
+        <p className="text-xs text-muted-foreground">
+          {selectedBrandProfile.companyContext || "No company context"}
+        </p>
+      )}
+
+      {editing && (
+        <div className="space-y-3 rounded-lg border p-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <label className="text-xs font-medium">Name</label>
+              <Input
+                value={draft.name}
+                onChange={(e) => updateDraft({ name: e.target.value })}
+                placeholder="Acme Logistics"
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs font-medium">Tone</label>
+              <Input
+                value={draft.tone}
+                onChange={(e) => updateDraft({ tone: e.target.value })}
+                placeholder="Confident, warm, practical"
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-medium">Company Context</label>
+            <Textarea
+              value={draft.companyContext}
+              onChange={(e) => updateDraft({ companyContext: e.target.value })}
+              placeholder="What the company or app does and who it serves"
+              className="resize-none min-h-16"
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-medium">Audience</label>
+            <Input
+              value={draft.audience}
+              onChange={(e) => updateDraft({ audience: e.target.value })}
+              placeholder="Who the sizzle reel is for"
+            />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <label className="text-xs font-medium">Allowed Settings (one per line)</label>
+              <Textarea
+                value={toLines(draft.allowedSettings)}
+                onChange={(e) => updateDraft({ allowedSettings: fromLines(e.target.value) })}
+                className="resize-none min-h-24"
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs font-medium">Banned Imagery (one per line)</label>
+              <Textarea
+                value={toLines(draft.bannedImagery)}
+                onChange={(e) => updateDraft({ bannedImagery: fromLines(e.target.value) })}
+                className="resize-none min-h-24"
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs font-medium">Visual Style Guardrails (one per line)</label>
+              <Textarea
+                value={toLines(draft.visualStyleGuardrails)}
+                onChange={(e) => updateDraft({ visualStyleGuardrails: fromLines(e.target.value) })}
+                className="resize-none min-h-24"
+              />
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              onClick={() => handleSave(!selectedBrandProfile)}
+              disabled={saving || !draft.name.trim()}
+              size="sm"
+            >
+              {saving ? "Saving..." : "Save Profile"}
+            </Button>
+            {selectedBrandProfile && (
+              <Button
+                onClick={() => handleSave(true)}
+                disabled={saving || !draft.name.trim()}
+                size="sm"
+                variant="ghost"
+              >
+                Save as New
+              </Button>
+            )}
+            {selectedBrandProfile && (
+              <Button
+                onClick={() => {
+                  onDelete(selectedBrandProfile.id);
+                  setEditing(false);
+                }}
+                disabled={saving}
+                size="sm"
+                variant="ghost"
+                className="ml-auto text-red-600 hover:text-red-700"
+              >
+                Delete
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
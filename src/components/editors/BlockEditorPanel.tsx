@@ -3,16 +3,27 @@
 import { ShotEditor } from "./ShotEditor";
 import { NarrationEditor } from "./NarrationEditor";
 import { MusicEditor } from "./MusicEditor";
+import { TransitionEditor } from "./TransitionEditor";
+import { TextEditor } from "./TextEditor";
+import { SoundEffectEditor } from "./SoundEffectEditor";
 import type { StoryboardResponse } from "@/types/storyboard";
 import type { StillImageResponse } from "@/types/still-image";
 import type { VideoGenerationResponse } from "@/types/video-generation";
 import type { NarrationGenerationResponse } from "@/types/narration";
 import type { MusicGenerationResponse, MusicDuckingSettings } from "@/types/music";
 import type { UploadedVideo } from "@/types/video-analysis";
+import type { NarrationVoice, VoiceOption } from "@/types/voice";
+import type { SoundEffect } from "@/types/sound-effect";
+import type { ClipTransition, MusicClip, SoundEffectClip, TextClip, Timeline } from "@/types/timeline";
+import { isMusicClip, isSoundEffectClip, isTextClip, isVideoClip } from "@/types/timeline";
+import { MIN_TRIMMED_CLIP_SECONDS } from "@/lib/videoTrim";
+import { getNextNarrationSegment } from "@/lib/timelineConverter";
 
 interface BlockEditorPanelProps {
   selectedBlockId: string | null;
   storyboard: StoryboardResponse;
+  timeline: Timeline | null;
+  currentTime: number; // playhead, where shots are split
   generatedImages: Record<string, StillImageResponse>;
   generatingImages: Record<string, boolean>;
   generatedVideos: Record<string, VideoGenerationResponse>;
@@ -20,9 +31,15 @@ interface BlockEditorPanelProps {
   extractingClips: Record<string, boolean>;
   generatedNarration: Record<string, NarrationGenerationResponse>;
   generatingNarration: Record<string, boolean>;
+  narrationVoice: NarrationVoice;
+  voices: VoiceOption[];
+  auditioningVoice: boolean;
   generatedMusic: MusicGenerationResponse | null;
+  musicCandidates: MusicGenerationResponse[];
   generatingMusic: boolean;
+  importingMusic: boolean;
   musicDuckingSettings: MusicDuckingSettings;
+  soundEffects: SoundEffect[];
   videoFiles: UploadedVideo[];
   baseImage: string | null;
   veoModel: 'veo-2' | 'veo-3';
@@ -30,14 +47,32 @@ interface BlockEditorPanelProps {
   onGenerateVideo: (shotId: string, prompt: string) => void;
   onExtractClip: (shotId: string, videoId: string, startTime: number, endTime: number) => void;
   onGenerateNarration: (narrationId: string, text: string) => void;
-  onGenerateMusic: (prompt: string) => void;
+  onNarrationVoiceChange: (narrationId: string, voice: NarrationVoice | undefined) => void;
+  onAuditionVoice: (voice: NarrationVoice, text?: string) => void;
+  onGenerateMusic: (prompt: string, durationMs: number, clipId: string) => void;
+  onImportMusic: (file: File, clipId: string) => void;
+  onSelectMusic: (audioAssetId: string, clipId: string) => void;
+  onRemoveMusicCandidate: (audioAssetId: string) => void;
+  onMusicClipChange: (clipId: string, updates: Pick<Partial<MusicClip>, 'fadeIn' | 'fadeOut'>) => void;
   onMusicDuckingSettingsChange: (settings: MusicDuckingSettings) => void;
   onVeoModelChange: (model: 'veo-2' | 'veo-3') => void;
+  onTransitionChange: (clipId: string, transition: ClipTransition) => void;
+  onTextClipChange: (clipId: string, updates: Partial<Omit<TextClip, 'id' | 'type'>>) => void;
+  onSoundEffectClipChange: (clipId: string, updates: Partial<Pick<SoundEffectClip, 'volume' | 'duration'>>) => void;
+  onDeleteClip: (clipId: string) => void;
+  onDuplicateShot: (shotId: string) => void;
+  onSplitShot: (shotId: string) => void;
+  onDeleteShot: (shotId: string) => void;
+  onSplitNarration: (narrationId: string, wordIndex: number) => void;
+  onMergeNarration: (narrationId: string) => void;
+  onDeleteNarration: (narrationId: string) => void;
 }
 
 export function BlockEditorPanel({
   selectedBlockId,
   storyboard,
+  timeline,
+  currentTime,
   generatedImages,
   generatingImages,
   generatedVideos,
@@ -45,9 +80,15 @@ export function BlockEditorPanel({
   extractingClips,
   generatedNarration,
   generatingNarration,
+  narrationVoice,
+  voices,
+  auditioningVoice,
   generatedMusic,
+  musicCandidates,
   generatingMusic,
+  importingMusic,
   musicDuckingSettings,
+  soundEffects,
   videoFiles,
   baseImage,
   veoModel,
@@ -55,9 +96,25 @@ export function BlockEditorPanel({
   onGenerateVideo,
   onExtractClip,
   onGenerateNarration,
+  onNarrationVoiceChange,
+  onAuditionVoice,
   onGenerateMusic,
+  onImportMusic,
+  onSelectMusic,
+  onRemoveMusicCandidate,
+  onMusicClipChange,
   onMusicDuckingSettingsChange,
   onVeoModelChange,
+  onTransitionChange,
+  onTextClipChange,
+  onSoundEffectClipChange,
+  onDeleteClip,
+  onDuplicateShot,
+  onSplitShot,
+  onDeleteShot,
+  onSplitNarration,
+  onMergeNarration,
+  onDeleteNarration,
 }: BlockEditorPanelProps) {
   if (!selectedBlockId) {
     return null;
@@ -66,8 +123,20 @@ export function BlockEditorPanel({
   // Check if it's a shot
   const selectedShot = storyboard.shots.find(s => s.id === selectedBlockId);
   if (selectedShot) {
+    // The first clip on the video track has nothing to transition from
+    const videoClips = (timeline?.tracks.find(track => track.type === 'video')?.clips || [])
+      .filter(isVideoClip)
+      .sort((a, b) => a.startTime - b.startTime);
+    const clipIndex = videoClips.findIndex(clip => clip.shotId === selectedShot.id);
+    const videoClip = clipIndex > 0 ? videoClips[clipIndex] : null;
+    const shotClip = videoClips[clipIndex];
+    const splitOffset = shotClip ? currentTime - shotClip.startTime : 0;
+    const canSplit = !!shotClip
+      && splitOffset >= MIN_TRIMMED_CLIP_SECONDS
+      && shotClip.duration - splitOffset >= MIN_TRIMMED_CLIP_SECONDS;
+
     return (
-      <div className="mt-6">
+      <div className="mt-6 space-y-6">
         <ShotEditor
           shot={selectedShot}
           generatedImage={generatedImages[selectedShot.id]}
@@ -82,7 +151,20 @@ export function BlockEditorPanel({
           onGenerateVideo={onGenerateVideo}
           onExtractClip={onExtractClip}
           onVeoModelChange={onVeoModelChange}
+          canSplit={canSplit}
+          canDelete={storyboard.shots.length > 1}
+          onDuplicate={onDuplicateShot}
+          onSplit={onSplitShot}
+          onDelete={onDeleteShot}
         />
+        {videoClip && (
+          <div className="pl-7">
+            <TransitionEditor
+              transition={videoClip.transition}
+              onChange={(transition) => onTransitionChange(videoClip.id, transition)}
+            />
+          </div>
+        )}
       </div>
     );
   }
@@ -96,23 +178,83 @@ export function BlockEditorPanel({
           segment={selectedNarration}
           generatedNarration={generatedNarration[selectedNarration.id]}
           generatingNarration={generatingNarration[selectedNarration.id]}
+          projectVoice={narrationVoice}
+          voices={voices}
+          auditioningVoice={auditioningVoice}
           onGenerateNarration={onGenerateNarration}
+          onVoiceChange={onNarrationVoiceChange}
+          onAuditionVoice={onAuditionVoice}
+          canMerge={!!timeline && !!getNextNarrationSegment(storyboard, timeline, selectedNarration.id)}
+          onSplit={onSplitNarration}
+          onMergeWithNext={onMergeNarration}
+          onDelete={onDeleteNarration}
+        />
+      </div>
+    );
+  }
+
+  // Check if it's a text overlay
+  const selectedTextClip = timeline?.tracks
+    .flatMap(track => track.clips)
+    .filter(isTextClip)
+    .find(clip => clip.id === selectedBlockId);
+  if (selectedTextClip) {
+    return (
+      <div className="mt-6">
+        <TextEditor
+          clip={selectedTextClip}
+          onChange={onTextClipChange}
+          onDelete={onDeleteClip}
         />
       </div>
     );
   }
 
-  // Check if it's the background music
-  if (selectedBlockId === 'background-music' && storyboard.musicPrompt) {
+  const selectedSoundEffectClip = timeline?.tracks
+    .flatMap(track => track.clips)
+    .filter(isSoundEffectClip)
+    .find(clip => clip.id === selectedBlockId);
+  if (selectedSoundEffectClip) {
+    return (
+      <div className="mt-6">
+        <SoundEffectEditor
+          clip={selectedSoundEffectClip}
+          soundEffect={soundEffects.find(effect => effect.audioAssetId === selectedSoundEffectClip.sourceId) ?? null}
+          onChange={onSoundEffectClipChange}
+          onDelete={onDeleteClip}
+        />
+      </div>
+    );
+  }
+
+  // Check if it's a music clip
+  const musicClips = timeline?.tracks.flatMap(track => track.clips).filter(isMusicClip) ?? [];
+  const selectedMusicClip = musicClips.find(clip => clip.id === selectedBlockId);
+  if (selectedMusicClip) {
+    const clipMusic = musicCandidates.find(music => music.audioAssetId === selectedMusicClip.sourceId)
+      ?? (generatedMusic?.audioAssetId === selectedMusicClip.sourceId ? generatedMusic : null);
+    // An imported track's own length says nothing about how long to generate
+    const lastGenerated = [clipMusic, generatedMusic, ...[...musicCandidates].reverse()]
+      .find(music => music && music.source !== 'imported');
+
     return (
       <div className="mt-6">
         <MusicEditor
-          musicPrompt={storyboard.musicPrompt}
-          generatedMusic={generatedMusic}
+          key={selectedMusicClip.id}
+          clip={selectedMusicClip}
+          musicPrompt={clipMusic?.prompt || storyboard.musicPrompt || ''}
+          generatedMusic={clipMusic}
+          musicCandidates={musicCandidates}
           generatingMusic={generatingMusic}
-          requestedDurationMs={generatedMusic?.requestedDurationMs || 0}
+          importingMusic={importingMusic}
+          requestedDurationMs={lastGenerated?.requestedDurationMs || Math.round(selectedMusicClip.duration * 1000)}
           duckingSettings={musicDuckingSettings}
-          onGenerateMusic={onGenerateMusic}
+          onGenerateMusic={(prompt, durationMs) => onGenerateMusic(prompt, durationMs, selectedMusicClip.id)}
+          onImportMusic={(file) => onImportMusic(file, selectedMusicClip.id)}
+          onSelectMusic={(audioAssetId) => onSelectMusic(audioAssetId, selectedMusicClip.id)}
+          onRemoveMusicCandidate={onRemoveMusicCandidate}
+          onClipChange={onMusicClipChange}
+          onDelete={musicClips.length > 1 ? onDeleteClip : undefined}
           onDuckingSettingsChange={onMusicDuckingSettingsChange}
         />
       </div>
@@ -1,31 +1,75 @@
 "use client";
 
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
 import { Slider } from "@/components/ui/slider";
+import { planMusicFit } from "@/lib/musicFit";
 import type { MusicGenerationResponse, MusicDuckingSettings } from "@/types/music";
+import type { MusicClip } from "@/types/timeline";
 
 interface MusicEditorProps {
+  clip: MusicClip;
   musicPrompt: string;
-  generatedMusic: MusicGenerationResponse | null;
+  generatedMusic: MusicGenerationResponse | null; // the track this clip plays
+  musicCandidates: MusicGenerationResponse[];
   generatingMusic: boolean;
+  importingMusic: boolean;
   requestedDurationMs: number;
   duckingSettings: MusicDuckingSettings;
   onGenerateMusic: (prompt: string, durationMs: number) => void;
+  onImportMusic: (file: File) => void;
+  onSelectMusic: (audioAssetId: string) => void;
+  onRemoveMusicCandidate: (audioAssetId: string) => void;
+  onClipChange: (clipId: string, updates: Pick<Partial<MusicClip>, 'fadeIn' | 'fadeOut'>) => void;
+  onDelete?: (clipId: string) => void; // omitted for the only music clip
   onDuckingSettingsChange: (settings: MusicDuckingSettings) => void;
 }
 
+// Longest fade the sliders offer
+const MAX_FADE_SECONDS = 8;
+
+function getMusicName(music: MusicGenerationResponse, index: number): string {
+  return music.source === 'imported' ? music.title || 'Imported music' : `Generated ${index + 1}`;
+}
+
+/**
+ * How export will fit the track to the clip, in words
+ */
+function describeMusicFit(music: MusicGenerationResponse, clip: MusicClip): string | null {
+  const targetDuration = clip.duration;
+  if (targetDuration <= 0) return null;
+  const plan = planMusicFit(music.actualDurationSeconds, targetDuration, music.beatGrid, clip.fadeOut);
+
+  if (plan.loopCount > 0) {
+    return `Loops ${plan.loopStart.toFixed(1)}-${plan.loopEnd.toFixed(1)}s ${plan.loopCount}x to fill ${targetDuration.toFixed(1)}s, fading out over the last ${plan.fadeOutDuration.toFixed(1)}s`;
+  }
+  if (music.actualDurationSeconds > targetDuration + 0.05) {
+    return `Trimmed to ${targetDuration.toFixed(1)}s, fading out over the last ${plan.fadeOutDuration.toFixed(1)}s`;
+  }
+  return null;
+}
+
 export function MusicEditor({
+  clip,
   musicPrompt,
   generatedMusic,
+  musicCandidates,
   generatingMusic,
+  importingMusic,
   requestedDurationMs,
   duckingSettings,
   onGenerateMusic,
+  onImportMusic,
+  onSelectMusic,
+  onRemoveMusicCandidate,
+  onClipChange,
+  onDelete,
   onDuckingSettingsChange,
 }: MusicEditorProps) {
+  const maxFade = Math.min(MAX_FADE_SECONDS, clip.duration / 2);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const [promptExpanded, setPromptExpanded] = useState(false);
   const [promptEditing, setPromptEditing] = useState(false);
   const [editedPrompt, setEditedPrompt] = useState(musicPrompt);
@@ -40,14 +84,17 @@ export function MusicEditor({
 
   return (
     <div className="border-l-4 border-blue-500 pl-6 space-y-4">
-      <div className="flex items-center gap-2">
+      <div className="flex items-center justify-between gap-2">
         <span className="bg-blue-500 text-white px-2 py-1 rounded text-sm font-medium">
           Background Music
         </span>
+        <span className="text-xs text-muted-foreground font-mono">
+          {clip.startTime.toFixed(1)}s - {(clip.startTime + clip.duration).toFixed(1)}s
+        </span>
       </div>
 
       <p className="text-sm text-muted-foreground">
-        AI-generated instrumental music for your sizzle reel
+        AI-generated instrumental music for your sizzle reel, or a track imported from your music library
       </p>
 
       {/* Editable Music Prompt and Duration */}
@@ -75,6 +122,25 @@ export function MusicEditor({
           >
             {generatingMusic ? "Generating..." : generatedMusic ? "Regenerate Music" : "Generate Music"}
           </Button>
+          <Button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={importingMusic}
+            size="sm"
+            variant="outline"
+          >
+            {importingMusic ? "Importing..." : "Import Track"}
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="audio/*"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImportMusic(file);
+              e.target.value = "";
+            }}
+          />
         </div>
       </div>
 
@@ -139,19 +205,103 @@ export function MusicEditor({
         </div>
       )}
 
-      {/* Generated Music Player */}
+      {/* Music Player */}
       {generatedMusic && (
         <div className="space-y-2">
-          <label className="text-sm font-medium">Generated Music</label>
+          <label className="text-sm font-medium">
+            {generatedMusic.source === 'imported' ? `Imported Music: ${generatedMusic.title}` : 'Generated Music'}
+          </label>
           <audio
             src={generatedMusic.audioUrl}
             controls
             className="w-full"
           />
           <p className="text-xs text-muted-foreground">
-            Generated in {(generatedMusic.processingTimeMs / 1000).toFixed(1)}s
+            {generatedMusic.source === 'imported' ? 'Analyzed' : 'Generated'} in {(generatedMusic.processingTimeMs / 1000).toFixed(1)}s
             {generatedMusic.actualDurationSeconds && ` • Duration: ${generatedMusic.actualDurationSeconds.toFixed(1)}s`}
+            {generatedMusic.beatGrid && generatedMusic.beatGrid.bpm > 0 && ` • ${Math.round(generatedMusic.beatGrid.bpm)} BPM`}
           </p>
+          {describeMusicFit(generatedMusic, clip) && (
+            <p className="text-xs text-muted-foreground">{describeMusicFit(generatedMusic, clip)}</p>
+          )}
+        </div>
+      )}
+
+      {/* Clip Fades */}
+      <div className="space-y-3">
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <label className="text-sm text-muted-foreground">Fade In</label>
+            <span className="text-sm font-mono">{(clip.fadeIn ?? 0).toFixed(1)}s</span>
+          </div>
+          <Slider
+            value={[clip.fadeIn ?? 0]}
+            min={0}
+            max={maxFade}
+            step={0.1}
+            onValueChange={([fadeIn]) => onClipChange(clip.id, { fadeIn })}
+          />
+        </div>
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <label className="text-sm text-muted-foreground">Fade Out</label>
+            <span className="text-sm font-mono">
+              {clip.fadeOut === undefined ? 'On a downbeat' : `${clip.fadeOut.toFixed(1)}s`}
+              {clip.fadeOut !== undefined && (
+                <button
+                  onClick={() => onClipChange(clip.id, { fadeOut: undefined })}
+                  className="ml-2 text-xs text-muted-foreground hover:text-foreground"
+                >
+                  Reset
+                </button>
+              )}
+            </span>
+          </div>
+          <Slider
+            value={[clip.fadeOut ?? 2]}
+            min={0}
+            max={maxFade}
+            step={0.1}
+            onValueChange={([fadeOut]) => onClipChange(clip.id, { fadeOut })}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Overlapping music clips crossfade across the overlap
+        </p>
+      </div>
+
+      {/* Music Candidates */}
+      {(musicCandidates.length > 1 || (musicCandidates.length > 0 && !generatedMusic)) && (
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Music Candidates</label>
+          {musicCandidates.map((candidate, index) => {
+            const inUse = candidate.audioAssetId === clip.sourceId;
+            return (
+              <div key={candidate.audioAssetId} className="flex items-center justify-between gap-2 text-sm">
+                <span className="truncate">
+                  {getMusicName(candidate, index)}
+                  <span className="text-xs text-muted-foreground">
+                    {' '}• {candidate.actualDurationSeconds.toFixed(1)}s
+                    {candidate.beatGrid && candidate.beatGrid.bpm > 0 && ` • ${Math.round(candidate.beatGrid.bpm)} BPM`}
+                  </span>
+                </span>
+                <div className="flex gap-2 shrink-0">
+                  {inUse ? (
+                    <span className="text-xs text-muted-foreground">In use</span>
+                  ) : (
+                    <>
+                      <Button size="sm" variant="outline" onClick={() => onSelectMusic(candidate.audioAssetId)}>
+                        Use
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => onRemoveMusicCandidate(candidate.audioAssetId)}>
+                        Remove
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            );
+          })}
         </div>
       )}
 
@@ -248,6 +398,12 @@ export function MusicEditor({
           <span>Generating background music...</span>
         </div>
       )}
+
+      {onDelete && (
+        <Button variant="outline" size="sm" onClick={() => onDelete(clip.id)}>
+          Remove Music Cue
+        </Button>
+      )}
     </div>
   );
 }
@@ -1,26 +1,82 @@
 "use client";
 
+import { useState } from "react";
 import { EditablePromptButton } from "./EditablePromptButton";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { VoicePicker } from "@/components/voice/VoicePicker";
+import { getSentenceBoundaries, splitNarrationWords } from "@/lib/narrationSegments";
 import type { NarrationSegment } from "@/types/storyboard";
 import type { NarrationGenerationResponse } from "@/types/narration";
+import type { NarrationVoice, VoiceOption } from "@/types/voice";
 
 interface NarrationEditorProps {
   segment: NarrationSegment;
   generatedNarration?: NarrationGenerationResponse;
   generatingNarration?: boolean;
+  projectVoice: NarrationVoice;
+  voices: VoiceOption[];
+  auditioningVoice?: boolean;
   onGenerateNarration: (narrationId: string, text: string) => void;
+  onVoiceChange: (narrationId: string, voice: NarrationVoice | undefined) => void;
+  onAuditionVoice: (voice: NarrationVoice, text?: string) => void;
+  canMerge: boolean; // another segment plays after this one
+  onSplit: (narrationId: string, wordIndex: number) => void; // before word `wordIndex`
+  onMergeWithNext: (narrationId: string) => void;
+  onDelete: (narrationId: string) => void;
 }
 
 export function NarrationEditor({
   segment,
   generatedNarration,
   generatingNarration,
+  projectVoice,
+  voices,
+  auditioningVoice,
   onGenerateNarration,
+  onVoiceChange,
+  onAuditionVoice,
+  canMerge,
+  onSplit,
+  onMergeWithNext,
+  onDelete,
 }: NarrationEditorProps) {
+  const [previewWord, setPreviewWord] = useState("");
+  const projectVoiceName = voices.find(voice => voice.voiceId === projectVoice.voiceId)?.name || projectVoice.voiceId;
+
+  // Sentences of the text, each with the word index it starts at
+  const words = splitNarrationWords(segment.text);
+  const sentenceStarts = [0, ...getSentenceBoundaries(segment.text)];
+  const sentences = sentenceStarts.map((start, i) => ({
+    wordIndex: start,
+    text: words.slice(start, sentenceStarts[i + 1]).join(" "),
+  }));
+
+  // Split segments play their part of the original file
+  const audioStart = generatedNarration?.audioStartSeconds;
+  const previewUrl = generatedNarration && audioStart !== undefined
+    ? `${generatedNarration.audioUrl}#t=${audioStart},${audioStart + generatedNarration.durationSeconds}`
+    : generatedNarration?.audioUrl;
+
   return (
     <div className="border-l-4 border-purple-500 pl-6 space-y-4">
       <div className="flex items-center gap-2 text-sm text-muted-foreground">
         <span className="font-mono">{segment.startTime.toFixed(1)}s - {segment.endTime.toFixed(1)}s</span>
+        <div className="ml-auto flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onMergeWithNext(segment.id)}
+            disabled={!canMerge || generatingNarration}
+            title={canMerge ? "Join with the next segment; the audio is generated again" : "This is the last segment"}
+          >
+            Merge with Next
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => onDelete(segment.id)} disabled={generatingNarration}>
+            Delete Narration
+          </Button>
+        </div>
       </div>
 
       <EditablePromptButton
@@ -33,7 +89,7 @@ export function NarrationEditor({
         rightContent={
           generatedNarration && (
             <audio
-              src={generatedNarration.audioUrl}
+              src={previewUrl}
               controls
               className="h-8"
             />
@@ -46,6 +102,79 @@ export function NarrationEditor({
           Generated in {generatedNarration.processingTimeMs}ms
         </p>
       )}
+
+      {sentences.length > 1 && (
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Sentences</label>
+          <div className="space-y-1">
+            {sentences.map((sentence, i) => (
+              <div key={sentence.wordIndex}>
+                {i > 0 && (
+                  <button
+                    type="button"
+                    className="text-xs text-muted-foreground hover:text-foreground underline disabled:opacity-50"
+                    onClick={() => onSplit(segment.id, sentence.wordIndex)}
+                    disabled={generatingNarration}
+                  >
+                    Split here
+                  </button>
+                )}
+                <p className="text-sm">{sentence.text}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <div className="flex items-center gap-2">
+          <Switch
+            checked={!!segment.voice}
+            // Start the override from the project voice so only the changed settings differ
+            onCheckedChange={(custom) => onVoiceChange(segment.id, custom ? projectVoice : undefined)}
+            disabled={generatingNarration}
+          />
+          <label className="text-sm">Custom voice for this segment</label>
+        </div>
+        {segment.voice ? (
+          <VoicePicker
+            voices={voices}
+            voice={segment.voice}
+            disabled={generatingNarration}
+            auditioning={auditioningVoice}
+            onChange={(voice) => onVoiceChange(segment.id, voice)}
+            onAudition={(voice) => onAuditionVoice(voice, segment.text)}
+          />
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            Using the project voice ({projectVoiceName})
+          </p>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Voice changes apply the next time the audio is generated
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Preview Word</label>
+        {/* Speaks just this word or phrase with the segment's voice and the pronunciation lexicon */}
+        <div className="flex items-center gap-2">
+          <Input
+            value={previewWord}
+            onChange={(e) => setPreviewWord(e.target.value)}
+            placeholder="Product or feature name"
+            className="w-60"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onAuditionVoice(segment.voice ?? projectVoice, previewWord.trim())}
+            disabled={auditioningVoice || !previewWord.trim()}
+          >
+            {auditioningVoice ? "Rendering..." : "Preview Word"}
+          </Button>
+        </div>
+      </div>
     </div>
   );
 }
@@ -6,6 +6,7 @@ import type { StoryboardShot } from "@/types/storyboard";
 import type { StillImageResponse } from "@/types/still-image";
 import type { VideoGenerationResponse } from "@/types/video-generation";
 import type { UploadedVideo } from "@/types/video-analysis";
+import { getAssetUrl } from "@/lib/assets";
 
 interface ShotEditorProps {
   shot: StoryboardShot;
@@ -21,6 +22,11 @@ interface ShotEditorProps {
   onGenerateVideo: (shotId: string, prompt: string) => void;
   onExtractClip: (shotId: string, videoId: string, startTime: number, endTime: number) => void;
   onVeoModelChange: (model: 'veo-2' | 'veo-3') => void;
+  canSplit: boolean; // the playhead is far enough inside the shot's clip
+  canDelete: boolean; // false for the only shot
+  onDuplicate: (shotId: string) => void;
+  onSplit: (shotId: string) => void;
+  onDelete: (shotId: string) => void;
 }
 
 export function ShotEditor({
@@ -37,6 +43,11 @@ export function ShotEditor({
   onGenerateVideo,
   onExtractClip,
   onVeoModelChange,
+  canSplit,
+  canDelete,
+  onDuplicate,
+  onSplit,
+  onDelete,
 }: ShotEditorProps) {
   // For UI shots, find the source video
   const sourceVideo = shot.shotType === 'ui' ? videoFiles.find(v => v.id === shot.videoId) : null;
@@ -54,6 +65,23 @@ export function ShotEditor({
           {shot.shotType === 'cinematic' ? '🎬 Cinematic' : '📱 UI'}
         </span>
         <h3 className="font-semibold">{shot.title}</h3>
+        <div className="ml-auto flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => onDuplicate(shot.id)}>
+            Duplicate
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onSplit(shot.id)}
+            disabled={!canSplit}
+            title={canSplit ? "Split the shot in two at the playhead" : "Move the playhead inside this shot to split it"}
+          >
+            Split at Playhead
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => onDelete(shot.id)} disabled={!canDelete}>
+            Delete Shot
+          </Button>
+        </div>
       </div>
       <p className="text-sm text-muted-foreground">{shot.description}</p>
 
@@ -235,7 +263,7 @@ export function ShotEditor({
               ) : (
                 <>
                   <video
-                    src={`${sourceVideo.originalData}#t=${shot.startTime},${shot.endTime}`}
+                    src={`${getAssetUrl(sourceVideo.originalAssetId)}#t=${shot.startTime},${shot.endTime}`}
                     controls
                     className="w-full h-auto rounded-md"
                     preload="metadata"
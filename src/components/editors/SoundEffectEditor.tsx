@@ -0,0 +1,81 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Slider } from "@/components/ui/slider";
+import type { SoundEffectClip } from "@/types/timeline";
+import type { SoundEffect } from "@/types/sound-effect";
+
+interface SoundEffectEditorProps {
+  clip: SoundEffectClip;
+  soundEffect: SoundEffect | null; // the library sound this clip plays
+  onChange: (clipId: string, updates: Partial<Pick<SoundEffectClip, 'volume' | 'duration'>>) => void;
+  onDelete: (clipId: string) => void;
+}
+
+export function SoundEffectEditor({ clip, soundEffect, onChange, onDelete }: SoundEffectEditorProps) {
+  const volume = clip.volume ?? 1;
+  const isAmbient = clip.audioType === 'ambient';
+
+  return (
+    <div className="border-l-4 border-teal-500 pl-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <span className="bg-teal-500 text-white px-2 py-1 rounded text-sm font-medium">
+            {isAmbient ? 'Ambient' : 'Sound Effect'}
+          </span>
+          <span className="text-sm text-muted-foreground font-mono">
+            {clip.startTime.toFixed(1)}s - {(clip.startTime + clip.duration).toFixed(1)}s
+          </span>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => onDelete(clip.id)}>
+          Delete Sound
+        </Button>
+      </div>
+
+      {soundEffect ? (
+        <div className="space-y-2">
+          <label className="text-sm font-medium">{soundEffect.name}</label>
+          <audio src={soundEffect.audioUrl} controls className="w-full" />
+          <p className="text-xs text-muted-foreground">
+            {soundEffect.source === 'uploaded' ? 'Uploaded' : 'Generated'} • {soundEffect.durationSeconds.toFixed(1)}s
+            {isAmbient && ' • loops to fill the clip'}
+          </p>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">This sound is no longer in the library</p>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <label className="text-sm text-muted-foreground">Volume</label>
+          <span className="text-sm font-mono">{Math.round(volume * 100)}%</span>
+        </div>
+        <Slider
+          value={[volume]}
+          min={0}
+          max={1}
+          step={0.05}
+          onValueChange={([value]) => onChange(clip.id, { volume: value })}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Duration (s)</label>
+        <Input
+          type="number"
+          step="0.1"
+          min={0.1}
+          value={clip.duration}
+          onChange={(e) => onChange(clip.id, { duration: Math.max(0.1, Number(e.target.value) || 0.1) })}
+          className="w-24"
+        />
+        {!isAmbient && soundEffect && clip.duration > soundEffect.durationSeconds + 0.05 && (
+          <p className="text-xs text-muted-foreground">
+            The sound ends after {soundEffect.durationSeconds.toFixed(1)}s; the rest of the clip is silent
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
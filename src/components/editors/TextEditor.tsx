@@ -0,0 +1,180 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { TEXT_ANIMATION_LABELS, TEXT_FONT_LABELS, TEXT_POSITIONS } from "@/lib/textOverlay";
+import type { TextAnimation, TextClip, TextFontFamily, TextPosition, TextStyle } from "@/types/timeline";
+
+interface TextEditorProps {
+  clip: TextClip;
+  onChange: (clipId: string, updates: Partial<Omit<TextClip, 'id' | 'type'>>) => void;
+  onDelete: (clipId: string) => void;
+}
+
+const selectClassName = "h-8 px-2 rounded-md border border-input bg-background text-sm block";
+
+export function TextEditor({ clip, onChange, onDelete }: TextEditorProps) {
+  const updateStyle = (updates: Partial<TextStyle>) => {
+    onChange(clip.id, { style: { ...clip.style, ...updates } });
+  };
+
+  return (
+    <div className="border-l-4 border-amber-500 pl-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-muted-foreground font-mono">
+          {clip.startTime.toFixed(1)}s - {(clip.startTime + clip.duration).toFixed(1)}s
+        </span>
+        <Button variant="outline" size="sm" onClick={() => onDelete(clip.id)}>
+          Delete Text
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Text</label>
+        <Textarea
+          value={clip.text}
+          onChange={(e) => onChange(clip.id, { text: e.target.value })}
+          className="min-h-[60px]"
+        />
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Start (s)</label>
+          <Input
+            type="number"
+            step="0.1"
+            min={0}
+            value={clip.startTime}
+            onChange={(e) => onChange(clip.id, { startTime: Math.max(0, Number(e.target.value) || 0) })}
+            className="w-24"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Duration (s)</label>
+          <Input
+            type="number"
+            step="0.1"
+            min={0.5}
+            value={clip.duration}
+            onChange={(e) => onChange(clip.id, { duration: Math.max(0.5, Number(e.target.value) || 0.5) })}
+            className="w-24"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Position</label>
+          <select
+            value={clip.position}
+            onChange={(e) => onChange(clip.id, { position: e.target.value as TextPosition })}
+            className={selectClassName}
+          >
+            {(Object.keys(TEXT_POSITIONS) as TextPosition[]).map(position => (
+              <option key={position} value={position}>
+                {TEXT_POSITIONS[position].label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Font</label>
+          <select
+            value={clip.style.fontFamily}
+            onChange={(e) => updateStyle({ fontFamily: e.target.value as TextFontFamily })}
+            className={selectClassName}
+          >
+            {(Object.keys(TEXT_FONT_LABELS) as TextFontFamily[]).map(font => (
+              <option key={font} value={font}>
+                {TEXT_FONT_LABELS[font]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Color</label>
+          <input
+            type="color"
+            value={clip.style.color}
+            onChange={(e) => updateStyle({ color: e.target.value })}
+            className="h-8 w-12 rounded-md border border-input bg-background block"
+          />
+        </div>
+        <div className="flex items-center gap-2 pb-1">
+          <Switch
+            checked={clip.style.bold}
+            onCheckedChange={(bold) => updateStyle({ bold })}
+          />
+          <label className="text-sm">Bold</label>
+        </div>
+        <div className="flex items-center gap-2 pb-1">
+          <Switch
+            checked={clip.style.background}
+            onCheckedChange={(background) => updateStyle({ background })}
+          />
+          <label className="text-sm">Background</label>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <label className="text-sm font-medium">Size</label>
+          <span className="text-sm font-mono">{clip.style.fontSize}% of frame height</span>
+        </div>
+        <Slider
+          value={[clip.style.fontSize]}
+          min={2}
+          max={20}
+          step={0.5}
+          onValueChange={([fontSize]) => updateStyle({ fontSize })}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Animation In</label>
+          <select
+            value={clip.animationIn}
+            onChange={(e) => onChange(clip.id, { animationIn: e.target.value as TextAnimation })}
+            className={selectClassName}
+          >
+            {(Object.keys(TEXT_ANIMATION_LABELS) as TextAnimation[]).map(animation => (
+              <option key={animation} value={animation}>
+                {TEXT_ANIMATION_LABELS[animation]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Animation Out</label>
+          <select
+            value={clip.animationOut}
+            onChange={(e) => onChange(clip.id, { animationOut: e.target.value as TextAnimation })}
+            className={selectClassName}
+          >
+            {(Object.keys(TEXT_ANIMATION_LABELS) as TextAnimation[]).map(animation => (
+              <option key={animation} value={animation}>
+                {TEXT_ANIMATION_LABELS[animation]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Animation (s)</label>
+          <Input
+            type="number"
+            step="0.1"
+            min={0.1}
+            value={clip.animationDuration}
+            onChange={(e) => onChange(clip.id, { animationDuration: Math.max(0.1, Number(e.target.value) || 0.1) })}
+            className="w-24"
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
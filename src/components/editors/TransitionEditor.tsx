@@ -0,0 +1,60 @@
+"use client";
+
+import {
+  DEFAULT_TRANSITION_DURATION,
+  MAX_TRANSITION_DURATION,
+  MIN_TRANSITION_DURATION,
+  TRANSITION_LABELS,
+} from "@/lib/transitions";
+import type { ClipTransition, TransitionType } from "@/types/timeline";
+
+interface TransitionEditorProps {
+  transition?: ClipTransition;
+  onChange: (transition: ClipTransition) => void;
+}
+
+export function TransitionEditor({ transition, onChange }: TransitionEditorProps) {
+  const type = transition?.type ?? 'cut';
+  const duration = transition?.duration || DEFAULT_TRANSITION_DURATION;
+
+  return (
+    <div className="flex flex-wrap items-end gap-4">
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Transition In</label>
+        <select
+          value={type}
+          onChange={(e) => {
+            const nextType = e.target.value as TransitionType;
+            onChange({ type: nextType, duration: nextType === 'cut' ? 0 : duration });
+          }}
+          className="h-8 px-2 rounded-md border border-input bg-background text-sm block"
+        >
+          {(Object.keys(TRANSITION_LABELS) as TransitionType[]).map(option => (
+            <option key={option} value={option}>
+              {TRANSITION_LABELS[option]}
+            </option>
+          ))}
+        </select>
+      </div>
+      {type !== 'cut' && (
+        <div className="space-y-2">
+          <label className="text-sm font-medium">
+            Duration: {duration.toFixed(1)}s
+          </label>
+          <input
+            type="range"
+            min={MIN_TRANSITION_DURATION}
+            max={MAX_TRANSITION_DURATION}
+            step={0.1}
+            value={duration}
+            onChange={(e) => onChange({ type, duration: Number(e.target.value) })}
+            className="w-40 block"
+          />
+        </div>
+      )}
+      <p className="text-xs text-muted-foreground pb-2">
+        Overlaps the previous shot; the preview approximates the effect
+      </p>
+    </div>
+  );
+}
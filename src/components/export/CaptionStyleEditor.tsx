@@ -0,0 +1,99 @@
+"use client";
+
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { TEXT_FONT_LABELS } from "@/lib/textOverlay";
+import type { CaptionStyle } from "@/types/captions";
+import type { TextFontFamily } from "@/types/timeline";
+
+interface CaptionStyleEditorProps {
+  style: CaptionStyle;
+  disabled?: boolean;
+  onChange: (style: CaptionStyle) => void;
+}
+
+const selectClassName = "h-8 px-2 rounded-md border border-input bg-background text-sm block";
+
+export function CaptionStyleEditor({ style, disabled = false, onChange }: CaptionStyleEditorProps) {
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Font</label>
+          <select
+            value={style.fontFamily}
+            onChange={(e) => onChange({ ...style, fontFamily: e.target.value as TextFontFamily })}
+            disabled={disabled}
+            className={selectClassName}
+          >
+            {(Object.keys(TEXT_FONT_LABELS) as TextFontFamily[]).map(font => (
+              <option key={font} value={font}>
+                {TEXT_FONT_LABELS[font]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Position</label>
+          <select
+            value={style.position}
+            onChange={(e) => onChange({ ...style, position: e.target.value as CaptionStyle["position"] })}
+            disabled={disabled}
+            className={selectClassName}
+          >
+            <option value="bottom">Bottom</option>
+            <option value="top">Top</option>
+          </select>
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Color</label>
+          <input
+            type="color"
+            value={style.color}
+            onChange={(e) => onChange({ ...style, color: e.target.value })}
+            disabled={disabled}
+            className="h-8 w-12 rounded-md border border-input bg-background block"
+          />
+        </div>
+        <div className="flex items-center gap-2 pb-1">
+          <Switch
+            checked={style.background}
+            onCheckedChange={(background) => onChange({ ...style, background })}
+            disabled={disabled}
+          />
+          <label className="text-sm">Background</label>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <label className="text-sm font-medium">Size</label>
+          <span className="text-sm font-mono">{style.fontSize}% of frame height</span>
+        </div>
+        <Slider
+          value={[style.fontSize]}
+          min={2}
+          max={10}
+          step={0.5}
+          disabled={disabled}
+          onValueChange={([fontSize]) => onChange({ ...style, fontSize })}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <label className="text-sm font-medium">Words per Caption</label>
+          <span className="text-sm font-mono">{style.maxWordsPerCue}</span>
+        </div>
+        <Slider
+          value={[style.maxWordsPerCue]}
+          min={1}
+          max={12}
+          step={1}
+          disabled={disabled}
+          onValueChange={([maxWordsPerCue]) => onChange({ ...style, maxWordsPerCue })}
+        />
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,11 @@
 import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { CaptionStyleEditor } from "./CaptionStyleEditor";
+import { LoudnessReportTable } from "./LoudnessReportTable";
+import { LOUDNESS_PRESETS } from "@/lib/loudness";
+import type { CaptionStyle } from "@/types/captions";
+import type { LoudnessPreset, LoudnessReport } from "@/types/loudness";
+import type { CaptionFiles } from "@/hooks/useExportSizzleReel";
 
 interface ExportSectionProps {
   hasTimeline: boolean;
@@ -7,6 +14,14 @@ interface ExportSectionProps {
   exportProgress: string | null;
   allCinematicVideosGenerated: boolean;
   exportedVideoUrl: string | null;
+  burnInCaptions: boolean;
+  captionStyle: CaptionStyle;
+  captionFiles: CaptionFiles | null;
+  loudnessPreset: LoudnessPreset;
+  loudnessReport: LoudnessReport | null;
+  onBurnInCaptionsChange: (burnIn: boolean) => void;
+  onCaptionStyleChange: (style: CaptionStyle) => void;
+  onLoudnessPresetChange: (preset: LoudnessPreset) => void;
   onExport: () => void;
   onDownload: () => void;
 }
@@ -18,6 +33,14 @@ export function ExportSection({
   exportProgress,
   allCinematicVideosGenerated,
   exportedVideoUrl,
+  burnInCaptions,
+  captionStyle,
+  captionFiles,
+  loudnessPreset,
+  loudnessReport,
+  onBurnInCaptionsChange,
+  onCaptionStyleChange,
+  onLoudnessPresetChange,
   onExport,
   onDownload,
 }: ExportSectionProps) {
@@ -27,6 +50,51 @@ export function ExportSection({
 
   return (
     <div className="flex flex-col items-center gap-4 pt-6 border-t">
+      <div className="w-full max-w-xl space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <label className="text-sm font-medium">Burn In Captions</label>
+            <p className="text-xs text-muted-foreground">
+              SRT and WebVTT caption files are exported either way
+            </p>
+          </div>
+          <Switch
+            checked={burnInCaptions}
+            onCheckedChange={onBurnInCaptionsChange}
+            disabled={exportingVideo}
+          />
+        </div>
+        {/* Words per caption also shapes the sidecar files, so the editor is always shown */}
+        <div className="pl-4 border-l-2 border-muted">
+          <CaptionStyleEditor
+            style={captionStyle}
+            disabled={exportingVideo}
+            onChange={onCaptionStyleChange}
+          />
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-0.5">
+            <label className="text-sm font-medium">Audio Loudness</label>
+            <p className="text-xs text-muted-foreground">
+              {LOUDNESS_PRESETS[loudnessPreset].description}; peaks limited to {LOUDNESS_PRESETS[loudnessPreset].target.truePeakDbtp} dBTP
+            </p>
+          </div>
+          <select
+            value={loudnessPreset}
+            onChange={(e) => onLoudnessPresetChange(e.target.value as LoudnessPreset)}
+            disabled={exportingVideo}
+            className="h-8 px-2 rounded-md border border-input bg-background text-sm"
+          >
+            {(Object.keys(LOUDNESS_PRESETS) as LoudnessPreset[]).map(preset => (
+              <option key={preset} value={preset}>
+                {LOUDNESS_PRESETS[preset].label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
       <Button
         onClick={onExport}
         disabled={exportingVideo || !allCinematicVideosGenerated}
@@ -59,6 +127,17 @@ export function ExportSection({
           >
             Download Video
           </Button>
+          {captionFiles && (
+            <div className="flex gap-4 text-sm">
+              <a href={captionFiles.srtUrl} download="captions.srt" className="underline text-muted-foreground hover:text-foreground">
+                Captions (SRT)
+              </a>
+              <a href={captionFiles.vttUrl} download="captions.vtt" className="underline text-muted-foreground hover:text-foreground">
+                Captions (WebVTT)
+              </a>
+            </div>
+          )}
+          {loudnessReport && <LoudnessReportTable report={loudnessReport} />}
         </div>
       )}
     </div>
@@ -0,0 +1,170 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { VoicePicker } from "@/components/voice/VoicePicker";
+import { LOCALIZATION_LANGUAGES } from "@/lib/localization";
+import { applyLocalization } from "@/lib/timelineConverter";
+import type { Timeline } from "@/types/timeline";
+import type { LanguageCode, LocalizedVersion } from "@/types/localization";
+import type { NarrationVoice, VoiceOption } from "@/types/voice";
+import type { LocalizedExport } from "@/hooks/useExportSizzleReel";
+
+interface LocalizationSectionProps {
+  timeline: Timeline;
+  localizations: Record<string, LocalizedVersion>;
+  localizedExports: Record<string, LocalizedExport>;
+  projectVoice: NarrationVoice;
+  voices: VoiceOption[];
+  auditioningVoice: boolean;
+  localizingLanguage: LanguageCode | null;
+  localizationProgress: string;
+  exportingVideo: boolean;
+  canExport: boolean;
+  onLocalize: (language: LanguageCode, voice: NarrationVoice) => void;
+  onExport: (localization: LocalizedVersion) => void;
+  onRemove: (language: string) => void;
+  onAuditionVoice: (voice: NarrationVoice) => void;
+}
+
+const selectClassName = "h-8 px-2 rounded-md border border-input bg-background text-sm block";
+
+export function LocalizationSection({
+  timeline,
+  localizations,
+  localizedExports,
+  projectVoice,
+  voices,
+  auditioningVoice,
+  localizingLanguage,
+  localizationProgress,
+  exportingVideo,
+  canExport,
+  onLocalize,
+  onExport,
+  onRemove,
+  onAuditionVoice,
+}: LocalizationSectionProps) {
+  const [language, setLanguage] = useState<LanguageCode>("es");
+  const [voice, setVoice] = useState<NarrationVoice>(projectVoice);
+  const busy = !!localizingLanguage || exportingVideo;
+
+  return (
+    <div className="flex flex-col items-center gap-4 pt-6 border-t">
+      <div className="w-full max-w-xl space-y-4">
+        <div className="space-y-0.5">
+          <h3 className="text-sm font-medium">Localize</h3>
+          <p className="text-xs text-muted-foreground">
+            Translates narration and text overlays, voices them in the new language and refits the
+            narration to the same video and music
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Language</label>
+          <select
+            value={language}
+            onChange={(e) => setLanguage(e.target.value as LanguageCode)}
+            disabled={busy}
+            className={selectClassName}
+          >
+            {(Object.keys(LOCALIZATION_LANGUAGES) as LanguageCode[]).map(code => (
+              <option key={code} value={code}>
+                {LOCALIZATION_LANGUAGES[code].label} ({LOCALIZATION_LANGUAGES[code].englishName})
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Multilingual voices speak every language; pick one that suits the market */}
+        <div className="pl-4 border-l-2 border-muted">
+          <VoicePicker
+            voices={voices}
+            voice={voice}
+            disabled={busy}
+            auditioning={auditioningVoice}
+            onChange={setVoice}
+            onAudition={onAuditionVoice}
+          />
+        </div>
+
+        <Button onClick={() => onLocalize(language, voice)} disabled={busy}>
+          {localizingLanguage
+            ? localizationProgress || "Localizing..."
+            : localizations[language]
+              ? `Re-localize ${LOCALIZATION_LANGUAGES[language].englishName}`
+              : `Localize into ${LOCALIZATION_LANGUAGES[language].englishName}`}
+        </Button>
+      </div>
+
+      {Object.values(localizations).map(localization => {
+        const config = LOCALIZATION_LANGUAGES[localization.language];
+        const exported = localizedExports[localization.language];
+        const { warnings } = applyLocalization(timeline, localization);
+
+        return (
+          <div key={localization.language} className="w-full max-w-xl rounded-md border p-3 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm font-medium">
+                {config.label} ({config.englishName})
+              </span>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  onClick={() => onExport(localization)}
+                  disabled={busy || !canExport}
+                >
+                  Export MP4
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => onRemove(localization.language)}
+                  disabled={busy}
+                >
+                  Remove
+                </Button>
+              </div>
+            </div>
+
+            {warnings.map(warning => (
+              <p key={warning} className="text-xs text-amber-600">
+                {warning}
+              </p>
+            ))}
+
+            {exported && (
+              <div className="flex gap-4 text-sm">
+                <a
+                  href={exported.videoUrl}
+                  download={`sizzle-reel-${localization.language}.mp4`}
+                  className="underline text-muted-foreground hover:text-foreground"
+                >
+                  Video
+                </a>
+                {exported.captionFiles && (
+                  <>
+                    <a
+                      href={exported.captionFiles.srtUrl}
+                      download={`captions-${localization.language}.srt`}
+                      className="underline text-muted-foreground hover:text-foreground"
+                    >
+                      Captions (SRT)
+                    </a>
+                    <a
+                      href={exported.captionFiles.vttUrl}
+                      download={`captions-${localization.language}.vtt`}
+                      className="underline text-muted-foreground hover:text-foreground"
+                    >
+                      Captions (WebVTT)
+                    </a>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
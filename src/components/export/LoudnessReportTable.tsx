@@ -0,0 +1,76 @@
+import { LOUDNESS_PRESETS, LOUDNESS_TOLERANCE_LU } from "@/lib/loudness";
+import type { LoudnessMeasurement, LoudnessReport } from "@/types/loudness";
+
+interface LoudnessReportTableProps {
+  report: LoudnessReport;
+}
+
+function formatDb(value: number): string {
+  return value.toFixed(1);
+}
+
+function MeasurementRow({ label, measurement }: { label: string; measurement: LoudnessMeasurement | null }) {
+  return (
+    <tr className="border-t">
+      <td className="py-1 pr-4">{label}</td>
+      {measurement ? (
+        <>
+          <td className="py-1 pr-4 text-right font-mono">{formatDb(measurement.integratedLufs)}</td>
+          <td className="py-1 pr-4 text-right font-mono">{formatDb(measurement.truePeakDbtp)}</td>
+          <td className="py-1 text-right font-mono">{formatDb(measurement.loudnessRange)}</td>
+        </>
+      ) : (
+        <td colSpan={3} className="py-1 text-right text-muted-foreground">Silent</td>
+      )}
+    </tr>
+  );
+}
+
+export function LoudnessReportTable({ report }: LoudnessReportTableProps) {
+  const { target, output } = report;
+  const offTarget = output ? output.integratedLufs - target.integratedLufs : 0;
+  // True peaks are rounded to 0.1 dB by loudnorm
+  const peaksOver = !!output && output.truePeakDbtp > target.truePeakDbtp + 0.1;
+  const levelOff = Math.abs(offTarget) > LOUDNESS_TOLERANCE_LU;
+
+  let status = "On target";
+  if (levelOff) {
+    status = `${formatDb(Math.abs(offTarget))} LU ${offTarget < 0 ? "below" : "above"} target`;
+  } else if (peaksOver) {
+    status = "Peaks above the true-peak ceiling";
+  }
+
+  return (
+    <div className="w-full max-w-xl space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">Loudness - {LOUDNESS_PRESETS[report.preset].label}</span>
+        {output && (
+          <span className={levelOff || peaksOver ? "text-amber-600" : "text-green-600"}>{status}</span>
+        )}
+      </div>
+      <table className="w-full text-xs">
+        <thead className="text-muted-foreground">
+          <tr>
+            <th className="py-1 pr-4 text-left font-normal">Track</th>
+            <th className="py-1 pr-4 text-right font-normal">Integrated (LUFS)</th>
+            <th className="py-1 pr-4 text-right font-normal">True peak (dBTP)</th>
+            <th className="py-1 text-right font-normal">Range (LU)</th>
+          </tr>
+        </thead>
+        <tbody>
+          <MeasurementRow label="Narration" measurement={report.stems.narration} />
+          <MeasurementRow label="Music" measurement={report.stems.music} />
+          {report.stems.effects && <MeasurementRow label="Sound effects" measurement={report.stems.effects} />}
+          <MeasurementRow label="Mix (before mastering)" measurement={report.mix} />
+          <MeasurementRow label="Final reel" measurement={output} />
+          <tr className="border-t text-muted-foreground">
+            <td className="py-1 pr-4">Target</td>
+            <td className="py-1 pr-4 text-right font-mono">{formatDb(target.integratedLufs)}</td>
+            <td className="py-1 pr-4 text-right font-mono">&le; {formatDb(target.truePeakDbtp)}</td>
+            <td className="py-1 text-right font-mono">&le; {formatDb(target.loudnessRange)}</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
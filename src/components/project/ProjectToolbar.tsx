@@ -0,0 +1,96 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { ProjectSummary } from "@/types/project";
+
+interface ProjectToolbarProps {
+  projectId: string | null;
+  projectName: string;
+  savedProjects: ProjectSummary[];
+  lastSavedAt: string | null;
+  savingProject: boolean;
+  loadingProject: boolean;
+  disabled?: boolean;
+  onProjectNameChange: (name: string) => void;
+  onSave: () => void;
+  onLoad: (projectId: string) => void;
+  onSaveAsNew: () => void;
+}
+
+export function ProjectToolbar({
+  projectId,
+  projectName,
+  savedProjects,
+  lastSavedAt,
+  savingProject,
+  loadingProject,
+  disabled = false,
+  onProjectNameChange,
+  onSave,
+  onLoad,
+  onSaveAsNew,
+}: ProjectToolbarProps) {
+  const [selectedProjectId, setSelectedProjectId] = useState("");
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Input
+        value={projectName}
+        onChange={(e) => onProjectNameChange(e.target.value)}
+        placeholder="Project name"
+        className="w-56"
+        disabled={disabled}
+      />
+      <Button
+        onClick={onSave}
+        disabled={disabled || savingProject || loadingProject}
+        size="sm"
+      >
+        {savingProject ? "Saving..." : "Save Project"}
+      </Button>
+      <Button
+        onClick={onSaveAsNew}
+        disabled={disabled || savingProject || loadingProject || !projectId}
+        size="sm"
+        variant="ghost"
+        title="Save a copy as a new project"
+      >
+        Save as New
+      </Button>
+
+      <div className="flex items-center gap-2 ml-auto">
+        <select
+          value={selectedProjectId}
+          onChange={(e) => setSelectedProjectId(e.target.value)}
+          disabled={disabled || loadingProject || savedProjects.length === 0}
+          className="h-8 px-2 rounded-md border border-input bg-background text-sm max-w-56"
+        >
+          <option value="">
+            {savedProjects.length === 0 ? "No saved projects" : "Open project..."}
+          </option>
+          {savedProjects.map(project => (
+            <option key={project.projectId} value={project.projectId}>
+              {project.name} ({new Date(project.updatedAt).toLocaleString()})
+            </option>
+          ))}
+        </select>
+        <Button
+          onClick={() => selectedProjectId && onLoad(selectedProjectId)}
+          disabled={disabled || loadingProject || !selectedProjectId}
+          size="sm"
+          variant="outline"
+        >
+          {loadingProject ? "Loading..." : "Open"}
+        </Button>
+      </div>
+
+      {lastSavedAt && (
+        <p className="w-full text-xs text-muted-foreground">
+          Last saved {new Date(lastSavedAt).toLocaleString()}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import type { StoryboardShot } from "@/types/storyboard";
+import type { UploadedVideo, VideoAnalysisResponse } from "@/types/video-analysis";
+
+interface InsertShotControlsProps {
+  videoFiles: UploadedVideo[];
+  videoAnalyses: Record<string, VideoAnalysisResponse>; // by video ID
+  onInsert: (shot: StoryboardShot) => void; // placed at the playhead by the page
+}
+
+const selectClassName = "h-8 px-2 rounded-md border border-input bg-background text-sm block";
+
+export function InsertShotControls({ videoFiles, videoAnalyses, onInsert }: InsertShotControlsProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [shotType, setShotType] = useState<StoryboardShot["shotType"]>("cinematic");
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [stillPrompt, setStillPrompt] = useState("");
+  const [videoPrompt, setVideoPrompt] = useState("");
+  const [videoId, setVideoId] = useState(videoFiles[0]?.id ?? "");
+  const [startTime, setStartTime] = useState(0);
+  const [endTime, setEndTime] = useState(5);
+
+  // Recordings can be removed while the form is open
+  const selectedVideoId = videoFiles.some(video => video.id === videoId) ? videoId : videoFiles[0]?.id;
+  const analysis = selectedVideoId ? videoAnalyses[selectedVideoId] : undefined;
+  const canInsert = !!title.trim() && (shotType === "cinematic"
+    ? !!stillPrompt.trim() && !!videoPrompt.trim()
+    : !!selectedVideoId && endTime > startTime);
+
+  const handleInsert = () => {
+    const base = { id: `shot-${crypto.randomUUID()}`, title: title.trim(), description: description.trim(), order: 0 };
+    if (shotType === "cinematic") {
+      onInsert({ ...base, shotType, stillPrompt: stillPrompt.trim(), videoPrompt: videoPrompt.trim() });
+    } else if (selectedVideoId) {
+      onInsert({ ...base, shotType, uiDescription: description.trim(), videoId: selectedVideoId, startTime, endTime });
+    }
+    setTitle("");
+    setDescription("");
+    setStillPrompt("");
+    setVideoPrompt("");
+    setExpanded(false);
+  };
+
+  if (!expanded) {
+    return (
+      <Button onClick={() => setExpanded(true)} variant="outline" size="sm">
+        + Insert Shot at Playhead
+      </Button>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-xl space-y-3 rounded-md border p-4">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Type</label>
+          <select
+            value={shotType}
+            onChange={(e) => setShotType(e.target.value as StoryboardShot["shotType"])}
+            className={selectClassName}
+          >
+            <option value="cinematic">Cinematic</option>
+            <option value="ui" disabled={videoFiles.length === 0}>UI recording</option>
+          </select>
+        </div>
+        <div className="flex-1 space-y-2">
+          <label className="text-sm font-medium">Title</label>
+          <Input value={title} onChange={(e) => setTitle(e.target.value)} className="h-8" />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Description</label>
+        <Textarea
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          className="min-h-[50px]"
+        />
+      </div>
+
+      {shotType === "cinematic" ? (
+        <>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Still Prompt</label>
+            <Textarea value={stillPrompt} onChange={(e) => setStillPrompt(e.target.value)} className="min-h-[60px]" />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Video Prompt</label>
+            <Textarea value={videoPrompt} onChange={(e) => setVideoPrompt(e.target.value)} className="min-h-[60px]" />
+          </div>
+        </>
+      ) : (
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Recording</label>
+            <select value={selectedVideoId} onChange={(e) => setVideoId(e.target.value)} className={selectClassName}>
+              {videoFiles.map(video => (
+                <option key={video.id} value={video.id}>{video.filename}</option>
+              ))}
+            </select>
+          </div>
+          {analysis && analysis.segments.length > 0 && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Segment</label>
+              <select
+                value=""
+                onChange={(e) => {
+                  const segment = analysis.segments[Number(e.target.value)];
+                  if (!segment) return;
+                  setStartTime(segment.startTime);
+                  setEndTime(segment.endTime);
+                  if (!description.trim()) setDescription(segment.description);
+                }}
+                className={`${selectClassName} max-w-[16rem]`}
+              >
+                <option value="">Pick from analysis...</option>
+                {analysis.segments.map((segment, index) => (
+                  <option key={index} value={index}>
+                    {segment.startTime.toFixed(1)}s - {segment.endTime.toFixed(1)}s: {segment.description}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Start (s)</label>
+            <Input
+              type="number"
+              step="0.1"
+              min={0}
+              max={analysis?.duration}
+              value={startTime}
+              onChange={(e) => setStartTime(Math.max(0, Number(e.target.value) || 0))}
+              className="w-24 h-8"
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">End (s)</label>
+            <Input
+              type="number"
+              step="0.1"
+              min={0}
+              max={analysis?.duration}
+              value={endTime}
+              onChange={(e) => setEndTime(Math.max(0, Number(e.target.value) || 0))}
+              className="w-24 h-8"
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Button onClick={handleInsert} disabled={!canInsert} size="sm">
+          Insert Shot
+        </Button>
+        <Button onClick={() => setExpanded(false)} variant="ghost" size="sm">
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+"use client";
+
+import { ASPECT_RATIOS } from "@/lib/outputFormat";
+import type { AspectRatio, OutputFormat, UIReframeMode } from "@/types/output-format";
+
+interface OutputFormatControlsProps {
+  outputFormat: OutputFormat;
+  disabled?: boolean;
+  onChange: (outputFormat: OutputFormat) => void;
+}
+
+const UI_REFRAME_LABELS: Record<UIReframeMode, string> = {
+  smart: "Smart reframe",
+  letterbox: "Letterbox",
+};
+
+export function OutputFormatControls({
+  outputFormat,
+  disabled = false,
+  onChange,
+}: OutputFormatControlsProps) {
+  return (
+    <div className="flex flex-wrap items-end gap-4">
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Aspect Ratio</label>
+        <select
+          value={outputFormat.aspectRatio}
+          onChange={(e) => onChange({ ...outputFormat, aspectRatio: e.target.value as AspectRatio })}
+          disabled={disabled}
+          className="h-8 px-2 rounded-md border border-input bg-background text-sm block"
+        >
+          {(Object.keys(ASPECT_RATIOS) as AspectRatio[]).map(ratio => (
+            <option key={ratio} value={ratio}>
+              {ASPECT_RATIOS[ratio].label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="space-y-2">
+        <label className="text-sm font-medium">UI Recordings</label>
+        <select
+          value={outputFormat.uiReframe}
+          onChange={(e) => onChange({ ...outputFormat, uiReframe: e.target.value as UIReframeMode })}
+          disabled={disabled}
+          className="h-8 px-2 rounded-md border border-input bg-background text-sm block"
+        >
+          {(Object.keys(UI_REFRAME_LABELS) as UIReframeMode[]).map(mode => (
+            <option key={mode} value={mode}>
+              {UI_REFRAME_LABELS[mode]}
+            </option>
+          ))}
+        </select>
+      </div>
+      <p className="text-xs text-muted-foreground pb-2">
+        Applies to newly generated stills and videos, and to export
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import { PACING_PRESETS, TARGET_DURATIONS } from "@/lib/storyboardPacing";
+import type { PacingPreset, TargetDuration } from "@/types/storyboard";
+
+interface StoryboardLengthControlsProps {
+  targetDuration: TargetDuration | null;
+  pacing: PacingPreset;
+  disabled?: boolean;
+  onTargetDurationChange: (targetDuration: TargetDuration | null) => void;
+  onPacingChange: (pacing: PacingPreset) => void;
+}
+
+export function StoryboardLengthControls({
+  targetDuration,
+  pacing,
+  disabled = false,
+  onTargetDurationChange,
+  onPacingChange,
+}: StoryboardLengthControlsProps) {
+  return (
+    <div className="flex flex-wrap items-end gap-4">
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Reel Length</label>
+        <select
+          value={targetDuration ?? ""}
+          onChange={(e) => onTargetDurationChange(e.target.value ? Number(e.target.value) as TargetDuration : null)}
+          disabled={disabled}
+          className="h-8 px-2 rounded-md border border-input bg-background text-sm block"
+        >
+          <option value="">Auto</option>
+          {TARGET_DURATIONS.map(duration => (
+            <option key={duration} value={duration}>
+              {duration}s
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Pacing</label>
+        <select
+          value={pacing}
+          onChange={(e) => onPacingChange(e.target.value as PacingPreset)}
+          disabled={disabled}
+          className="h-8 px-2 rounded-md border border-input bg-background text-sm block"
+        >
+          {(Object.keys(PACING_PRESETS) as PacingPreset[]).map(preset => (
+            <option key={preset} value={preset}>
+              {PACING_PRESETS[preset].label}
+            </option>
+          ))}
+        </select>
+      </div>
+      {targetDuration && (
+        <p className="text-xs text-muted-foreground pb-2">
+          UI clips {PACING_PRESETS[pacing].minUiClipSeconds}-{PACING_PRESETS[pacing].maxUiClipSeconds}s, narration kept short enough to fit
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import type { HistoryEntry } from "@/hooks/useProjectHistory";
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[]; // oldest first
+  currentEntryId: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJumpToEntry: (entryId: number) => void;
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+}
+
+export function HistoryPanel({
+  entries,
+  currentEntryId,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onJumpToEntry,
+}: HistoryPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+  const currentIndex = entries.findIndex(entry => entry.id === currentEntryId);
+
+  return (
+    <div className="w-full max-w-xl mx-auto space-y-2">
+      <div className="flex items-center gap-2">
+        <Button onClick={onUndo} disabled={!canUndo} variant="outline" size="sm" title="Undo (Ctrl+Z)">
+          Undo
+        </Button>
+        <Button onClick={onRedo} disabled={!canRedo} variant="outline" size="sm" title="Redo (Ctrl+Shift+Z)">
+          Redo
+        </Button>
+        <span className="flex-1 text-xs text-muted-foreground truncate">
+          {entries[currentIndex]?.label}
+        </span>
+        <Button onClick={() => setExpanded(!expanded)} variant="ghost" size="sm">
+          {expanded ? "Hide history" : `History (${entries.length - 1})`}
+        </Button>
+      </div>
+
+      {expanded && (
+        // Newest first; entries after the current one can be redone
+        <ol className="max-h-48 overflow-y-auto rounded-md border text-sm divide-y">
+          {entries.map((entry, index) => ({ entry, index })).reverse().map(({ entry, index }) => (
+            <li key={entry.id}>
+              <button
+                type="button"
+                onClick={() => onJumpToEntry(entry.id)}
+                className={`w-full flex items-center justify-between px-3 py-1.5 text-left hover:bg-muted ${
+                  index === currentIndex ? "bg-muted font-medium" : ""
+                } ${index > currentIndex ? "text-muted-foreground line-through" : ""}`}
+              >
+                <span>{entry.label}</span>
+                <span className="text-xs text-muted-foreground font-mono">{formatTime(entry.timestamp)}</span>
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
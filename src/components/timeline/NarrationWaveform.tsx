@@ -0,0 +1,68 @@
+"use client";
+
+import { useAudioPeaks } from "@/hooks/useAudioPeaks";
+import type { WordTiming } from "@/types/captions";
+
+interface NarrationWaveformProps {
+  audioUrl: string;
+  words?: WordTiming[];
+  clipDuration: number; // seconds of audio shown (the clip may be shorter than the audio)
+  audioDuration: number;
+  audioStart?: number; // where the clip's audio starts in the file, for split segments
+}
+
+const BUCKET_COUNT = 120;
+
+/**
+ * Waveform of a narration clip with each word drawn where it is spoken
+ */
+export function NarrationWaveform({ audioUrl, words = [], clipDuration, audioDuration, audioStart }: NarrationWaveformProps) {
+  const peaks = useAudioPeaks(
+    audioUrl,
+    BUCKET_COUNT,
+    audioStart !== undefined ? { start: audioStart, end: audioStart + audioDuration } : undefined
+  );
+
+  // Only the part of the audio that fits in the clip is visible; positions are
+  // relative to the clip, which may also be longer than the audio
+  const audioLength = audioDuration || clipDuration;
+  const visibleShare = Math.min(1, clipDuration / audioLength);
+  const visiblePeaks = peaks ? peaks.slice(0, Math.max(1, Math.round(peaks.length * visibleShare))) : [];
+  const waveformWidth = Math.min(1, audioLength / clipDuration) * 100;
+
+  return (
+    <div className="absolute inset-0 pointer-events-none">
+      {visiblePeaks.length > 0 && (
+        <svg
+          className="absolute inset-y-0 left-0 h-full"
+          style={{ width: `${waveformWidth}%` }}
+          viewBox={`0 0 ${visiblePeaks.length} 2`}
+          preserveAspectRatio="none"
+        >
+          {visiblePeaks.map((peak, i) => (
+            <rect
+              key={i}
+              x={i + 0.15}
+              y={1 - peak * 0.9}
+              width={0.7}
+              height={Math.max(0.02, peak * 1.8)}
+              className="fill-white/40"
+            />
+          ))}
+        </svg>
+      )}
+      {words
+        .filter(word => word.start < clipDuration)
+        .map((word, i) => (
+          <span
+            key={`${i}-${word.text}`}
+            className="absolute bottom-0 text-[10px] leading-none text-white/90 whitespace-nowrap border-l border-white/50 pl-0.5"
+            style={{ left: `${(word.start / clipDuration) * 100}%` }}
+            title={`${word.text} (${word.start.toFixed(2)}s)`}
+          >
+            {word.text}
+          </span>
+        ))}
+    </div>
+  );
+}
@@ -1,44 +1,71 @@
 "use client";
 
-import { useRef, useEffect, useState, useCallback } from "react";
+import { useRef, useEffect, useState, useCallback, useMemo } from "react";
 import { Button } from "@/components/ui/button";
-import type { Timeline as TimelineType, VideoClip, AudioClip } from "@/types/timeline";
+import type { Timeline as TimelineType, VideoClip, AudioClip, TextClip, TextFontFamily } from "@/types/timeline";
 import type { StoryboardShot } from "@/types/storyboard";
-import type { MusicDuckingSettings } from "@/types/music";
+import type { MusicBeatGrid, MusicDuckingSettings } from "@/types/music";
+import type { AspectRatio, OutputFormat } from "@/types/output-format";
+import { ASPECT_RATIOS, DEFAULT_OUTPUT_FORMAT } from "@/lib/outputFormat";
+import { getVideoFrameAtTime } from "@/lib/transitions";
+import { getClipSourceOffset } from "@/lib/videoTrim";
+import { getTextAnimationState, TEXT_POSITIONS } from "@/lib/textOverlay";
+import { getMusicFadeGain, getMusicSourceTime, planMusicClips, type MusicTrackInfo } from "@/lib/musicFit";
 import { useTimelineClips, getClipsAtTime } from "@/hooks/useTimelineClips";
-import { isVideoClip, isAudioClip, isNarrationClip } from "@/types/timeline";
+import { isVideoClip, isAudioClip, isNarrationClip, isTextClip, isMusicClip, isSoundEffectClip } from "@/types/timeline";
 
 interface PreviewPlayerV2Props {
   timeline: TimelineType;
   shots: Record<string, StoryboardShot>;
   generatedVideos: Record<string, { videoUrl: string }>;
   generatedImages: Record<string, { imageUrl: string }>;
-  generatedNarration: Record<string, { audioUrl: string }>;
-  generatedMusic?: { audioUrl: string } | null;
+  generatedNarration: Record<string, { audioUrl: string; audioStartSeconds?: number; durationSeconds?: number }>;
+  musicTracks?: Record<string, { audioUrl: string; actualDurationSeconds?: number; beatGrid?: MusicBeatGrid }>; // by asset ID
   musicDuckingSettings?: MusicDuckingSettings;
+  soundEffects?: Record<string, { audioUrl: string }>; // by asset ID
   onTimeUpdate?: (time: number) => void;
   seekTime?: number;
+  outputFormat?: OutputFormat;
 }
 
+// Keep vertical and square previews from growing taller than the page
+const PREVIEW_WIDTH_CLASSES: Record<AspectRatio, string> = {
+  "16:9": "max-w-3xl",
+  "9:16": "max-w-xs",
+  "1:1": "max-w-md",
+};
+
+const PREVIEW_FONTS: Record<TextFontFamily, string> = {
+  sans: 'ui-sans-serif, system-ui, sans-serif',
+  serif: 'ui-serif, Georgia, serif',
+  mono: 'ui-monospace, monospace',
+};
+
+const ANCHOR_TRANSLATE = { top: '0%', middle: '-50%', bottom: '-100%' } as const;
+
 export function PreviewPlayerV2({
   timeline,
   shots,
   generatedVideos,
   generatedImages,
   generatedNarration,
-  generatedMusic,
+  musicTracks = {},
   musicDuckingSettings,
+  soundEffects = {},
   onTimeUpdate,
   seekTime,
+  outputFormat = DEFAULT_OUTPUT_FORMAT,
 }: PreviewPlayerV2Props) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const audioRefs = useRef<Map<string, HTMLAudioElement>>(new Map());
-  const musicRef = useRef<HTMLAudioElement | null>(null);
+  const musicRefs = useRef<Map<string, HTMLAudioElement>>(new Map()); // by music clip ID
+  const effectRefs = useRef<Map<string, HTMLAudioElement>>(new Map()); // by sfx/ambient clip ID
+  const duckVolumeRef = useRef(musicDuckingSettings?.normalVolume ?? 0.3);
   const [currentTime, setCurrentTime] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
   const animationFrameRef = useRef<number | undefined>(undefined);
 
-  const { allClips, videoClips, audioClips, totalDuration } = useTimelineClips(timeline);
+  const { allClips, videoClips, audioClips, textClips, totalDuration } = useTimelineClips(timeline);
 
   const SEEK_THRESHOLD_SECONDS = 0.5;
 
@@ -65,12 +92,17 @@ export function PreviewPlayerV2({
     audioRefs.current.clear();
   }, [generatedNarration]);
 
-  // Find current video clip
-  const currentVideoClip = videoClips.find(
-    clip => isVideoClip(clip) && currentTime >= clip.startTime && currentTime < (clip.startTime + clip.duration)
-  ) as VideoClip | undefined;
+  // Find current video clip (transitions decide which of two overlapping clips shows)
+  const currentFrame = getVideoFrameAtTime(videoClips.filter(isVideoClip), currentTime);
+  const currentVideoClip: VideoClip | undefined = currentFrame?.clip;
+
+  const activeTextClips = textClips.filter(
+    (clip): clip is TextClip => isTextClip(clip) && currentTime >= clip.startTime && currentTime < clip.startTime + clip.duration
+  );
 
   const currentShot = currentVideoClip ? shots[currentVideoClip.shotId] : null;
+  // Seconds into the shot's video where the clip's in point is
+  const sourceOffset = currentVideoClip && currentShot ? getClipSourceOffset(currentVideoClip, currentShot) : 0;
   const videoUrl = currentShot ? generatedVideos[currentShot.id]?.videoUrl : null;
   const stillUrl = currentShot?.shotType === 'cinematic'
     ? generatedImages[currentShot.id]?.imageUrl
@@ -100,14 +132,19 @@ export function PreviewPlayerV2({
     const isInTimeRange = currentTime >= clip.startTime && currentTime < (clip.startTime + clip.duration);
     const audioIsPlaying = !audio.paused;
 
-    const audioDuration = audio.duration;
+    // Segments split from a longer segment play only their part of the shared file
+    const narration = generatedNarration[clip.sourceId];
+    const audioStart = narration?.audioStartSeconds ?? 0;
+    const audioDuration = narration?.audioStartSeconds !== undefined && narration.durationSeconds
+      ? narration.durationSeconds
+      : audio.duration - audioStart;
     const hasAudioFinished = !isNaN(audioDuration) && timeIntoClip >= audioDuration;
 
     if (isPlaying && isInTimeRange && !hasAudioFinished) {
-      const drift = Math.abs(audio.currentTime - timeIntoClip);
+      const drift = Math.abs(audio.currentTime - (audioStart + timeIntoClip));
 
       if (drift > SEEK_THRESHOLD_SECONDS) {
-        audio.currentTime = timeIntoClip;
+        audio.currentTime = audioStart + timeIntoClip;
       }
 
       if (!audioIsPlaying) {
@@ -118,7 +155,7 @@ export function PreviewPlayerV2({
     } else if (audioIsPlaying) {
       audio.pause();
     }
-  }, [currentTime, isPlaying, SEEK_THRESHOLD_SECONDS]);
+  }, [currentTime, isPlaying, generatedNarration, SEEK_THRESHOLD_SECONDS]);
 
   // Handle audio playback
   useEffect(() => {
@@ -138,72 +175,75 @@ export function PreviewPlayerV2({
       audioRefs.current.forEach((audio) => {
         audio.pause();
       });
-      if (musicRef.current) {
-        musicRef.current.pause();
-      }
+      musicRefs.current.forEach((music) => {
+        music.pause();
+      });
+      effectRefs.current.forEach((effect) => {
+        effect.pause();
+      });
     }
   }, [isPlaying]);
 
-  // Create music audio element when music is available
+  const musicClips = useMemo(() => audioClips.filter(isMusicClip), [audioClips]);
+
+  // Create an audio element per music clip whose track is available
   useEffect(() => {
-    if (!generatedMusic?.audioUrl) {
-      // Clean up if music is removed
-      if (musicRef.current) {
-        musicRef.current.pause();
-        musicRef.current.src = '';
-        musicRef.current = null;
-      }
-      return;
+    const musicElements = musicRefs.current;
+    const liveClipIds = new Set<string>();
+
+    for (const clip of musicClips) {
+      const audioUrl = musicTracks[clip.sourceId]?.audioUrl;
+      if (!audioUrl) continue;
+      liveClipIds.add(clip.id);
+
+      const existing = musicElements.get(clip.id);
+      if (existing?.getAttribute('src') === audioUrl) continue;
+      existing?.pause();
+      const music = new Audio(audioUrl);
+      music.loop = false;
+      musicElements.set(clip.id, music);
     }
 
-    // Create music audio element
-    if (!musicRef.current || musicRef.current.src !== generatedMusic.audioUrl) {
-      if (musicRef.current) {
-        musicRef.current.pause();
-      }
-      musicRef.current = new Audio(generatedMusic.audioUrl);
-      musicRef.current.volume = musicDuckingSettings?.normalVolume ?? 0.3;
-      musicRef.current.loop = false;
-    }
+    // Clean up music for clips that were removed or lost their track
+    musicElements.forEach((music, clipId) => {
+      if (liveClipIds.has(clipId)) return;
+      music.pause();
+      music.src = '';
+      musicElements.delete(clipId);
+    });
+  }, [musicClips, musicTracks]);
 
-    // Cleanup only when music changes or component unmounts
+  useEffect(() => {
+    const musicElements = musicRefs.current;
     return () => {
-      if (musicRef.current) {
-        musicRef.current.pause();
-      }
+      musicElements.forEach((music) => {
+        music.pause();
+        music.src = '';
+      });
+      musicElements.clear();
     };
-  }, [generatedMusic?.audioUrl, musicDuckingSettings?.normalVolume]);
-
-  // Sync music playback to timeline
-  useEffect(() => {
-    if (!musicRef.current) return;
-
-    const music = musicRef.current;
-
-    if (isPlaying) {
-      const drift = Math.abs(music.currentTime - currentTime);
+  }, []);
 
-      if (drift > SEEK_THRESHOLD_SECONDS) {
-        music.currentTime = Math.max(0, Math.min(currentTime, music.duration || totalDuration));
+  // Play each music clip trimmed, looped and faded the way export will
+  const musicPlans = useMemo(() => {
+    const tracks: Record<string, MusicTrackInfo> = {};
+    for (const [assetId, track] of Object.entries(musicTracks)) {
+      if (track.actualDurationSeconds) {
+        tracks[assetId] = { actualDurationSeconds: track.actualDurationSeconds, beatGrid: track.beatGrid };
       }
-
-      if (music.paused) {
-        music.play().catch(() => {
-          // Ignore auto-play errors
-        });
-      }
-    } else {
-      music.pause();
     }
-  }, [currentTime, isPlaying, totalDuration, SEEK_THRESHOLD_SECONDS]);
+    return planMusicClips(musicClips, tracks);
+  }, [musicClips, musicTracks]);
 
-  // Audio ducking: smoothly adjust music volume based on narration
+  // Audio ducking: smoothly move the music level towards normal or ducked volume
   useEffect(() => {
-    if (!musicRef.current || !musicDuckingSettings?.enabled) {
+    if (!musicDuckingSettings) return;
+
+    if (!musicDuckingSettings.enabled) {
+      duckVolumeRef.current = musicDuckingSettings.normalVolume;
       return;
     }
 
-    const music = musicRef.current;
     const narrationClips = audioClips.filter(isNarrationClip);
 
     // Find if there's active or upcoming narration
@@ -218,7 +258,7 @@ export function PreviewPlayerV2({
       : musicDuckingSettings.normalVolume;
 
     // Smooth volume transition
-    const currentVolume = music.volume;
+    const currentVolume = duckVolumeRef.current;
     const volumeDiff = targetVolume - currentVolume;
 
     if (Math.abs(volumeDiff) > 0.01) {
@@ -229,23 +269,123 @@ export function PreviewPlayerV2({
 
       // Clamp to target to avoid overshooting
       if (volumeDiff > 0) {
-        music.volume = Math.min(newVolume, targetVolume);
+        duckVolumeRef.current = Math.min(newVolume, targetVolume);
       } else {
-        music.volume = Math.max(newVolume, targetVolume);
+        duckVolumeRef.current = Math.max(newVolume, targetVolume);
       }
     }
   }, [currentTime, audioClips, musicDuckingSettings]);
 
+  // Sync music playback to timeline: each clip plays only within its range, at the
+  // ducked level times its fades (which also make overlapping clips crossfade)
+  useEffect(() => {
+    for (const clip of musicClips) {
+      const music = musicRefs.current.get(clip.id);
+      if (!music) continue;
+
+      const timeIntoClip = currentTime - clip.startTime;
+      if (!isPlaying || timeIntoClip < 0 || timeIntoClip >= clip.duration) {
+        music.pause();
+        continue;
+      }
+
+      const clipPlan = musicPlans[clip.id];
+      const musicTime = clipPlan ? getMusicSourceTime(clipPlan.plan, timeIntoClip) : timeIntoClip;
+      const drift = Math.abs(music.currentTime - musicTime);
+
+      if (drift > SEEK_THRESHOLD_SECONDS) {
+        music.currentTime = Math.max(0, Math.min(musicTime, music.duration || clip.duration));
+      }
+
+      const fadeGain = clipPlan ? getMusicFadeGain(clipPlan.plan, clipPlan.fadeIn, timeIntoClip) : 1;
+      music.volume = Math.min(1, Math.max(0, duckVolumeRef.current * fadeGain));
+
+      if (music.paused) {
+        music.play().catch(() => {
+          // Ignore auto-play errors
+        });
+      }
+    }
+  }, [currentTime, isPlaying, musicClips, musicPlans, SEEK_THRESHOLD_SECONDS]);
+
+  const soundEffectClips = useMemo(() => audioClips.filter(isSoundEffectClip), [audioClips]);
+
+  // Create an audio element per sound effect or ambient clip; ambient beds loop
+  useEffect(() => {
+    const effectElements = effectRefs.current;
+    const liveClipIds = new Set<string>();
+
+    for (const clip of soundEffectClips) {
+      const audioUrl = soundEffects[clip.sourceId]?.audioUrl;
+      if (!audioUrl) continue;
+      liveClipIds.add(clip.id);
+
+      const existing = effectElements.get(clip.id);
+      if (existing?.getAttribute('src') === audioUrl) continue;
+      existing?.pause();
+      const effect = new Audio(audioUrl);
+      effect.loop = clip.audioType === 'ambient';
+      effectElements.set(clip.id, effect);
+    }
+
+    effectElements.forEach((effect, clipId) => {
+      if (liveClipIds.has(clipId)) return;
+      effect.pause();
+      effect.src = '';
+      effectElements.delete(clipId);
+    });
+  }, [soundEffectClips, soundEffects]);
+
+  useEffect(() => {
+    const effectElements = effectRefs.current;
+    return () => {
+      effectElements.forEach((effect) => {
+        effect.pause();
+        effect.src = '';
+      });
+      effectElements.clear();
+    };
+  }, []);
+
+  // Sync sound effects to timeline at each clip's volume
+  useEffect(() => {
+    for (const clip of soundEffectClips) {
+      const effect = effectRefs.current.get(clip.id);
+      if (!effect) continue;
+
+      const timeIntoClip = currentTime - clip.startTime;
+      if (!isPlaying || timeIntoClip < 0 || timeIntoClip >= clip.duration) {
+        effect.pause();
+        continue;
+      }
+
+      // Ambient beds wrap around; a sound effect that has finished stays finished
+      const effectTime = effect.loop && effect.duration ? timeIntoClip % effect.duration : timeIntoClip;
+      if (effect.duration && !effect.loop && effectTime >= effect.duration) continue;
+      if (Math.abs(effect.currentTime - effectTime) > SEEK_THRESHOLD_SECONDS) {
+        effect.currentTime = effectTime;
+      }
+
+      effect.volume = Math.min(1, Math.max(0, clip.volume ?? 1));
+
+      if (effect.paused) {
+        effect.play().catch(() => {
+          // Ignore auto-play errors
+        });
+      }
+    }
+  }, [currentTime, isPlaying, soundEffectClips, SEEK_THRESHOLD_SECONDS]);
+
   // Handle seeking
   useEffect(() => {
     if (seekTime !== undefined) {
       setCurrentTime(seekTime);
       if (videoRef.current && currentVideoClip) {
         const timeIntoClip = seekTime - currentVideoClip.startTime;
-        videoRef.current.currentTime = Math.max(0, timeIntoClip);
+        videoRef.current.currentTime = sourceOffset + Math.max(0, timeIntoClip);
       }
     }
-  }, [seekTime, currentVideoClip]);
+  }, [seekTime, currentVideoClip, sourceOffset]);
 
   // Playback loop
   useEffect(() => {
@@ -292,12 +432,8 @@ export function PreviewPlayerV2({
     const timeIntoClip = currentTime - currentVideoClip.startTime;
     const videoIsPlaying = !videoRef.current.paused;
 
-    // For UI clips (extracted videos), account for trimStart offset
-    // UI clips are extracted from the source video, so they start at 0 in the extracted file
-    // but we need to map timeline time to the extracted clip's internal time
-    const videoTime = currentShot?.shotType === 'ui' && currentVideoClip.trimStart !== undefined
-      ? timeIntoClip  // For extracted clips, timeIntoClip is already correct (relative to clip start)
-      : timeIntoClip;
+    // Trimmed clips start at their in point (see lib/videoTrim.ts)
+    const videoTime = sourceOffset + timeIntoClip;
 
     if (isPlaying) {
       // Only seek if drift is significant (avoid constant seeking on every frame)
@@ -318,7 +454,7 @@ export function PreviewPlayerV2({
         videoRef.current.pause();
       }
     }
-  }, [currentVideoClip, currentTime, isPlaying, videoUrl, currentShot, SEEK_THRESHOLD_SECONDS]);
+  }, [currentVideoClip, currentTime, isPlaying, videoUrl, sourceOffset, SEEK_THRESHOLD_SECONDS]);
 
   const handlePlayPause = () => {
     setIsPlaying(!isPlaying);
@@ -342,21 +478,35 @@ export function PreviewPlayerV2({
 
   const canPlay = videoClips.length > 0 || audioClips.length > 0;
 
+  // Approximate export framing: cinematic shots and smart-reframed UI fill the frame
+  const { width: frameWidth, height: frameHeight } = ASPECT_RATIOS[outputFormat.aspectRatio];
+  const fillsFrame = currentShot?.shotType === 'cinematic' || outputFormat.uiReframe === 'smart';
+  const mediaFitClass = fillsFrame ? 'h-full w-full object-cover' : 'max-h-full max-w-full object-contain';
+  const transitionStyle = {
+    opacity: currentFrame?.opacity ?? 1,
+    clipPath: currentFrame?.clipPath,
+  };
+
   return (
     <div className="space-y-4">
-      <div className="relative bg-black rounded-lg overflow-hidden max-w-3xl mx-auto aspect-video flex items-center justify-center">
+      <div
+        className={`relative bg-black rounded-lg overflow-hidden mx-auto flex items-center justify-center ${PREVIEW_WIDTH_CLASSES[outputFormat.aspectRatio]}`}
+        style={{ aspectRatio: `${frameWidth} / ${frameHeight}`, containerType: 'inline-size' }}
+      >
         {videoUrl ? (
           <video
             ref={videoRef}
             src={videoUrl}
-            className="max-h-full max-w-full object-contain"
+            className={mediaFitClass}
+            style={transitionStyle}
             muted
           />
         ) : stillUrl ? (
           <img
             src={stillUrl}
             alt={`Shot ${currentShot?.order}: ${currentShot?.title}`}
-            className="max-h-full max-w-full object-contain"
+            className={mediaFitClass}
+            style={transitionStyle}
           />
         ) : (
           <div className="text-center space-y-2">
@@ -367,6 +517,40 @@ export function PreviewPlayerV2({
             </p>
           </div>
         )}
+
+        {/* Text overlays - sized in container width units so they scale with the preview like the export */}
+        {activeTextClips.map(clip => {
+          const { opacity, offsetY } = getTextAnimationState(clip, currentTime);
+          const { y, anchor } = TEXT_POSITIONS[clip.position];
+          const heightToWidth = frameHeight / frameWidth;
+          const fontSize = clip.style.fontSize * heightToWidth;
+
+          return (
+            <div
+              key={clip.id}
+              className="absolute left-0 right-0 flex justify-center pointer-events-none"
+              style={{
+                top: `${(y + offsetY) * 100}%`,
+                transform: `translateY(${ANCHOR_TRANSLATE[anchor]})`,
+                opacity,
+              }}
+            >
+              <span
+                className="text-center whitespace-pre-line leading-tight"
+                style={{
+                  fontFamily: PREVIEW_FONTS[clip.style.fontFamily],
+                  fontSize: `${fontSize}cqw`,
+                  fontWeight: clip.style.bold ? 700 : 400,
+                  color: clip.style.color,
+                  backgroundColor: clip.style.background ? 'rgba(0, 0, 0, 0.5)' : undefined,
+                  padding: clip.style.background ? `${fontSize * 0.35}cqw` : undefined,
+                }}
+              >
+                {clip.text}
+              </span>
+            </div>
+          );
+        })}
       </div>
 
       <div className="flex items-center justify-center gap-4">
@@ -1,10 +1,29 @@
 "use client";
 
-import { useState, useRef } from "react";
-import type { Timeline as TimelineType, VideoClip, AudioClip } from "@/types/timeline";
+import { useRef, useState } from "react";
+import type { Timeline as TimelineType, VideoClip, AudioClip, TextClip } from "@/types/timeline";
 import type { StoryboardShot } from "@/types/storyboard";
 import { useTimelineClips } from "@/hooks/useTimelineClips";
-import { isVideoClip, isAudioClip, isNarrationClip, isMusicClip } from "@/types/timeline";
+import { isVideoClip, isAudioClip, isNarrationClip, isMusicClip, isSoundEffectClip, isTextClip } from "@/types/timeline";
+import { TEXT_PRESET_LABELS, type TextPreset } from "@/lib/textOverlay";
+import { NarrationWaveform } from "./NarrationWaveform";
+import type { WordTiming } from "@/types/captions";
+import type { MusicBeatGrid } from "@/types/music";
+import { getMusicClipFades, getTimelineBeatTimes, type MusicTrackInfo } from "@/lib/musicFit";
+import type { NarrationAnchor, TrimEdge, TrimMode } from "@/lib/timelineConverter";
+
+const TRIM_MODE_LABELS: Record<TrimMode, string> = {
+  ripple: "Ripple",
+  overwrite: "Overwrite",
+};
+
+const NARRATION_ANCHOR_LABELS: Record<NarrationAnchor, string> = {
+  time: "Stays in place",
+  shot: "Moves with shot",
+};
+
+// A video clip has to be dragged this far before it's a reorder rather than a click
+const REORDER_DRAG_THRESHOLD_PX = 5;
 
 interface TimelineV2Props {
   timeline: TimelineType;
@@ -13,11 +32,22 @@ interface TimelineV2Props {
   onSeek?: (time: number) => void;
   generatedVideos?: Record<string, { videoUrl: string }>;
   generatedImages?: Record<string, { imageUrl: string }>;
-  generatedNarration?: Record<string, { audioUrl: string }>;
+  generatedNarration?: Record<string, { audioUrl: string; durationSeconds: number; words?: WordTiming[]; audioStartSeconds?: number }>;
   generatedMusic?: { audioUrl: string } | null;
+  musicTracks?: Record<string, { title?: string; actualDurationSeconds?: number; beatGrid?: MusicBeatGrid }>; // by asset ID
+  soundEffects?: Record<string, { name: string }>; // by asset ID
   selectedClipId?: string | null;
   onSelectClip?: (clipId: string) => void;
   onClipPositionChange?: (clipId: string, newStartTime: number) => void;
+  onClipDragEnd?: (clipId: string) => void; // a drag or trim is released; its changes arrive before it
+  // Trim handle dragged `delta` seconds from where the drag started (see trimVideoClip)
+  onVideoClipTrim?: (clipId: string, edge: TrimEdge, delta: number, mode: TrimMode) => void;
+  // Video clip dropped so it becomes the `newIndex`th clip (see reorderShot)
+  onReorderShot?: (shotId: string, newIndex: number, anchor: NarrationAnchor) => void;
+  onAddText?: (preset: TextPreset) => void;
+  onAlignCutsToBeats?: () => void;
+  onAddMusicClip?: () => void;
+  onAddNarration?: () => void; // placed at the playhead by the page
 }
 
 export function TimelineV2({
@@ -28,21 +58,71 @@ export function TimelineV2({
   generatedVideos = {},
   generatedImages = {},
   generatedNarration = {},
+  musicTracks = {},
+  soundEffects = {},
   selectedClipId,
   onSelectClip,
   onClipPositionChange,
+  onClipDragEnd,
+  onVideoClipTrim,
+  onReorderShot,
+  onAddText,
+  onAlignCutsToBeats,
+  onAddMusicClip,
+  onAddNarration,
 }: TimelineV2Props) {
-  const { videoClips, audioClips, totalDuration } = useTimelineClips(timeline);
+  const { videoClips, audioClips, textClips, totalDuration } = useTimelineClips(timeline);
 
   // Separate narration and music clips
   const narrationClips = audioClips.filter(isNarrationClip);
   const musicClips = audioClips.filter(isMusicClip);
+  const soundEffectClips = audioClips.filter(isSoundEffectClip);
+  const soundEffectLanes = [
+    { label: 'SFX', clips: soundEffectClips.filter(clip => clip.audioType === 'sfx') },
+    { label: 'Ambient', clips: soundEffectClips.filter(clip => clip.audioType === 'ambient') },
+  ].filter(lane => lane.clips.length > 0);
   const [draggingClipId, setDraggingClipId] = useState<string | null>(null);
   const [dragStartX, setDragStartX] = useState(0);
   const [dragStartTime, setDragStartTime] = useState(0);
-  const timelineRef = useRef<HTMLDivElement>(null);
+  const [trimming, setTrimming] = useState<{ clipId: string; edge: TrimEdge; startX: number; startDuration: number } | null>(null);
+  const [trimMode, setTrimMode] = useState<TrimMode>('ripple');
+  // targetIndex stays null until the clip has moved far enough to count as a drag
+  const [reordering, setReordering] = useState<{ clipId: string; shotId: string; startX: number; targetIndex: number | null } | null>(null);
+  const [narrationAnchor, setNarrationAnchor] = useState<NarrationAnchor>('time');
+  // The click that ends a reorder drag shouldn't also select and seek
+  const suppressClickRef = useRef(false);
+
+  const orderedVideoClips = videoClips.filter(isVideoClip).sort((a, b) => a.startTime - b.startTime);
+  const reorderTargets = reordering ? orderedVideoClips.filter(clip => clip.id !== reordering.clipId) : [];
+  let reorderMarkerPercent: number | null = null;
+  if (reordering && reordering.targetIndex !== null) {
+    const before = reorderTargets[reordering.targetIndex];
+    const last = reorderTargets[reorderTargets.length - 1];
+    const markerTime = before ? before.startTime : last ? last.startTime + last.duration : 0;
+    reorderMarkerPercent = (markerTime / totalDuration) * 100;
+  }
+
+  // Beat markers sit on the timeline where each music clip plays them
+  const beatTracks: Record<string, MusicTrackInfo> = {};
+  for (const [assetId, track] of Object.entries(musicTracks)) {
+    if (track.actualDurationSeconds) {
+      beatTracks[assetId] = { actualDurationSeconds: track.actualDurationSeconds, beatGrid: track.beatGrid };
+    }
+  }
+  const toMusicPercents = (kind: "beats" | "downbeats" | "sections") =>
+    getTimelineBeatTimes(musicClips, beatTracks, kind)
+      .map(time => (time / totalDuration) * 100)
+      .filter(percent => percent <= 100);
+  const downbeatPercents = toMusicPercents("downbeats");
+  const beatPercents = toMusicPercents("beats");
+  const sectionPercents = toMusicPercents("sections");
+  const musicFades = getMusicClipFades(musicClips);
 
   const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      return;
+    }
     if (!onSeek) return;
     const rect = e.currentTarget.getBoundingClientRect();
     const x = e.clientX - rect.left;
@@ -51,7 +131,7 @@ export function TimelineV2({
     onSeek(Math.max(0, Math.min(time, totalDuration)));
   };
 
-  const handleClipDragStart = (e: React.MouseEvent<HTMLDivElement>, clip: AudioClip) => {
+  const handleClipDragStart = (e: React.MouseEvent<HTMLDivElement>, clip: AudioClip | TextClip) => {
     if (!onClipPositionChange) return;
     e.stopPropagation();
     setDraggingClipId(clip.id);
@@ -60,9 +140,10 @@ export function TimelineV2({
   };
 
   const handleClipDrag = (e: React.MouseEvent<HTMLDivElement>) => {
-    if (!draggingClipId || !timelineRef.current || !onClipPositionChange) return;
+    if (!draggingClipId || !onClipPositionChange) return;
 
-    const rect = timelineRef.current.getBoundingClientRect();
+    // Every lane spans the full timeline width, so the lane being dragged in sets the scale
+    const rect = e.currentTarget.getBoundingClientRect();
     const deltaX = e.clientX - dragStartX;
     const deltaTime = (deltaX / rect.width) * totalDuration;
     const newStartTime = Math.max(0, Math.min(dragStartTime + deltaTime, totalDuration));
@@ -70,7 +151,56 @@ export function TimelineV2({
     onClipPositionChange(draggingClipId, newStartTime);
   };
 
+  const handleTrimStart = (e: React.MouseEvent<HTMLDivElement>, clip: VideoClip, edge: TrimEdge) => {
+    if (!onVideoClipTrim) return;
+    e.stopPropagation();
+    // The scale is fixed for the whole drag, since a ripple trim changes the timeline's length
+    setTrimming({ clipId: clip.id, edge, startX: e.clientX, startDuration: totalDuration });
+  };
+
+  const handleTrimDrag = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!trimming || !onVideoClipTrim) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const delta = ((e.clientX - trimming.startX) / rect.width) * trimming.startDuration;
+    onVideoClipTrim(trimming.clipId, trimming.edge, delta, trimMode);
+  };
+
+  const handleTrimEnd = () => {
+    if (trimming) onClipDragEnd?.(trimming.clipId);
+    setTrimming(null);
+  };
+
+  const handleReorderStart = (e: React.MouseEvent<HTMLDivElement>, clip: VideoClip) => {
+    if (!onReorderShot) return;
+    setReordering({ clipId: clip.id, shotId: clip.shotId, startX: e.clientX, targetIndex: null });
+  };
+
+  const handleReorderDrag = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!reordering) return;
+    if (reordering.targetIndex === null && Math.abs(e.clientX - reordering.startX) < REORDER_DRAG_THRESHOLD_PX) return;
+
+    // The clip goes before the first clip whose middle is right of the pointer
+    const rect = e.currentTarget.getBoundingClientRect();
+    const time = ((e.clientX - rect.left) / rect.width) * totalDuration;
+    const targetIndex = reorderTargets.filter(clip => clip.startTime + clip.duration / 2 < time).length;
+    if (targetIndex !== reordering.targetIndex) {
+      setReordering({ ...reordering, targetIndex });
+    }
+  };
+
+  const handleReorderEnd = () => {
+    if (reordering && reordering.targetIndex !== null) {
+      suppressClickRef.current = true;
+      const fromIndex = orderedVideoClips.findIndex(clip => clip.id === reordering.clipId);
+      if (reordering.targetIndex !== fromIndex) {
+        onReorderShot?.(reordering.shotId, reordering.targetIndex, narrationAnchor);
+      }
+    }
+    setReordering(null);
+  };
+
   const handleClipDragEnd = () => {
+    if (draggingClipId) onClipDragEnd?.(draggingClipId);
     setDraggingClipId(null);
   };
 
@@ -89,6 +219,18 @@ export function TimelineV2({
       <div
         className="relative bg-muted rounded cursor-pointer w-full h-[60px]"
         onClick={handleClick}
+        onMouseMove={(e) => {
+          handleTrimDrag(e);
+          handleReorderDrag(e);
+        }}
+        onMouseUp={() => {
+          handleTrimEnd();
+          handleReorderEnd();
+        }}
+        onMouseLeave={() => {
+          handleTrimEnd();
+          setReordering(null); // dropping outside the lane cancels the reorder
+        }}
       >
         {videoClips.map((clip) => {
           if (!isVideoClip(clip)) return null;
@@ -101,6 +243,7 @@ export function TimelineV2({
             : generatedVideos[shot.id]?.videoUrl;
           const hasThumbnail = !!thumbnailUrl;
           const isSelected = selectedClipId === shot.id;
+          const isReordering = reordering?.clipId === clip.id && reordering.targetIndex !== null;
 
           const leftPercent = (clip.startTime / totalDuration) * 100;
           const widthPercent = (clip.duration / totalDuration) * 100;
@@ -108,13 +251,18 @@ export function TimelineV2({
           return (
             <div
               key={clip.id}
-              className={`absolute top-0 bottom-0 border-r border-background overflow-hidden cursor-pointer ${isSelected ? 'ring-2 ring-green-500 z-20' : 'z-10'}`}
+              className={`absolute top-0 bottom-0 border-r border-background overflow-hidden ${isReordering ? 'cursor-grabbing opacity-50' : 'cursor-pointer'} ${isSelected ? 'ring-2 ring-green-500 z-20' : 'z-10'}`}
               style={{
                 left: `${leftPercent}%`,
                 width: `${widthPercent}%`,
               }}
+              onMouseDown={(e) => handleReorderStart(e, clip)}
               onClick={(e) => {
                 e.stopPropagation();
+                if (suppressClickRef.current) {
+                  suppressClickRef.current = false;
+                  return;
+                }
                 // Pass the shot ID (not clip ID) for editor compatibility
                 onSelectClip?.(shot.id);
                 // Seek to shot's start time to show it in preview
@@ -160,10 +308,40 @@ export function TimelineV2({
               <div className="relative absolute bottom-1 right-1 text-xs text-white/90 font-mono">
                 {clip.duration.toFixed(1)}s
               </div>
+
+              {/* Trim handles for the in and out points */}
+              {onVideoClipTrim && (['start', 'end'] as TrimEdge[]).map(edge => (
+                <div
+                  key={edge}
+                  className={`absolute top-0 bottom-0 ${edge === 'start' ? 'left-0' : 'right-0'} w-1.5 bg-white/80 cursor-ew-resize z-10 ${
+                    isSelected || trimming?.clipId === clip.id ? 'opacity-100' : 'opacity-0 hover:opacity-100'
+                  }`}
+                  title={edge === 'start' ? 'Drag to trim the start' : 'Drag to trim the end'}
+                  onMouseDown={(e) => handleTrimStart(e, clip, edge)}
+                  onClick={(e) => e.stopPropagation()}
+                />
+              ))}
             </div>
           );
         })}
 
+        {/* Where a dragged clip will be dropped */}
+        {reorderMarkerPercent !== null && (
+          <div
+            className="absolute top-0 bottom-0 w-1 -ml-0.5 bg-green-500 z-30 pointer-events-none"
+            style={{ left: `${reorderMarkerPercent}%` }}
+          />
+        )}
+
+        {/* Downbeats, to line cuts up with the music */}
+        {downbeatPercents.map(percent => (
+          <div
+            key={percent}
+            className="absolute top-0 bottom-0 w-px bg-white/50 z-20 pointer-events-none"
+            style={{ left: `${percent}%` }}
+          />
+        ))}
+
         {/* Playhead */}
         <div
           className="absolute top-0 bottom-0 w-0.5 bg-red-500 z-30 pointer-events-none"
@@ -176,8 +354,7 @@ export function TimelineV2({
       {/* Narration track */}
       {narrationClips.length > 0 && (
         <div
-          ref={timelineRef}
-          className="relative bg-muted/50 rounded w-full h-[40px]"
+          className="relative bg-muted/50 rounded w-full h-[56px]"
           onMouseMove={handleClipDrag}
           onMouseUp={handleClipDragEnd}
           onMouseLeave={handleClipDragEnd}
@@ -190,11 +367,12 @@ export function TimelineV2({
             const widthPercent = (clip.duration / totalDuration) * 100;
             const isSelected = selectedClipId === clip.sourceId;
             const isDragging = draggingClipId === clip.id;
+            const narration = generatedNarration[clip.sourceId];
 
             return (
               <div
                 key={clip.id}
-                className={`absolute top-1 bottom-1 bg-purple-500/70 border-purple-600 rounded border ${isDragging ? 'cursor-grabbing opacity-80' : 'cursor-grab'} ${isSelected ? 'ring-2 ring-green-500 z-20' : 'z-10'}`}
+                className={`absolute top-1 bottom-1 overflow-hidden bg-purple-500/70 border-purple-600 rounded border ${isDragging ? 'cursor-grabbing opacity-80' : 'cursor-grab'} ${isSelected ? 'ring-2 ring-green-500 z-20' : 'z-10'}`}
                 style={{
                   left: `${leftPercent}%`,
                   width: `${widthPercent}%`,
@@ -208,9 +386,19 @@ export function TimelineV2({
                   }
                 }}
               >
-                <div className="px-1 text-xs text-white/90 truncate pointer-events-none">
-                  {clip.text}
-                </div>
+                {narration ? (
+                  <NarrationWaveform
+                    audioUrl={narration.audioUrl}
+                    words={narration.words}
+                    clipDuration={clip.duration}
+                    audioDuration={narration.durationSeconds}
+                    audioStart={narration.audioStartSeconds}
+                  />
+                ) : (
+                  <div className="px-1 text-xs text-white/90 truncate pointer-events-none">
+                    {clip.text}
+                  </div>
+                )}
               </div>
             );
           })}
@@ -231,8 +419,12 @@ export function TimelineV2({
           {musicClips.map((clip) => {
             const leftPercent = (clip.startTime / totalDuration) * 100;
             const widthPercent = (clip.duration / totalDuration) * 100;
-            const isSelected = selectedClipId === clip.sourceId;
+            const isSelected = selectedClipId === clip.id;
             const isDragging = draggingClipId === clip.id;
+            const track = musicTracks[clip.sourceId];
+            const title = clip.sourceId ? track?.title || 'Background Music' : 'Music cue (no track)';
+            const bpm = track?.beatGrid?.bpm ?? 0;
+            const { fadeIn, fadeOut } = musicFades[clip.id];
 
             return (
               <div
@@ -242,22 +434,209 @@ export function TimelineV2({
                   left: `${leftPercent}%`,
                   width: `${widthPercent}%`,
                 }}
-                title="Background Music"
+                title={title}
                 onMouseDown={(e) => handleClipDragStart(e, clip)}
                 onClick={(e) => {
                   if (!isDragging) {
                     e.stopPropagation();
-                    onSelectClip?.(clip.sourceId);
+                    onSelectClip?.(clip.id);
+                  }
+                }}
+              >
+                {/* Fades, which also show where overlapping clips crossfade */}
+                {fadeIn > 0 && (
+                  <div
+                    className="absolute inset-y-0 left-0 bg-gradient-to-r from-black/40 to-transparent pointer-events-none"
+                    style={{ width: `${(fadeIn / clip.duration) * 100}%` }}
+                  />
+                )}
+                {fadeOut !== undefined && fadeOut > 0 && (
+                  <div
+                    className="absolute inset-y-0 right-0 bg-gradient-to-l from-black/40 to-transparent pointer-events-none"
+                    style={{ width: `${(fadeOut / clip.duration) * 100}%` }}
+                  />
+                )}
+                <div className="relative px-1 text-xs text-white/90 truncate pointer-events-none">
+                  {title}{bpm > 0 && ` · ${Math.round(bpm)} BPM`}
+                </div>
+              </div>
+            );
+          })}
+          {beatPercents.map(percent => (
+            <div
+              key={`beat-${percent}`}
+              className="absolute bottom-1 h-2 w-px bg-white/60 z-20 pointer-events-none"
+              style={{ left: `${percent}%` }}
+            />
+          ))}
+          {sectionPercents.map(percent => (
+            <div
+              key={`section-${percent}`}
+              className="absolute top-0 bottom-0 w-0.5 bg-white/80 z-20 pointer-events-none"
+              style={{ left: `${percent}%` }}
+            />
+          ))}
+        </div>
+      )}
+
+      {/* Sound effect and ambient tracks */}
+      {soundEffectLanes.map(lane => (
+        <div
+          key={lane.label}
+          className="relative bg-muted/50 rounded w-full h-[32px]"
+          onMouseMove={handleClipDrag}
+          onMouseUp={handleClipDragEnd}
+          onMouseLeave={handleClipDragEnd}
+        >
+          <div className="absolute inset-0 flex items-center px-2">
+            <span className="text-xs text-muted-foreground font-medium">{lane.label}</span>
+          </div>
+          {lane.clips.map((clip) => {
+            const leftPercent = (clip.startTime / totalDuration) * 100;
+            const widthPercent = (clip.duration / totalDuration) * 100;
+            const isSelected = selectedClipId === clip.id;
+            const isDragging = draggingClipId === clip.id;
+            const name = soundEffects[clip.sourceId]?.name || 'Sound';
+
+            return (
+              <div
+                key={clip.id}
+                className={`absolute top-1 bottom-1 bg-teal-500/70 border-teal-600 rounded border ${isDragging ? 'cursor-grabbing opacity-80' : 'cursor-grab'} ${isSelected ? 'ring-2 ring-green-500 z-20' : 'z-10'}`}
+                style={{
+                  left: `${leftPercent}%`,
+                  width: `${widthPercent}%`,
+                }}
+                title={`${name} (${Math.round((clip.volume ?? 1) * 100)}%)`}
+                onMouseDown={(e) => handleClipDragStart(e, clip)}
+                onClick={(e) => {
+                  if (!isDragging) {
+                    e.stopPropagation();
+                    onSelectClip?.(clip.id);
                   }
                 }}
               >
                 <div className="px-1 text-xs text-white/90 truncate pointer-events-none">
-                  Background Music
+                  {name}
                 </div>
               </div>
             );
           })}
         </div>
+      ))}
+
+      {/* Text track */}
+      <div
+        className="relative bg-muted/50 rounded w-full h-[40px]"
+        onMouseMove={handleClipDrag}
+        onMouseUp={handleClipDragEnd}
+        onMouseLeave={handleClipDragEnd}
+      >
+        <div className="absolute inset-0 flex items-center px-2">
+          <span className="text-xs text-muted-foreground font-medium">Text</span>
+        </div>
+        {textClips.filter(isTextClip).map((clip) => {
+          const leftPercent = (clip.startTime / totalDuration) * 100;
+          const widthPercent = (clip.duration / totalDuration) * 100;
+          const isSelected = selectedClipId === clip.id;
+          const isDragging = draggingClipId === clip.id;
+
+          return (
+            <div
+              key={clip.id}
+              className={`absolute top-1 bottom-1 bg-amber-500/70 border-amber-600 rounded border ${isDragging ? 'cursor-grabbing opacity-80' : 'cursor-grab'} ${isSelected ? 'ring-2 ring-green-500 z-20' : 'z-10'}`}
+              style={{
+                left: `${leftPercent}%`,
+                width: `${widthPercent}%`,
+              }}
+              title={clip.text}
+              onMouseDown={(e) => handleClipDragStart(e, clip)}
+              onClick={(e) => {
+                if (!isDragging) {
+                  e.stopPropagation();
+                  onSelectClip?.(clip.id);
+                }
+              }}
+            >
+              <div className="px-1 text-xs text-white/90 truncate pointer-events-none">
+                {clip.text}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      {(onAddText || onAddMusicClip || onAddNarration || onAlignCutsToBeats || onVideoClipTrim || onReorderShot) && (
+        <div className="flex gap-3 text-xs">
+          {onAddText && (Object.keys(TEXT_PRESET_LABELS) as TextPreset[]).map(preset => (
+            <button
+              key={preset}
+              type="button"
+              className="text-muted-foreground hover:text-foreground underline"
+              onClick={() => onAddText(preset)}
+            >
+              + {TEXT_PRESET_LABELS[preset]}
+            </button>
+          ))}
+          {onAddMusicClip && (
+            <button
+              type="button"
+              className="text-muted-foreground hover:text-foreground underline"
+              onClick={onAddMusicClip}
+            >
+              + Music cue
+            </button>
+          )}
+          {onAddNarration && (
+            <button
+              type="button"
+              className="text-muted-foreground hover:text-foreground underline"
+              onClick={onAddNarration}
+            >
+              + Narration
+            </button>
+          )}
+          {onVideoClipTrim && (
+            <div className="ml-auto flex gap-1 text-muted-foreground" title="What happens to the clips after a trimmed video clip">
+              Trim:
+              {(Object.keys(TRIM_MODE_LABELS) as TrimMode[]).map(mode => (
+                <button
+                  key={mode}
+                  type="button"
+                  className={trimMode === mode ? "text-foreground font-medium" : "hover:text-foreground underline"}
+                  onClick={() => setTrimMode(mode)}
+                >
+                  {TRIM_MODE_LABELS[mode]}
+                </button>
+              ))}
+            </div>
+          )}
+          {onReorderShot && narrationClips.length > 0 && (
+            <div
+              className={`${onVideoClipTrim ? '' : 'ml-auto '}flex gap-1 text-muted-foreground`}
+              title="What happens to narration when a shot is dragged to a new position"
+            >
+              Narration on reorder:
+              {(Object.keys(NARRATION_ANCHOR_LABELS) as NarrationAnchor[]).map(anchor => (
+                <button
+                  key={anchor}
+                  type="button"
+                  className={narrationAnchor === anchor ? "text-foreground font-medium" : "hover:text-foreground underline"}
+                  onClick={() => setNarrationAnchor(anchor)}
+                >
+                  {NARRATION_ANCHOR_LABELS[anchor]}
+                </button>
+              ))}
+            </div>
+          )}
+          {onAlignCutsToBeats && musicClips.length > 0 && (
+            <button
+              type="button"
+              className={`${onVideoClipTrim || (onReorderShot && narrationClips.length > 0) ? '' : 'ml-auto '}text-muted-foreground hover:text-foreground underline`}
+              onClick={onAlignCutsToBeats}
+            >
+              Align cuts to beats
+            </button>
+          )}
+        </div>
       )}
 
       {/* Total duration */}
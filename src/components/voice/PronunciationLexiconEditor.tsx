@@ -0,0 +1,90 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { createPronunciationEntry, PRONUNCIATION_TYPE_LABELS } from "@/lib/pronunciation";
+import type { PronunciationEntry, PronunciationType } from "@/types/pronunciation";
+
+interface PronunciationLexiconEditorProps {
+  entries: PronunciationEntry[];
+  disabled?: boolean;
+  auditioning?: boolean;
+  onChange: (entries: PronunciationEntry[]) => void;
+  onPreview: (term: string) => void;
+}
+
+const selectClassName = "h-9 px-2 rounded-md border border-input bg-background text-sm";
+
+export function PronunciationLexiconEditor({
+  entries,
+  disabled = false,
+  auditioning = false,
+  onChange,
+  onPreview,
+}: PronunciationLexiconEditorProps) {
+  const updateEntry = (id: string, updates: Partial<PronunciationEntry>) => {
+    onChange(entries.map(entry => (entry.id === id ? { ...entry, ...updates } : entry)));
+  };
+
+  return (
+    <div className="space-y-2">
+      {entries.map(entry => (
+        <div key={entry.id} className="flex flex-wrap items-center gap-2">
+          <Input
+            value={entry.term}
+            onChange={(e) => updateEntry(entry.id, { term: e.target.value })}
+            placeholder="Term, e.g. Kubernetes"
+            disabled={disabled}
+            className="w-44"
+          />
+          <select
+            value={entry.type}
+            onChange={(e) => updateEntry(entry.id, { type: e.target.value as PronunciationType })}
+            disabled={disabled}
+            className={selectClassName}
+          >
+            {(Object.keys(PRONUNCIATION_TYPE_LABELS) as PronunciationType[]).map(type => (
+              <option key={type} value={type}>
+                {PRONUNCIATION_TYPE_LABELS[type]}
+              </option>
+            ))}
+          </select>
+          <Input
+            value={entry.value}
+            onChange={(e) => updateEntry(entry.id, { value: e.target.value })}
+            placeholder={entry.type === "phoneme" ? "ˌkuːbərˈnɛtiːz" : "koo-ber-net-eez"}
+            disabled={disabled}
+            className="w-44"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onPreview(entry.term)}
+            disabled={disabled || auditioning || !entry.term.trim() || !entry.value.trim()}
+          >
+            Preview
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(entries.filter(e => e.id !== entry.id))}
+            disabled={disabled}
+          >
+            Remove
+          </Button>
+        </div>
+      ))}
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...entries, createPronunciationEntry()])}
+        disabled={disabled}
+      >
+        + Add Pronunciation
+      </Button>
+      <p className="text-xs text-muted-foreground">
+        Terms match whole words in every narration segment. IPA uses a model that supports phoneme tags.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { VOICE_SETTING_RANGES } from "@/lib/voices";
+import type { NarrationVoice, VoiceOption, VoiceSettings } from "@/types/voice";
+
+interface VoicePickerProps {
+  voices: VoiceOption[];
+  voice: NarrationVoice;
+  disabled?: boolean;
+  auditioning?: boolean;
+  onChange: (voice: NarrationVoice) => void;
+  onAudition: (voice: NarrationVoice) => void;
+}
+
+const selectClassName = "h-8 px-2 rounded-md border border-input bg-background text-sm block max-w-[260px]";
+
+export function VoicePicker({
+  voices,
+  voice,
+  disabled = false,
+  auditioning = false,
+  onChange,
+  onAudition,
+}: VoicePickerProps) {
+  const selectedVoice = voices.find(option => option.voiceId === voice.voiceId);
+
+  const updateSetting = (key: keyof VoiceSettings, value: number) => {
+    onChange({ ...voice, settings: { ...voice.settings, [key]: value } });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Voice</label>
+          <select
+            value={voice.voiceId}
+            onChange={(e) => onChange({ ...voice, voiceId: e.target.value })}
+            disabled={disabled}
+            className={selectClassName}
+          >
+            {/* Keep a saved voice selectable even if the library no longer lists it */}
+            {!selectedVoice && <option value={voice.voiceId}>{voice.voiceId}</option>}
+            {voices.map(option => (
+              <option key={option.voiceId} value={option.voiceId}>
+                {option.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onAudition(voice)}
+          disabled={disabled || auditioning}
+        >
+          {auditioning ? "Rendering..." : "Audition"}
+        </Button>
+      </div>
+      {selectedVoice?.description && (
+        <p className="text-xs text-muted-foreground">{selectedVoice.description}</p>
+      )}
+
+      <div className="grid grid-cols-2 gap-x-6 gap-y-3">
+        {(Object.keys(VOICE_SETTING_RANGES) as (keyof VoiceSettings)[]).map(key => {
+          const range = VOICE_SETTING_RANGES[key];
+          return (
+            <div key={key} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <label className="text-sm font-medium">{range.label}</label>
+                <span className="text-sm font-mono">
+                  {key === "speed" ? `${voice.settings[key].toFixed(2)}x` : voice.settings[key].toFixed(2)}
+                </span>
+              </div>
+              <Slider
+                value={[voice.settings[key]]}
+                min={range.min}
+                max={range.max}
+                step={range.step}
+                disabled={disabled}
+                onValueChange={([value]) => updateSetting(key, value)}
+              />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -1,17 +1,19 @@
 "use client"
 
+import { useCallback } from "react"
 import { useToast } from "./use-toast"
 
 export function useErrorToast() {
   const { toast } = useToast()
 
-  const showError = (message: string) => {
+  // Stable, so hooks can list it as an effect dependency
+  const showError = useCallback((message: string) => {
     toast({
       variant: "destructive",
       title: "Error",
       description: message,
     })
-  }
+  }, [toast])
 
   return { showError }
 }
@@ -0,0 +1,80 @@
+import { useEffect, useState } from "react";
+
+// Decoded peaks by URL + range + bucket count; audio assets are content-addressed so URLs never go stale
+const peaksCache = new Map<string, number[]>();
+
+/**
+ * Decode an audio file in the browser and reduce it to `bucketCount` peak amplitudes (0-1)
+ * for drawing a waveform. Returns null until decoding finishes or if it fails.
+ * `range` (in seconds) limits the peaks to part of the file.
+ */
+export function useAudioPeaks(
+  audioUrl: string | null | undefined,
+  bucketCount: number,
+  range?: { start: number; end: number }
+) {
+  const rangeStart = range?.start;
+  const rangeEnd = range?.end;
+  const rangeKey = range ? `@${rangeStart}-${rangeEnd}` : '';
+  const cacheKey = audioUrl ? `${audioUrl}${rangeKey}#${bucketCount}` : null;
+  const [peaks, setPeaks] = useState<number[] | null>(() => (cacheKey ? peaksCache.get(cacheKey) ?? null : null));
+
+  useEffect(() => {
+    if (!audioUrl || !cacheKey) {
+      setPeaks(null);
+      return;
+    }
+
+    const cached = peaksCache.get(cacheKey);
+    if (cached) {
+      setPeaks(cached);
+      return;
+    }
+
+    let cancelled = false;
+    const audioContext = new AudioContext();
+
+    fetch(audioUrl)
+      .then(response => response.arrayBuffer())
+      .then(buffer => audioContext.decodeAudioData(buffer))
+      .then(audioBuffer => {
+        const channel = audioBuffer.getChannelData(0);
+        const samples = rangeStart !== undefined && rangeEnd !== undefined
+          ? channel.subarray(
+              Math.floor(rangeStart * audioBuffer.sampleRate),
+              Math.ceil(rangeEnd * audioBuffer.sampleRate)
+            )
+          : channel;
+        const bucketSize = Math.max(1, Math.floor(samples.length / bucketCount));
+        const result: number[] = [];
+
+        for (let bucket = 0; bucket < bucketCount; bucket++) {
+          let peak = 0;
+          const end = Math.min(samples.length, (bucket + 1) * bucketSize);
+          for (let i = bucket * bucketSize; i < end; i++) {
+            const amplitude = Math.abs(samples[i]);
+            if (amplitude > peak) peak = amplitude;
+          }
+          result.push(peak);
+        }
+
+        // Normalize so quiet narration still shows a readable waveform
+        const max = Math.max(...result, 0.01);
+        const normalized = result.map(peak => peak / max);
+        peaksCache.set(cacheKey, normalized);
+        if (!cancelled) setPeaks(normalized);
+      })
+      .catch(() => {
+        if (!cancelled) setPeaks(null);
+      })
+      .finally(() => {
+        audioContext.close();
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [audioUrl, bucketCount, cacheKey, rangeStart, rangeEnd]);
+
+  return peaks;
+}
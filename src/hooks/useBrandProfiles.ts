@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useState } from "react";
+import type { BrandProfile, BrandProfileInput } from "@/types/brand";
+import { listBrandProfiles, saveBrandProfile, deleteBrandProfile } from "@/services/brandService";
+import { useErrorToast } from "@/hooks/use-error-toast";
+
+export function useBrandProfiles() {
+  const { showError } = useErrorToast();
+
+  const [brandProfiles, setBrandProfiles] = useState<BrandProfile[]>([]);
+  const [selectedBrandId, setSelectedBrandId] = useState<string | null>(null);
+  const [savingBrandProfile, setSavingBrandProfile] = useState(false);
+
+  const selectedBrandProfile = brandProfiles.find(profile => profile.id === selectedBrandId) || null;
+
+  const refreshBrandProfiles = useCallback(async () => {
+    try {
+      const profiles = await listBrandProfiles();
+      setBrandProfiles(profiles);
+      // Default to the first profile when nothing (or a deleted profile) is selected
+      setSelectedBrandId(prev =>
+        prev && profiles.some(profile => profile.id === prev) ? prev : profiles[0]?.id ?? null
+      );
+    } catch (err) {
+      showError(err instanceof Error ? err.message : "Failed to list brand profiles");
+    }
+  }, [showError]);
+
+  // asNew saves a copy under a new ID instead of overwriting the selected profile
+  const handleSaveBrandProfile = async (input: BrandProfileInput, asNew = false) => {
+    setSavingBrandProfile(true);
+
+    try {
+      const saved = await saveBrandProfile(input, asNew ? null : selectedBrandId);
+      setBrandProfiles(prev =>
+        [...prev.filter(profile => profile.id !== saved.id), saved]
+          .sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setSelectedBrandId(saved.id);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : "Failed to save brand profile");
+    } finally {
+      setSavingBrandProfile(false);
+    }
+  };
+
+  const handleDeleteBrandProfile = async (id: string) => {
+    try {
+      await deleteBrandProfile(id);
+      await refreshBrandProfiles();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : "Failed to delete brand profile");
+    }
+  };
+
+  useEffect(() => {
+    refreshBrandProfiles();
+  }, [refreshBrandProfiles]);
+
+  return {
+    brandProfiles,
+    selectedBrandId,
+    setSelectedBrandId,
+    selectedBrandProfile,
+    savingBrandProfile,
+    handleSaveBrandProfile,
+    handleDeleteBrandProfile,
+  };
+}
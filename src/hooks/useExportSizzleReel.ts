@@ -4,39 +4,84 @@ import type { StoryboardResponse } from "@/types/storyboard";
 import type { StillImageResponse } from "@/types/still-image";
 import type { VideoGenerationResponse } from "@/types/video-generation";
 import type { NarrationGenerationResponse } from "@/types/narration";
-import type { MusicGenerationResponse, MusicDuckingSettings } from "@/types/music";
-import { stitchVideoClips, assembleNarrationTrack, duckMusicTrack, assembleFinalVideo } from "@/services/exportService";
+import type { MusicBeatGrid, MusicGenerationResponse, MusicDuckingSettings } from "@/types/music";
+import type { OutputFormat } from "@/types/output-format";
+import type { CaptionStyle } from "@/types/captions";
+import type { LocalizedVersion } from "@/types/localization";
+import type { LoudnessPreset, LoudnessReport } from "@/types/loudness";
+import { isNarrationClip, isSoundEffectClip } from "@/types/timeline";
+import { stitchVideoClips, assembleNarrationTrack, duckMusicTrack, assembleEffectsTrack, generateCaptions, assembleFinalVideo } from "@/services/exportService";
+import { applyLocalization } from "@/lib/timelineConverter";
+import { LOCALIZATION_LANGUAGES } from "@/lib/localization";
 import { useErrorToast } from "@/hooks/use-error-toast";
 
 interface UseExportSizzleReelParams {
   timeline: Timeline | null;
   storyboard: StoryboardResponse | null;
   generatedMusic: MusicGenerationResponse | null;
+  musicCandidates: MusicGenerationResponse[];
   generatedNarration: Record<string, NarrationGenerationResponse>;
   generatedVideos: Record<string, VideoGenerationResponse>;
   generatedImages: Record<string, StillImageResponse>;
   musicDuckingSettings: MusicDuckingSettings;
+  outputFormat: OutputFormat;
+  captionStyle: CaptionStyle;
+  loudnessPreset: LoudnessPreset;
+}
+
+export interface CaptionFiles {
+  srtUrl: string;
+  vttUrl: string;
+}
+
+export interface LocalizedExport {
+  videoUrl: string;
+  captionFiles: CaptionFiles | null;
+  loudness: LoudnessReport;
 }
 
 export function useExportSizzleReel({
   timeline,
   storyboard,
   generatedMusic,
+  musicCandidates,
   generatedNarration,
   generatedVideos,
   generatedImages,
   musicDuckingSettings,
+  outputFormat,
+  captionStyle,
+  loudnessPreset,
 }: UseExportSizzleReelParams) {
   const { showError } = useErrorToast();
 
   const [exportingVideo, setExportingVideo] = useState(false);
   const [exportProgress, setExportProgress] = useState<string>("");
   const [exportedVideoUrl, setExportedVideoUrl] = useState<string | null>(null);
+  const [burnInCaptions, setBurnInCaptions] = useState(false);
+  const [captionFiles, setCaptionFiles] = useState<CaptionFiles | null>(null);
+  const [loudnessReport, setLoudnessReport] = useState<LoudnessReport | null>(null);
+  const [localizedExports, setLocalizedExports] = useState<Record<string, LocalizedExport>>({});
 
-  const handleExportSizzleReel = async () => {
-    if (!timeline || !storyboard || !generatedMusic) {
-      showError("Timeline, storyboard, and music are required for export");
-      return;
+  /**
+   * Stitch, mix and caption one version of the reel. Localized versions pass the current
+   * timeline with their translations applied, and their own narration.
+   */
+  const exportReel = async (
+    exportTimeline: Timeline,
+    exportNarration: Record<string, NarrationGenerationResponse>
+  ): Promise<LocalizedExport> => {
+    if (!storyboard || !generatedMusic) {
+      throw new Error("Timeline, storyboard, and music are required for export");
+    }
+
+    // Added, split and merged segments can be left without audio; catch that before stitching
+    const hasSilentNarration = exportTimeline.tracks
+      .flatMap(track => track.clips)
+      .filter(isNarrationClip)
+      .some(clip => !exportNarration[clip.sourceId]);
+    if (hasSilentNarration) {
+      throw new Error("Generate audio for every narration segment before exporting");
     }
 
     // Create shots lookup
@@ -45,45 +90,86 @@ export function useExportSizzleReel({
       return acc;
     }, {} as Record<string, typeof storyboard.shots[0]>);
 
+    // Step 1: Stitch video clips
+    setExportProgress("Stitching video clips...");
+    const videoResult = await stitchVideoClips(
+      exportTimeline,
+      shotsLookup,
+      generatedVideos,
+      generatedImages,
+      outputFormat
+    );
+
+    // Step 2: Assemble narration track
+    setExportProgress("Assembling narration track...");
+    const narrationResult = await assembleNarrationTrack(
+      exportTimeline,
+      exportNarration,
+      exportTimeline.totalDuration
+    );
+
+    // Step 3: Mix and duck the music clips
+    setExportProgress("Ducking music track...");
+    const beatGrids = [generatedMusic, ...musicCandidates].reduce((acc, music) => {
+      if (music.beatGrid) acc[music.audioAssetId] = music.beatGrid;
+      return acc;
+    }, {} as Record<string, MusicBeatGrid>);
+    const musicResult = await duckMusicTrack(
+      exportTimeline,
+      musicDuckingSettings,
+      exportTimeline.totalDuration,
+      beatGrids
+    );
+
+    // Step 4: Sound effects and ambient beds, when the timeline has any
+    let effectsResult = null;
+    if (exportTimeline.tracks.some(track => track.clips.some(isSoundEffectClip))) {
+      setExportProgress("Assembling sound effects...");
+      effectsResult = await assembleEffectsTrack(exportTimeline, exportTimeline.totalDuration);
+    }
+
+    // Step 5: Captions - sidecar files always, burned in when requested
+    let captionResult = null;
+    if (exportTimeline.tracks.some(track => track.clips.some(isNarrationClip))) {
+      setExportProgress("Generating captions...");
+      captionResult = await generateCaptions(exportTimeline, exportNarration, captionStyle.maxWordsPerCue);
+    }
+
+    // Step 6: Final assembly - mix and master audio + video
+    setExportProgress(burnInCaptions && captionResult ? "Mastering audio and burning in captions..." : "Mastering audio and mixing video...");
+    const finalResult = await assembleFinalVideo(
+      videoResult.videoAssetId,
+      narrationResult.audioAssetId,
+      musicResult.audioAssetId,
+      burnInCaptions && captionResult ? { cues: captionResult.cues, style: captionStyle } : undefined,
+      effectsResult?.audioAssetId,
+      loudnessPreset
+    );
+
+    return {
+      videoUrl: finalResult.videoUrl,
+      captionFiles: captionResult ? { srtUrl: captionResult.srtUrl, vttUrl: captionResult.vttUrl } : null,
+      loudness: finalResult.loudness,
+    };
+  };
+
+  const handleExportSizzleReel = async () => {
+    if (!timeline || !storyboard || !generatedMusic) {
+      showError("Timeline, storyboard, and music are required for export");
+      return;
+    }
+
     setExportingVideo(true);
     setExportedVideoUrl(null);
+    setCaptionFiles(null);
+    setLoudnessReport(null);
     setExportProgress("");
 
     try {
-      // Step 1: Stitch video clips
-      setExportProgress("Stitching video clips...");
-      const videoResult = await stitchVideoClips(
-        timeline,
-        shotsLookup,
-        generatedVideos,
-        generatedImages
-      );
-
-      // Step 2: Assemble narration track
-      setExportProgress("Assembling narration track...");
-      const narrationResult = await assembleNarrationTrack(
-        timeline,
-        generatedNarration,
-        timeline.totalDuration
-      );
-
-      // Step 3: Duck music track
-      setExportProgress("Ducking music track...");
-      const musicResult = await duckMusicTrack(
-        generatedMusic.audioUrl,
-        timeline,
-        musicDuckingSettings,
-        timeline.totalDuration
-      );
-
-      // Step 4: Final assembly - mix audio + video
-      setExportProgress("Mixing audio and video...");
-      const finalResult = await assembleFinalVideo(
-        videoResult.videoUrl,
-        narrationResult.audioUrl,
-        musicResult.audioUrl
-      );
-      setExportedVideoUrl(finalResult.videoUrl);
+      const result = await exportReel(timeline, generatedNarration);
+      setExportedVideoUrl(result.videoUrl);
+      setCaptionFiles(result.captionFiles);
+      setLoudnessReport(result.loudness);
       setExportProgress("Complete!");
     } catch (err) {
       showError(err instanceof Error ? err.message : "Failed to export sizzle reel");
@@ -93,6 +179,38 @@ export function useExportSizzleReel({
     }
   };
 
+  const handleExportLocalizedReel = async (localization: LocalizedVersion) => {
+    if (!timeline) {
+      showError("Timeline, storyboard, and music are required for export");
+      return;
+    }
+
+    // Narration added, split or merged since translating has no audio in this language
+    const hasUntranslatedNarration = timeline.tracks
+      .flatMap(track => track.clips)
+      .filter(isNarrationClip)
+      .some(clip => !localization.generatedNarration[clip.sourceId]);
+    if (hasUntranslatedNarration) {
+      showError(`The narration has changed since this reel was translated; re-localize into ${LOCALIZATION_LANGUAGES[localization.language].englishName}`);
+      return;
+    }
+
+    setExportingVideo(true);
+    setExportProgress("");
+
+    try {
+      const localized = applyLocalization(timeline, localization);
+      const result = await exportReel(localized.timeline, localization.generatedNarration);
+      setLocalizedExports(prev => ({ ...prev, [localization.language]: result }));
+      setExportProgress("Complete!");
+    } catch (err) {
+      showError(err instanceof Error ? err.message : "Failed to export localized reel");
+      setExportProgress("");
+    } finally {
+      setExportingVideo(false);
+    }
+  };
+
   const handleDownloadVideo = () => {
     if (!exportedVideoUrl) return;
 
@@ -109,7 +227,13 @@ export function useExportSizzleReel({
     exportingVideo,
     exportProgress,
     exportedVideoUrl,
+    burnInCaptions,
+    setBurnInCaptions,
+    captionFiles,
+    loudnessReport,
+    localizedExports,
     handleExportSizzleReel,
+    handleExportLocalizedReel,
     handleDownloadVideo,
   };
 }
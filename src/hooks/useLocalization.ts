@@ -0,0 +1,115 @@
+import { useState } from "react";
+import type { Timeline } from "@/types/timeline";
+import type { StoryboardResponse } from "@/types/storyboard";
+import type { BrandProfile } from "@/types/brand";
+import type { NarrationGenerationResponse } from "@/types/narration";
+import type { NarrationVoice } from "@/types/voice";
+import type { PronunciationEntry } from "@/types/pronunciation";
+import type { LanguageCode, LocalizedVersion } from "@/types/localization";
+import { isNarrationClip, isTextClip } from "@/types/timeline";
+import { translateReel } from "@/services/localizationService";
+import { generateNarration } from "@/services/audioService";
+import { LOCALIZATION_LANGUAGES } from "@/lib/localization";
+import { useErrorToast } from "@/hooks/use-error-toast";
+
+interface UseLocalizationParams {
+  storyboard: StoryboardResponse | null;
+  timeline: Timeline | null;
+  pronunciationLexicon: PronunciationEntry[];
+  brandProfile: BrandProfile | null;
+}
+
+export function useLocalization({
+  storyboard,
+  timeline,
+  pronunciationLexicon,
+  brandProfile,
+}: UseLocalizationParams) {
+  const { showError } = useErrorToast();
+
+  const [localizations, setLocalizations] = useState<Record<string, LocalizedVersion>>({});
+  const [localizingLanguage, setLocalizingLanguage] = useState<LanguageCode | null>(null);
+  const [localizationProgress, setLocalizationProgress] = useState("");
+
+  /**
+   * Translate narration and overlays and voice every segment in the new language.
+   * The narration is refit onto the timeline when the version is shown or exported.
+   */
+  const handleLocalize = async (language: LanguageCode, voice: NarrationVoice) => {
+    if (!storyboard || !timeline) {
+      showError("A storyboard and timeline are required to localize");
+      return;
+    }
+
+    const clips = timeline.tracks.flatMap(track => track.clips);
+    const narrationClips = clips.filter(isNarrationClip);
+    const textClips = clips.filter(isTextClip);
+    const segments = (storyboard.narration || []).filter(segment =>
+      narrationClips.some(clip => clip.sourceId === segment.id)
+    );
+
+    setLocalizingLanguage(language);
+    setLocalizationProgress(`Translating into ${LOCALIZATION_LANGUAGES[language].englishName}...`);
+
+    try {
+      const translation = await translateReel(
+        language,
+        segments.map(segment => ({
+          id: segment.id,
+          text: segment.text,
+          maxSeconds: narrationClips.find(clip => clip.sourceId === segment.id)?.duration,
+        })),
+        textClips.map(clip => ({ id: clip.id, text: clip.text })),
+        pronunciationLexicon.map(entry => entry.term.trim()).filter(Boolean),
+        brandProfile
+      );
+
+      // One segment at a time, like a user regenerating them, to stay under TTS rate limits
+      const generatedNarration: Record<string, NarrationGenerationResponse> = {};
+      for (const [index, segment] of segments.entries()) {
+        setLocalizationProgress(`Generating narration ${index + 1} of ${segments.length}...`);
+        generatedNarration[segment.id] = await generateNarration(
+          segment.id,
+          translation.narration[segment.id],
+          voice,
+          pronunciationLexicon,
+          language
+        );
+      }
+
+      setLocalizations(prev => ({
+        ...prev,
+        [language]: {
+          language,
+          voice,
+          narrationText: translation.narration,
+          textOverlays: translation.textOverlays,
+          generatedNarration,
+          createdAt: new Date().toISOString(),
+        },
+      }));
+    } catch (err) {
+      showError(err instanceof Error ? err.message : "Failed to localize reel");
+    } finally {
+      setLocalizingLanguage(null);
+      setLocalizationProgress("");
+    }
+  };
+
+  const handleRemoveLocalization = (language: string) => {
+    setLocalizations(prev => {
+      const next = { ...prev };
+      delete next[language];
+      return next;
+    });
+  };
+
+  return {
+    localizations,
+    localizingLanguage,
+    localizationProgress,
+    setLocalizations,
+    handleLocalize,
+    handleRemoveLocalization,
+  };
+}
@@ -0,0 +1,199 @@
+import { useEffect, useState, type SetStateAction } from "react";
+import type { StoryboardResponse } from "@/types/storyboard";
+import type { Timeline } from "@/types/timeline";
+
+// Edits sharing a coalesce key this close together are merged into one entry
+const COALESCE_WINDOW_MS = 1000;
+// Gestures are merged until sealHistory, or after this long without an update in case
+// the end of the drag was missed
+const GESTURE_COALESCE_WINDOW_MS = 10000;
+const MAX_HISTORY_ENTRIES = 100;
+
+/**
+ * The part of the project covered by undo/redo
+ */
+export interface ProjectEditState {
+  storyboard: StoryboardResponse | null;
+  timeline: Timeline | null;
+}
+
+export interface HistoryEditOptions {
+  label: string; // shown in the history panel, e.g. "Move clip"
+  // Consecutive edits with the same key (e.g. every step of one drag) become a single entry
+  coalesceKey?: string;
+  // Part of a drag: merged with the same key until sealHistory (or a pause in updates), and
+  // each update is applied to the state from before the drag, so it can be computed from
+  // the drag's total movement
+  gesture?: boolean;
+}
+
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  timestamp: number; // when the entry was last changed
+}
+
+interface HistoryItem extends HistoryEntry {
+  state: ProjectEditState;
+  coalesceKey?: string;
+}
+
+interface HistoryState {
+  items: HistoryItem[]; // oldest first; the first item is where the history starts
+  index: number; // items[index] is the current state, later items can be redone
+  sealed: boolean; // true once the current entry takes no more coalesced edits
+  nextId: number;
+}
+
+function startHistory(state: ProjectEditState, label: string, nextId = 0): HistoryState {
+  return {
+    items: [{ id: nextId, label, timestamp: Date.now(), state }],
+    index: 0,
+    sealed: true,
+    nextId: nextId + 1,
+  };
+}
+
+function applyEdit(
+  history: HistoryState,
+  update: (state: ProjectEditState) => ProjectEditState,
+  options: HistoryEditOptions
+): HistoryState {
+  const current = history.items[history.index];
+  const now = Date.now();
+  const coalesce = options.coalesceKey !== undefined
+    && !history.sealed
+    && current.coalesceKey === options.coalesceKey
+    && now - current.timestamp < (options.gesture ? GESTURE_COALESCE_WINDOW_MS : COALESCE_WINDOW_MS);
+
+  const base = coalesce && options.gesture ? history.items[history.index - 1].state : current.state;
+  const state = update(base);
+  if (!coalesce && state.storyboard === current.state.storyboard && state.timeline === current.state.timeline) {
+    return history;
+  }
+
+  if (coalesce) {
+    const items = [...history.items];
+    items[history.index] = { ...current, state, timestamp: now };
+    return { ...history, items };
+  }
+
+  // A new edit discards whatever could have been redone
+  const items = [
+    ...history.items.slice(0, history.index + 1),
+    { id: history.nextId, label: options.label, timestamp: now, state, coalesceKey: options.coalesceKey },
+  ].slice(-MAX_HISTORY_ENTRIES);
+
+  return { items, index: items.length - 1, sealed: false, nextId: history.nextId + 1 };
+}
+
+function moveTo(history: HistoryState, index: number): HistoryState {
+  if (index < 0 || index >= history.items.length || index === history.index) return history;
+  return { ...history, index, sealed: true };
+}
+
+function isTextInput(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName);
+}
+
+/**
+ * Storyboard and timeline state with undo/redo.
+ *
+ * Every change goes through setStoryboard/setTimeline (or editProject, for a change to
+ * both at once) with a label, which records it as a history entry; updates that change
+ * nothing are not recorded. Loading a project
+ * or generating a new storyboard starts a fresh history with resetHistory.
+ * updateAllEntries changes every entry without recording one.
+ *
+ * Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z and Ctrl+Y redo, except while typing in a text
+ * field, which keeps its own undo.
+ */
+export function useProjectHistory() {
+  const [history, setHistory] = useState<HistoryState>(() =>
+    startHistory({ storyboard: null, timeline: null }, "New project")
+  );
+
+  const { storyboard, timeline } = history.items[history.index].state;
+
+  const edit = (update: (state: ProjectEditState) => ProjectEditState, options: HistoryEditOptions) => {
+    setHistory(prev => applyEdit(prev, update, options));
+  };
+
+  const editProject = (action: SetStateAction<ProjectEditState>, options: HistoryEditOptions) => {
+    edit(state => (typeof action === "function" ? action(state) : action), options);
+  };
+
+  const setStoryboard = (action: SetStateAction<StoryboardResponse | null>, options: HistoryEditOptions) => {
+    edit(state => ({
+      ...state,
+      storyboard: typeof action === "function" ? action(state.storyboard) : action,
+    }), options);
+  };
+
+  const setTimeline = (action: SetStateAction<Timeline | null>, options: HistoryEditOptions) => {
+    edit(state => ({
+      ...state,
+      timeline: typeof action === "function" ? action(state.timeline) : action,
+    }), options);
+  };
+
+  // A change that follows state kept outside the history (e.g. a clip resized to its new
+  // narration audio) is applied to every entry, so undo and redo don't revert it
+  const updateAllEntries = (update: (state: ProjectEditState) => ProjectEditState) => {
+    setHistory(prev => ({ ...prev, items: prev.items.map(item => ({ ...item, state: update(item.state) })) }));
+  };
+
+  const resetHistory = (state: ProjectEditState, label: string) => {
+    setHistory(prev => startHistory(state, label, prev.nextId));
+  };
+
+  // End the current entry, e.g. when a drag is released, so the next edit starts a new one
+  const sealHistory = () => {
+    setHistory(prev => (prev.sealed ? prev : { ...prev, sealed: true }));
+  };
+
+  const handleUndo = () => setHistory(prev => moveTo(prev, prev.index - 1));
+  const handleRedo = () => setHistory(prev => moveTo(prev, prev.index + 1));
+  const handleJumpToEntry = (entryId: number) => {
+    setHistory(prev => moveTo(prev, prev.items.findIndex(item => item.id === entryId)));
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey) || e.altKey || isTextInput(e.target)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === "z") {
+        e.preventDefault();
+        setHistory(prev => moveTo(prev, prev.index + (e.shiftKey ? 1 : -1)));
+      } else if (key === "y" && !e.shiftKey) {
+        e.preventDefault();
+        setHistory(prev => moveTo(prev, prev.index + 1));
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  const historyEntries: HistoryEntry[] = history.items.map(({ id, label, timestamp }) => ({ id, label, timestamp }));
+
+  return {
+    storyboard,
+    timeline,
+    setStoryboard,
+    setTimeline,
+    editProject,
+    updateAllEntries,
+    resetHistory,
+    sealHistory,
+    historyEntries,
+    currentEntryId: history.items[history.index].id,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.items.length - 1,
+    handleUndo,
+    handleRedo,
+    handleJumpToEntry,
+  };
+}
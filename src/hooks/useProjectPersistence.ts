@@ -0,0 +1,113 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { ProjectState, ProjectSummary } from "@/types/project";
+import { saveProject, loadProject, listProjects } from "@/services/projectService";
+import { useErrorToast } from "@/hooks/use-error-toast";
+import { useToast } from "@/hooks/use-toast";
+
+const CURRENT_PROJECT_KEY = "sizzle-reel-current-project";
+
+interface UseProjectPersistenceParams {
+  getProjectState: () => ProjectState;
+  onProjectLoaded: (state: ProjectState) => void;
+}
+
+export function useProjectPersistence({
+  getProjectState,
+  onProjectLoaded,
+}: UseProjectPersistenceParams) {
+  const { showError } = useErrorToast();
+  const { toast } = useToast();
+
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [projectName, setProjectName] = useState("Untitled Sizzle Reel");
+  const [savingProject, setSavingProject] = useState(false);
+  const [loadingProject, setLoadingProject] = useState(false);
+  const [savedProjects, setSavedProjects] = useState<ProjectSummary[]>([]);
+  const [lastSavedAt, setLastSavedAt] = useState<string | null>(null);
+  // True once the last opened project has been restored (or there was none to restore)
+  const [restoreComplete, setRestoreComplete] = useState(false);
+
+  // Keep the latest callback without re-running the restore effect
+  const onProjectLoadedRef = useRef(onProjectLoaded);
+  onProjectLoadedRef.current = onProjectLoaded;
+
+  const refreshProjectList = useCallback(async () => {
+    try {
+      setSavedProjects(await listProjects());
+    } catch (err) {
+      showError(err instanceof Error ? err.message : "Failed to list projects");
+    }
+  }, [showError]);
+
+  const handleLoadProject = useCallback(async (id: string) => {
+    setLoadingProject(true);
+
+    try {
+      const result = await loadProject(id);
+      onProjectLoadedRef.current(result.state);
+      setProjectId(result.projectId);
+      setProjectName(result.name);
+      setLastSavedAt(result.updatedAt);
+      localStorage.setItem(CURRENT_PROJECT_KEY, result.projectId);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : "Failed to load project");
+      // Don't keep trying to restore a project that can't be loaded
+      if (localStorage.getItem(CURRENT_PROJECT_KEY) === id) {
+        localStorage.removeItem(CURRENT_PROJECT_KEY);
+      }
+    } finally {
+      setLoadingProject(false);
+    }
+  }, [showError]);
+
+  // asNew saves a copy under a new project ID instead of overwriting the current one
+  const handleSaveProject = async (asNew = false) => {
+    setSavingProject(true);
+
+    try {
+      const result = await saveProject(
+        projectName.trim() || "Untitled Sizzle Reel",
+        getProjectState(),
+        asNew ? null : projectId
+      );
+      setProjectId(result.projectId);
+      setProjectName(result.name);
+      setLastSavedAt(result.updatedAt);
+      localStorage.setItem(CURRENT_PROJECT_KEY, result.projectId);
+      toast({
+        title: "Project saved",
+        description: `${result.name} (${result.assetCount} asset${result.assetCount === 1 ? '' : 's'})`,
+      });
+      refreshProjectList();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : "Failed to save project");
+    } finally {
+      setSavingProject(false);
+    }
+  };
+
+  // Restore the last opened project after a browser refresh
+  useEffect(() => {
+    const lastProjectId = localStorage.getItem(CURRENT_PROJECT_KEY);
+    if (lastProjectId) {
+      handleLoadProject(lastProjectId).finally(() => setRestoreComplete(true));
+    } else {
+      setRestoreComplete(true);
+    }
+    refreshProjectList();
+  }, [handleLoadProject, refreshProjectList]);
+
+  return {
+    projectId,
+    projectName,
+    setProjectName,
+    savingProject,
+    loadingProject,
+    savedProjects,
+    lastSavedAt,
+    restoreComplete,
+    handleSaveProject,
+    handleLoadProject,
+    refreshProjectList,
+  };
+}
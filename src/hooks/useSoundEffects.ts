@@ -0,0 +1,82 @@
+import { useState } from "react";
+import type { Timeline } from "@/types/timeline";
+import type { SoundEffect, SoundEffectKind } from "@/types/sound-effect";
+import { isSoundEffectClip } from "@/types/timeline";
+import { generateSoundEffect, importSoundEffect } from "@/services/audioService";
+import { uploadAsset } from "@/services/assetService";
+import { useErrorToast } from "@/hooks/use-error-toast";
+
+interface UseSoundEffectsParams {
+  timeline: Timeline | null;
+}
+
+/**
+ * The project's sound effect library: sounds generated from a prompt or uploaded,
+ * ready to be placed on the timeline as sfx or ambient clips
+ */
+export function useSoundEffects({ timeline }: UseSoundEffectsParams) {
+  const { showError } = useErrorToast();
+
+  const [soundEffects, setSoundEffects] = useState<SoundEffect[]>([]);
+  const [generatingSoundEffect, setGeneratingSoundEffect] = useState(false);
+  const [importingSoundEffect, setImportingSoundEffect] = useState(false);
+
+  const handleGenerateSoundEffect = async (prompt: string, kind: SoundEffectKind, durationSeconds?: number) => {
+    if (!prompt.trim()) {
+      showError("Please describe the sound");
+      return;
+    }
+
+    setGeneratingSoundEffect(true);
+
+    try {
+      const result = await generateSoundEffect(prompt, kind, durationSeconds);
+      setSoundEffects(prev => [...prev, result]);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : "Failed to generate sound effect");
+    } finally {
+      setGeneratingSoundEffect(false);
+    }
+  };
+
+  const handleImportSoundEffect = async (file: File, kind: SoundEffectKind) => {
+    if (!file.type.startsWith('audio/')) {
+      showError("Please select an audio file");
+      return;
+    }
+
+    setImportingSoundEffect(true);
+
+    try {
+      const asset = await uploadAsset(file);
+      const result = await importSoundEffect(asset.assetId, file.name, kind);
+      // Uploading the same file twice gives the same asset; keep one entry for it
+      setSoundEffects(prev => [...prev.filter(effect => effect.audioAssetId !== result.audioAssetId), result]);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : "Failed to import sound effect");
+    } finally {
+      setImportingSoundEffect(false);
+    }
+  };
+
+  const handleRemoveSoundEffect = (audioAssetId: string) => {
+    const inUse = timeline?.tracks.some(track =>
+      track.clips.some(clip => isSoundEffectClip(clip) && clip.sourceId === audioAssetId)
+    );
+    if (inUse) {
+      showError("This sound is used on the timeline");
+      return;
+    }
+    setSoundEffects(prev => prev.filter(effect => effect.audioAssetId !== audioAssetId));
+  };
+
+  return {
+    soundEffects,
+    setSoundEffects,
+    generatingSoundEffect,
+    importingSoundEffect,
+    handleGenerateSoundEffect,
+    handleImportSoundEffect,
+    handleRemoveSoundEffect,
+  };
+}
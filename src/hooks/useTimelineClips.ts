@@ -27,14 +27,17 @@ export function useTimelineClips(timeline: Timeline) {
     // Get clips by track type for rendering
     const videoTrack = timeline.tracks.find(t => t.type === 'video');
     const audioTrack = timeline.tracks.find(t => t.type === 'audio');
+    const textTrack = timeline.tracks.find(t => t.type === 'text');
 
     const videoClips = videoTrack?.clips || [];
     const audioClips = audioTrack?.clips || [];
+    const textClips = textTrack?.clips || [];
 
     return {
       allClips,              // All clips sorted by time
       videoClips,            // Video track clips
       audioClips,            // Audio track clips
+      textClips,             // Text overlay track clips
       totalDuration: timeline.totalDuration,
       tracks: timeline.tracks,
     };
@@ -0,0 +1,103 @@
+import { useCallback, useRef, useState } from "react";
+import type { VideoGenerationResponse } from "@/types/video-generation";
+import type { AspectRatio } from "@/types/output-format";
+import { submitVideoJob, waitForVideoJob } from "@/services/mediaService";
+import { useErrorToast } from "@/hooks/use-error-toast";
+
+const PENDING_JOBS_KEY = "sizzle-reel-pending-video-jobs";
+
+interface UseVideoJobsParams {
+  onVideoReady: (shotId: string, result: VideoGenerationResponse) => void;
+  hasShot: (shotId: string) => boolean; // jobs for shots that aren't in the project aren't resumed
+}
+
+/**
+ * Background Veo generation jobs, keyed by shot ID.
+ * Pending job IDs are kept in localStorage so polling resumes after a browser refresh.
+ */
+export function useVideoJobs({ onVideoReady, hasShot }: UseVideoJobsParams) {
+  const { showError } = useErrorToast();
+
+  const [pendingVideoJobs, setPendingVideoJobs] = useState<Record<string, string>>({});
+
+  // Keep the latest callback for jobs that finish after a re-render
+  const onVideoReadyRef = useRef(onVideoReady);
+  onVideoReadyRef.current = onVideoReady;
+  const hasShotRef = useRef(hasShot);
+  hasShotRef.current = hasShot;
+
+  // Job IDs being polled by this page, so a job is never polled twice
+  const trackedJobsRef = useRef(new Set<string>());
+
+  const updatePendingJobs = useCallback((update: (prev: Record<string, string>) => Record<string, string>) => {
+    setPendingVideoJobs(prev => {
+      const next = update(prev);
+      localStorage.setItem(PENDING_JOBS_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  const trackVideoJob = useCallback(async (shotId: string, jobId: string) => {
+    if (trackedJobsRef.current.has(jobId)) return;
+    trackedJobsRef.current.add(jobId);
+
+    try {
+      const result = await waitForVideoJob(jobId);
+      onVideoReadyRef.current(shotId, result);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : "Failed to generate video");
+    } finally {
+      trackedJobsRef.current.delete(jobId);
+      // Only clear the entry if it hasn't been replaced by a newer job for the same shot
+      updatePendingJobs(prev => {
+        if (prev[shotId] !== jobId) return prev;
+        const updated = { ...prev };
+        delete updated[shotId];
+        return updated;
+      });
+    }
+  }, [showError, updatePendingJobs]);
+
+  const startVideoJob = async (
+    shotId: string,
+    imageAssetId: string,
+    prompt: string,
+    model: 'veo-2' | 'veo-3',
+    aspectRatio?: AspectRatio
+  ) => {
+    const { jobId } = await submitVideoJob(shotId, imageAssetId, prompt, model, aspectRatio);
+    updatePendingJobs(prev => ({ ...prev, [shotId]: jobId }));
+    trackVideoJob(shotId, jobId);
+  };
+
+  // Resume polling jobs that were still running when the page was closed, dropping
+  // those whose shot isn't in the restored project
+  const resumePendingVideoJobs = useCallback(() => {
+    const stored = localStorage.getItem(PENDING_JOBS_KEY);
+    if (!stored) return;
+
+    try {
+      const pending: Record<string, string> = JSON.parse(stored);
+      const resumable = Object.fromEntries(
+        Object.entries(pending).filter(([shotId]) => hasShotRef.current(shotId))
+      );
+      updatePendingJobs(() => resumable);
+      for (const [shotId, jobId] of Object.entries(resumable)) {
+        trackVideoJob(shotId, jobId);
+      }
+    } catch {
+      localStorage.removeItem(PENDING_JOBS_KEY);
+    }
+  }, [trackVideoJob, updatePendingJobs]);
+
+  const generatingVideos: Record<string, boolean> = Object.fromEntries(
+    Object.keys(pendingVideoJobs).map(shotId => [shotId, true])
+  );
+
+  return {
+    pendingVideoJobs,
+    generatingVideos,
+    startVideoJob,
+    resumePendingVideoJobs,
+  };
+}
@@ -1,6 +1,7 @@
 import { useState } from "react";
 import type { VideoAnalysisResponse, UploadedVideo } from "@/types/video-analysis";
-import { analyzeVideo } from "@/services/videoService";
+import { analyzeVideo, compressVideo } from "@/services/videoService";
+import { uploadAsset } from "@/services/assetService";
 import { useErrorToast } from "@/hooks/use-error-toast";
 
 interface UseVideoManagementParams {
@@ -45,49 +46,27 @@ export function useVideoManagement({ onStoryboardClear }: UseVideoManagementPara
       // Increment uploading count
       setUploadingVideosCount(prev => prev + 1);
 
-      // Convert to base64
-      const reader = new FileReader();
-      reader.onload = async (e) => {
-        const result = e.target?.result as string;
+      try {
+        // Upload the original recording to the asset store
+        const original = await uploadAsset(file);
 
         // Check if compression is needed (over 10MB)
         const maxSize = 10 * 1024 * 1024; // 10MB in bytes
-        let compressedData = result;
+        let compressedAssetId = original.assetId;
 
         if (file.size > maxSize) {
           // Compress for analysis
           setCompressingVideos(prev => ({ ...prev, [videoId]: true }));
           try {
-            const response = await fetch("/api/video/compress", {
-              method: "POST",
-              headers: {
-                "Content-Type": "application/json",
-              },
-              body: JSON.stringify({
-                videoData: result,
-                targetSizeMB: 9, // Stay under 10MB limit
-              }),
-            });
-
-            if (!response.ok) {
-              const errorData = await response.json();
-              throw new Error(errorData.error || "Failed to compress video");
-            }
-
-            const compressionResult = await response.json();
-            compressedData = compressionResult.compressedVideo;
+            const compressionResult = await compressVideo(
+              original.assetId,
+              9 // Stay under 10MB limit
+            );
+            compressedAssetId = compressionResult.compressedAssetId;
 
             console.log(`${file.name} compressed: ${(file.size / 1024 / 1024).toFixed(2)}MB → ${(compressionResult.compressedSize / 1024 / 1024).toFixed(2)}MB (${(compressionResult.compressionRatio * 100).toFixed(0)}%)`);
           } catch (err) {
-            showError(`Failed to compress ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
-            setCompressingVideos(prev => {
-              const updated = { ...prev };
-              delete updated[videoId];
-              return updated;
-            });
-            // Decrement uploading count on failure
-            setUploadingVideosCount(prev => Math.max(0, prev - 1));
-            return;
+            throw new Error(`Failed to compress ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
           } finally {
             setCompressingVideos(prev => {
               const updated = { ...prev };
@@ -101,17 +80,18 @@ export function useVideoManagement({ onStoryboardClear }: UseVideoManagementPara
         const uploadedVideo: UploadedVideo = {
           id: videoId,
           filename: file.name,
-          originalData: result,
-          compressedData,
+          originalAssetId: original.assetId,
+          compressedAssetId,
           mimeType: file.type,
         };
 
         setVideoFiles(prev => [...prev, uploadedVideo]);
-
+      } catch (err) {
+        showError(err instanceof Error ? err.message : `Failed to upload ${file.name}`);
+      } finally {
         // Decrement uploading count when done
         setUploadingVideosCount(prev => Math.max(0, prev - 1));
-      };
-      reader.readAsDataURL(file);
+      }
     }
 
     // Clear the input so the same file can be uploaded again if deleted
@@ -148,6 +128,12 @@ export function useVideoManagement({ onStoryboardClear }: UseVideoManagementPara
     setVideoToDelete(null);
   };
 
+  // Replace uploaded videos and analyses wholesale (e.g. when loading a saved project)
+  const restoreVideos = (videos: UploadedVideo[], analyses: Record<string, VideoAnalysisResponse>) => {
+    setVideoFiles(videos);
+    setVideoAnalyses(analyses);
+  };
+
   const analyzeVideosIfNeeded = async (): Promise<VideoAnalysisResponse[]> => {
     const analysisResults: VideoAnalysisResponse[] = [];
 
@@ -178,7 +164,7 @@ export function useVideoManagement({ onStoryboardClear }: UseVideoManagementPara
       // Analyze this video
       try {
         const analysis = await analyzeVideo(
-          video.compressedData,
+          video.compressedAssetId,
           video.mimeType,
           video.id
         );
@@ -219,6 +205,7 @@ export function useVideoManagement({ onStoryboardClear }: UseVideoManagementPara
     confirmDeleteVideo,
     setPreviewingVideo,
     setDeleteWarningOpen,
+    restoreVideos,
 
     // Analysis utility
     analyzeVideosIfNeeded,
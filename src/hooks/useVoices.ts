@@ -0,0 +1,51 @@
+import { useEffect, useRef, useState } from "react";
+import type { NarrationVoice, VoiceOption } from "@/types/voice";
+import type { PronunciationEntry } from "@/types/pronunciation";
+import { listVoices, previewVoice } from "@/services/voiceService";
+import { useErrorToast } from "@/hooks/use-error-toast";
+
+export function useVoices() {
+  const { showError } = useErrorToast();
+
+  const [voices, setVoices] = useState<VoiceOption[]>([]);
+  const [auditioningVoice, setAuditioningVoice] = useState(false);
+  const auditionAudioRef = useRef<HTMLAudioElement | null>(null);
+
+  // Renders the voice with its current settings (not the provider's stock sample),
+  // so slider changes can be heard before regenerating narration
+  const handleAuditionVoice = async (voice: NarrationVoice, text?: string, pronunciations?: PronunciationEntry[]) => {
+    auditionAudioRef.current?.pause();
+    setAuditioningVoice(true);
+
+    try {
+      const { audioUrl } = await previewVoice(voice.voiceId, voice.settings, text, pronunciations);
+      const audio = new Audio(audioUrl);
+      auditionAudioRef.current = audio;
+      await audio.play();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : "Failed to preview voice");
+    } finally {
+      setAuditioningVoice(false);
+    }
+  };
+
+  useEffect(() => {
+    listVoices()
+      .then(setVoices)
+      .catch(err => showError(err instanceof Error ? err.message : "Failed to list voices"));
+  }, [showError]);
+
+  // Stop an audition that's still playing on unmount
+  useEffect(() => {
+    const auditionAudio = auditionAudioRef;
+    return () => {
+      auditionAudio.current?.pause();
+    };
+  }, []);
+
+  return {
+    voices,
+    auditioningVoice,
+    handleAuditionVoice,
+  };
+}
@@ -0,0 +1,123 @@
+/**
+ * Content-Addressed Asset Store
+ *
+ * Stores every binary asset (uploaded recordings, generated stills, videos, narration,
+ * music and export intermediates) on the server's local disk, keyed by the SHA-256 of
+ * its contents:
+ *
+ *   <data dir>/assets/<sha256>.<ext>   - asset contents
+ *   <data dir>/assets/<sha256>.json    - AssetRecord metadata
+ *
+ * API routes exchange asset IDs instead of base64 data URLs, and FFmpeg routes read
+ * inputs straight from disk via resolveAssetPath().
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { mkdir, readFile, rename, writeFile, copyFile } from "fs/promises";
+import { existsSync } from "fs";
+import path from "path";
+import { getDataDir } from "@/lib/dataDir";
+import type { AssetRecord } from "@/types/asset";
+
+const ASSET_ID_PATTERN = /^[a-f0-9]{64}$/;
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  "video/mp4": "mp4",
+  "video/quicktime": "mov",
+  "video/webm": "webm",
+  "audio/mpeg": "mp3",
+  "audio/wav": "wav",
+  "audio/x-wav": "wav",
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "text/vtt": "vtt",
+  "application/x-subrip": "srt",
+};
+
+export function isAssetId(value: string): boolean {
+  return ASSET_ID_PATTERN.test(value);
+}
+
+export function getAssetExtension(mimeType: string): string {
+  return MIME_EXTENSIONS[mimeType] || "bin";
+}
+
+function getAssetDir(): string {
+  return getDataDir("assets");
+}
+
+function getMetadataPath(assetId: string): string {
+  return path.join(getAssetDir(), `${assetId}.json`);
+}
+
+function getContentPath(assetId: string, mimeType: string): string {
+  return path.join(getAssetDir(), `${assetId}.${getAssetExtension(mimeType)}`);
+}
+
+export function assetExists(assetId: string): boolean {
+  return isAssetId(assetId) && existsSync(getMetadataPath(assetId));
+}
+
+/**
+ * Store a buffer, returning the existing record if the same contents were stored before
+ */
+export async function putAsset(buffer: Buffer, mimeType: string): Promise<AssetRecord> {
+  const assetId = createHash("sha256").update(buffer).digest("hex");
+
+  if (assetExists(assetId)) {
+    return getAssetRecord(assetId);
+  }
+
+  await mkdir(getAssetDir(), { recursive: true });
+
+  // Write contents before metadata so a record never points at a partial file
+  const contentPath = getContentPath(assetId, mimeType);
+  // Unique per write: the same contents can be stored twice at once
+  const tempPath = `${contentPath}.${process.pid}.${randomBytes(6).toString("hex")}.tmp`;
+  await writeFile(tempPath, buffer);
+  await rename(tempPath, contentPath);
+
+  const record: AssetRecord = {
+    assetId,
+    mimeType,
+    size: buffer.length,
+    createdAt: new Date().toISOString(),
+  };
+  await writeFile(getMetadataPath(assetId), JSON.stringify(record, null, 2));
+
+  return record;
+}
+
+/**
+ * Store a file produced on disk (e.g. FFmpeg output)
+ */
+export async function putAssetFile(filePath: string, mimeType: string): Promise<AssetRecord> {
+  return putAsset(await readFile(filePath), mimeType);
+}
+
+export async function getAssetRecord(assetId: string): Promise<AssetRecord> {
+  if (!assetExists(assetId)) {
+    throw new Error(`Asset ${assetId} not found`);
+  }
+  return JSON.parse(await readFile(getMetadataPath(assetId), "utf-8"));
+}
+
+/**
+ * Absolute path of an asset's contents, for passing straight to FFmpeg
+ */
+export async function resolveAssetPath(assetId: string): Promise<string> {
+  const record = await getAssetRecord(assetId);
+  return getContentPath(assetId, record.mimeType);
+}
+
+export async function readAsset(assetId: string): Promise<Buffer> {
+  return readFile(await resolveAssetPath(assetId));
+}
+
+/**
+ * Copy an asset out of the store (e.g. into a project bundle)
+ */
+export async function exportAsset(assetId: string, destinationPath: string): Promise<void> {
+  await copyFile(await resolveAssetPath(assetId), destinationPath);
+}
@@ -0,0 +1,11 @@
+/**
+ * Client-safe asset helpers
+ */
+
+/**
+ * URL that streams an asset from the asset store (supports HTTP range requests,
+ * so it can be used directly as a <video>/<audio> src)
+ */
+export function getAssetUrl(assetId: string): string {
+  return `/api/assets/${assetId}`;
+}
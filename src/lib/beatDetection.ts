@@ -0,0 +1,328 @@
+/**
+ * Beat Detection
+ *
+ * Finds the tempo, beats, downbeats and loudness sections of a music track, so cuts
+ * can land on the music. FFmpeg decodes the audio to mono PCM; the analysis is plain
+ * TypeScript:
+ *
+ * 1. Onset strength: spectral flux (frame-to-frame increase in log magnitude), with a
+ *    separate bass-band flux that follows the kick drum
+ * 2. Tempo: autocorrelation of the onset strength, weighted towards ~120 BPM
+ * 3. Beats: dynamic programming that trades onset strength against keeping the tempo
+ *    steady (Ellis, "Beat Tracking by Dynamic Programming", 2007)
+ * 4. Downbeats: of the four possible bar phases (4/4), the one with the most bass onsets
+ * 5. Sections: bars grouped where the loudness jumps
+ */
+
+import { exec } from "child_process";
+import { promisify } from "util";
+import type { MusicBeatGrid, MusicSection } from "@/types/music";
+
+const execAsync = promisify(exec);
+
+const SAMPLE_RATE = 22050;
+const FRAME_SIZE = 1024;
+const HOP_SIZE = 512; // ~23ms per onset frame
+const FRAME_RATE = SAMPLE_RATE / HOP_SIZE;
+const BASS_CUTOFF_HZ = 150;
+
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+const PREFERRED_BPM = 120;
+const BEAT_TIGHTNESS = 100; // higher keeps beats closer to the global tempo
+const BEATS_PER_BAR = 4;
+
+const MIN_SECTION_BARS = 4;
+const SECTION_ENERGY_JUMP = 0.2; // relative to the loudest bar
+
+export interface BeatAnalysis {
+  durationSeconds: number;
+  beatGrid: MusicBeatGrid;
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
+
+async function decodeMono(audioPath: string): Promise<Float32Array> {
+  const { stdout } = await execAsync(
+    `ffmpeg -v error -i "${audioPath}" -ac 1 -ar ${SAMPLE_RATE} -f f32le -`,
+    { encoding: "buffer", maxBuffer: 256 * 1024 * 1024 }
+  );
+  // Copy into an aligned buffer; the exec output may start at any byte offset
+  const samples = new Float32Array(Math.floor(stdout.length / 4));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = stdout.readFloatLE(i * 4);
+  }
+  return samples;
+}
+
+/**
+ * In-place iterative radix-2 FFT; re/im length must be a power of two
+ */
+function fft(re: Float32Array, im: Float32Array): void {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * cos - im[b] * sin;
+        const tIm = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+      }
+    }
+  }
+}
+
+/**
+ * Spectral flux per frame, over all bins and over the bass bins only
+ */
+function onsetStrength(samples: Float32Array): { full: Float32Array; bass: Float32Array } {
+  const frameCount = Math.max(0, Math.floor((samples.length - FRAME_SIZE) / HOP_SIZE) + 1);
+  const binCount = FRAME_SIZE / 2;
+  const bassBins = Math.ceil((BASS_CUTOFF_HZ * FRAME_SIZE) / SAMPLE_RATE);
+  const window = Float32Array.from({ length: FRAME_SIZE }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / FRAME_SIZE));
+
+  const full = new Float32Array(frameCount);
+  const bass = new Float32Array(frameCount);
+  let previous = new Float32Array(binCount);
+  const re = new Float32Array(FRAME_SIZE);
+  const im = new Float32Array(FRAME_SIZE);
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const offset = frame * HOP_SIZE;
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      re[i] = samples[offset + i] * window[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+
+    const magnitudes = new Float32Array(binCount);
+    let flux = 0;
+    let bassFlux = 0;
+    for (let bin = 1; bin < binCount; bin++) {
+      magnitudes[bin] = Math.log1p(100 * Math.hypot(re[bin], im[bin]));
+      const increase = Math.max(0, magnitudes[bin] - previous[bin]);
+      flux += increase;
+      if (bin <= bassBins) bassFlux += increase;
+    }
+    full[frame] = frame === 0 ? 0 : flux;
+    bass[frame] = frame === 0 ? 0 : bassFlux;
+    previous = magnitudes;
+  }
+
+  return { full: normalizeOnsets(full), bass: normalizeOnsets(bass) };
+}
+
+/**
+ * Remove the slowly varying level (moving average over ~0.5s) and scale to unit deviation
+ */
+function normalizeOnsets(envelope: Float32Array): Float32Array {
+  const radius = Math.round(FRAME_RATE / 4);
+  const result = new Float32Array(envelope.length);
+  let sum = 0;
+  let sumSquares = 0;
+
+  for (let i = 0; i < envelope.length; i++) {
+    let localSum = 0;
+    let count = 0;
+    for (let j = Math.max(0, i - radius); j <= Math.min(envelope.length - 1, i + radius); j++) {
+      localSum += envelope[j];
+      count++;
+    }
+    result[i] = Math.max(0, envelope[i] - localSum / count);
+    sum += result[i];
+    sumSquares += result[i] * result[i];
+  }
+
+  const mean = sum / Math.max(1, result.length);
+  const deviation = Math.sqrt(Math.max(0, sumSquares / Math.max(1, result.length) - mean * mean));
+  if (deviation < 1e-6) return new Float32Array(envelope.length);
+  return result.map(value => value / deviation);
+}
+
+/**
+ * Beat period in frames, or null when nothing periodic stands out
+ */
+function estimatePeriod(onsets: Float32Array): number | null {
+  const minLag = Math.floor((60 / MAX_BPM) * FRAME_RATE);
+  const maxLag = Math.min(onsets.length - 1, Math.ceil((60 / MIN_BPM) * FRAME_RATE));
+  if (maxLag <= minLag) return null;
+
+  const scores: number[] = [];
+  for (let lag = 0; lag <= maxLag + 1; lag++) {
+    let correlation = 0;
+    for (let i = lag; i < onsets.length; i++) {
+      correlation += onsets[i] * onsets[i - lag];
+    }
+    const bpm = (60 * FRAME_RATE) / Math.max(1, lag);
+    // Prefer tempos near PREFERRED_BPM, so a track isn't read at half or double speed
+    const weight = Math.exp(-0.5 * Math.log2(bpm / PREFERRED_BPM) ** 2);
+    scores.push((correlation / (onsets.length - lag)) * weight);
+  }
+
+  let bestLag = minLag;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    if (scores[lag] > scores[bestLag]) bestLag = lag;
+  }
+  if (scores[bestLag] <= 0) return null;
+
+  // Parabolic interpolation between neighboring lags for a sub-frame period
+  const [a, b, c] = [scores[bestLag - 1] ?? scores[bestLag], scores[bestLag], scores[bestLag + 1] ?? scores[bestLag]];
+  const denominator = a - 2 * b + c;
+  return bestLag + (denominator !== 0 ? (0.5 * (a - c)) / denominator : 0);
+}
+
+/**
+ * Beat frames that best balance onset strength against a steady period
+ */
+function trackBeats(onsets: Float32Array, period: number): number[] {
+  const scores = new Float32Array(onsets.length);
+  const backlinks = new Int32Array(onsets.length).fill(-1);
+
+  for (let t = 0; t < onsets.length; t++) {
+    let best = 0;
+    let bestFrom = -1;
+    for (let from = Math.max(0, Math.floor(t - 2 * period)); from <= t - Math.round(period / 2); from++) {
+      const penalty = BEAT_TIGHTNESS * Math.log((t - from) / period) ** 2;
+      const candidate = scores[from] - penalty;
+      if (bestFrom === -1 || candidate > best) {
+        best = candidate;
+        bestFrom = from;
+      }
+    }
+    scores[t] = onsets[t] + (bestFrom === -1 ? 0 : best);
+    backlinks[t] = bestFrom;
+  }
+
+  // Start from the best-scoring frame within the last beat period
+  let last = onsets.length - 1;
+  for (let t = Math.max(0, Math.floor(onsets.length - period)); t < onsets.length; t++) {
+    if (scores[t] > scores[last]) last = t;
+  }
+
+  const beats: number[] = [];
+  for (let t = last; t >= 0; t = backlinks[t]) {
+    beats.unshift(t);
+    if (backlinks[t] === -1) break;
+  }
+  return beats;
+}
+
+function pickDownbeats(beatFrames: number[], bassOnsets: Float32Array): number[] {
+  let bestPhase = 0;
+  let bestStrength = -Infinity;
+
+  for (let phase = 0; phase < BEATS_PER_BAR; phase++) {
+    let strength = 0;
+    let count = 0;
+    for (let i = phase; i < beatFrames.length; i += BEATS_PER_BAR) {
+      strength += bassOnsets[beatFrames[i]];
+      count++;
+    }
+    if (count > 0 && strength / count > bestStrength) {
+      bestStrength = strength / count;
+      bestPhase = phase;
+    }
+  }
+
+  return beatFrames.filter((_, i) => i % BEATS_PER_BAR === bestPhase);
+}
+
+function rms(samples: Float32Array, start: number, end: number): number {
+  const from = Math.max(0, Math.floor(start * SAMPLE_RATE));
+  const to = Math.min(samples.length, Math.floor(end * SAMPLE_RATE));
+  let sum = 0;
+  for (let i = from; i < to; i++) sum += samples[i] * samples[i];
+  return to > from ? Math.sqrt(sum / (to - from)) : 0;
+}
+
+/**
+ * Group bars into sections, starting a new one where the loudness jumps
+ */
+function findSections(samples: Float32Array, downbeats: number[], duration: number): MusicSection[] {
+  const edges = [0, ...downbeats.filter(time => time > 0), duration];
+  const bars = edges.slice(0, -1).map((start, i) => ({ start, end: edges[i + 1], energy: rms(samples, start, edges[i + 1]) }));
+  const loudest = Math.max(...bars.map(bar => bar.energy), 1e-9);
+
+  const groups: { start: number; end: number; energies: number[] }[] = [];
+  for (const bar of bars) {
+    const current = groups[groups.length - 1];
+    const currentEnergy = current ? current.energies.reduce((a, b) => a + b, 0) / current.energies.length : 0;
+    const jump = current && Math.abs(bar.energy - currentEnergy) / loudest > SECTION_ENERGY_JUMP;
+
+    if (!current || (jump && current.energies.length >= MIN_SECTION_BARS)) {
+      groups.push({ start: bar.start, end: bar.end, energies: [bar.energy] });
+    } else {
+      current.end = bar.end;
+      current.energies.push(bar.energy);
+    }
+  }
+
+  const sectionEnergies = groups.map(group => group.energies.reduce((a, b) => a + b, 0) / group.energies.length);
+  const loudestSection = Math.max(...sectionEnergies, 1e-9);
+  return groups.map((group, i) => ({
+    start: round(group.start),
+    end: round(group.end),
+    energy: Math.round((sectionEnergies[i] / loudestSection) * 100) / 100,
+  }));
+}
+
+/**
+ * Tempo, beats, downbeats and sections of a decoded track
+ */
+export function detectBeats(samples: Float32Array): BeatAnalysis {
+  const durationSeconds = round(samples.length / SAMPLE_RATE);
+  const { full, bass } = onsetStrength(samples);
+  const period = estimatePeriod(full);
+
+  if (!period) {
+    return {
+      durationSeconds,
+      beatGrid: {
+        bpm: 0,
+        beats: [],
+        downbeats: [],
+        sections: durationSeconds > 0 ? [{ start: 0, end: durationSeconds, energy: 1 }] : [],
+      },
+    };
+  }
+
+  const beatFrames = trackBeats(full, period);
+  const downbeatFrames = pickDownbeats(beatFrames, bass);
+  const toSeconds = (frame: number) => round((frame * HOP_SIZE + FRAME_SIZE / 2) / SAMPLE_RATE);
+  const downbeats = downbeatFrames.map(toSeconds);
+
+  return {
+    durationSeconds,
+    beatGrid: {
+      bpm: Math.round((60 * FRAME_RATE) / period * 10) / 10,
+      beats: beatFrames.map(toSeconds),
+      downbeats,
+      sections: findSections(samples, downbeats, durationSeconds),
+    },
+  };
+}
+
+/**
+ * Decode an audio file and analyze its rhythm
+ */
+export async function analyzeBeats(audioPath: string): Promise<BeatAnalysis> {
+  return detectBeats(await decodeMono(audioPath));
+}
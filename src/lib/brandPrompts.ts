@@ -0,0 +1,81 @@
+/**
+ * Brand Prompt Fragments
+ *
+ * Turns a BrandProfile into the prompt text injected into storyboard, still-image and
+ * music generation. Every helper accepts an undefined profile and falls back to neutral
+ * wording, so requests without a brand still produce sensible prompts.
+ */
+
+import type { BrandProfile } from "@/types/brand";
+
+const DEFAULT_SETTINGS = "realistic, everyday environments where the product's users would actually be";
+
+function joinList(items: string[] | undefined): string {
+  return (items || []).filter(Boolean).join(", ");
+}
+
+/**
+ * Settings shots should take place in, as a comma-separated list
+ */
+export function formatBrandSettings(profile?: BrandProfile): string {
+  return joinList(profile?.allowedSettings) || DEFAULT_SETTINGS;
+}
+
+/**
+ * The CONTEXT section of the storyboard prompt
+ */
+export function formatStoryboardBrandContext(profile?: BrandProfile): string {
+  const lines: string[] = [];
+
+  if (profile?.companyContext) {
+    lines.push(`CONTEXT: ${profile.companyContext} Use this context to inform authentic settings and character circumstances, but keep the PRIMARY FOCUS on showcasing the specific product feature described above.`);
+  } else {
+    lines.push("CONTEXT: Keep the PRIMARY FOCUS on showcasing the specific product feature described above.");
+  }
+
+  if (profile?.audience) {
+    lines.push(`AUDIENCE: ${profile.audience}`);
+  }
+  if (profile?.tone) {
+    lines.push(`TONE: ${profile.tone}`);
+  }
+
+  lines.push("");
+  lines.push(`Focus on these settings: ${formatBrandSettings(profile)}.`);
+
+  return lines.join("\n");
+}
+
+/**
+ * Extra rules appended to the STYLE GUARDRAILS section of the storyboard prompt
+ */
+export function formatBrandGuardrails(profile?: BrandProfile): string {
+  const rules = [
+    ...(profile?.visualStyleGuardrails || []),
+    ...(profile?.bannedImagery || []).map(item => `NO ${item}`),
+  ];
+  return rules.map(rule => `- ${rule}`).join("\n");
+}
+
+/**
+ * Guidance appended to still-image prompts
+ */
+export function formatStillImageBrandGuidance(profile?: BrandProfile): string {
+  if (!profile) return "";
+
+  const lines: string[] = [];
+  if (profile.visualStyleGuardrails.length) {
+    lines.push(`Visual style: ${joinList(profile.visualStyleGuardrails)}.`);
+  }
+  if (profile.bannedImagery.length) {
+    lines.push(`Do not show: ${joinList(profile.bannedImagery)}.`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Mood guidance appended to music prompts (musical characteristics only, never the brand itself)
+ */
+export function formatMusicBrandGuidance(profile?: BrandProfile): string {
+  return profile?.tone ? `Overall mood should feel ${profile.tone.toLowerCase()}.` : "";
+}
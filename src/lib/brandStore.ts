@@ -0,0 +1,122 @@
+/**
+ * Brand Profile Store
+ *
+ * Brand profiles are small JSON documents stored on the server's local disk:
+ *
+ *   <data dir>/brands/<brandId>.json - BrandProfile
+ *
+ * The store is seeded with the Free World profile (the context this app was originally
+ * built for) the first time it is read, so existing behavior is preserved out of the box.
+ */
+
+import { mkdir, readFile, readdir, rename, unlink, writeFile } from "fs/promises";
+import { existsSync } from "fs";
+import path from "path";
+import { getDataDir, isSafeId } from "@/lib/dataDir";
+import type { BrandProfile, BrandProfileInput } from "@/types/brand";
+
+export const DEFAULT_BRAND_PROFILE_ID = "free-world";
+
+const DEFAULT_BRAND_PROFILE: BrandProfileInput = {
+  name: "Free World",
+  companyContext: "Free World is a portal helping formerly incarcerated individuals train for and find work in the trucking industry.",
+  audience: "Formerly incarcerated job seekers, their families, and the employers and partners who support them",
+  tone: "Hopeful, grounded, authentic and human-centered",
+  allowedSettings: [
+    "modest homes",
+    "community spaces and community centers",
+    "truck stops",
+    "training facilities",
+    "highways",
+  ],
+  bannedImagery: [
+    "corporate or expensive locations",
+    "prison or jail imagery",
+  ],
+  visualStyleGuardrails: [],
+};
+
+function getBrandDir(): string {
+  return getDataDir("brands");
+}
+
+function getBrandPath(brandId: string): string {
+  if (!isSafeId(brandId)) {
+    throw new Error(`Invalid brand profile ID: ${brandId}`);
+  }
+  return path.join(getBrandDir(), `${brandId}.json`);
+}
+
+async function writeBrandProfile(profile: BrandProfile): Promise<void> {
+  await mkdir(getBrandDir(), { recursive: true });
+
+  // Write to a temp file and rename so a crash mid-save never leaves a truncated profile
+  const brandPath = getBrandPath(profile.id);
+  const tempPath = `${brandPath}.tmp`;
+  await writeFile(tempPath, JSON.stringify(profile, null, 2));
+  await rename(tempPath, brandPath);
+}
+
+async function seedDefaultProfile(): Promise<void> {
+  const now = new Date().toISOString();
+  await writeBrandProfile({
+    ...DEFAULT_BRAND_PROFILE,
+    id: DEFAULT_BRAND_PROFILE_ID,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+export function brandProfileExists(brandId: string): boolean {
+  return isSafeId(brandId) && existsSync(getBrandPath(brandId));
+}
+
+export async function listBrandProfiles(): Promise<BrandProfile[]> {
+  if (!existsSync(getBrandDir())) {
+    await seedDefaultProfile();
+  }
+
+  const profiles: BrandProfile[] = [];
+  for (const filename of await readdir(getBrandDir())) {
+    if (!filename.endsWith(".json")) continue;
+
+    try {
+      profiles.push(JSON.parse(await readFile(path.join(getBrandDir(), filename), "utf-8")));
+    } catch (error) {
+      console.error(`Skipping unreadable brand profile ${filename}:`, error);
+    }
+  }
+
+  return profiles.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function saveBrandProfile(
+  brandId: string | undefined,
+  input: BrandProfileInput
+): Promise<BrandProfile> {
+  const id = brandId || `brand-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  const now = new Date().toISOString();
+  const createdAt = brandProfileExists(id)
+    ? (JSON.parse(await readFile(getBrandPath(id), "utf-8")) as BrandProfile).createdAt
+    : now;
+
+  const profile: BrandProfile = {
+    id,
+    name: input.name.trim() || "Untitled Brand",
+    companyContext: input.companyContext.trim(),
+    audience: input.audience.trim(),
+    tone: input.tone.trim(),
+    allowedSettings: input.allowedSettings.map(item => item.trim()).filter(Boolean),
+    bannedImagery: input.bannedImagery.map(item => item.trim()).filter(Boolean),
+    visualStyleGuardrails: input.visualStyleGuardrails.map(item => item.trim()).filter(Boolean),
+    createdAt,
+    updatedAt: now,
+  };
+
+  await writeBrandProfile(profile);
+  return profile;
+}
+
+export async function deleteBrandProfile(brandId: string): Promise<void> {
+  await unlink(getBrandPath(brandId));
+}
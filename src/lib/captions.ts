@@ -0,0 +1,156 @@
+/**
+ * Captions
+ *
+ * Groups aligned narration words into caption cues and writes them as SRT and
+ * WebVTT sidecars. The VTT file carries per-word timestamps so players that support
+ * karaoke-style cues can highlight the current word.
+ *
+ * Burned-in captions are drawn like text clips (see lib/textOverlay.ts), so
+ * captionCueToTextClip turns a cue into one.
+ */
+
+import type { CaptionCue, CaptionStyle, WordTiming } from "@/types/captions";
+import type { TextClip } from "@/types/timeline";
+
+export const DEFAULT_CAPTION_STYLE: CaptionStyle = {
+  fontFamily: "sans",
+  fontSize: 5,
+  color: "#ffffff",
+  background: true,
+  position: "bottom",
+  maxWordsPerCue: 7,
+};
+
+// A pause this long between words always starts a new cue
+const CUE_BREAK_PAUSE_SECONDS = 0.6;
+// Longer cues are wrapped onto two lines when burned in
+const MAX_CHARS_PER_LINE = 32;
+
+/**
+ * Place a narration clip's word timings on the timeline and group them into cues.
+ * Cues break at sentence ends, long pauses and `maxWordsPerCue`; words after the
+ * end of the clip (e.g. when it was shortened on the timeline) are dropped.
+ */
+export function buildClipCues(
+  words: WordTiming[],
+  clipStart: number,
+  clipDuration: number,
+  maxWordsPerCue: number
+): CaptionCue[] {
+  const clipEnd = clipStart + clipDuration;
+  const placed = words
+    .map(word => ({ text: word.text, start: clipStart + word.start, end: Math.min(clipStart + word.end, clipEnd) }))
+    .filter(word => word.start < clipEnd);
+
+  const cues: CaptionCue[] = [];
+  let current: WordTiming[] = [];
+
+  const flush = () => {
+    if (current.length === 0) return;
+    cues.push({
+      start: current[0].start,
+      end: current[current.length - 1].end,
+      text: current.map(word => word.text).join(" "),
+      words: current,
+    });
+    current = [];
+  };
+
+  for (const word of placed) {
+    const previous = current[current.length - 1];
+    if (previous && (
+      current.length >= maxWordsPerCue ||
+      word.start - previous.end > CUE_BREAK_PAUSE_SECONDS ||
+      /[.!?]$/.test(previous.text)
+    )) {
+      flush();
+    }
+    current.push(word);
+  }
+  flush();
+
+  return cues;
+}
+
+/**
+ * Sort cues from all clips and stop each one before the next starts, so
+ * overlapping narration never shows two captions at once
+ */
+export function mergeCues(cues: CaptionCue[]): CaptionCue[] {
+  const sorted = [...cues].sort((a, b) => a.start - b.start);
+  return sorted.map((cue, i) => {
+    const next = sorted[i + 1];
+    return next && next.start < cue.end ? { ...cue, end: next.start } : cue;
+  });
+}
+
+function formatTimestamp(seconds: number, separator: "," | "."): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+export function formatSrt(cues: CaptionCue[]): string {
+  return cues
+    .map((cue, i) =>
+      `${i + 1}\n${formatTimestamp(cue.start, ",")} --> ${formatTimestamp(cue.end, ",")}\n${cue.text}\n`
+    )
+    .join("\n");
+}
+
+export function formatVtt(cues: CaptionCue[]): string {
+  const body = cues
+    .map(cue => {
+      // Inline timestamps mark when each word after the first is spoken
+      const text = cue.words
+        .map((word, i) => (i === 0 ? word.text : `<${formatTimestamp(word.start, ".")}>${word.text}`))
+        .join(" ");
+      return `${formatTimestamp(cue.start, ".")} --> ${formatTimestamp(cue.end, ".")}\n${text}\n`;
+    })
+    .join("\n");
+  return `WEBVTT\n\n${body}`;
+}
+
+/**
+ * Break a long cue onto two lines at the word boundary closest to the middle
+ */
+export function wrapCaptionText(text: string): string {
+  if (text.length <= MAX_CHARS_PER_LINE) return text;
+
+  const words = text.split(" ");
+  let best = 1;
+  let bestDiff = Infinity;
+  for (let i = 1; i < words.length; i++) {
+    const diff = Math.abs(words.slice(0, i).join(" ").length - words.slice(i).join(" ").length);
+    if (diff < bestDiff) {
+      best = i;
+      bestDiff = diff;
+    }
+  }
+  return `${words.slice(0, best).join(" ")}\n${words.slice(best).join(" ")}`;
+}
+
+export function captionCueToTextClip(cue: CaptionCue, style: CaptionStyle, index: number): TextClip {
+  return {
+    id: `caption-${index}`,
+    type: "text",
+    startTime: cue.start,
+    duration: Math.max(0.01, cue.end - cue.start),
+    text: wrapCaptionText(cue.text),
+    position: style.position,
+    style: {
+      fontFamily: style.fontFamily,
+      fontSize: style.fontSize,
+      color: style.color,
+      bold: true,
+      background: style.background,
+    },
+    animationIn: "none",
+    animationOut: "none",
+    animationDuration: 0,
+  };
+}
@@ -0,0 +1,20 @@
+/**
+ * Server-side data directory
+ *
+ * Persistent files (saved projects, etc.) live under a single root so deployments
+ * can point it at a mounted volume. Defaults to `.sizzle-data` in the project root.
+ */
+
+import path from "path";
+
+export function getDataDir(...segments: string[]): string {
+  const root = process.env.SIZZLE_DATA_DIR || path.join(process.cwd(), ".sizzle-data");
+  return path.join(root, ...segments);
+}
+
+/**
+ * IDs that become directory or file names must be safe path segments
+ */
+export function isSafeId(id: string): boolean {
+  return /^[a-zA-Z0-9_-]+$/.test(id);
+}
@@ -0,0 +1,124 @@
+/**
+ * Reel Localization
+ *
+ * Supported languages, the translation prompt and schema, and validation of the
+ * model's translations. Shared by the client (language picker) and the translation route.
+ *
+ * Narration is translated to fit the time the original takes to say, since the
+ * localized audio is refit onto the same video. Validation repairs what it can
+ * (unknown IDs dropped, whitespace trimmed) and reports missing or empty translations
+ * so the route can re-ask the model.
+ */
+
+import type { ValidationResult } from "@/lib/structuredOutput";
+import type { BrandProfile } from "@/types/brand";
+import type { LanguageCode, TranslationItem } from "@/types/localization";
+import { isOwnKey } from "@/lib/utils";
+
+interface LanguageConfig {
+  label: string; // shown in the picker, in the language itself
+  englishName: string; // used in the prompt
+}
+
+export const LOCALIZATION_LANGUAGES: Record<LanguageCode, LanguageConfig> = {
+  es: { label: "Español", englishName: "Spanish" },
+  fr: { label: "Français", englishName: "French" },
+  de: { label: "Deutsch", englishName: "German" },
+  it: { label: "Italiano", englishName: "Italian" },
+  pt: { label: "Português", englishName: "Portuguese" },
+  ja: { label: "日本語", englishName: "Japanese" },
+  ko: { label: "한국어", englishName: "Korean" },
+  zh: { label: "中文", englishName: "Mandarin Chinese (Simplified)" },
+  hi: { label: "हिन्दी", englishName: "Hindi" },
+};
+
+export function isLanguageCode(value: unknown): value is LanguageCode {
+  return isOwnKey(LOCALIZATION_LANGUAGES, value);
+}
+
+export function buildTranslationPrompt(
+  targetLanguage: LanguageCode,
+  narration: TranslationItem[],
+  textOverlays: TranslationItem[],
+  glossary: string[] = [],
+  brandProfile?: BrandProfile
+): string {
+  const language = LOCALIZATION_LANGUAGES[targetLanguage].englishName;
+  const formatItem = (item: TranslationItem) =>
+    `- id "${item.id}"${item.maxSeconds ? ` (spoken in ${item.maxSeconds.toFixed(1)}s)` : ""}: ${JSON.stringify(item.text)}`;
+
+  return `You are localizing a short product video (sizzle reel) into ${language}.
+
+Translate every item below into natural, idiomatic ${language} for a marketing voiceover and on-screen text. Do not translate word for word.
+${brandProfile?.tone ? `\nTONE: ${brandProfile.tone}\n` : ""}
+RULES:
+- Narration is spoken over fixed video. Each narration translation must take no longer to say than the original; shorten or rephrase rather than running long.
+- On-screen text must stay short enough to fit the same space; keep line breaks where the original has them.
+- Keep product names, feature names and brand names exactly as written${glossary.length > 0 ? `, including: ${glossary.join(", ")}` : ""}.
+- Return every id exactly once, with only the translated text.
+${narration.length > 0 ? `\nNARRATION:\n${narration.map(formatItem).join("\n")}\n` : ""}${textOverlays.length > 0 ? `\nON-SCREEN TEXT:\n${textOverlays.map(formatItem).join("\n")}\n` : ""}
+Return your response as a JSON object with this exact structure:
+{
+  "translations": [
+    { "id": "narration-1", "text": "Translated text" }
+  ]
+}`;
+}
+
+/**
+ * JSON Schema for Gemini's structured output mode, with IDs constrained to the items sent
+ */
+export function buildTranslationSchema(ids: string[]) {
+  return {
+    type: "object",
+    properties: {
+      translations: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            id: { type: "string", enum: ids },
+            text: { type: "string" },
+          },
+          required: ["id", "text"],
+        },
+      },
+    },
+    required: ["translations"],
+  };
+}
+
+/**
+ * Map of item ID to translated text, with one entry for every requested ID
+ */
+export function validateTranslations(raw: unknown, ids: string[]): ValidationResult<Record<string, string>> {
+  const errors: string[] = [];
+  const repairs: string[] = [];
+
+  const translations = (raw as { translations?: unknown })?.translations;
+  if (!Array.isArray(translations)) {
+    return { value: null, errors: ["translations must be an array"], repairs };
+  }
+
+  const result: Record<string, string> = {};
+  for (const item of translations) {
+    const { id, text } = (item || {}) as { id?: unknown; text?: unknown };
+    if (typeof id !== "string" || !ids.includes(id)) {
+      repairs.push(`Dropped translation for unknown id ${JSON.stringify(id)}`);
+      continue;
+    }
+    if (typeof text !== "string" || !text.trim()) {
+      errors.push(`Translation for "${id}" is empty`);
+      continue;
+    }
+    result[id] = text.trim();
+  }
+
+  for (const id of ids) {
+    if (!(id in result) && !errors.some(error => error.includes(`"${id}"`))) {
+      errors.push(`Missing translation for "${id}"`);
+    }
+  }
+
+  return { value: errors.length === 0 ? result : null, errors, repairs };
+}
@@ -0,0 +1,42 @@
+/**
+ * Loudness Presets
+ *
+ * Targets the exported reel's audio can be mastered to. Shared by the client (export
+ * settings, loudness report) and the server (lib/loudnessMastering.ts).
+ */
+
+import type { LoudnessPreset, LoudnessTarget } from "@/types/loudness";
+import { isOwnKey } from "@/lib/utils";
+
+interface LoudnessPresetConfig {
+  label: string;
+  description: string;
+  target: LoudnessTarget;
+}
+
+export const LOUDNESS_PRESETS: Record<LoudnessPreset, LoudnessPresetConfig> = {
+  web: {
+    label: "Web (-14 LUFS)",
+    description: "YouTube, social feeds and websites",
+    target: { integratedLufs: -14, truePeakDbtp: -1, loudnessRange: 11 },
+  },
+  broadcast: {
+    label: "Broadcast (-23 LUFS)",
+    description: "EBU R128 for TV delivery",
+    target: { integratedLufs: -23, truePeakDbtp: -1, loudnessRange: 15 },
+  },
+  podcast: {
+    label: "Podcast (-16 LUFS)",
+    description: "Podcast and streaming audio apps",
+    target: { integratedLufs: -16, truePeakDbtp: -1, loudnessRange: 11 },
+  },
+};
+
+export const DEFAULT_LOUDNESS_PRESET: LoudnessPreset = "web";
+
+export function isLoudnessPreset(value: unknown): value is LoudnessPreset {
+  return isOwnKey(LOUDNESS_PRESETS, value);
+}
+
+// Reports within this many LU of the target count as on target
+export const LOUDNESS_TOLERANCE_LU = 1;
@@ -0,0 +1,107 @@
+/**
+ * Loudness Mastering
+ *
+ * Measures audio with FFmpeg's loudnorm filter (EBU R128) and builds the mastering
+ * chain the final mix goes through on export:
+ *
+ * - loudnorm brings the mix to the preset's integrated loudness in a second pass,
+ *   fed the first pass's measurement so a single linear gain is used whenever that
+ *   reaches the target without clipping or exceeding the loudness range; otherwise
+ *   it falls back to dynamic normalization
+ * - a limiter then holds the true-peak ceiling. alimiter only sees sample peaks, so
+ *   it runs at 4x oversampling, where sample peaks are close to true peaks
+ */
+
+import { exec } from "child_process";
+import { promisify } from "util";
+import type { LoudnessMeasurement, LoudnessTarget } from "@/types/loudness";
+
+const execAsync = promisify(exec);
+
+const OVERSAMPLE_RATE = 192000;
+export const OUTPUT_SAMPLE_RATE = 48000;
+
+// loudnorm rejects measurements outside these ranges
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Read the measurement loudnorm prints (print_format=json) at the end of its run.
+ * Returns null for silence, which loudnorm reports as -inf.
+ */
+export function parseLoudnormStats(output: string): LoudnessMeasurement | null {
+  const json = output.match(/\{[^{}]*"input_i"[^{}]*\}/g)?.pop();
+  if (!json) {
+    throw new Error("loudnorm printed no measurement");
+  }
+
+  const stats = JSON.parse(json) as Record<string, string>;
+  const integratedLufs = parseFloat(stats.input_i);
+  if (!Number.isFinite(integratedLufs)) return null;
+
+  return {
+    integratedLufs,
+    truePeakDbtp: parseFloat(stats.input_tp),
+    loudnessRange: parseFloat(stats.input_lra),
+    threshold: parseFloat(stats.input_thresh),
+  };
+}
+
+async function runLoudnessAnalysis(args: string): Promise<LoudnessMeasurement | null> {
+  // loudnorm logs its measurement to stderr
+  const { stderr } = await execAsync(
+    `ffmpeg -hide_banner -nostats ${args} -f null -`,
+    { timeout: 120000, maxBuffer: 16 * 1024 * 1024 }
+  );
+  return parseLoudnormStats(stderr);
+}
+
+/**
+ * Measure the first audio stream of a file
+ */
+export function measureFileLoudness(filePath: string): Promise<LoudnessMeasurement | null> {
+  return runLoudnessAnalysis(`-i "${filePath}" -map 0:a:0 -af loudnorm=print_format=json`);
+}
+
+/**
+ * Measure the audio a filtergraph produces
+ *
+ * @param inputArgs FFmpeg inputs, e.g. `-i "a.mp3" -i "b.mp3"`
+ * @param filter Filtergraph over those inputs
+ * @param outputPad Pad of `filter` holding the audio to measure, e.g. "[mix]"
+ */
+export function measureFilterLoudness(
+  inputArgs: string,
+  filter: string,
+  outputPad: string
+): Promise<LoudnessMeasurement | null> {
+  return runLoudnessAnalysis(
+    `${inputArgs} -filter_complex "${filter};${outputPad}loudnorm=print_format=json[measured]" -map "[measured]"`
+  );
+}
+
+/**
+ * Filter chain that masters audio measured as `measured` to `target`.
+ * Silent audio (null) is left as it is.
+ */
+export function buildMasteringFilter(target: LoudnessTarget, measured: LoudnessMeasurement | null): string {
+  if (!measured) {
+    return `aresample=${OUTPUT_SAMPLE_RATE}`;
+  }
+
+  const loudnorm = [
+    `loudnorm=I=${target.integratedLufs}`,
+    `TP=${target.truePeakDbtp}`,
+    `LRA=${target.loudnessRange}`,
+    `measured_I=${clamp(measured.integratedLufs, -99, 0)}`,
+    `measured_TP=${clamp(measured.truePeakDbtp, -99, 99)}`,
+    `measured_LRA=${clamp(measured.loudnessRange, 0, 99)}`,
+    `measured_thresh=${clamp(measured.threshold, -99, 0)}`,
+    "linear=true",
+  ].join(":");
+
+  // level=0 keeps alimiter from raising the output back up to the ceiling
+  const ceiling = Math.pow(10, target.truePeakDbtp / 20).toFixed(4);
+  const limiter = `aresample=${OVERSAMPLE_RATE},alimiter=limit=${ceiling}:attack=5:release=50:level=0,aresample=${OUTPUT_SAMPLE_RATE}`;
+
+  return `${loudnorm},${limiter}`;
+}
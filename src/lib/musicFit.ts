@@ -0,0 +1,251 @@
+/**
+ * Music Fitting
+ *
+ * Fits a music track to the length of its music clip (by default the whole reel).
+ * Shared by the preview (which seeks the track through the same plan) and the music
+ * ducking route (which renders it with FFmpeg).
+ *
+ * - Longer tracks are cut at the clip's end.
+ * - Shorter tracks loop a phrase of whole bars, a multiple of 4 bars between two
+ *   downbeats (after the intro when the beat grid found one), and then play the track's
+ *   own ending, so the loop sits on the beat and the music still resolves.
+ *
+ * Either way the last seconds fade out, starting on a downbeat where there is one,
+ * unless the clip sets its own fade out. Without a beat grid the whole track loops
+ * and the fade is a fixed length.
+ *
+ * A music track can hold several clips, each fitted to its own duration. Where two
+ * clips overlap they crossfade: the earlier one fades out and the later one fades in
+ * across the overlap.
+ */
+
+import type { MusicBeatGrid, MusicFitPlan } from "@/types/music";
+import type { MusicClip } from "@/types/timeline";
+
+const DEFAULT_FADE_SECONDS = 2;
+const MIN_FADE_SECONDS = 1;
+const MAX_FADE_SECONDS = 4;
+// Generated tracks wind down at the end; loop before that
+const OUTRO_SECONDS = 2;
+const PHRASE_BARS = 4;
+
+function round(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
+
+/**
+ * Loop region in whole bars, or null when the grid has too few bars to loop
+ */
+function findLoop(trackDuration: number, beatGrid: MusicBeatGrid): { loopStart: number; loopEnd: number } | null {
+  const downbeats = beatGrid.downbeats;
+  const endIndex = downbeats.findLastIndex(time => time <= trackDuration - OUTRO_SECONDS);
+  if (endIndex < 1) return null;
+
+  // Start indices whose loop is a whole number of phrases, longest loop first
+  const phraseStarts = downbeats
+    .map((_, index) => index)
+    .filter(index => index < endIndex && (endIndex - index) % PHRASE_BARS === 0);
+
+  // Skip the intro when the track has one
+  const introEnd = beatGrid.sections[1]?.start;
+  const afterIntro = phraseStarts.find(index => introEnd !== undefined && downbeats[index] >= introEnd - 0.05);
+  const startIndex = afterIntro ?? phraseStarts[0] ?? 0;
+
+  return { loopStart: downbeats[startIndex], loopEnd: downbeats[endIndex] };
+}
+
+/**
+ * Where beats of the source track (e.g. its downbeats) land in the fitted output
+ */
+export function getFittedBeatTimes(
+  plan: Pick<MusicFitPlan, "targetDuration" | "loopStart" | "loopEnd" | "loopCount">,
+  times: number[]
+): number[] {
+  const loopLength = plan.loopEnd - plan.loopStart;
+  const head = times.filter(time => time < plan.loopEnd);
+  const loops = Array.from({ length: plan.loopCount }, (_, i) =>
+    times
+      .filter(time => time >= plan.loopStart && time < plan.loopEnd)
+      .map(time => time - plan.loopStart + plan.loopEnd + i * loopLength)
+  ).flat();
+  const tail = times
+    .filter(time => time >= plan.loopEnd)
+    .map(time => time + plan.loopCount * loopLength);
+  return [...head, ...loops, ...tail].filter(time => time <= plan.targetDuration);
+}
+
+/**
+ * @param fadeOutSeconds Fade out length set by the clip; omit for a fade that
+ *   starts on a downbeat
+ */
+export function planMusicFit(
+  trackDuration: number,
+  targetDuration: number,
+  beatGrid?: MusicBeatGrid | null,
+  fadeOutSeconds?: number
+): MusicFitPlan {
+  const grid = beatGrid && beatGrid.bpm > 0 ? beatGrid : null;
+  let loop = { loopStart: 0, loopEnd: trackDuration };
+  let loopCount = 0;
+
+  if (trackDuration > 0 && trackDuration < targetDuration) {
+    loop = (grid && findLoop(trackDuration, grid)) || loop;
+    const loopLength = loop.loopEnd - loop.loopStart;
+    loopCount = Math.ceil((targetDuration - trackDuration) / loopLength);
+  }
+
+  const fadeEnd = targetDuration;
+  const downbeat = grid && fadeOutSeconds === undefined
+    ? getFittedBeatTimes({ targetDuration, ...loop, loopCount }, grid.downbeats)
+        .filter(time => time >= fadeEnd - MAX_FADE_SECONDS && time <= fadeEnd - MIN_FADE_SECONDS)
+        .pop()
+    : undefined;
+  const fadeOutStart = Math.max(0, downbeat ?? fadeEnd - (fadeOutSeconds ?? DEFAULT_FADE_SECONDS));
+
+  return {
+    targetDuration: round(targetDuration),
+    loopStart: round(loop.loopStart),
+    loopEnd: round(loop.loopEnd),
+    loopCount,
+    fadeOutStart: round(fadeOutStart),
+    fadeOutDuration: round(fadeEnd - fadeOutStart),
+  };
+}
+
+/**
+ * Position in the source track that plays at `time` seconds into the fitted output
+ */
+export function getMusicSourceTime(plan: MusicFitPlan, time: number): number {
+  if (time < plan.loopEnd || plan.loopCount === 0) return time;
+
+  const loopLength = plan.loopEnd - plan.loopStart;
+  const intoLoops = time - plan.loopEnd;
+  if (intoLoops < plan.loopCount * loopLength) {
+    return plan.loopStart + (intoLoops % loopLength);
+  }
+  return time - plan.loopCount * loopLength;
+}
+
+/**
+ * Volume (0-1) of a fitted clip `time` seconds into it, from its fade in and fade out
+ */
+export function getMusicFadeGain(plan: MusicFitPlan, fadeIn: number, time: number): number {
+  const fadeInGain = fadeIn > 0 ? Math.min(1, Math.max(0, time / fadeIn)) : 1;
+  const fadeOutGain = plan.fadeOutDuration > 0
+    ? Math.min(1, Math.max(0, 1 - (time - plan.fadeOutStart) / plan.fadeOutDuration))
+    : 1;
+  return fadeInGain * fadeOutGain;
+}
+
+export interface MusicClipFades {
+  fadeIn: number;
+  fadeOut?: number; // undefined = fade out on a downbeat (see planMusicFit)
+}
+
+/**
+ * Fades of each music clip, lengthened to cover any overlap with its neighbours
+ * so overlapping clips crossfade
+ */
+export function getMusicClipFades(clips: MusicClip[]): Record<string, MusicClipFades> {
+  const sorted = [...clips].sort((a, b) => a.startTime - b.startTime);
+  const fades: Record<string, MusicClipFades> = {};
+
+  sorted.forEach((clip, i) => {
+    const prev = sorted[i - 1];
+    const next = sorted[i + 1];
+    const overlapIn = prev ? Math.max(0, prev.startTime + prev.duration - clip.startTime) : 0;
+    const overlapOut = next ? Math.max(0, clip.startTime + clip.duration - next.startTime) : 0;
+
+    const fadeIn = Math.min(clip.duration, Math.max(clip.fadeIn ?? 0, overlapIn));
+    const fadeOut = overlapOut > 0 ? Math.max(clip.fadeOut ?? 0, overlapOut) : clip.fadeOut;
+    fades[clip.id] = {
+      fadeIn,
+      fadeOut: fadeOut === undefined ? undefined : Math.max(0, Math.min(clip.duration - fadeIn, fadeOut)),
+    };
+  });
+
+  return fades;
+}
+
+/**
+ * What a music clip needs to know about its source track
+ */
+export interface MusicTrackInfo {
+  actualDurationSeconds: number;
+  beatGrid?: MusicBeatGrid;
+}
+
+export interface MusicClipPlan {
+  plan: MusicFitPlan;
+  fadeIn: number;
+}
+
+/**
+ * Fit plan and fade in of every music clip whose source track is known, by clip ID
+ */
+export function planMusicClips(
+  clips: MusicClip[],
+  tracks: Record<string, MusicTrackInfo>
+): Record<string, MusicClipPlan> {
+  const fades = getMusicClipFades(clips);
+  const plans: Record<string, MusicClipPlan> = {};
+
+  for (const clip of clips) {
+    const track = tracks[clip.sourceId];
+    if (!track) continue;
+    plans[clip.id] = {
+      plan: planMusicFit(track.actualDurationSeconds, clip.duration, track.beatGrid, fades[clip.id].fadeOut),
+      fadeIn: fades[clip.id].fadeIn,
+    };
+  }
+
+  return plans;
+}
+
+/**
+ * Timeline times of the beats, downbeats or section changes every music clip plays, in order
+ */
+export function getTimelineBeatTimes(
+  clips: MusicClip[],
+  tracks: Record<string, MusicTrackInfo>,
+  kind: "beats" | "downbeats" | "sections"
+): number[] {
+  const plans = planMusicClips(clips, tracks);
+  return clips
+    .flatMap(clip => {
+      const beatGrid = tracks[clip.sourceId]?.beatGrid;
+      if (!beatGrid || !plans[clip.id]) return [];
+      const times = kind === "sections" ? beatGrid.sections.slice(1).map(section => section.start) : beatGrid[kind];
+      return getFittedBeatTimes(plans[clip.id].plan, times).map(time => round(clip.startTime + time));
+    })
+    .sort((a, b) => a - b);
+}
+
+/**
+ * FFmpeg filtergraph that fits `input` (an audio pad like "[0:a]") to the plan
+ * and labels the result `output` (e.g. "[fit0]"; also used to name inner pads)
+ */
+export function buildMusicFitFilter(plan: MusicFitPlan, input: string, output: string): string {
+  const fadeOut = plan.fadeOutDuration > 0 ? `,afade=t=out:st=${plan.fadeOutStart}:d=${plan.fadeOutDuration}` : "";
+  const finish = `atrim=0:${plan.targetDuration},asetpts=PTS-STARTPTS${fadeOut}`;
+
+  if (plan.loopCount === 0) {
+    return `${input}${finish}${output}`;
+  }
+
+  const name = output.replace(/[[\]]/g, "");
+  const segments = [
+    `atrim=0:${plan.loopEnd}`,
+    ...Array.from({ length: plan.loopCount }, () => `atrim=${plan.loopStart}:${plan.loopEnd}`),
+    `atrim=start=${plan.loopEnd}`,
+  ];
+  const splitPads = segments.map((_, i) => `[${name}_in${i}]`).join("");
+  const segmentFilters = segments.map((trim, i) => `[${name}_in${i}]${trim},asetpts=PTS-STARTPTS[${name}_seg${i}]`);
+  const concatPads = segments.map((_, i) => `[${name}_seg${i}]`).join("");
+
+  return [
+    `${input}asplit=${segments.length}${splitPads}`,
+    ...segmentFilters,
+    `${concatPads}concat=n=${segments.length}:v=0:a=1,${finish}${output}`,
+  ].join(";");
+}
@@ -0,0 +1,158 @@
+/**
+ * Narration Alignment
+ *
+ * Works out when each word of a narration script is spoken in its generated audio.
+ *
+ * - Providers that return per-character timestamps (ElevenLabs with-timestamps) are
+ *   exact: characters are grouped into words with charactersToWords
+ * - Otherwise alignWordsToAudio estimates them: FFmpeg silencedetect finds the pauses,
+ *   then the words are spread across the stretches of speech in proportion to their
+ *   length. A word is never split across a pause: it moves to whichever side holds
+ *   most of it. Good enough for captions and display, not for frame-exact cuts.
+ */
+
+import { exec } from "child_process";
+import { promisify } from "util";
+import type { WordTiming } from "@/types/captions";
+import type { CharacterAlignment } from "@/lib/providers/types";
+
+const execAsync = promisify(exec);
+
+// Quieter than this for at least MIN_PAUSE_SECONDS counts as a pause between words
+const SILENCE_THRESHOLD_DB = -35;
+const MIN_PAUSE_SECONDS = 0.15;
+
+interface Interval {
+  start: number;
+  end: number;
+}
+
+export async function probeAudioDuration(audioPath: string): Promise<number> {
+  const { stdout } = await execAsync(
+    `ffprobe -v error -show_entries format=duration -of default=noprint_wrappers=1:nokey=1 "${audioPath}"`
+  );
+  return parseFloat(stdout.trim()) || 0;
+}
+
+/**
+ * Stretches of speech in the audio, i.e. everything between detected silences
+ */
+async function detectSpeech(audioPath: string, duration: number): Promise<Interval[]> {
+  // silencedetect logs to stderr
+  const { stderr } = await execAsync(
+    `ffmpeg -i "${audioPath}" -af silencedetect=noise=${SILENCE_THRESHOLD_DB}dB:d=${MIN_PAUSE_SECONDS} -f null -`,
+    { maxBuffer: 16 * 1024 * 1024 }
+  );
+
+  const speech: Interval[] = [];
+  let speechStart = 0;
+  const events = stderr.matchAll(/silence_(start|end): (-?[\d.]+)/g);
+  for (const [, kind, value] of events) {
+    const time = Math.max(0, Math.min(duration, parseFloat(value)));
+    if (kind === "start") {
+      if (time > speechStart) speech.push({ start: speechStart, end: time });
+    } else {
+      speechStart = time;
+    }
+  }
+  if (speechStart < duration) speech.push({ start: speechStart, end: duration });
+
+  const nonEmpty = speech.filter(interval => interval.end - interval.start > 0.01);
+  return nonEmpty.length > 0 ? nonEmpty : [{ start: 0, end: duration }];
+}
+
+// Longer words take longer to say; trailing punctuation adds a little for the pause
+function wordWeight(word: string): number {
+  const letters = word.replace(/[^\p{L}\p{N}]/gu, "").length;
+  return Math.max(1, letters) + (/[,.;:!?]$/.test(word) ? 1 : 0);
+}
+
+/**
+ * Spread the words of `text` over the speech intervals
+ */
+function distributeWords(text: string, speech: Interval[]): WordTiming[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  const totalSpeech = speech.reduce((sum, interval) => sum + interval.end - interval.start, 0);
+  if (words.length === 0 || totalSpeech <= 0) return [];
+
+  // Map a position in "speech time" (pauses removed) back to audio time
+  const toAudioTime = (speechTime: number): { time: number; interval: number } => {
+    let remaining = speechTime;
+    for (let i = 0; i < speech.length; i++) {
+      const length = speech[i].end - speech[i].start;
+      if (remaining <= length || i === speech.length - 1) {
+        return { time: speech[i].start + Math.min(remaining, length), interval: i };
+      }
+      remaining -= length;
+    }
+    return { time: speech[speech.length - 1].end, interval: speech.length - 1 };
+  };
+
+  const totalWeight = words.reduce((sum, word) => sum + wordWeight(word), 0);
+  let position = 0;
+
+  return words.map(word => {
+    const weight = wordWeight(word);
+    const startSpeech = (position / totalWeight) * totalSpeech;
+    position += weight;
+    const endSpeech = (position / totalWeight) * totalSpeech;
+
+    // Nudge the start just past an interval boundary so it lands in the next interval
+    let start = toAudioTime(startSpeech + 1e-6);
+    let end = toAudioTime(endSpeech);
+
+    if (start.interval !== end.interval) {
+      const before = speech[start.interval].end - start.time;
+      const after = end.time - speech[end.interval].start;
+      if (after >= before) {
+        start = { time: speech[end.interval].start, interval: end.interval };
+      } else {
+        end = { time: speech[start.interval].end, interval: start.interval };
+      }
+    }
+
+    return { text: word, start: round(start.time), end: round(end.time) };
+  });
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Word timings (relative to the start of the audio) for a narration script
+ */
+export async function alignWordsToAudio(
+  text: string,
+  audioPath: string,
+  duration?: number
+): Promise<WordTiming[]> {
+  duration ??= await probeAudioDuration(audioPath);
+  if (duration <= 0) return [];
+
+  const speech = await detectSpeech(audioPath, duration);
+  return distributeWords(text, speech);
+}
+
+/**
+ * Group provider character timings into words (runs of non-whitespace characters)
+ */
+export function charactersToWords(alignment: CharacterAlignment): WordTiming[] {
+  const words: WordTiming[] = [];
+  let current: WordTiming | null = null;
+
+  alignment.characters.forEach((character, i) => {
+    if (/\s/.test(character)) {
+      current = null;
+      return;
+    }
+    if (!current) {
+      current = { text: "", start: alignment.startTimes[i], end: alignment.endTimes[i] };
+      words.push(current);
+    }
+    current.text += character;
+    current.end = alignment.endTimes[i];
+  });
+
+  return words.map(word => ({ ...word, start: round(word.start), end: round(word.end) }));
+}
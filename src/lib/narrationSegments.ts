@@ -0,0 +1,77 @@
+/**
+ * Narration Segments
+ *
+ * Sentence boundaries in narration text, and cutting a segment's generated audio in
+ * two at one of them. The cut uses the audio's word timings, so both halves keep the
+ * original take instead of being generated again.
+ */
+
+import type { NarrationGenerationResponse } from "@/types/narration";
+
+// A word ending in sentence punctuation, possibly before closing quotes or brackets
+const SENTENCE_END = /[.!?]["'”’)\]]*$/;
+
+/**
+ * Words of narration text, split on whitespace like the word timings are
+ */
+export function splitNarrationWords(text: string): string[] {
+  return text.trim().split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Indexes of the words that start a new sentence (never the first word); a segment
+ * can be split before any of them
+ */
+export function getSentenceBoundaries(text: string): number[] {
+  const words = splitNarrationWords(text);
+  const boundaries: number[] = [];
+  words.forEach((word, i) => {
+    if (i < words.length - 1 && SENTENCE_END.test(word)) {
+      boundaries.push(i + 1);
+    }
+  });
+  return boundaries;
+}
+
+/**
+ * Cut generated narration before word `wordIndex`, halfway through the pause between
+ * the two words. Both halves point at the same audio file, the second starting
+ * partway in (see NarrationGenerationResponse.audioStartSeconds).
+ *
+ * Returns null when the word timings don't match the text, e.g. when there are none
+ * or the text was edited after the audio was generated; the halves then need new audio.
+ */
+export function splitNarrationAudio(
+  audio: NarrationGenerationResponse,
+  wordIndex: number,
+  firstId: string,
+  secondId: string
+): [NarrationGenerationResponse, NarrationGenerationResponse] | null {
+  const words = audio.words;
+  const textWords = splitNarrationWords(audio.text);
+  if (!words || words.length !== textWords.length || wordIndex <= 0 || wordIndex >= words.length) {
+    return null;
+  }
+
+  const cut = Math.round(((words[wordIndex - 1].end + words[wordIndex].start) / 2) * 1000) / 1000;
+  const audioStart = audio.audioStartSeconds ?? 0;
+
+  return [
+    {
+      ...audio,
+      narrationId: firstId,
+      text: textWords.slice(0, wordIndex).join(" "),
+      audioStartSeconds: audioStart,
+      durationSeconds: cut,
+      words: words.slice(0, wordIndex),
+    },
+    {
+      ...audio,
+      narrationId: secondId,
+      text: textWords.slice(wordIndex).join(" "),
+      audioStartSeconds: audioStart + cut,
+      durationSeconds: Math.max(0, audio.durationSeconds - cut),
+      words: words.slice(wordIndex).map(word => ({ ...word, start: word.start - cut, end: word.end - cut })),
+    },
+  ];
+}
@@ -0,0 +1,50 @@
+/**
+ * Output Format Settings
+ *
+ * Frame sizes and prompt wording for each supported aspect ratio. Shared by the
+ * client (settings UI, preview) and the server (prompts, Veo, stitching).
+ */
+
+import type { AspectRatio, OutputFormat } from "@/types/output-format";
+import { isOwnKey } from "@/lib/utils";
+
+interface AspectRatioConfig {
+  label: string;
+  width: number; // export frame size in pixels
+  height: number;
+  orientation: string; // prompt wording, e.g. "landscape orientation (16:9 aspect ratio)"
+  veoAspectRatio: "16:9" | "9:16"; // Veo has no square output; 1:1 is center-cropped from 16:9
+}
+
+export const ASPECT_RATIOS: Record<AspectRatio, AspectRatioConfig> = {
+  "16:9": {
+    label: "16:9 Landscape",
+    width: 1920,
+    height: 1080,
+    orientation: "landscape orientation (16:9 aspect ratio)",
+    veoAspectRatio: "16:9",
+  },
+  "9:16": {
+    label: "9:16 Vertical",
+    width: 1080,
+    height: 1920,
+    orientation: "vertical portrait orientation (9:16 aspect ratio) for mobile social feeds",
+    veoAspectRatio: "9:16",
+  },
+  "1:1": {
+    label: "1:1 Square",
+    width: 1080,
+    height: 1080,
+    orientation: "square framing (1:1 aspect ratio) with the subject centered so it survives a square crop",
+    veoAspectRatio: "16:9",
+  },
+};
+
+export const DEFAULT_OUTPUT_FORMAT: OutputFormat = {
+  aspectRatio: "16:9",
+  uiReframe: "smart",
+};
+
+export function isAspectRatio(value: unknown): value is AspectRatio {
+  return isOwnKey(ASPECT_RATIOS, value);
+}
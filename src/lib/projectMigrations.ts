@@ -0,0 +1,247 @@
+/**
+ * Project File Migrations
+ *
+ * Upgrades project manifests written by older versions of the app to the current
+ * PROJECT_SCHEMA_VERSION. Each migration takes a manifest at version N and returns
+ * it at version N + 1, so files are upgraded step by step on load.
+ *
+ * When changing ProjectState or the Timeline types:
+ * 1. Bump PROJECT_SCHEMA_VERSION in types/project.ts
+ * 2. Add an entry to MIGRATIONS keyed by the version being migrated FROM
+ */
+
+import { PROJECT_SCHEMA_VERSION, type ProjectManifest } from "@/types/project";
+import { getAssetUrl } from "@/lib/assets";
+import { DEFAULT_BRAND_PROFILE_ID } from "@/lib/brandStore";
+import { DEFAULT_PACING } from "@/lib/storyboardPacing";
+import { DEFAULT_CAPTION_STYLE } from "@/lib/captions";
+import { DEFAULT_NARRATION_VOICE } from "@/lib/voices";
+import { DEFAULT_LOUDNESS_PRESET } from "@/lib/loudness";
+
+// Older manifests don't match the current types, so migrations work on plain JSON
+type RawManifest = Record<string, unknown> & { schemaVersion: number };
+type Migration = (manifest: RawManifest) => RawManifest;
+
+type RawObject = Record<string, unknown>;
+
+const V1_ASSET_REF_PATTERN = /^sizzle-asset:\/\/assets\/([a-f0-9]{64})\.\w+$/;
+
+/**
+ * v1 bundles named asset files by the SHA-256 of their contents, which is exactly
+ * the asset store's ID, so a v1 reference converts to an asset ID without reading the file
+ */
+function v1RefToAssetId(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  return value.match(V1_ASSET_REF_PATTERN)?.[1] ?? null;
+}
+
+function mapRecord(value: unknown, mapItem: (item: RawObject) => RawObject): RawObject {
+  const result: RawObject = {};
+  for (const [key, item] of Object.entries((value as RawObject) || {})) {
+    result[key] = mapItem(item as RawObject);
+  }
+  return result;
+}
+
+// Replace an inline v1 `<urlKey>` reference with `<idKey>` plus a served URL
+function withAssetId(item: RawObject, urlKey: string, idKey: string): RawObject {
+  const assetId = v1RefToAssetId(item[urlKey]);
+  if (!assetId) return item;
+  return { ...item, [idKey]: assetId, [urlKey]: getAssetUrl(assetId) };
+}
+
+const MIGRATIONS: Record<number, Migration> = {
+  // v1 -> v2: inline data URLs were replaced by content-addressed asset IDs
+  1: (manifest) => {
+    const state = manifest.state as RawObject;
+    const { baseImage, ...rest } = state;
+
+    const migratedState: RawObject = {
+      ...rest,
+      baseImageAssetId: v1RefToAssetId(baseImage),
+      generatedImages: mapRecord(state.generatedImages, item =>
+        withAssetId(item, "imageUrl", "imageAssetId")
+      ),
+      generatedVideos: mapRecord(state.generatedVideos, item =>
+        withAssetId(item, "videoUrl", "videoAssetId")
+      ),
+      generatedNarration: mapRecord(state.generatedNarration, item =>
+        withAssetId(item, "audioUrl", "audioAssetId")
+      ),
+      generatedMusic: state.generatedMusic
+        ? withAssetId(state.generatedMusic as RawObject, "audioUrl", "audioAssetId")
+        : null,
+      videoFiles: ((state.videoFiles as RawObject[]) || []).map(video => {
+        const { originalData, compressedData, ...videoRest } = video;
+        const originalAssetId = v1RefToAssetId(originalData);
+        return {
+          ...videoRest,
+          originalAssetId,
+          compressedAssetId: v1RefToAssetId(compressedData) ?? originalAssetId,
+        };
+      }),
+    };
+
+    const assets = ((manifest.assets as RawObject[]) || []).map(entry => ({
+      ...entry,
+      assetId: String(entry.file).match(/([a-f0-9]{64})\.\w+$/)?.[1],
+    }));
+
+    return { ...manifest, assets, state: migratedState };
+  },
+
+  // v2 -> v3: projects reference a brand profile; older projects were all generated
+  // with the hard-coded Free World context, which is now the seeded default profile
+  2: (manifest) => ({
+    ...manifest,
+    state: { ...(manifest.state as RawObject), brandProfileId: DEFAULT_BRAND_PROFILE_ID },
+  }),
+
+  // v3 -> v4: storyboards can target a duration and pacing; older projects let the model pick
+  3: (manifest) => ({
+    ...manifest,
+    state: { ...(manifest.state as RawObject), targetDuration: null, pacing: DEFAULT_PACING },
+  }),
+
+  // v4 -> v5: projects have an output format; older projects were always exported
+  // 16:9 with UI recordings letterboxed
+  4: (manifest) => ({
+    ...manifest,
+    state: {
+      ...(manifest.state as RawObject),
+      outputFormat: { aspectRatio: "16:9", uiReframe: "letterbox" },
+    },
+  }),
+
+  // v5 -> v6: projects have a caption style for burned-in captions
+  5: (manifest) => ({
+    ...manifest,
+    state: { ...(manifest.state as RawObject), captionStyle: DEFAULT_CAPTION_STYLE },
+  }),
+
+  // v6 -> v7: projects have a default narration voice; older projects were always
+  // narrated by Rachel with fixed settings
+  6: (manifest) => ({
+    ...manifest,
+    state: { ...(manifest.state as RawObject), narrationVoice: DEFAULT_NARRATION_VOICE },
+  }),
+
+  // v7 -> v8: projects have a pronunciation lexicon, empty for older projects
+  7: (manifest) => ({
+    ...manifest,
+    state: { ...(manifest.state as RawObject), pronunciationLexicon: [] },
+  }),
+
+  // v8 -> v9: projects can hold localized versions of the reel; older projects have none
+  8: (manifest) => ({
+    ...manifest,
+    state: { ...(manifest.state as RawObject), localizations: {} },
+  }),
+
+  // v9 -> v10: projects keep every generated or imported music track as a candidate;
+  // older projects only had the music in use
+  9: (manifest) => {
+    const state = manifest.state as RawObject;
+    return {
+      ...manifest,
+      state: { ...state, musicCandidates: state.generatedMusic ? [state.generatedMusic] : [] },
+    };
+  },
+
+  // v10 -> v11: music clips name their track by asset ID; older timelines had a single
+  // 'background-music' clip playing the music in use
+  10: (manifest) => {
+    const state = manifest.state as RawObject;
+    const musicAssetId = (state.generatedMusic as RawObject | null)?.audioAssetId ?? "";
+    const migrateTimeline = (timeline: unknown) => {
+      if (!timeline) return timeline;
+      const raw = timeline as RawObject;
+      return {
+        ...raw,
+        tracks: (raw.tracks as RawObject[]).map(track => ({
+          ...track,
+          clips: (track.clips as RawObject[]).map(clip =>
+            clip.audioType === "music" && clip.sourceId === "background-music"
+              ? { ...clip, sourceId: musicAssetId }
+              : clip
+          ),
+        })),
+      };
+    };
+
+    return {
+      ...manifest,
+      state: {
+        ...state,
+        timeline: migrateTimeline(state.timeline),
+        localizations: mapRecord(state.localizations, localization => ({
+          ...localization,
+          timeline: migrateTimeline(localization.timeline),
+        })),
+      },
+    };
+  },
+
+  // v11 -> v12: projects have a sound effect library, empty for older projects
+  11: (manifest) => ({
+    ...manifest,
+    state: { ...(manifest.state as RawObject), soundEffects: [] },
+  }),
+
+  // v12 -> v13: exports are mastered to a loudness preset; older projects get the default
+  12: (manifest) => ({
+    ...manifest,
+    state: { ...(manifest.state as RawObject), loudnessPreset: DEFAULT_LOUDNESS_PRESET },
+  }),
+
+  // v13 -> v14: localized versions keep only their translations instead of a copy of
+  // the timeline; every text clip in the copy held its translated text
+  13: (manifest) => {
+    const state = manifest.state as RawObject;
+    return {
+      ...manifest,
+      state: {
+        ...state,
+        localizations: mapRecord(state.localizations, ({ timeline, ...localization }) => {
+          delete localization.warnings;
+          const clips = ((timeline as RawObject).tracks as RawObject[]).flatMap(track => track.clips as RawObject[]);
+          return {
+            ...localization,
+            textOverlays: Object.fromEntries(
+              clips.filter(clip => clip.type === "text").map(clip => [clip.id, clip.text])
+            ),
+          };
+        }),
+      },
+    };
+  },
+};
+
+export function migrateProjectManifest(raw: unknown): ProjectManifest {
+  if (!raw || typeof raw !== "object") {
+    throw new Error("Project manifest is not a JSON object");
+  }
+
+  let manifest = raw as RawManifest;
+  if (typeof manifest.schemaVersion !== "number") {
+    throw new Error("Project manifest is missing schemaVersion");
+  }
+
+  if (manifest.schemaVersion > PROJECT_SCHEMA_VERSION) {
+    throw new Error(
+      `Project was saved by a newer version of the app (schema v${manifest.schemaVersion}, this app supports up to v${PROJECT_SCHEMA_VERSION})`
+    );
+  }
+
+  while (manifest.schemaVersion < PROJECT_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[manifest.schemaVersion];
+    if (!migrate) {
+      throw new Error(`No migration available from project schema v${manifest.schemaVersion}`);
+    }
+    const fromVersion = manifest.schemaVersion;
+    manifest = migrate(manifest);
+    manifest.schemaVersion = fromVersion + 1;
+  }
+
+  return manifest as unknown as ProjectManifest;
+}
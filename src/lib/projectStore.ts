@@ -0,0 +1,189 @@
+/**
+ * Project Store
+ *
+ * Saves and loads project bundles on the server's local disk:
+ *
+ *   <data dir>/projects/<projectId>/
+ *     project.json          - versioned manifest (see types/project.ts)
+ *     assets/<assetId>.ext  - copies of every asset referenced by the manifest
+ *
+ * Project state only holds asset IDs. Saving copies the referenced assets out of the
+ * asset store into the bundle; loading imports any bundle assets the store is missing,
+ * so bundles stay self-contained when moved between machines.
+ */
+
+import { mkdir, readFile, readdir, rename, unlink, writeFile } from "fs/promises";
+import { existsSync } from "fs";
+import path from "path";
+import { getDataDir, isSafeId } from "@/lib/dataDir";
+import { migrateProjectManifest } from "@/lib/projectMigrations";
+import {
+  assetExists,
+  exportAsset,
+  getAssetExtension,
+  getAssetRecord,
+  isAssetId,
+  putAssetFile,
+} from "@/lib/assetStore";
+import {
+  PROJECT_SCHEMA_VERSION,
+  type LoadProjectResponse,
+  type ProjectAssetEntry,
+  type ProjectManifest,
+  type ProjectState,
+  type ProjectSummary,
+  type SaveProjectResponse,
+} from "@/types/project";
+
+const MANIFEST_FILENAME = "project.json";
+const ASSETS_DIRNAME = "assets";
+const ASSET_ID_KEY_PATTERN = /assetIds?$/i;
+
+function getProjectDir(projectId: string): string {
+  if (!isSafeId(projectId)) {
+    throw new Error(`Invalid project ID: ${projectId}`);
+  }
+  return getDataDir("projects", projectId);
+}
+
+export function projectExists(projectId: string): boolean {
+  return isSafeId(projectId) && existsSync(path.join(getProjectDir(projectId), MANIFEST_FILENAME));
+}
+
+/**
+ * Recursively collect every asset ID referenced by the state
+ * (any `...AssetId` string or `...AssetIds` array field)
+ */
+function collectAssetIds(value: unknown, assetIds: Set<string>, key = ""): void {
+  if (typeof value === "string") {
+    if (ASSET_ID_KEY_PATTERN.test(key) && isAssetId(value)) {
+      assetIds.add(value);
+    }
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      collectAssetIds(item, assetIds, key);
+    }
+    return;
+  }
+
+  if (value && typeof value === "object") {
+    for (const [childKey, item] of Object.entries(value)) {
+      collectAssetIds(item, assetIds, childKey);
+    }
+  }
+}
+
+async function readManifest(projectId: string): Promise<ProjectManifest> {
+  const manifestPath = path.join(getProjectDir(projectId), MANIFEST_FILENAME);
+  const raw = JSON.parse(await readFile(manifestPath, "utf-8"));
+  return migrateProjectManifest(raw);
+}
+
+export async function saveProject(
+  projectId: string | undefined,
+  name: string,
+  state: ProjectState
+): Promise<SaveProjectResponse> {
+  const id = projectId || `project-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  const projectDir = getProjectDir(id);
+  const assetsDir = path.join(projectDir, ASSETS_DIRNAME);
+  await mkdir(assetsDir, { recursive: true });
+
+  const now = new Date().toISOString();
+  const createdAt = projectExists(id) ? (await readManifest(id)).createdAt : now;
+
+  const assetIds = new Set<string>();
+  collectAssetIds(state, assetIds);
+
+  const assets = new Map<string, ProjectAssetEntry>();
+  for (const assetId of assetIds) {
+    const record = await getAssetRecord(assetId);
+    const file = `${ASSETS_DIRNAME}/${assetId}.${getAssetExtension(record.mimeType)}`;
+    const assetPath = path.join(projectDir, file);
+    if (!existsSync(assetPath)) {
+      await exportAsset(assetId, assetPath);
+    }
+    assets.set(file, { assetId, file, mimeType: record.mimeType, size: record.size });
+  }
+
+  const manifest: ProjectManifest = {
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    projectId: id,
+    name,
+    createdAt,
+    updatedAt: now,
+    assets: Array.from(assets.values()),
+    state,
+  };
+
+  // Write to a temp file and rename so a crash mid-save never leaves a truncated manifest
+  const manifestPath = path.join(projectDir, MANIFEST_FILENAME);
+  const tempManifestPath = `${manifestPath}.tmp`;
+  await writeFile(tempManifestPath, JSON.stringify(manifest, null, 2));
+  await rename(tempManifestPath, manifestPath);
+
+  // Remove assets that are no longer referenced (e.g. regenerated stills)
+  for (const filename of await readdir(assetsDir)) {
+    if (!assets.has(`${ASSETS_DIRNAME}/${filename}`)) {
+      await unlink(path.join(assetsDir, filename));
+    }
+  }
+
+  return {
+    projectId: id,
+    name,
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    assetCount: assets.size,
+    updatedAt: now,
+  };
+}
+
+export async function loadProject(projectId: string): Promise<LoadProjectResponse> {
+  const manifest = await readManifest(projectId);
+  const projectDir = getProjectDir(projectId);
+
+  // Re-import bundle assets the local store doesn't have (e.g. a bundle copied from elsewhere)
+  for (const entry of manifest.assets) {
+    if (!assetExists(entry.assetId)) {
+      await putAssetFile(path.join(projectDir, entry.file), entry.mimeType);
+    }
+  }
+
+  return {
+    projectId: manifest.projectId,
+    name: manifest.name,
+    schemaVersion: manifest.schemaVersion,
+    createdAt: manifest.createdAt,
+    updatedAt: manifest.updatedAt,
+    state: manifest.state,
+  };
+}
+
+export async function listProjects(): Promise<ProjectSummary[]> {
+  const projectsDir = getDataDir("projects");
+  if (!existsSync(projectsDir)) {
+    return [];
+  }
+
+  const summaries: ProjectSummary[] = [];
+  for (const projectId of await readdir(projectsDir)) {
+    if (!projectExists(projectId)) continue;
+
+    try {
+      const manifest = await readManifest(projectId);
+      summaries.push({
+        projectId: manifest.projectId,
+        name: manifest.name,
+        schemaVersion: manifest.schemaVersion,
+        updatedAt: manifest.updatedAt,
+      });
+    } catch (error) {
+      console.error(`Skipping unreadable project ${projectId}:`, error);
+    }
+  }
+
+  return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
@@ -0,0 +1,146 @@
+/**
+ * Pronunciation Lexicon
+ *
+ * Rewrites narration text with the project's pronunciation rules before it is sent to
+ * the speech provider, and maps the provider's character timings back onto the original
+ * script so captions and word timings show the real product names, not their aliases.
+ */
+
+import type { CharacterAlignment } from "@/lib/providers/types";
+import type { PronunciationEntry, PronunciationType } from "@/types/pronunciation";
+
+// ElevenLabs only honors <phoneme> tags on these models; turbo v2.5 reads them as text
+export const PHONEME_SPEECH_MODEL = "eleven_turbo_v2";
+
+export const PRONUNCIATION_TYPE_LABELS: Record<PronunciationType, string> = {
+  alias: "Sounds like",
+  phoneme: "IPA",
+};
+
+/**
+ * A replaced stretch of text: [sourceStart, sourceEnd) in the script became
+ * [spokenStart, spokenEnd) in the text sent to the provider
+ */
+export interface PronunciationSpan {
+  sourceStart: number;
+  sourceEnd: number;
+  spokenStart: number;
+  spokenEnd: number;
+}
+
+export interface AppliedPronunciations {
+  text: string; // what the provider is sent
+  spans: PronunciationSpan[];
+  usesPhonemes: boolean;
+}
+
+export function createPronunciationEntry(): PronunciationEntry {
+  return { id: `pron-${Date.now()}`, term: "", type: "alias", value: "" };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function escapeAttribute(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function renderEntry(entry: PronunciationEntry, matched: string): string {
+  return entry.type === "phoneme"
+    ? `<phoneme alphabet="ipa" ph="${escapeAttribute(entry.value.trim())}">${matched}</phoneme>`
+    : entry.value.trim();
+}
+
+/**
+ * Replace every whole-word occurrence of a lexicon term. Longer terms win, so
+ * "Free World Pay" is matched before "Free World".
+ */
+export function applyPronunciations(text: string, entries: PronunciationEntry[] = []): AppliedPronunciations {
+  const usable = entries
+    .filter(entry => entry.term.trim() && entry.value.trim())
+    .sort((a, b) => b.term.trim().length - a.term.trim().length);
+
+  if (usable.length === 0) {
+    return { text, spans: [], usesPhonemes: false };
+  }
+
+  const byTerm = new Map(usable.map(entry => [entry.term.trim().toLowerCase(), entry]));
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])(${usable.map(entry => escapeRegExp(entry.term.trim())).join("|")})(?![\\p{L}\\p{N}])`,
+    "giu"
+  );
+
+  const spans: PronunciationSpan[] = [];
+  let spoken = "";
+  let lastIndex = 0;
+  let usesPhonemes = false;
+
+  for (const match of text.matchAll(pattern)) {
+    const entry = byTerm.get(match[0].toLowerCase());
+    if (!entry || match.index === undefined) continue;
+
+    spoken += text.slice(lastIndex, match.index);
+    const replacement = renderEntry(entry, match[0]);
+    spans.push({
+      sourceStart: match.index,
+      sourceEnd: match.index + match[0].length,
+      spokenStart: spoken.length,
+      spokenEnd: spoken.length + replacement.length,
+    });
+    spoken += replacement;
+    lastIndex = match.index + match[0].length;
+    usesPhonemes = usesPhonemes || entry.type === "phoneme";
+  }
+
+  spoken += text.slice(lastIndex);
+  return { text: spoken, spans, usesPhonemes };
+}
+
+/**
+ * Convert timings for the spoken text back to the script. Characters outside replaced
+ * spans keep their own timings; a replaced term is spread evenly over the time its
+ * replacement took. Returns null when the alignment doesn't cover the spoken text
+ * character for character (e.g. the provider dropped SSML tags), so callers can fall
+ * back to estimating the timings.
+ */
+export function restoreSourceAlignment(
+  alignment: CharacterAlignment,
+  sourceText: string,
+  applied: AppliedPronunciations
+): CharacterAlignment | null {
+  if (applied.spans.length === 0) return alignment;
+  if (alignment.characters.length !== applied.text.length) return null;
+
+  const characters: string[] = [];
+  const startTimes: number[] = [];
+  const endTimes: number[] = [];
+  let offset = 0; // spoken index minus source index outside spans
+  let spanIndex = 0;
+
+  for (let i = 0; i < sourceText.length; i++) {
+    const span = applied.spans[spanIndex];
+
+    if (span && i >= span.sourceStart && i < span.sourceEnd) {
+      const spanStart = alignment.startTimes[span.spokenStart];
+      const spanEnd = alignment.endTimes[span.spokenEnd - 1];
+      const length = span.sourceEnd - span.sourceStart;
+      const position = i - span.sourceStart;
+      characters.push(sourceText[i]);
+      startTimes.push(spanStart + ((spanEnd - spanStart) * position) / length);
+      endTimes.push(spanStart + ((spanEnd - spanStart) * (position + 1)) / length);
+
+      if (i === span.sourceEnd - 1) {
+        offset += (span.spokenEnd - span.spokenStart) - length;
+        spanIndex++;
+      }
+      continue;
+    }
+
+    characters.push(sourceText[i]);
+    startTimes.push(alignment.startTimes[i + offset]);
+    endTimes.push(alignment.endTimes[i + offset]);
+  }
+
+  return { characters, startTimes, endTimes };
+}
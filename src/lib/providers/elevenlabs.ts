@@ -0,0 +1,172 @@
+/**
+ * ElevenLabs Providers
+ *
+ * Text-to-speech for narration, the Music API for background music and the sound
+ * effects API for SFX and ambient beds.
+ * Narration uses the with-timestamps endpoint, which returns the audio as base64
+ * together with per-character timings. Voices come from the account's voice library.
+ */
+
+import { ProviderError, type MusicProvider, type SoundEffectProvider, type SpeechProvider } from "@/lib/providers/types";
+
+const ELEVENLABS_TTS_API_URL = "https://api.elevenlabs.io/v1/text-to-speech";
+const ELEVENLABS_MUSIC_API_URL = "https://api.elevenlabs.io/v1/music";
+const ELEVENLABS_VOICES_API_URL = "https://api.elevenlabs.io/v1/voices";
+const ELEVENLABS_SOUND_EFFECTS_API_URL = "https://api.elevenlabs.io/v1/sound-generation";
+// v2 is the sound effects model that supports seamless loops
+const ELEVENLABS_SOUND_EFFECTS_MODEL_ID = "eleven_text_to_sound_v2";
+
+interface ElevenLabsVoice {
+  voice_id: string;
+  name: string;
+  category?: string;
+  description?: string | null;
+  preview_url?: string | null;
+  labels?: Record<string, string>;
+}
+
+function getApiKey(): string {
+  const apiKey = process.env.ELEVENLABS_API_KEY;
+  if (!apiKey) {
+    throw new ProviderError("ElevenLabs API key not configured");
+  }
+  return apiKey;
+}
+
+async function throwApiError(response: Response, message: string): Promise<never> {
+  const errorText = await response.text();
+  console.error("ElevenLabs API error:", errorText);
+  throw new ProviderError(message, response.status, errorText);
+}
+
+export function createElevenLabsSpeechProvider(): SpeechProvider {
+  const apiKey = getApiKey();
+
+  return {
+    async generateSpeech(text, { voiceId, modelId, settings, languageCode }) {
+      const response = await fetch(`${ELEVENLABS_TTS_API_URL}/${voiceId}/with-timestamps`, {
+        method: "POST",
+        headers: {
+          "Accept": "application/json",
+          "Content-Type": "application/json",
+          "xi-api-key": apiKey,
+        },
+        body: JSON.stringify({
+          text,
+          model_id: modelId,
+          ...(languageCode && { language_code: languageCode }),
+          voice_settings: {
+            stability: settings.stability,
+            similarity_boost: settings.similarityBoost,
+            style: settings.style,
+            speed: settings.speed,
+            use_speaker_boost: true,
+          },
+        }),
+      });
+
+      if (!response.ok) {
+        await throwApiError(response, "Failed to generate audio");
+      }
+
+      const data = await response.json();
+      if (!data.audio_base64) {
+        throw new ProviderError("No audio generated by ElevenLabs");
+      }
+
+      return {
+        audio: Buffer.from(data.audio_base64, "base64"),
+        alignment: data.alignment
+          ? {
+              characters: data.alignment.characters,
+              startTimes: data.alignment.character_start_times_seconds,
+              endTimes: data.alignment.character_end_times_seconds,
+            }
+          : undefined,
+      };
+    },
+
+    async listVoices() {
+      const response = await fetch(ELEVENLABS_VOICES_API_URL, {
+        headers: { "xi-api-key": apiKey },
+      });
+
+      if (!response.ok) {
+        await throwApiError(response, "Failed to list voices");
+      }
+
+      const data: { voices?: ElevenLabsVoice[] } = await response.json();
+      return (data.voices || [])
+        .map(voice => ({
+          voiceId: voice.voice_id,
+          name: voice.name,
+          category: voice.category,
+          // Labels (accent, age, use case) describe premade voices better than their description
+          description: voice.labels && Object.keys(voice.labels).length > 0
+            ? Object.values(voice.labels).join(", ")
+            : voice.description || undefined,
+          previewUrl: voice.preview_url || undefined,
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+    },
+  };
+}
+
+export function createElevenLabsMusicProvider(): MusicProvider {
+  const apiKey = getApiKey();
+
+  return {
+    async generateMusic(prompt, durationMs, modelId) {
+      const response = await fetch(ELEVENLABS_MUSIC_API_URL, {
+        method: "POST",
+        headers: {
+          "Accept": "application/octet-stream",
+          "Content-Type": "application/json",
+          "xi-api-key": apiKey,
+        },
+        body: JSON.stringify({
+          prompt,
+          music_length_ms: durationMs,
+          model_id: modelId,
+          force_instrumental: true,
+        }),
+      });
+
+      if (!response.ok) {
+        await throwApiError(response, "Failed to generate music");
+      }
+
+      return Buffer.from(await response.arrayBuffer());
+    },
+  };
+}
+
+export function createElevenLabsSoundEffectProvider(): SoundEffectProvider {
+  const apiKey = getApiKey();
+
+  return {
+    async generateSoundEffect(prompt, { durationSeconds, promptInfluence, loop }) {
+      const response = await fetch(ELEVENLABS_SOUND_EFFECTS_API_URL, {
+        method: "POST",
+        headers: {
+          "Accept": "audio/mpeg",
+          "Content-Type": "application/json",
+          "xi-api-key": apiKey,
+        },
+        body: JSON.stringify({
+          text: prompt,
+          model_id: ELEVENLABS_SOUND_EFFECTS_MODEL_ID,
+          ...(durationSeconds !== undefined && { duration_seconds: durationSeconds }),
+          prompt_influence: promptInfluence,
+          loop,
+        }),
+      });
+
+      if (!response.ok) {
+        await throwApiError(response, "Failed to generate sound effect");
+      }
+
+      return Buffer.from(await response.arrayBuffer());
+    },
+  };
+}
@@ -0,0 +1,208 @@
+/**
+ * Google Providers
+ *
+ * Gemini for storyboards, translation, video analysis and still images; Veo for image-to-video.
+ */
+
+import { GoogleGenAI, GenerateVideosOperation, type GenerateContentResponse } from "@google/genai";
+import {
+  ProviderError,
+  type ImageToVideoProvider,
+  type StillImageProvider,
+  type StoryboardProvider,
+  type TranslationProvider,
+  type VideoAnalysisProvider,
+} from "@/lib/providers/types";
+import { ASPECT_RATIOS } from "@/lib/outputFormat";
+
+const GEMINI_TEXT_MODEL = "gemini-2.5-flash";
+const GEMINI_IMAGE_MODEL = "gemini-2.5-flash-image-preview";
+const DEFAULT_IMAGE_MIME_TYPE = "image/png";
+
+const VEO_MODELS = {
+  'veo-2': 'veo-2.0-generate-001',
+  'veo-3': 'veo-3.0-generate-001',
+} as const;
+
+function getApiKey(): string {
+  const apiKey = process.env.GOOGLE_AI_API_KEY;
+  if (!apiKey) {
+    throw new ProviderError("Google AI API key not configured");
+  }
+  return apiKey;
+}
+
+function createClient(): GoogleGenAI {
+  return new GoogleGenAI({ apiKey: getApiKey() });
+}
+
+/**
+ * Ask Gemini for JSON matching the schema (structured output mode)
+ */
+function jsonConfig(responseSchema?: object) {
+  return responseSchema
+    ? { responseMimeType: "application/json", responseJsonSchema: responseSchema }
+    : undefined;
+}
+
+function getResponseText(response: GenerateContentResponse): string {
+  const text = response.candidates?.[0]?.content?.parts?.[0]?.text;
+  if (!text) {
+    throw new ProviderError("No response generated from Gemini");
+  }
+  return text;
+}
+
+export function createGeminiStoryboardProvider(): StoryboardProvider {
+  const genAI = createClient();
+
+  return {
+    async generateStoryboard(prompt, _request, responseSchema) {
+      const response = await genAI.models.generateContent({
+        model: GEMINI_TEXT_MODEL,
+        contents: [{ text: prompt }],
+        config: jsonConfig(responseSchema),
+      });
+      return getResponseText(response);
+    },
+  };
+}
+
+export function createGeminiTranslationProvider(): TranslationProvider {
+  const genAI = createClient();
+
+  return {
+    async translate(prompt, _request, responseSchema) {
+      const response = await genAI.models.generateContent({
+        model: GEMINI_TEXT_MODEL,
+        contents: [{ text: prompt }],
+        config: jsonConfig(responseSchema),
+      });
+      return getResponseText(response);
+    },
+  };
+}
+
+export function createGeminiVideoAnalysisProvider(): VideoAnalysisProvider {
+  const genAI = createClient();
+
+  return {
+    async analyzeVideo(prompt, video, responseSchema) {
+      const response = await genAI.models.generateContent({
+        model: GEMINI_TEXT_MODEL,
+        contents: [
+          { text: prompt },
+          {
+            inlineData: {
+              mimeType: video.mimeType,
+              data: video.data.toString('base64'),
+            },
+          },
+        ],
+        config: jsonConfig(responseSchema),
+      });
+      return getResponseText(response);
+    },
+  };
+}
+
+export function createGeminiStillImageProvider(): StillImageProvider {
+  const genAI = createClient();
+
+  return {
+    async generateStill(prompt, referenceImages) {
+      const response = await genAI.models.generateContent({
+        model: GEMINI_IMAGE_MODEL,
+        contents: [
+          { text: prompt },
+          ...referenceImages.map(image => ({
+            inlineData: {
+              mimeType: image.mimeType,
+              data: image.data.toString('base64'),
+            },
+          })),
+        ],
+      });
+
+      // Return the first part that contains image data
+      for (const part of response.candidates?.[0]?.content?.parts || []) {
+        if (part.inlineData?.data) {
+          return {
+            data: Buffer.from(part.inlineData.data, 'base64'),
+            mimeType: part.inlineData.mimeType || DEFAULT_IMAGE_MIME_TYPE,
+          };
+        }
+      }
+
+      throw new ProviderError("No image generated in Gemini response");
+    },
+  };
+}
+
+export function createVeoProvider(): ImageToVideoProvider {
+  const apiKey = getApiKey();
+  const genAI = new GoogleGenAI({ apiKey });
+
+  return {
+    pollIntervalMs: 20000, // Poll every 20 seconds
+
+    async startGeneration(request, image) {
+      // Select model (default to veo-3)
+      const modelId = VEO_MODELS[request.model || 'veo-3'];
+
+      const operation = await genAI.models.generateVideos({
+        model: modelId,
+        prompt: request.prompt,
+        image: {
+          imageBytes: image.data.toString('base64'),
+          mimeType: image.mimeType as 'image/png' | 'image/jpeg',
+        },
+        config: {
+          personGeneration: 'allow_adult',
+          aspectRatio: ASPECT_RATIOS[request.aspectRatio || '16:9'].veoAspectRatio,
+        },
+      });
+
+      if (!operation?.name) {
+        throw new ProviderError("Failed to start video generation operation");
+      }
+
+      return operation.name;
+    },
+
+    async getOperation(operationName) {
+      // Rebuild the operation from its name so polling can resume after a restart
+      const operation = new GenerateVideosOperation();
+      operation.name = operationName;
+      const current = await genAI.operations.getVideosOperation({ operation });
+
+      if (!current.done) {
+        return { done: false };
+      }
+
+      if (current.error) {
+        return { done: true, error: String(current.error.message || JSON.stringify(current.error)) };
+      }
+
+      const videoUri = current.response?.generatedVideos?.[0]?.video?.uri;
+      if (!videoUri) {
+        return { done: true, error: "No video generated" };
+      }
+
+      return { done: true, videoUri };
+    },
+
+    async downloadVideo(videoUri) {
+      // Fetch the video data directly from the URI with API key authentication
+      const videoResponse = await fetch(videoUri, {
+        headers: {
+          'x-goog-api-key': apiKey,
+        },
+      });
+      if (!videoResponse.ok) {
+        throw new ProviderError(`Failed to download video: ${videoResponse.statusText}`);
+      }
+      return Buffer.from(await videoResponse.arrayBuffer());
+    },
+  };
+}
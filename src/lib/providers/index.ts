@@ -0,0 +1,76 @@
+/**
+ * Generation Provider Selection
+ *
+ * GENERATION_PROVIDER picks the implementation behind every provider interface:
+ * - "live" (default): Gemini, Veo and ElevenLabs (requires API keys)
+ * - "local": deterministic offline providers (requires FFmpeg only)
+ */
+
+import * as google from "@/lib/providers/google";
+import * as elevenlabs from "@/lib/providers/elevenlabs";
+import * as local from "@/lib/providers/local";
+import type {
+  ImageToVideoProvider,
+  MusicProvider,
+  SoundEffectProvider,
+  SpeechProvider,
+  StillImageProvider,
+  StoryboardProvider,
+  TranslationProvider,
+  VideoAnalysisProvider,
+} from "@/lib/providers/types";
+
+export { ProviderError } from "@/lib/providers/types";
+export type * from "@/lib/providers/types";
+
+function isLocalMode(): boolean {
+  return process.env.GENERATION_PROVIDER === "local";
+}
+
+export function getStoryboardProvider(): StoryboardProvider {
+  return isLocalMode()
+    ? local.createLocalStoryboardProvider()
+    : google.createGeminiStoryboardProvider();
+}
+
+export function getTranslationProvider(): TranslationProvider {
+  return isLocalMode()
+    ? local.createLocalTranslationProvider()
+    : google.createGeminiTranslationProvider();
+}
+
+export function getVideoAnalysisProvider(): VideoAnalysisProvider {
+  return isLocalMode()
+    ? local.createLocalVideoAnalysisProvider()
+    : google.createGeminiVideoAnalysisProvider();
+}
+
+export function getStillImageProvider(): StillImageProvider {
+  return isLocalMode()
+    ? local.createLocalStillImageProvider()
+    : google.createGeminiStillImageProvider();
+}
+
+export function getImageToVideoProvider(): ImageToVideoProvider {
+  return isLocalMode()
+    ? local.createLocalImageToVideoProvider()
+    : google.createVeoProvider();
+}
+
+export function getSpeechProvider(): SpeechProvider {
+  return isLocalMode()
+    ? local.createLocalSpeechProvider()
+    : elevenlabs.createElevenLabsSpeechProvider();
+}
+
+export function getMusicProvider(): MusicProvider {
+  return isLocalMode()
+    ? local.createLocalMusicProvider()
+    : elevenlabs.createElevenLabsMusicProvider();
+}
+
+export function getSoundEffectProvider(): SoundEffectProvider {
+  return isLocalMode()
+    ? local.createLocalSoundEffectProvider()
+    : elevenlabs.createElevenLabsSoundEffectProvider();
+}
@@ -0,0 +1,364 @@
+/**
+ * Local Providers
+ *
+ * Deterministic stand-ins for every generation service, so the app, demos and tests
+ * run without API keys or network access. The same inputs always produce the same output:
+ *
+ * - Storyboards: canned JSON built from the request (UI shots use the uploaded recordings
+ *   and are sized so the reel hits the requested target duration)
+ * - Translation: each text prefixed with the language code, e.g. "[ES] Meet the app"
+ * - Video analysis: evenly spaced segments over the recording's real duration (ffprobe)
+ * - Stills: FFmpeg color bars, hue-shifted per prompt so shots are distinguishable
+ * - Image-to-video: an 8 second clip of the still, finishing after LOCAL_VIDEO_DURATION_MS
+ * - Speech: a pulsing tone whose length follows the word count (~150 words per minute)
+ *   and the voice's speed, pitched per voice
+ * - Music: a sustained major chord over a 120 BPM kick (accented on each bar, so beat
+ *   detection finds downbeats), with a fade out, at the requested duration
+ * - Sound effects: a burst of noise that decays over the sound (1 second by default);
+ *   ambient beds are steady quiet noise (10 seconds by default). The noise is seeded per prompt
+ *
+ * Set LOCAL_VIDEO_FAIL=true to make every image-to-video operation fail.
+ */
+
+import { createHash } from "crypto";
+import { exec } from "child_process";
+import { promisify } from "util";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { getAssetExtension, resolveAssetPath } from "@/lib/assetStore";
+import { buildDurationPlan, CINEMATIC_SHOT_SECONDS } from "@/lib/storyboardPacing";
+import { ASPECT_RATIOS } from "@/lib/outputFormat";
+import { DEFAULT_VOICE_ID } from "@/lib/voices";
+import type { AspectRatio } from "@/types/output-format";
+import type { StoryboardResponse, StoryboardShot, NarrationSegment } from "@/types/storyboard";
+import type {
+  ImageToVideoProvider,
+  MusicProvider,
+  SoundEffectProvider,
+  SpeechProvider,
+  StillImageProvider,
+  StoryboardProvider,
+  TranslationProvider,
+  VideoAnalysisProvider,
+} from "@/lib/providers/types";
+
+const execAsync = promisify(exec);
+
+// 720p frames, matching Veo output resolution
+const LOCAL_FRAME_SIZES: Record<AspectRatio, { width: number; height: number }> = {
+  "16:9": { width: 1280, height: 720 },
+  "9:16": { width: 720, height: 1280 },
+  "1:1": { width: 720, height: 720 },
+};
+const MAX_UI_SHOT_SECONDS = 6;
+const ANALYSIS_SEGMENT_SECONDS = 5;
+const SECONDS_PER_WORD = 0.4;
+
+// Tone frequency (Hz) stands in for each voice; the default voice keeps its ElevenLabs ID
+// so projects move between live and local mode unchanged
+const LOCAL_VOICES: { voiceId: string; name: string; description: string; frequency: number }[] = [
+  { voiceId: DEFAULT_VOICE_ID, name: "Rachel", description: "calm, narration (local tone)", frequency: 220 },
+  { voiceId: "local-deep", name: "Deep", description: "low, authoritative (local tone)", frequency: 130 },
+  { voiceId: "local-bright", name: "Bright", description: "high, upbeat (local tone)", frequency: 330 },
+];
+
+/**
+ * Run an FFmpeg command in a temp directory and return the output file's contents
+ */
+async function renderWithFfmpeg(
+  buildCommand: (outputPath: string) => string,
+  extension: string
+): Promise<Buffer> {
+  const tempDir = await mkdtemp(path.join(tmpdir(), "local-provider-"));
+  const outputPath = path.join(tempDir, `output.${extension}`);
+
+  try {
+    await execAsync(buildCommand(outputPath));
+    return await readFile(outputPath);
+  } finally {
+    await rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+// Stable number derived from text, used to vary output per prompt
+function hashToInt(text: string): number {
+  return createHash("sha256").update(text).digest().readUInt32BE(0);
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 10) / 10;
+}
+
+export function createLocalStoryboardProvider(): StoryboardProvider {
+  return {
+    async generateStoryboard(_prompt, request) {
+      const feature = request.productDescription.trim().split(/[.\n]/)[0].slice(0, 60) || "the product";
+      const analyses = (request.videoAnalyses || []).slice(0, 2);
+
+      const cinematicShot = (id: string, title: string, action: string): StoryboardShot => ({
+        id,
+        shotType: "cinematic",
+        title,
+        description: `${action} (local placeholder shot)`,
+        stillPrompt: `Person in a modest kitchen, ${action}, soft morning light, 35mm lens, shallow depth of field`,
+        videoPrompt: `0:00-0:03 - person ${action}, 0:03-0:08 - slow dolly in as they look up with a calm smile`,
+        order: 0,
+      });
+
+      // Honor the target duration: cinematic shots are fixed, UI clips fill the rest
+      const plan = buildDurationPlan(request.targetDuration, request.pacing);
+      const cinematicCount = !plan.targetDuration
+        ? (analyses.length > 0 ? 2 : 3)
+        : analyses.length > 0
+          ? Math.max(1, Math.min(2, Math.floor((plan.targetDuration - plan.minUiClipSeconds) / CINEMATIC_SHOT_SECONDS)))
+          : Math.round(plan.targetDuration / CINEMATIC_SHOT_SECONDS);
+
+      let uiShots: StoryboardShot[] = analyses.map((analysis, index) => ({
+        id: `ui-${index + 1}`,
+        shotType: "ui",
+        title: `${feature} in action`,
+        description: analysis.overallDescription,
+        uiDescription: analysis.segments[0]?.description || analysis.overallDescription,
+        videoId: analysis.videoId,
+        startTime: 0,
+        endTime: round(Math.min(analysis.duration, MAX_UI_SHOT_SECONDS)),
+        order: 0,
+      }));
+
+      if (plan.targetDuration && analyses.length > 0) {
+        const uiSeconds = plan.targetDuration - cinematicCount * CINEMATIC_SHOT_SECONDS;
+        const uiCount = Math.max(1, Math.ceil(uiSeconds / plan.maxUiClipSeconds));
+        const clipLength = uiSeconds / uiCount;
+        uiShots = Array.from({ length: uiCount }, (_, index) => {
+          const analysis = analyses[index % analyses.length];
+          const length = Math.min(clipLength, analysis.duration);
+          // Later clips from the same recording step through it
+          const latestStart = Math.max(0, analysis.duration - length);
+          const startTime = round(latestStart > 0 ? (Math.floor(index / analyses.length) * length) % latestStart : 0);
+          return {
+            id: `ui-${index + 1}`,
+            shotType: "ui",
+            title: `${feature} in action`,
+            description: analysis.overallDescription,
+            uiDescription: analysis.segments[0]?.description || analysis.overallDescription,
+            videoId: analysis.videoId,
+            startTime,
+            endTime: round(startTime + length),
+            order: 0,
+          };
+        });
+      }
+
+      const extraCinematicShots = Array.from({ length: Math.max(0, cinematicCount - 2) }, (_, index) =>
+        cinematicShot(`extra-${index + 1}`, "The Feature in Action", "taps through their phone with focus")
+      );
+
+      const shots = [
+        cinematicShot("setup", "The Setup", "looks at their phone with a thoughtful expression"),
+        ...uiShots,
+        ...extraCinematicShots,
+        ...(cinematicCount >= 2
+          ? [cinematicShot("benefit", "The Benefit", "sets the phone down and nods with relief")]
+          : []),
+      ].map((shot, index) => ({ ...shot, id: `shot-${index + 1}`, order: index + 1 }));
+
+      const totalDuration = shots.reduce((sum, shot) =>
+        sum + (shot.shotType === "ui" ? shot.endTime - shot.startTime : CINEMATIC_SHOT_SECONDS), 0);
+
+      const narrationLines = [
+        "Finding your next step shouldn't be the hard part.",
+        `With ${feature}, everything you need is right where you expect it.`,
+        "Less searching, more doing.",
+      ];
+      const segmentLength = totalDuration / narrationLines.length;
+      const narration: NarrationSegment[] = narrationLines.map((text, index) => ({
+        id: `narration-${index + 1}`,
+        text,
+        startTime: round(index * segmentLength + 0.5),
+        endTime: round((index + 1) * segmentLength - 0.5),
+      }));
+
+      const storyboard: StoryboardResponse = {
+        title: `${feature}: A Local Preview`,
+        description: "Placeholder storyboard generated by the local provider",
+        shots,
+        narration,
+        targetDuration: request.targetDuration,
+        pacing: request.pacing,
+        musicPrompt: `Warm acoustic instrumental only, ${round(totalDuration)} seconds, begins immediately at 0s with no leading silence or fade-in delay. Sparse piano opening (0-${round(totalDuration / 3)}s), acoustic guitar builds gentle momentum (${round(totalDuration / 3)}-${round(totalDuration * 2 / 3)}s), soft strings resolve warmly (${round(totalDuration * 2 / 3)}-${round(totalDuration)}s), 100 BPM, in G major.`,
+      };
+
+      return JSON.stringify(storyboard);
+    },
+  };
+}
+
+export function createLocalVideoAnalysisProvider(): VideoAnalysisProvider {
+  return {
+    async analyzeVideo(_prompt, video) {
+      const tempDir = await mkdtemp(path.join(tmpdir(), "local-analysis-"));
+      const videoPath = path.join(tempDir, `input.${getAssetExtension(video.mimeType)}`);
+
+      try {
+        await writeFile(videoPath, video.data);
+        const { stdout } = await execAsync(
+          `ffprobe -v error -show_entries format=duration -of default=noprint_wrappers=1:nokey=1 "${videoPath}"`
+        );
+        const duration = round(parseFloat(stdout.trim()) || 0);
+
+        const segments = [];
+        for (let start = 0; start < duration; start += ANALYSIS_SEGMENT_SECONDS) {
+          segments.push({
+            startTime: start,
+            endTime: round(Math.min(start + ANALYSIS_SEGMENT_SECONDS, duration)),
+            description: `User interacts with screen (segment ${segments.length + 1})`,
+          });
+        }
+
+        return JSON.stringify({
+          overallDescription: "Screen recording of an app feature (local placeholder analysis)",
+          duration,
+          segments,
+        });
+      } finally {
+        await rm(tempDir, { recursive: true, force: true });
+      }
+    },
+  };
+}
+
+export function createLocalStillImageProvider(): StillImageProvider {
+  return {
+    async generateStill(prompt, _referenceImages, aspectRatio) {
+      const hue = hashToInt(prompt) % 360;
+      const { width, height } = LOCAL_FRAME_SIZES[aspectRatio];
+      const data = await renderWithFfmpeg(
+        (outputPath) => `ffmpeg -f lavfi -i smptehdbars=size=${width}x${height} -vf "hue=h=${hue}" -frames:v 1 -y "${outputPath}"`,
+        "png"
+      );
+      return { data, mimeType: "image/png" };
+    },
+  };
+}
+
+const LOCAL_OPERATION_PREFIX = "local-video/";
+const LOCAL_VIDEO_URI_PREFIX = "local-video://";
+
+export function createLocalImageToVideoProvider(): ImageToVideoProvider {
+  const durationMs = parseInt(process.env.LOCAL_VIDEO_DURATION_MS || "10000", 10);
+
+  return {
+    pollIntervalMs: 1000,
+
+    async startGeneration(request) {
+      // The operation name carries everything needed to finish it, so it survives restarts
+      const aspectRatio = ASPECT_RATIOS[request.aspectRatio || "16:9"].veoAspectRatio;
+      return `${LOCAL_OPERATION_PREFIX}${request.imageAssetId}/${Date.now()}/${aspectRatio.replace(":", "x")}`;
+    },
+
+    async getOperation(operationName) {
+      const [imageAssetId, startedAt, aspectRatio = "16x9"] = operationName.slice(LOCAL_OPERATION_PREFIX.length).split("/");
+
+      if (Date.now() - parseInt(startedAt, 10) < durationMs) {
+        return { done: false };
+      }
+
+      if (process.env.LOCAL_VIDEO_FAIL === "true") {
+        return { done: true, error: "Local video provider failure (LOCAL_VIDEO_FAIL=true)" };
+      }
+
+      return { done: true, videoUri: `${LOCAL_VIDEO_URI_PREFIX}${imageAssetId}/${aspectRatio}` };
+    },
+
+    async downloadVideo(videoUri) {
+      const [imageAssetId, aspectRatio = "16x9"] = videoUri.slice(LOCAL_VIDEO_URI_PREFIX.length).split("/");
+      const imagePath = await resolveAssetPath(imageAssetId);
+      const { width, height } = LOCAL_FRAME_SIZES[aspectRatio.replace("x", ":") as AspectRatio];
+
+      // Match Veo output: 8 seconds, 720p, 24fps, silent
+      return renderWithFfmpeg(
+        (outputPath) => `ffmpeg -loop 1 -i "${imagePath}" -t ${CINEMATIC_SHOT_SECONDS} -vf "scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,setsar=1" -r 24 -c:v libx264 -pix_fmt yuv420p -an -fflags +bitexact -flags:v +bitexact -y "${outputPath}"`,
+        "mp4"
+      );
+    },
+  };
+}
+
+export function createLocalTranslationProvider(): TranslationProvider {
+  return {
+    async translate(_prompt, request) {
+      const prefix = `[${request.targetLanguage.toUpperCase()}]`;
+      const translations = [...request.narration, ...request.textOverlays].map(item => ({
+        id: item.id,
+        text: `${prefix} ${item.text}`,
+      }));
+      return JSON.stringify({ translations });
+    },
+  };
+}
+
+export function createLocalSpeechProvider(): SpeechProvider {
+  return {
+    async generateSpeech(text, { voiceId, settings }) {
+      // SSML tags (pronunciation phonemes) aren't spoken
+      const wordCount = text.replace(/<[^>]+>/g, "").trim().split(/\s+/).filter(Boolean).length;
+      const duration = round(Math.max(1, (wordCount * SECONDS_PER_WORD) / settings.speed));
+      const frequency = LOCAL_VOICES.find(voice => voice.voiceId === voiceId)?.frequency
+        ?? 150 + (hashToInt(voiceId) % 200);
+
+      // A tone gated into syllable-like pulses. No timestamps: the narration
+      // route aligns the words itself (lib/narrationAlignment.ts)
+      const audio = await renderWithFfmpeg(
+        (outputPath) => `ffmpeg -f lavfi -i "aevalsrc='0.3*sin(2*PI*${frequency}*t)*gt(sin(2*PI*${2.5 * settings.speed}*t),0)':s=44100:d=${duration}" -c:a libmp3lame -b:a 128k -fflags +bitexact -y "${outputPath}"`,
+        "mp3"
+      );
+      return { audio };
+    },
+
+    async listVoices() {
+      return LOCAL_VOICES.map(({ voiceId, name, description }) => ({
+        voiceId,
+        name,
+        category: "local",
+        description,
+      }));
+    },
+  };
+}
+
+export function createLocalMusicProvider(): MusicProvider {
+  return {
+    async generateMusic(_prompt, durationMs) {
+      const duration = durationMs / 1000;
+      const fadeStart = Math.max(0, duration - 2);
+
+      // C major chord (C4, E4, G4) over a decaying 60Hz kick every 0.5s, louder every 2s
+      const chord = "0.1*sin(2*PI*261.63*t)+0.1*sin(2*PI*329.63*t)+0.1*sin(2*PI*392*t)";
+      const kick = "0.2*(1+lt(mod(t,2),0.5))*sin(2*PI*60*t)*exp(-12*mod(t,0.5))";
+      return renderWithFfmpeg(
+        (outputPath) => `ffmpeg -f lavfi -i "aevalsrc='${chord}+${kick}':s=44100:d=${duration}" -af "afade=t=out:st=${fadeStart}:d=2" -c:a libmp3lame -b:a 128k -fflags +bitexact -y "${outputPath}"`,
+        "mp3"
+      );
+    },
+  };
+}
+
+export function createLocalSoundEffectProvider(): SoundEffectProvider {
+  return {
+    async generateSoundEffect(prompt, { durationSeconds, loop }) {
+      const duration = durationSeconds ?? (loop ? 10 : 1);
+      const seed = hashToInt(prompt) % 2147483647;
+
+      // Ambient beds hold a steady level so they loop cleanly; effects decay
+      const noise = loop
+        ? `anoisesrc=d=${duration}:c=brown:seed=${seed}:a=0.2`
+        : `anoisesrc=d=${duration}:c=pink:seed=${seed}:a=0.5`;
+      const envelope = loop ? "" : ` -af "volume='exp(-4*t/${duration})':eval=frame"`;
+      return renderWithFfmpeg(
+        (outputPath) => `ffmpeg -f lavfi -i "${noise}"${envelope} -c:a libmp3lame -b:a 128k -fflags +bitexact -y "${outputPath}"`,
+        "mp3"
+      );
+    },
+  };
+}
@@ -0,0 +1,120 @@
+/**
+ * Generation Provider Interfaces
+ *
+ * Every call to an external generation service goes through one of these interfaces,
+ * so routes don't depend on a specific vendor and can run against local providers.
+ * Prompt construction and response parsing stay in the routes; providers only move
+ * prompts and media in and out of a model.
+ */
+
+import type { StoryboardGenerationRequest } from "@/types/storyboard";
+import type { VideoGenerationRequest } from "@/types/video-generation";
+import type { TranslationRequest } from "@/types/localization";
+import type { AspectRatio } from "@/types/output-format";
+import type { VoiceOption, VoiceSettings } from "@/types/voice";
+
+/**
+ * Thrown by providers for failures that should reach the client with a specific status
+ * (missing API keys, upstream API errors)
+ */
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    public status = 500,
+    public details?: string
+  ) {
+    super(message);
+    this.name = "ProviderError";
+  }
+}
+
+export interface MediaInput {
+  data: Buffer;
+  mimeType: string;
+}
+
+export interface StoryboardProvider {
+  /**
+   * Returns the model's raw response text (expected to be storyboard JSON).
+   * responseSchema is a JSON Schema the model should be constrained to, where supported.
+   */
+  generateStoryboard(
+    prompt: string,
+    request: StoryboardGenerationRequest,
+    responseSchema?: object
+  ): Promise<string>;
+}
+
+export interface TranslationProvider {
+  /** Returns the model's raw response text (expected to be translation JSON) */
+  translate(prompt: string, request: TranslationRequest, responseSchema?: object): Promise<string>;
+}
+
+export interface VideoAnalysisProvider {
+  /** Returns the model's raw response text (expected to be analysis JSON) */
+  analyzeVideo(prompt: string, video: MediaInput, responseSchema?: object): Promise<string>;
+}
+
+export interface StillImageProvider {
+  generateStill(prompt: string, referenceImages: MediaInput[], aspectRatio: AspectRatio): Promise<MediaInput>;
+}
+
+export interface ImageToVideoOperationState {
+  done: boolean;
+  videoUri?: string; // set when done and successful
+  error?: string; // set when done and failed
+}
+
+/**
+ * Image-to-video generation is a long-running operation, so it is split into
+ * start / check / download steps that the job queue can resume after a restart
+ */
+export interface ImageToVideoProvider {
+  pollIntervalMs: number;
+  /** Start a generation and return its operation name */
+  startGeneration(request: VideoGenerationRequest, image: MediaInput): Promise<string>;
+  getOperation(operationName: string): Promise<ImageToVideoOperationState>;
+  downloadVideo(videoUri: string): Promise<Buffer>;
+}
+
+export interface SpeechOptions {
+  voiceId: string;
+  modelId: string;
+  settings: VoiceSettings;
+  languageCode?: string; // ISO 639-1; enforces the language on multilingual models
+}
+
+/**
+ * When each character of the input text is spoken, in seconds from the start of the audio
+ */
+export interface CharacterAlignment {
+  characters: string[];
+  startTimes: number[];
+  endTimes: number[];
+}
+
+export interface SpeechResult {
+  audio: Buffer; // MP3
+  alignment?: CharacterAlignment; // only when the provider returns timestamps
+}
+
+export interface SpeechProvider {
+  generateSpeech(text: string, options: SpeechOptions): Promise<SpeechResult>;
+  listVoices(): Promise<VoiceOption[]>;
+}
+
+export interface MusicProvider {
+  /** Returns instrumental MP3 audio */
+  generateMusic(prompt: string, durationMs: number, modelId: string): Promise<Buffer>;
+}
+
+export interface SoundEffectOptions {
+  durationSeconds?: number; // omitted = the model picks a length
+  promptInfluence: number; // 0-1
+  loop: boolean; // ambient beds should loop without a seam
+}
+
+export interface SoundEffectProvider {
+  /** Returns MP3 audio */
+  generateSoundEffect(prompt: string, options: SoundEffectOptions): Promise<Buffer>;
+}
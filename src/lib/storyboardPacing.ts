@@ -0,0 +1,111 @@
+/**
+ * Storyboard Duration and Pacing
+ *
+ * Turns a target duration and pacing preset into concrete limits for storyboard
+ * generation: how many shots, how long UI clips may be, and how many narration words
+ * fit. The same plan is written into the prompt and checked by storyboard validation,
+ * so the returned timeline lands within tolerance of the target.
+ */
+
+import type { PacingPreset, TargetDuration } from "@/types/storyboard";
+import { DEFAULT_TRANSITION_DURATION } from "@/lib/transitions";
+
+export const TARGET_DURATIONS: TargetDuration[] = [15, 30, 60];
+export const DEFAULT_PACING: PacingPreset = "balanced";
+
+interface PacingPresetConfig {
+  label: string;
+  averageShotSeconds: number; // used to derive the shot count for a target duration
+  minUiClipSeconds: number;
+  maxUiClipSeconds: number;
+  wordsPerSecond: number; // narration speaking rate
+}
+
+export const PACING_PRESETS: Record<PacingPreset, PacingPresetConfig> = {
+  fast: { label: "Fast", averageShotSeconds: 4, minUiClipSeconds: 3, maxUiClipSeconds: 5, wordsPerSecond: 2.7 },
+  balanced: { label: "Balanced", averageShotSeconds: 5.5, minUiClipSeconds: 3, maxUiClipSeconds: 8, wordsPerSecond: 2.4 },
+  relaxed: { label: "Relaxed", averageShotSeconds: 7, minUiClipSeconds: 5, maxUiClipSeconds: 8, wordsPerSecond: 2.1 },
+};
+
+export const CINEMATIC_SHOT_SECONDS = 8; // Veo clips are always 8 seconds
+
+// Leave room for music-only moments between narration segments
+const NARRATION_COVERAGE = 0.85;
+
+export interface DurationPlan {
+  pacing: PacingPreset;
+  targetDuration?: TargetDuration;
+  toleranceSeconds: number; // allowed distance from targetDuration
+  minShots: number;
+  maxShots: number;
+  maxCinematicShots?: number; // cinematic shots are fixed at 8 seconds
+  minUiClipSeconds: number;
+  maxUiClipSeconds: number;
+  narrationWordBudget?: number;
+}
+
+export function buildDurationPlan(
+  targetDuration?: TargetDuration,
+  pacing: PacingPreset = DEFAULT_PACING
+): DurationPlan {
+  const preset = PACING_PRESETS[pacing];
+
+  if (!targetDuration) {
+    // Without a target the model picks the length, as before
+    return {
+      pacing,
+      toleranceSeconds: 0,
+      minShots: 4,
+      maxShots: 6,
+      minUiClipSeconds: preset.minUiClipSeconds,
+      maxUiClipSeconds: preset.maxUiClipSeconds,
+    };
+  }
+
+  const toleranceSeconds = Math.max(1.5, targetDuration * 0.1);
+  const idealShots = Math.round(targetDuration / preset.averageShotSeconds);
+
+  return {
+    pacing,
+    targetDuration,
+    toleranceSeconds,
+    minShots: Math.max(2, idealShots - 1),
+    maxShots: idealShots + 1,
+    maxCinematicShots: Math.max(1, Math.floor((targetDuration + toleranceSeconds) / CINEMATIC_SHOT_SECONDS)),
+    minUiClipSeconds: preset.minUiClipSeconds,
+    maxUiClipSeconds: preset.maxUiClipSeconds,
+    narrationWordBudget: Math.round(targetDuration * preset.wordsPerSecond * NARRATION_COVERAGE),
+  };
+}
+
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * The DURATION AND PACING section of the storyboard prompt
+ */
+export function formatDurationPlanPrompt(plan: DurationPlan): string {
+  const lines = [
+    `DURATION AND PACING (${PACING_PRESETS[plan.pacing].label} pacing):`,
+  ];
+
+  if (plan.targetDuration) {
+    lines.push(
+      `- The total reel MUST be ${plan.targetDuration} seconds (within ±${plan.toleranceSeconds} seconds). Total = sum of shot durations (cinematic shots are exactly ${CINEMATIC_SHOT_SECONDS} seconds, UI shots are endTime - startTime) minus transitions`,
+      `- Shots overlap by ${DEFAULT_TRANSITION_DURATION} seconds where a cinematic shot follows a cinematic shot, or where cinematic and UI shots meet; consecutive UI shots are cut without overlap`,
+      `- Use ${plan.minShots}-${plan.maxShots} shots, with at most ${plan.maxCinematicShots} cinematic shot${plan.maxCinematicShots === 1 ? "" : "s"}`,
+      `- Add up your shot durations before answering and adjust UI clip lengths so the total hits the target`
+    );
+  } else {
+    lines.push(`- Use ${plan.minShots}-${plan.maxShots} shots`);
+  }
+
+  lines.push(`- UI shots must span ${plan.minUiClipSeconds}-${plan.maxUiClipSeconds} seconds each (endTime - startTime)`);
+
+  if (plan.narrationWordBudget) {
+    lines.push(`- Narration MUST total no more than ${plan.narrationWordBudget} words across all segments so it can be spoken in time`);
+  }
+
+  return lines.join("\n");
+}
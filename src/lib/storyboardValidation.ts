@@ -0,0 +1,473 @@
+/**
+ * Storyboard Validation and Repair
+ *
+ * Checks model-generated storyboards against StoryboardResponse and the uploaded
+ * recordings. Problems with a single deterministic fix are repaired in place:
+ *
+ * - shot order renumbered from array position, duplicate/missing IDs regenerated
+ *   without taking an ID another shot already has
+ * - UI shot videoIds that don't exist mapped to the best-matching recording
+ * - UI shot times clamped to the recording and to the pacing's clip length range
+ * - UI clips lengthened or shortened to bring the reel onto its target duration
+ * - narration moved earlier by the transition overlaps before it, clamped to the total
+ *   storyboard duration, empty segments dropped
+ *
+ * Anything else (missing prompts, wrong shot types, no shots, a reel that still
+ * misses its target duration, too much narration) is reported as an error so the
+ * route can re-ask the model.
+ */
+
+import { isObject, toSeconds, type ValidationResult } from "@/lib/structuredOutput";
+import { buildDurationPlan, CINEMATIC_SHOT_SECONDS, countWords, type DurationPlan } from "@/lib/storyboardPacing";
+import { getDefaultTransition, getTransitionOverlap } from "@/lib/transitions";
+import type {
+  NarrationSegment,
+  StoryboardGenerationRequest,
+  StoryboardResponse,
+  StoryboardShot,
+} from "@/types/storyboard";
+
+type VideoAnalyses = NonNullable<StoryboardGenerationRequest["videoAnalyses"]>;
+type RawObject = Record<string, unknown>;
+
+/**
+ * JSON Schema for Gemini's structured output mode.
+ * When recordings are available, videoId is constrained to their IDs.
+ */
+export function buildStoryboardSchema(videoIds: string[]) {
+  return {
+    type: "object",
+    properties: {
+      title: { type: "string" },
+      description: { type: "string" },
+      shots: {
+        type: "array",
+        minItems: 1,
+        items: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            shotType: { type: "string", enum: videoIds.length > 0 ? ["cinematic", "ui"] : ["cinematic"] },
+            title: { type: "string" },
+            description: { type: "string" },
+            order: { type: "integer" },
+            stillPrompt: { type: "string", description: "Required for cinematic shots" },
+            videoPrompt: { type: "string", description: "Required for cinematic shots" },
+            uiDescription: { type: "string", description: "Required for ui shots" },
+            videoId: videoIds.length > 0
+              ? { type: "string", enum: videoIds, description: "Required for ui shots" }
+              : { type: "string", description: "Required for ui shots" },
+            startTime: { type: "number", description: "Required for ui shots, in seconds" },
+            endTime: { type: "number", description: "Required for ui shots, in seconds" },
+          },
+          required: ["id", "shotType", "title", "description", "order"],
+        },
+      },
+      narration: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            text: { type: "string" },
+            startTime: { type: "number" },
+            endTime: { type: "number" },
+          },
+          required: ["id", "text", "startTime", "endTime"],
+        },
+      },
+      musicPrompt: { type: "string" },
+    },
+    required: ["title", "description", "shots", "narration", "musicPrompt"],
+  };
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+/**
+ * `base`, or `base` with a suffix, that isn't one of `takenIds`
+ */
+function getUniqueId(base: string, takenIds: Set<string>): string {
+  let id = base;
+  while (takenIds.has(id)) id = `${id}-b`;
+  return id;
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 100) / 100;
+}
+
+function tokenize(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 2));
+}
+
+/**
+ * Pick the recording whose analysis shares the most words with the shot
+ */
+function findBestMatchingVideo(shot: RawObject, videoAnalyses: VideoAnalyses) {
+  const shotWords = tokenize(`${shot.uiDescription || ""} ${shot.description || ""} ${shot.title || ""}`);
+
+  let best = videoAnalyses[0];
+  let bestScore = -1;
+  for (const analysis of videoAnalyses) {
+    const analysisWords = tokenize(
+      `${analysis.overallDescription} ${analysis.segments.map(seg => seg.description).join(" ")}`
+    );
+    const score = [...shotWords].filter(word => analysisWords.has(word)).length;
+    if (score > bestScore) {
+      best = analysis;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+export function getShotDuration(shot: StoryboardShot): number {
+  return shot.shotType === "ui" ? shot.endTime - shot.startTime : CINEMATIC_SHOT_SECONDS;
+}
+
+function validateShot(
+  raw: unknown,
+  index: number,
+  videoAnalyses: VideoAnalyses,
+  plan: DurationPlan,
+  errors: string[],
+  repairs: string[]
+): StoryboardShot | null {
+  const label = `shots[${index}]`;
+
+  if (!isObject(raw)) {
+    errors.push(`${label} must be an object`);
+    return null;
+  }
+
+  if (!isNonEmptyString(raw.title)) {
+    errors.push(`${label}.title is required`);
+  }
+
+  const base = {
+    id: isNonEmptyString(raw.id) ? raw.id : "",
+    title: isNonEmptyString(raw.title) ? raw.title : "",
+    description: typeof raw.description === "string" ? raw.description : "",
+    order: index + 1,
+  };
+
+  if (raw.shotType === "cinematic") {
+    if (!isNonEmptyString(raw.stillPrompt)) {
+      errors.push(`${label}.stillPrompt is required for cinematic shots`);
+    }
+    if (!isNonEmptyString(raw.videoPrompt)) {
+      errors.push(`${label}.videoPrompt is required for cinematic shots`);
+    }
+    return {
+      ...base,
+      shotType: "cinematic",
+      stillPrompt: String(raw.stillPrompt || ""),
+      videoPrompt: String(raw.videoPrompt || ""),
+    };
+  }
+
+  if (raw.shotType !== "ui") {
+    errors.push(`${label}.shotType must be "cinematic" or "ui" (got ${JSON.stringify(raw.shotType)})`);
+    return null;
+  }
+
+  if (videoAnalyses.length === 0) {
+    errors.push(`${label} is a ui shot but no screen recordings were provided; use a cinematic shot instead`);
+    return null;
+  }
+
+  let analysis = videoAnalyses.find(candidate => candidate.videoId === raw.videoId);
+  if (!analysis) {
+    analysis = findBestMatchingVideo(raw, videoAnalyses);
+    repairs.push(`${label}.videoId ${JSON.stringify(raw.videoId)} does not exist; using "${analysis.videoId}"`);
+  }
+
+  let uiDescription = isNonEmptyString(raw.uiDescription) ? raw.uiDescription : "";
+  if (!uiDescription) {
+    uiDescription = base.description || base.title;
+    repairs.push(`${label}.uiDescription was missing; using the shot description`);
+  }
+
+  let startTime = toSeconds(raw.startTime);
+  let endTime = toSeconds(raw.endTime);
+  if (startTime === null || endTime === null) {
+    errors.push(`${label}.startTime and endTime must be numbers (in seconds)`);
+    return null;
+  }
+
+  const originalRange = `${startTime}-${endTime}s`;
+  const videoDuration = analysis.duration;
+
+  if (endTime < startTime) {
+    [startTime, endTime] = [endTime, startTime];
+  }
+  startTime = Math.min(Math.max(0, startTime), videoDuration);
+  endTime = Math.min(Math.max(0, endTime), videoDuration);
+
+  if (endTime - startTime > plan.maxUiClipSeconds) {
+    endTime = startTime + plan.maxUiClipSeconds;
+  }
+
+  // Widen short clips: extend the end first, then pull the start back
+  if (endTime - startTime < plan.minUiClipSeconds) {
+    endTime = Math.min(videoDuration, startTime + plan.minUiClipSeconds);
+    startTime = Math.max(0, endTime - plan.minUiClipSeconds);
+  }
+
+  startTime = round(startTime);
+  endTime = round(endTime);
+  if (`${startTime}-${endTime}s` !== originalRange) {
+    repairs.push(`${label} time range ${originalRange} adjusted to ${startTime}-${endTime}s (recording is ${videoDuration}s)`);
+  }
+
+  return {
+    ...base,
+    shotType: "ui",
+    uiDescription,
+    videoId: analysis.videoId,
+    startTime,
+    endTime,
+  };
+}
+
+/**
+ * Length of the reel the shots make on the timeline: the default transition into each
+ * shot overlaps it with the previous one (see createVideoTrack)
+ */
+function getTotalDuration(shots: StoryboardShot[]): number {
+  return round(shots.reduce((sum, shot, index) => {
+    const duration = getShotDuration(shot);
+    const prevShot = shots[index - 1];
+    const overlap = prevShot
+      ? getTransitionOverlap(getDefaultTransition(prevShot, shot), getShotDuration(prevShot), duration)
+      : 0;
+    return sum + duration - overlap;
+  }, 0));
+}
+
+/**
+ * Cinematic shots are fixed at 8 seconds, so UI clips are the only thing that can
+ * absorb a miss. Lengthen or shorten them (within the pacing's clip range and their
+ * recording) until the reel lands on the target.
+ */
+function fitShotsToTarget(
+  shots: StoryboardShot[],
+  videoAnalyses: VideoAnalyses,
+  plan: DurationPlan,
+  repairs: string[]
+) {
+  const targetDuration = plan.targetDuration;
+  if (!targetDuration) return;
+
+  let remaining = targetDuration - getTotalDuration(shots);
+  if (Math.abs(remaining) <= plan.toleranceSeconds) return;
+
+  shots.forEach((shot, index) => {
+    if (shot.shotType !== "ui" || Math.abs(remaining) < 0.01) return;
+
+    const videoDuration = videoAnalyses.find(analysis => analysis.videoId === shot.videoId)?.duration ?? shot.endTime;
+    const length = shot.endTime - shot.startTime;
+    const minLength = Math.min(length, plan.minUiClipSeconds);
+    const maxLength = Math.max(length, Math.min(plan.maxUiClipSeconds, videoDuration));
+    const newLength = Math.min(Math.max(length + remaining, minLength), maxLength);
+    if (Math.abs(newLength - length) < 0.01) return;
+
+    const endTime = round(Math.min(videoDuration, shot.startTime + newLength));
+    const startTime = round(Math.max(0, endTime - newLength));
+
+    repairs.push(`shots[${index}] time range ${shot.startTime}-${shot.endTime}s adjusted to ${startTime}-${endTime}s to fit the ${targetDuration}s target`);
+    shot.startTime = startTime;
+    shot.endTime = endTime;
+    // Measured again, since a shorter clip can also shorten the transitions around it
+    remaining = targetDuration - getTotalDuration(shots);
+  });
+}
+
+/**
+ * The model times narration against shots laid end to end, but the transitions that
+ * overlap them on the timeline (see getTotalDuration) pull every later shot earlier.
+ * Seconds a segment starting at `time` has to move to stay over the same shot.
+ */
+function getTransitionShift(shots: StoryboardShot[], time: number): number {
+  let layoutStart = 0;
+  let shift = 0;
+  for (let index = 1; index < shots.length; index++) {
+    const prevShot = shots[index - 1];
+    layoutStart += getShotDuration(prevShot);
+    if (time < layoutStart) break;
+    shift += getTransitionOverlap(
+      getDefaultTransition(prevShot, shots[index]),
+      getShotDuration(prevShot),
+      getShotDuration(shots[index])
+    );
+  }
+  return shift;
+}
+
+function validateNarration(
+  raw: unknown,
+  shots: StoryboardShot[],
+  errors: string[],
+  repairs: string[]
+): NarrationSegment[] {
+  if (raw === undefined || raw === null) {
+    return [];
+  }
+  if (!Array.isArray(raw)) {
+    errors.push("narration must be an array");
+    return [];
+  }
+
+  const totalDuration = getTotalDuration(shots);
+  const segments: NarrationSegment[] = [];
+  const usedIds = new Set<string>();
+  // IDs the model gave, so a regenerated ID never takes one a later segment uses
+  const givenIds = new Set(raw.map(item => (isObject(item) ? item.id : undefined)).filter(isNonEmptyString));
+
+  raw.forEach((item, index) => {
+    const label = `narration[${index}]`;
+
+    if (!isObject(item) || !isNonEmptyString(item.text)) {
+      repairs.push(`${label} had no text and was dropped`);
+      return;
+    }
+
+    let startTime = toSeconds(item.startTime);
+    let endTime = toSeconds(item.endTime);
+    if (startTime === null || endTime === null) {
+      errors.push(`${label}.startTime and endTime must be numbers (in seconds)`);
+      return;
+    }
+
+    const shift = getTransitionShift(shots, startTime);
+    startTime = round(startTime - shift);
+    endTime = round(endTime - shift);
+
+    const clampedStart = round(Math.min(Math.max(0, startTime), totalDuration));
+    const clampedEnd = round(Math.min(Math.max(0, endTime), totalDuration));
+    if (clampedStart !== startTime || clampedEnd !== endTime) {
+      repairs.push(`${label} ${startTime}-${endTime}s clamped to ${clampedStart}-${clampedEnd}s (storyboard is ${totalDuration}s)`);
+    }
+    startTime = clampedStart;
+    endTime = clampedEnd;
+
+    if (endTime <= startTime) {
+      repairs.push(`${label} falls outside the storyboard and was dropped`);
+      return;
+    }
+
+    let id = isNonEmptyString(item.id) ? item.id : "";
+    if (!id || usedIds.has(id)) {
+      id = getUniqueId(`narration-${index + 1}`, new Set([...usedIds, ...givenIds]));
+      repairs.push(`${label}.id was missing or duplicated; using "${id}"`);
+    }
+    usedIds.add(id);
+
+    segments.push({ id, text: item.text, startTime, endTime });
+  });
+
+  return segments.sort((a, b) => a.startTime - b.startTime);
+}
+
+export function validateStoryboard(
+  raw: unknown,
+  videoAnalyses: VideoAnalyses = [],
+  plan: DurationPlan = buildDurationPlan()
+): ValidationResult<StoryboardResponse> {
+  const errors: string[] = [];
+  const repairs: string[] = [];
+
+  if (!isObject(raw)) {
+    return { value: null, errors: ["Response must be a JSON object"], repairs };
+  }
+
+  if (!isNonEmptyString(raw.title)) {
+    errors.push("title is required");
+  }
+
+  if (!Array.isArray(raw.shots) || raw.shots.length === 0) {
+    errors.push("shots must be a non-empty array");
+    return { value: null, errors, repairs };
+  }
+
+  // Keep the model's intended sequence, then renumber from position
+  const orderedShots = raw.shots
+    .map((shot, index) => ({ shot, index }))
+    .sort((a, b) => {
+      const orderA = isObject(a.shot) ? toSeconds(a.shot.order) : null;
+      const orderB = isObject(b.shot) ? toSeconds(b.shot.order) : null;
+      return (orderA ?? a.index + 1) - (orderB ?? b.index + 1) || a.index - b.index;
+    })
+    .map(({ shot }) => shot);
+
+  const shots: StoryboardShot[] = [];
+  const usedIds = new Set<string>();
+  // IDs the model gave, so a regenerated ID never takes one a later shot uses
+  const givenIds = new Set(orderedShots.map(shot => (isObject(shot) ? shot.id : undefined)).filter(isNonEmptyString));
+  orderedShots.forEach((rawShot, index) => {
+    const shot = validateShot(rawShot, index, videoAnalyses, plan, errors, repairs);
+    if (!shot) return;
+
+    if (isObject(rawShot) && toSeconds(rawShot.order) !== shot.order) {
+      repairs.push(`shots[${index}].order renumbered to ${shot.order}`);
+    }
+
+    if (!shot.id || usedIds.has(shot.id)) {
+      const newId = getUniqueId(`shot-${index + 1}`, new Set([...usedIds, ...givenIds]));
+      repairs.push(`shots[${index}].id was missing or duplicated; using "${newId}"`);
+      shot.id = newId;
+    }
+    usedIds.add(shot.id);
+
+    shots.push(shot);
+  });
+
+  fitShotsToTarget(shots, videoAnalyses, plan, repairs);
+
+  const totalDuration = getTotalDuration(shots);
+  if (plan.targetDuration && errors.length === 0 &&
+      Math.abs(totalDuration - plan.targetDuration) > plan.toleranceSeconds) {
+    errors.push(
+      `Total duration is ${totalDuration}s but must be ${plan.targetDuration}s (±${plan.toleranceSeconds}s). ` +
+      `Cinematic shots are ${CINEMATIC_SHOT_SECONDS}s each; change the number of shots or the UI clip lengths`
+    );
+  }
+
+  const narration = validateNarration(raw.narration, shots, errors, repairs);
+
+  // Allow a little slack over the budget; the speaking rate is an estimate
+  const narrationWords = narration.reduce((sum, segment) => sum + countWords(segment.text), 0);
+  if (plan.narrationWordBudget && narrationWords > plan.narrationWordBudget * 1.1) {
+    errors.push(
+      `Narration has ${narrationWords} words but a ${plan.targetDuration}s reel allows at most ${plan.narrationWordBudget}; shorten the narration`
+    );
+  }
+
+  let musicPrompt: string | undefined;
+  if (isNonEmptyString(raw.musicPrompt)) {
+    musicPrompt = raw.musicPrompt;
+  } else if (raw.musicPrompt !== undefined) {
+    repairs.push("musicPrompt was not a string and was dropped");
+  }
+
+  if (errors.length > 0) {
+    return { value: null, errors, repairs };
+  }
+
+  return {
+    value: {
+      title: raw.title as string,
+      description: typeof raw.description === "string" ? raw.description : "",
+      shots,
+      narration,
+      musicPrompt,
+      targetDuration: plan.targetDuration,
+      pacing: plan.pacing,
+    },
+    errors,
+    repairs,
+  };
+}
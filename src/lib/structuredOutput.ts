@@ -0,0 +1,110 @@
+/**
+ * Structured Output Helpers
+ *
+ * Models return JSON as text. These helpers parse it, run a validator that both
+ * repairs what it can deterministically and reports what it can't, and re-ask the
+ * model with the remaining errors until the output is valid or attempts run out.
+ * Also holds the small coercions the validators share.
+ */
+
+export interface ValidationResult<T> {
+  value: T | null; // repaired value; null when errors is non-empty
+  errors: string[]; // problems that need the model to try again
+  repairs: string[]; // deterministic fixes that were applied
+}
+
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Accept numbers and numeric strings like "5.5" or "5.5s"
+ */
+export function toSeconds(value: unknown): number | null {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string") {
+    const parsed = parseFloat(value);
+    if (Number.isFinite(parsed)) return parsed;
+  }
+  return null;
+}
+
+/**
+ * Thrown when the model never produced valid output
+ */
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    public errors: string[],
+    public lastResponse: string
+  ) {
+    super(message);
+    this.name = "StructuredOutputError";
+  }
+}
+
+/**
+ * Parse model text as JSON, tolerating markdown code fences
+ */
+export function parseModelJson(text: string): unknown {
+  let cleanedText = text.trim();
+  if (cleanedText.startsWith("```json")) {
+    cleanedText = cleanedText.replace(/^```json\s*/, "").replace(/\s*```$/, "");
+  } else if (cleanedText.startsWith("```")) {
+    cleanedText = cleanedText.replace(/^```\s*/, "").replace(/\s*```$/, "");
+  }
+  return JSON.parse(cleanedText);
+}
+
+function buildReaskPrompt(prompt: string, previousResponse: string, errors: string[]): string {
+  return `${prompt}
+
+YOUR PREVIOUS RESPONSE WAS INVALID:
+${previousResponse}
+
+Fix ALL of these problems and return the complete corrected JSON object (JSON only, no commentary):
+${errors.map(error => `- ${error}`).join("\n")}`;
+}
+
+/**
+ * Generate, parse and validate, re-asking with the validation errors on failure
+ */
+export async function generateValidated<T>(
+  generate: (prompt: string) => Promise<string>,
+  prompt: string,
+  validate: (raw: unknown) => ValidationResult<T>,
+  maxAttempts = 3
+): Promise<{ value: T; attempts: number; repairs: string[] }> {
+  let currentPrompt = prompt;
+  let lastResponse = "";
+  let lastErrors: string[] = [];
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    lastResponse = await generate(currentPrompt);
+
+    let raw: unknown;
+    try {
+      raw = parseModelJson(lastResponse);
+    } catch (error) {
+      raw = undefined;
+      lastErrors = [`Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`];
+    }
+
+    if (raw !== undefined) {
+      const result = validate(raw);
+      if (result.value && result.errors.length === 0) {
+        return { value: result.value, attempts: attempt, repairs: result.repairs };
+      }
+      lastErrors = result.errors;
+    }
+
+    console.warn(`Invalid model output (attempt ${attempt}/${maxAttempts}):`, lastErrors);
+    currentPrompt = buildReaskPrompt(prompt, lastResponse, lastErrors);
+  }
+
+  throw new StructuredOutputError(
+    `Model output was still invalid after ${maxAttempts} attempts`,
+    lastErrors,
+    lastResponse
+  );
+}
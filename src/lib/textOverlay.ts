@@ -0,0 +1,160 @@
+/**
+ * Text Overlays
+ *
+ * Layout and animation for text clips (title cards, callouts, end cards), shared by
+ * the preview player and the stitch route so the burned-in export matches the preview.
+ *
+ * Sizes and offsets are fractions of the frame height, so the same clip reads the
+ * same in 16:9, 9:16 and 1:1. Animations run for `animationDuration` at each end:
+ * "fade" ramps opacity, "slide" fades while moving SLIDE_DISTANCE of the frame height.
+ */
+
+import type { TextAnimation, TextClip, TextFontFamily, TextPosition, TextStyle } from "@/types/timeline";
+
+export type TextPreset = "title" | "callout" | "end-card";
+
+const SLIDE_DISTANCE = 0.04;
+
+// Vertical anchor of the text block as a fraction of the frame height, and which
+// edge of the block sits on it
+export const TEXT_POSITIONS: Record<TextPosition, { label: string; y: number; anchor: "top" | "middle" | "bottom" }> = {
+  top: { label: "Top", y: 0.08, anchor: "top" },
+  center: { label: "Center", y: 0.5, anchor: "middle" },
+  "lower-third": { label: "Lower third", y: 0.72, anchor: "middle" },
+  bottom: { label: "Bottom", y: 0.92, anchor: "bottom" },
+};
+
+export const TEXT_FONT_LABELS: Record<TextFontFamily, string> = {
+  sans: "Sans",
+  serif: "Serif",
+  mono: "Mono",
+};
+
+export const TEXT_ANIMATION_LABELS: Record<TextAnimation, string> = {
+  none: "None",
+  fade: "Fade",
+  slide: "Slide",
+};
+
+// Fontconfig family names for FFmpeg drawtext
+const DRAWTEXT_FONTS: Record<TextFontFamily, string> = {
+  sans: "Sans",
+  serif: "Serif",
+  mono: "Monospace",
+};
+
+const DEFAULT_STYLE: TextStyle = {
+  fontFamily: "sans",
+  fontSize: 8,
+  color: "#ffffff",
+  bold: true,
+  background: false,
+};
+
+export const TEXT_PRESET_LABELS: Record<TextPreset, string> = {
+  title: "Title card",
+  callout: "Callout",
+  "end-card": "End card",
+};
+
+const TEXT_PRESETS: Record<TextPreset, Pick<TextClip, "text" | "position" | "style" | "animationIn" | "animationOut" | "duration">> = {
+  title: {
+    text: "Title",
+    position: "center",
+    style: { ...DEFAULT_STYLE, fontSize: 9 },
+    animationIn: "fade",
+    animationOut: "fade",
+    duration: 3,
+  },
+  callout: {
+    text: "Feature callout",
+    position: "lower-third",
+    style: { ...DEFAULT_STYLE, fontSize: 5, background: true },
+    animationIn: "slide",
+    animationOut: "fade",
+    duration: 3,
+  },
+  "end-card": {
+    text: "example.com",
+    position: "center",
+    style: { ...DEFAULT_STYLE, fontSize: 7 },
+    animationIn: "fade",
+    animationOut: "none",
+    duration: 3,
+  },
+};
+
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+export function createTextClip(preset: TextPreset, startTime: number): TextClip {
+  return {
+    ...TEXT_PRESETS[preset],
+    id: `text-${Date.now()}`,
+    type: "text",
+    startTime,
+    animationDuration: 0.5,
+  };
+}
+
+/**
+ * Opacity and vertical offset (fraction of frame height) of a text clip at `time`
+ */
+export function getTextAnimationState(clip: TextClip, time: number): { opacity: number; offsetY: number } {
+  const duration = Math.max(0.01, Math.min(clip.animationDuration, clip.duration / 2));
+  const progressIn = Math.max(0, Math.min(1, (time - clip.startTime) / duration));
+  const progressOut = Math.max(0, Math.min(1, (clip.startTime + clip.duration - time) / duration));
+
+  let opacity = 1;
+  let offsetY = 0;
+  if (clip.animationIn !== "none") opacity *= progressIn;
+  if (clip.animationOut !== "none") opacity *= progressOut;
+  if (clip.animationIn === "slide") offsetY += SLIDE_DISTANCE * (1 - progressIn);
+  if (clip.animationOut === "slide") offsetY -= SLIDE_DISTANCE * (1 - progressOut);
+
+  return { opacity, offsetY };
+}
+
+/**
+ * FFmpeg drawtext filter for one text clip. The text is read from `textFilePath`
+ * so it needs no escaping; the same animation as getTextAnimationState is expressed
+ * with `t`-based alpha and y expressions.
+ */
+export function buildDrawtextFilter(clip: TextClip, textFilePath: string, frameHeight: number): string {
+  const start = clip.startTime.toFixed(3);
+  const end = (clip.startTime + clip.duration).toFixed(3);
+  const animationDuration = Math.max(0.01, Math.min(clip.animationDuration, clip.duration / 2)).toFixed(3);
+  const progressIn = `clip((t-${start})/${animationDuration},0,1)`;
+  const progressOut = `clip((${end}-t)/${animationDuration},0,1)`;
+
+  const alphaFactors = ["1"];
+  if (clip.animationIn !== "none") alphaFactors.push(progressIn);
+  if (clip.animationOut !== "none") alphaFactors.push(progressOut);
+
+  const { y, anchor } = TEXT_POSITIONS[clip.position];
+  let yExpression = anchor === "top" ? `h*${y}` : anchor === "middle" ? `h*${y}-text_h/2` : `h*${y}-text_h`;
+  if (clip.animationIn === "slide") yExpression += `+h*${SLIDE_DISTANCE}*(1-${progressIn})`;
+  if (clip.animationOut === "slide") yExpression += `-h*${SLIDE_DISTANCE}*(1-${progressOut})`;
+
+  const fontSize = Math.round((frameHeight * clip.style.fontSize) / 100);
+  const color = HEX_COLOR_PATTERN.test(clip.style.color) ? clip.style.color.slice(1) : "ffffff";
+  // A fontconfig pattern. Its colon has to be escaped: the filtergraph parser strips the
+  // quotes before drawtext splits its options on ':', but keeps the backslash inside them
+  const font = `${DRAWTEXT_FONTS[clip.style.fontFamily]}${clip.style.bold ? "\\:style=Bold" : ""}`;
+
+  const options = [
+    `textfile='${textFilePath}'`,
+    `font='${font}'`,
+    `fontsize=${fontSize}`,
+    `fontcolor=0x${color}`,
+    `line_spacing=${Math.round(fontSize * 0.2)}`,
+    `x=(w-text_w)/2`,
+    `y='${yExpression}'`,
+    `alpha='${alphaFactors.join("*")}'`,
+    `enable='between(t,${start},${end})'`,
+  ];
+  if (clip.style.background) {
+    options.push("box=1", "boxcolor=black@0.5", `boxborderw=${Math.round(fontSize * 0.35)}`);
+  }
+
+  return `drawtext=${options.join(":")}`;
+}
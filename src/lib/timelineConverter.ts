@@ -7,24 +7,26 @@
  */
 
 import type { StoryboardResponse, StoryboardShot, NarrationSegment } from '@/types/storyboard';
-import type { Timeline, TimelineTrack, VideoClip, AudioClip } from '@/types/timeline';
+import type { Timeline, TimelineTrack, TimelineClip, VideoClip, AudioClip, ClipTransition, TextClip, MusicClip, SoundEffectClip } from '@/types/timeline';
+import type { SoundEffect } from '@/types/sound-effect';
+import type { NarrationGenerationResponse } from '@/types/narration';
+import type { LocalizedVersion } from '@/types/localization';
+import { isMusicClip, isNarrationClip, isSoundEffectClip, isTextClip, isVideoClip } from '@/types/timeline';
+import { getDefaultTransition, getTransitionOverlap } from '@/lib/transitions';
+import { createTextClip, type TextPreset } from '@/lib/textOverlay';
+import { CINEMATIC_SHOT_SECONDS, getClipTrim, getSourceBounds, MIN_TRIMMED_CLIP_SECONDS } from '@/lib/videoTrim';
+import { splitNarrationAudio, splitNarrationWords } from '@/lib/narrationSegments';
 
 /**
  * Calculate total video duration from storyboard shots
  * Used for music generation length parameter
  */
 export function calculateStoryboardDuration(storyboard: StoryboardResponse): number {
-  let totalDuration = 0;
+  const clips = createVideoTrack(storyboard.shots).clips;
+  const lastClip = clips[clips.length - 1];
 
-  for (const shot of storyboard.shots) {
-    const duration = shot.shotType === 'ui'
-      ? Math.max(3, shot.endTime - shot.startTime) // UI clips minimum 3 seconds
-      : 8; // cinematic shots are 8 seconds
-
-    totalDuration += duration;
-  }
-
-  return totalDuration;
+  // Default transitions overlap clips, so the reel ends with its last clip
+  return lastClip ? lastClip.startTime + lastClip.duration : 0;
 }
 
 /**
@@ -50,32 +52,34 @@ export function storyboardToTimeline(storyboard: StoryboardResponse): Timeline {
 
 /**
  * Create video track from storyboard shots
- * Shots are placed sequentially (cumulative timing)
+ * Shots are placed sequentially (cumulative timing), each overlapping the
+ * previous one by its default transition
  */
 function createVideoTrack(shots: StoryboardShot[]): TimelineTrack {
   let cumulativeTime = 0;
   const videoClips: VideoClip[] = [];
 
-  for (const shot of shots) {
-    const duration = shot.shotType === 'ui'
-      ? Math.max(3, shot.endTime - shot.startTime) // UI clips minimum 3 seconds
-      : 8; // cinematic shots are 8 seconds
+  shots.forEach((shot, index) => {
+    const { duration, ...trim } = getShotClipTiming(shot);
+
+    const prevShot = shots[index - 1];
+    const prevClip = videoClips[index - 1];
+    const transition = prevShot ? getDefaultTransition(prevShot, shot) : undefined;
+    const overlap = prevClip ? getTransitionOverlap(transition, prevClip.duration, duration) : 0;
 
     const clip: VideoClip = {
       id: `video-${shot.id}`,
       type: 'video',
       shotId: shot.id,
-      startTime: cumulativeTime,
+      startTime: cumulativeTime - overlap,
       duration,
-      ...(shot.shotType === 'ui' && {
-        trimStart: shot.startTime,
-        trimEnd: shot.endTime,
-      }),
+      ...trim,
+      ...(transition && { transition }),
     };
 
     videoClips.push(clip);
-    cumulativeTime += duration;
-  }
+    cumulativeTime = clip.startTime + duration;
+  });
 
   return {
     id: 'track-video',
@@ -84,6 +88,33 @@ function createVideoTrack(shots: StoryboardShot[]): TimelineTrack {
   };
 }
 
+/**
+ * Length and trim of a shot's clip when it's first put on the timeline
+ */
+function getShotClipTiming(shot: StoryboardShot): Pick<VideoClip, 'duration' | 'trimStart' | 'trimEnd'> {
+  if (shot.shotType === 'ui') {
+    const duration = Math.max(3, shot.endTime - shot.startTime); // UI clips minimum 3 seconds
+    return {
+      duration,
+      trimStart: shot.startTime,
+      trimEnd: shot.startTime + duration,
+    };
+  }
+  return { duration: CINEMATIC_SHOT_SECONDS };
+}
+
+function getOrderedVideoClips(timeline: Timeline): VideoClip[] {
+  return timeline.tracks
+    .flatMap(track => track.clips)
+    .filter(isVideoClip)
+    .sort((a, b) => a.startTime - b.startTime);
+}
+
+// StoryboardShot.order counts from 1 in storyboard order
+function renumberShots(shots: StoryboardShot[]): StoryboardShot[] {
+  return shots.map((shot, index) => (shot.order === index + 1 ? shot : { ...shot, order: index + 1 }));
+}
+
 /**
  * Create audio track from narration segments and optional music
  * Narration uses absolute positioning from storyboard
@@ -114,7 +145,7 @@ function createAudioTrack(narration: NarrationSegment[], musicPrompt?: string, s
       id: 'music-background',
       type: 'audio' as const,
       audioType: 'music' as const,
-      sourceId: 'background-music',
+      sourceId: '', // no music generated yet
       startTime: 0,
       duration: storyboardDuration, // Use requested duration, will update with actual
       volume: 0.3,
@@ -147,6 +178,16 @@ function calculateTotalDuration(tracks: TimelineTrack[]): number {
   return maxDuration;
 }
 
+/**
+ * End of the last video clip, i.e. the length of the picture the music has to cover
+ */
+export function calculateVideoDuration(timeline: Timeline): number {
+  return Math.max(
+    0,
+    ...timeline.tracks.flatMap(track => track.clips.filter(isVideoClip).map(clip => clip.startTime + clip.duration))
+  );
+}
+
 /**
  * Update narration clip duration based on actual audio duration
  * Called after narration audio is generated
@@ -230,51 +271,1181 @@ export function updateClipDuration(
 }
 
 /**
- * Add or update music clip in timeline
- * Updates duration of existing placeholder or creates new clip
+ * Change the transition into a video clip. The clip and everything after it on the
+ * video track shift by the change in overlap, so gaps between clips are kept, and so
+ * does whatever on the other tracks starts with or after the clip, so narration and
+ * text stay over the same shots.
  */
-export function addMusicToTimeline(
+export function updateClipTransition(
   timeline: Timeline,
-  musicDuration: number,
-  startTime: number = 0
+  clipId: string,
+  transition: ClipTransition
 ): Timeline {
+  const videoClips = getOrderedVideoClips(timeline);
+  const index = videoClips.findIndex(clip => clip.id === clipId);
+  if (index <= 0) return timeline; // The first clip has nothing to transition from
+
+  const clip = videoClips[index];
+  const prevDuration = videoClips[index - 1].duration;
+  const shift = getTransitionOverlap(clip.transition, prevDuration, clip.duration)
+    - getTransitionOverlap(transition, prevDuration, clip.duration);
+
+  const updatedClips = videoClips.map((videoClip, i) => {
+    if (i < index) return videoClip;
+    return {
+      ...videoClip,
+      startTime: Math.max(0, videoClip.startTime + shift),
+      ...(i === index && { transition }),
+    };
+  });
+
+  return replaceVideoClips(timeline, updatedClips, clip.startTime, shift);
+}
+
+export type TrimEdge = 'start' | 'end';
+
+/**
+ * How trimming a video clip affects the rest of the timeline:
+ * - ripple: the clip's length changes and everything after it moves with its end, on
+ *   every track, so no gap opens and nothing is covered
+ * - overwrite: nothing else moves. Lengthening covers the neighbouring clip, whose in
+ *   or out point is trimmed to make room; shortening leaves a gap (black in the export)
+ */
+export type TrimMode = 'ripple' | 'overwrite';
+
+/**
+ * Move a video clip's in point (start edge) or out point (end edge) by `delta` seconds
+ * of source video; positive deltas move the edge later. The trim stays within the
+ * shot's source (see lib/videoTrim.ts) and the clip never gets shorter than
+ * MIN_TRIMMED_CLIP_SECONDS, nor does a clip it covers.
+ */
+export function trimVideoClip(
+  timeline: Timeline,
+  clipId: string,
+  shots: Record<string, StoryboardShot>,
+  edge: TrimEdge,
+  delta: number,
+  mode: TrimMode
+): Timeline {
+  const videoClips = timeline.tracks
+    .flatMap(track => track.clips)
+    .filter(isVideoClip)
+    .sort((a, b) => a.startTime - b.startTime);
+  const index = videoClips.findIndex(clip => clip.id === clipId);
+  const clip = videoClips[index];
+  const shot = clip && shots[clip.shotId];
+  if (!clip || !shot) return timeline;
+
+  const bounds = getSourceBounds(shot);
+  const { trimStart, trimEnd } = getClipTrim(clip, shot);
+  const clipEnd = clip.startTime + clip.duration;
+  const prev = videoClips[index - 1];
+  const next = videoClips[index + 1];
+  const prevOverlap = prev ? getTransitionOverlap(clip.transition, prev.duration, clip.duration) : 0;
+  const nextOverlap = next ? getTransitionOverlap(next.transition, clip.duration, next.duration) : 0;
+
+  // Limits from the source, the minimum length and how much of a neighbour can be covered
+  let min: number;
+  let max: number;
+  if (edge === 'start') {
+    min = bounds.start - trimStart;
+    max = trimEnd - MIN_TRIMMED_CLIP_SECONDS - trimStart;
+    if (mode === 'overwrite') {
+      min = Math.max(min, -clip.startTime);
+      if (prev) min = Math.max(min, prev.startTime + MIN_TRIMMED_CLIP_SECONDS - prevOverlap - clip.startTime);
+    }
+  } else {
+    min = trimStart + MIN_TRIMMED_CLIP_SECONDS - trimEnd;
+    max = bounds.end - trimEnd;
+    if (mode === 'overwrite' && next) {
+      max = Math.min(max, next.startTime + next.duration - MIN_TRIMMED_CLIP_SECONDS + nextOverlap - clipEnd);
+    }
+  }
+  // Leaving the clip as it is stays allowed, even if it's already outside the limits
+  const amount = Math.min(Math.max(delta, Math.min(min, 0)), Math.max(max, 0));
+  if (amount === 0) return timeline;
+
+  const newTrimStart = edge === 'start' ? trimStart + amount : trimStart;
+  const newTrimEnd = edge === 'end' ? trimEnd + amount : trimEnd;
+  const trimmed: VideoClip = {
+    ...clip,
+    startTime: edge === 'start' && mode === 'overwrite' ? clip.startTime + amount : clip.startTime,
+    duration: newTrimEnd - newTrimStart,
+    trimStart: newTrimStart,
+    trimEnd: newTrimEnd,
+  };
+  const shift = trimmed.duration - clip.duration;
+  const trimmedEnd = trimmed.startTime + trimmed.duration;
+
+  const updated: Record<string, VideoClip> = { [clip.id]: trimmed };
+  if (mode === 'overwrite' && prev && edge === 'start') {
+    const cover = prev.startTime + prev.duration - (trimmed.startTime + prevOverlap);
+    if (cover > 0) updated[prev.id] = coverVideoClip(prev, shots, 'end', cover);
+  }
+  if (mode === 'overwrite' && next && edge === 'end') {
+    const cover = trimmedEnd - nextOverlap - next.startTime;
+    if (cover > 0) updated[next.id] = coverVideoClip(next, shots, 'start', cover);
+  }
+
+  // Ripple moves whatever starts after the clip's old end, on every track
+  const moves = (other: TimelineClip) => mode === 'ripple'
+    && other.id !== clip.id
+    && (isVideoClip(other) ? videoClips.indexOf(other) > index : other.startTime >= clipEnd - 0.001);
+
+  const updatedTracks = timeline.tracks.map(track => ({
+    ...track,
+    clips: track.clips.map(other => {
+      if (updated[other.id]) return updated[other.id];
+      return moves(other) ? { ...other, startTime: Math.max(0, other.startTime + shift) } : other;
+    }),
+  }));
+
+  return {
+    tracks: updatedTracks,
+    totalDuration: calculateTotalDuration(updatedTracks),
+  };
+}
+
+/**
+ * Shorten a video clip from one edge by `amount` seconds, moving that edge's trim point
+ */
+function coverVideoClip(
+  clip: VideoClip,
+  shots: Record<string, StoryboardShot>,
+  edge: TrimEdge,
+  amount: number
+): VideoClip {
+  const shot = shots[clip.shotId];
+  const trim = shot ? getClipTrim(clip, shot) : null;
+
+  if (edge === 'start') {
+    return {
+      ...clip,
+      startTime: clip.startTime + amount,
+      duration: clip.duration - amount,
+      ...(trim && { trimStart: trim.trimStart + amount, trimEnd: trim.trimEnd }),
+    };
+  }
+  return {
+    ...clip,
+    duration: clip.duration - amount,
+    ...(trim && { trimStart: trim.trimStart, trimEnd: trim.trimEnd - amount }),
+  };
+}
+
+/**
+ * Where narration goes when shots are reordered:
+ * - time: it stays at the same time, over whichever shot now plays there
+ * - shot: it moves with the shot it starts over, keeping its offset into that shot
+ */
+export type NarrationAnchor = 'time' | 'shot';
+
+/**
+ * Move a shot to position `newIndex` in the storyboard, renumbering every shot's
+ * `order`, and lay the video clips out again in the new order from the start of the
+ * reel. Clips keep their length and trim. A clip keeps its transition if it still
+ * follows the same shot and gets the default transition for its new neighbour
+ * otherwise; gaps between video clips are closed.
+ *
+ * Narration follows `anchor`, and its storyboard segments are moved with it. Narration
+ * that starts outside every video clip, music, text and sound effects stay where they are.
+ */
+export function reorderShot(
+  storyboard: StoryboardResponse,
+  timeline: Timeline,
+  shotId: string,
+  newIndex: number,
+  anchor: NarrationAnchor
+): { storyboard: StoryboardResponse; timeline: Timeline } {
+  const oldIndex = storyboard.shots.findIndex(shot => shot.id === shotId);
+  const targetIndex = Math.max(0, Math.min(newIndex, storyboard.shots.length - 1));
+  if (oldIndex < 0 || oldIndex === targetIndex) return { storyboard, timeline };
+
+  const reordered = [...storyboard.shots];
+  const [moved] = reordered.splice(oldIndex, 1);
+  reordered.splice(targetIndex, 0, moved);
+  const shots = renumberShots(reordered);
+
+  const originalClips = getOrderedVideoClips(timeline);
+  const previousShotIds = new Map(originalClips.map((clip, i) => [clip.id, originalClips[i - 1]?.shotId]));
+
+  const laidOut: VideoClip[] = [];
+  shots.forEach(shot => {
+    const original = originalClips.find(clip => clip.shotId === shot.id);
+    if (!original) return;
+
+    const prevClip = laidOut[laidOut.length - 1];
+    const prevShot = prevClip && shots.find(other => other.id === prevClip.shotId);
+    let transition: ClipTransition | undefined;
+    if (prevClip && prevShot) {
+      transition = previousShotIds.get(original.id) === prevShot.id
+        ? original.transition
+        : getDefaultTransition(prevShot, shot);
+    }
+    const overlap = prevClip ? getTransitionOverlap(transition, prevClip.duration, original.duration) : 0;
+
+    const clip: VideoClip = {
+      ...original,
+      startTime: prevClip ? Math.max(0, prevClip.startTime + prevClip.duration - overlap) : 0,
+      transition,
+    };
+    if (!transition) delete clip.transition;
+    laidOut.push(clip);
+  });
+
+  // How far each narration clip moves, by narration segment ID
+  const narrationShifts = new Map<string, number>();
+  if (anchor === 'shot') {
+    for (const clip of timeline.tracks.flatMap(track => track.clips)) {
+      if (clip.type !== 'audio' || clip.audioType !== 'narration') continue;
+      // During a transition the narration belongs to the incoming shot
+      const owner = [...originalClips].reverse().find(video =>
+        video.startTime <= clip.startTime + 0.001 && clip.startTime < video.startTime + video.duration
+      );
+      const placed = owner && laidOut.find(video => video.id === owner.id);
+      if (owner && placed && placed.startTime !== owner.startTime) {
+        narrationShifts.set(clip.sourceId, placed.startTime - owner.startTime);
+      }
+    }
+  }
+  const shiftStart = (id: string, startTime: number) => Math.max(0, startTime + (narrationShifts.get(id) ?? 0));
+
   const updatedTracks = timeline.tracks.map(track => {
-    if (track.type !== 'audio') return track;
+    if (track.type === 'video') {
+      return { ...track, clips: [...laidOut, ...track.clips.filter(clip => !isVideoClip(clip))] };
+    }
+    return {
+      ...track,
+      clips: track.clips.map(clip =>
+        clip.type === 'audio' && clip.audioType === 'narration' && narrationShifts.has(clip.sourceId)
+          ? { ...clip, startTime: shiftStart(clip.sourceId, clip.startTime) }
+          : clip
+      ),
+    };
+  });
+
+  const narration = storyboard.narration?.map(segment => {
+    if (!narrationShifts.has(segment.id)) return segment;
+    const startTime = shiftStart(segment.id, segment.startTime);
+    return { ...segment, startTime, endTime: startTime + segment.endTime - segment.startTime };
+  });
+
+  return {
+    storyboard: { ...storyboard, shots, ...(narration && { narration }) },
+    timeline: {
+      tracks: updatedTracks,
+      totalDuration: calculateTotalDuration(updatedTracks),
+    },
+  };
+}
 
-    // Check if music clip already exists (placeholder from storyboard)
-    const existingMusicClip = track.clips.find(
-      clip => clip.type === 'audio' && clip.audioType === 'music'
+/**
+ * Swap in the video clips (already laid out) and move every clip on the other tracks
+ * that starts at or after `fromTime` by `shift` seconds
+ */
+function replaceVideoClips(timeline: Timeline, videoClips: VideoClip[], fromTime: number, shift: number): Timeline {
+  const hasVideoTrack = timeline.tracks.some(track => track.type === 'video');
+  const tracks: TimelineTrack[] = hasVideoTrack
+    ? timeline.tracks
+    : [{ id: 'track-video', type: 'video', clips: [] }, ...timeline.tracks];
+
+  const updatedTracks = tracks.map(track => {
+    if (track.type === 'video') {
+      return { ...track, clips: [...videoClips, ...track.clips.filter(clip => !isVideoClip(clip))] };
+    }
+    if (shift === 0) return track;
+    return {
+      ...track,
+      clips: track.clips.map(clip =>
+        clip.startTime >= fromTime - 0.001 ? { ...clip, startTime: Math.max(0, clip.startTime + shift) } : clip
+      ),
+    };
+  });
+
+  return {
+    tracks: updatedTracks,
+    totalDuration: calculateTotalDuration(updatedTracks),
+  };
+}
+
+/**
+ * Move the storyboard's narration segments along with their clips when replaceVideoClips
+ * ripples the clips that start at or after `fromTime`
+ */
+function shiftNarrationSegments(
+  storyboard: StoryboardResponse,
+  timeline: Timeline,
+  fromTime: number,
+  shift: number
+): StoryboardResponse {
+  if (!storyboard.narration || shift === 0) return storyboard;
+
+  const moved = new Set(
+    timeline.tracks
+      .flatMap(track => track.clips)
+      .filter(isNarrationClip)
+      .filter(clip => clip.startTime >= fromTime - 0.001)
+      .map(clip => clip.sourceId)
+  );
+
+  return {
+    ...storyboard,
+    narration: storyboard.narration.map(segment => {
+      if (!moved.has(segment.id)) return segment;
+      const startTime = Math.max(0, segment.startTime + shift);
+      return { ...segment, startTime, endTime: startTime + segment.endTime - segment.startTime };
+    }),
+  };
+}
+
+/**
+ * Put `shot` into the storyboard with a clip at position `index` on the video track.
+ * The clips from `index` on ripple later to make room, along with whatever on the other
+ * tracks starts with or after them; transitions on either side of the new clip are the
+ * defaults for its neighbours.
+ */
+function insertShotAt(
+  storyboard: StoryboardResponse,
+  timeline: Timeline,
+  shot: StoryboardShot,
+  timing: Pick<VideoClip, 'duration' | 'trimStart' | 'trimEnd'>,
+  index: number
+): { storyboard: StoryboardResponse; timeline: Timeline } {
+  const videoClips = getOrderedVideoClips(timeline);
+  const prev = videoClips[index - 1];
+  const next = videoClips[index];
+  const prevShot = prev && storyboard.shots.find(other => other.id === prev.shotId);
+  const nextShot = next && storyboard.shots.find(other => other.id === next.shotId);
+
+  // The shot goes before the shot of the clip it's inserted in front of
+  const shots = [...storyboard.shots];
+  const shotIndex = nextShot ? shots.indexOf(nextShot) : shots.length;
+  shots.splice(shotIndex, 0, shot);
+
+  const transition = prevShot ? getDefaultTransition(prevShot, shot) : undefined;
+  const inserted: VideoClip = {
+    id: `video-${shot.id}`,
+    type: 'video',
+    shotId: shot.id,
+    startTime: prev
+      ? Math.max(0, prev.startTime + prev.duration - getTransitionOverlap(transition, prev.duration, timing.duration))
+      : next?.startTime ?? 0,
+    duration: timing.duration,
+    ...(timing.trimStart !== undefined && { trimStart: timing.trimStart }),
+    ...(timing.trimEnd !== undefined && { trimEnd: timing.trimEnd }),
+    ...(transition && { transition }),
+  };
+
+  const laidOut = [...videoClips.slice(0, index), inserted];
+  let shift = 0;
+  if (next) {
+    const nextTransition = nextShot ? getDefaultTransition(shot, nextShot) : next.transition;
+    const nextStart = inserted.startTime + inserted.duration
+      - getTransitionOverlap(nextTransition, inserted.duration, next.duration);
+    shift = nextStart - next.startTime;
+    laidOut.push(
+      { ...next, startTime: nextStart, ...(nextTransition && { transition: nextTransition }) },
+      ...videoClips.slice(index + 1).map(clip => ({ ...clip, startTime: clip.startTime + shift }))
     );
+  }
 
-    if (existingMusicClip) {
-      // Update existing placeholder with actual duration
-      const updatedClips = track.clips.map(clip =>
-        clip.type === 'audio' && clip.audioType === 'music'
-          ? { ...clip, duration: musicDuration, startTime }
-          : clip
-      );
+  const fromTime = next?.startTime ?? Infinity;
+  return {
+    storyboard: shiftNarrationSegments({ ...storyboard, shots: renumberShots(shots) }, timeline, fromTime, shift),
+    timeline: replaceVideoClips(timeline, laidOut, fromTime, shift),
+  };
+}
+
+/**
+ * Add a new shot at the cut nearest `time` (before the first clip whose middle is after
+ * it), with the clip length a generated storyboard would give it. Nothing is generated
+ * for the shot yet.
+ */
+export function insertShot(
+  storyboard: StoryboardResponse,
+  timeline: Timeline,
+  shot: StoryboardShot,
+  time: number
+): { storyboard: StoryboardResponse; timeline: Timeline } {
+  const index = getOrderedVideoClips(timeline).filter(clip => clip.startTime + clip.duration / 2 < time).length;
+  return insertShotAt(storyboard, timeline, shot, getShotClipTiming(shot), index);
+}
+
+/**
+ * Copy a shot, with the same length and trim, right after the original. `shot` is the
+ * copy (null if there's no such shot); its generated still and video are the original's
+ * to reuse.
+ */
+export function duplicateShot(
+  storyboard: StoryboardResponse,
+  timeline: Timeline,
+  shotId: string
+): { storyboard: StoryboardResponse; timeline: Timeline; shot: StoryboardShot | null } {
+  const original = storyboard.shots.find(shot => shot.id === shotId);
+  if (!original) return { storyboard, timeline, shot: null };
+
+  const copy: StoryboardShot = { ...original, id: `shot-${crypto.randomUUID()}`, title: `${original.title} (copy)` };
+  const videoClips = getOrderedVideoClips(timeline);
+  const index = videoClips.findIndex(clip => clip.shotId === shotId);
+  const timing = index >= 0 ? videoClips[index] : getShotClipTiming(original);
 
+  return {
+    ...insertShotAt(storyboard, timeline, copy, timing, index >= 0 ? index + 1 : videoClips.length),
+    shot: copy,
+  };
+}
+
+/**
+ * Split a shot's clip in two at `time`. The second half becomes a new shot that plays
+ * the rest of the same source video (a copy of the shot, trimmed to start where the
+ * first half stops), joined with a cut; nothing else moves. `shot` is the new shot, or
+ * null if `time` isn't at least MIN_TRIMMED_CLIP_SECONDS inside the clip.
+ */
+export function splitShot(
+  storyboard: StoryboardResponse,
+  timeline: Timeline,
+  shotId: string,
+  time: number
+): { storyboard: StoryboardResponse; timeline: Timeline; shot: StoryboardShot | null } {
+  const original = storyboard.shots.find(shot => shot.id === shotId);
+  const clip = getOrderedVideoClips(timeline).find(videoClip => videoClip.shotId === shotId);
+  const offset = clip ? time - clip.startTime : 0;
+  if (!original || !clip || offset < MIN_TRIMMED_CLIP_SECONDS || clip.duration - offset < MIN_TRIMMED_CLIP_SECONDS) {
+    return { storyboard, timeline, shot: null };
+  }
+
+  const secondHalf: StoryboardShot = { ...original, id: `shot-${crypto.randomUUID()}`, title: `${original.title} (2)` };
+  const { trimStart, trimEnd } = getClipTrim(clip, original);
+  const first: VideoClip = { ...clip, duration: offset, trimStart, trimEnd: trimStart + offset };
+  const second: VideoClip = {
+    id: `video-${secondHalf.id}`,
+    type: 'video',
+    shotId: secondHalf.id,
+    startTime: clip.startTime + offset,
+    duration: clip.duration - offset,
+    trimStart: trimStart + offset,
+    trimEnd,
+  };
+
+  const shots = [...storyboard.shots];
+  shots.splice(shots.indexOf(original) + 1, 0, secondHalf);
+
+  const updatedTracks = timeline.tracks.map(track => ({
+    ...track,
+    clips: track.clips.flatMap(other => (other.id === clip.id ? [first, second] : [other])),
+  }));
+
+  return {
+    storyboard: { ...storyboard, shots: renumberShots(shots) },
+    timeline: {
+      tracks: updatedTracks,
+      totalDuration: calculateTotalDuration(updatedTracks),
+    },
+    shot: secondHalf,
+  };
+}
+
+/**
+ * Remove a shot and its clip. The clips after it ripple earlier to close the gap, along
+ * with whatever on the other tracks starts with or after them, and the shots either
+ * side are joined with their default transition. The last shot can't be deleted.
+ */
+export function deleteShot(
+  storyboard: StoryboardResponse,
+  timeline: Timeline,
+  shotId: string
+): { storyboard: StoryboardResponse; timeline: Timeline } {
+  const shots = storyboard.shots.filter(shot => shot.id !== shotId);
+  if (shots.length === storyboard.shots.length || shots.length === 0) return { storyboard, timeline };
+
+  const updatedStoryboard = { ...storyboard, shots: renumberShots(shots) };
+  const videoClips = getOrderedVideoClips(timeline);
+  const index = videoClips.findIndex(clip => clip.shotId === shotId);
+  if (index < 0) return { storyboard: updatedStoryboard, timeline };
+
+  const removed = videoClips[index];
+  const prev = videoClips[index - 1];
+  const next = videoClips[index + 1];
+  const laidOut = videoClips.slice(0, index);
+  let shift = 0;
+  if (next) {
+    const prevShot = prev && shots.find(shot => shot.id === prev.shotId);
+    const nextShot = shots.find(shot => shot.id === next.shotId);
+    const transition = prevShot && nextShot ? getDefaultTransition(prevShot, nextShot) : undefined;
+    const nextStart = prev
+      ? prev.startTime + prev.duration - getTransitionOverlap(transition, prev.duration, next.duration)
+      : removed.startTime;
+    shift = nextStart - next.startTime;
+
+    const joined: VideoClip = { ...next, startTime: Math.max(0, nextStart), transition };
+    if (!transition) delete joined.transition;
+    laidOut.push(
+      joined,
+      ...videoClips.slice(index + 2).map(clip => ({ ...clip, startTime: Math.max(0, clip.startTime + shift) }))
+    );
+  }
+
+  const fromTime = next?.startTime ?? Infinity;
+  return {
+    storyboard: shiftNarrationSegments(updatedStoryboard, timeline, fromTime, shift),
+    timeline: replaceVideoClips(timeline, laidOut, fromTime, shift),
+  };
+}
+
+/**
+ * Add a text clip from a preset. End cards go at the end of the reel, everything
+ * else at `startTime`; the clip is shortened so it doesn't run past the reel.
+ */
+export function addTextClip(
+  timeline: Timeline,
+  preset: TextPreset,
+  startTime: number
+): { timeline: Timeline; clip: TextClip } {
+  const clip = createTextClip(preset, 0);
+  const reelDuration = timeline.totalDuration || clip.duration;
+  clip.startTime = preset === 'end-card'
+    ? Math.max(0, reelDuration - clip.duration)
+    : Math.max(0, Math.min(startTime, reelDuration - 1));
+  clip.duration = Math.min(clip.duration, reelDuration - clip.startTime);
+
+  const hasTextTrack = timeline.tracks.some(track => track.type === 'text');
+  const updatedTracks: TimelineTrack[] = hasTextTrack
+    ? timeline.tracks.map(track =>
+        track.type === 'text' ? { ...track, clips: [...track.clips, clip] } : track
+      )
+    : [...timeline.tracks, { id: 'track-text', type: 'text', clips: [clip] }];
+
+  return {
+    timeline: {
+      tracks: updatedTracks,
+      totalDuration: calculateTotalDuration(updatedTracks),
+    },
+    clip,
+  };
+}
+
+/**
+ * Update a text clip's content, layout or animation
+ */
+export function updateTextClip(
+  timeline: Timeline,
+  clipId: string,
+  updates: Partial<Omit<TextClip, 'id' | 'type'>>
+): Timeline {
+  const updatedTracks = timeline.tracks.map(track => ({
+    ...track,
+    clips: track.clips.map(clip =>
+      clip.id === clipId && clip.type === 'text'
+        ? { ...clip, ...updates }
+        : clip
+    ),
+  }));
+
+  return {
+    tracks: updatedTracks,
+    totalDuration: calculateTotalDuration(updatedTracks),
+  };
+}
+
+/**
+ * Remove a clip; tracks left empty are dropped like in storyboardToTimeline
+ */
+export function removeTimelineClip(timeline: Timeline, clipId: string): Timeline {
+  const updatedTracks = timeline.tracks
+    .map(track => ({
+      ...track,
+      clips: track.clips.filter(clip => clip.id !== clipId),
+    }))
+    .filter(track => track.clips.length > 0);
+
+  return {
+    tracks: updatedTracks,
+    totalDuration: calculateTotalDuration(updatedTracks),
+  };
+}
+
+// Overlap given to a new music clip and the clip it cuts into
+const MUSIC_CROSSFADE_SECONDS = 1;
+const MIN_MUSIC_CLIP_SECONDS = 1;
+
+/**
+ * Give music to every music clip that has none yet (e.g. the placeholder from the
+ * storyboard), running each to `musicEnd`. Adds a clip from 0 if the timeline has no music clips.
+ */
+export function addMusicToTimeline(
+  timeline: Timeline,
+  musicAssetId: string,
+  musicEnd: number
+): Timeline {
+  const hasMusicClip = timeline.tracks.some(track => track.clips.some(isMusicClip));
+
+  const updatedTracks = timeline.tracks.map(track => {
+    if (track.type !== 'audio') return track;
+
+    if (hasMusicClip) {
       return {
         ...track,
-        clips: updatedClips,
-      };
-    } else {
-      // No placeholder exists, add new music clip
-      const musicClip: AudioClip = {
-        id: 'music-background',
-        type: 'audio' as const,
-        audioType: 'music' as const,
-        sourceId: 'background-music',
-        startTime,
-        duration: musicDuration,
-        volume: 0.3,
+        clips: track.clips.map(clip =>
+          isMusicClip(clip) && !clip.sourceId
+            ? { ...clip, sourceId: musicAssetId, duration: Math.max(MIN_MUSIC_CLIP_SECONDS, musicEnd - clip.startTime) }
+            : clip
+        ),
       };
+    }
 
+    const musicClip: MusicClip = {
+      id: 'music-background',
+      type: 'audio' as const,
+      audioType: 'music' as const,
+      sourceId: musicAssetId,
+      startTime: 0,
+      duration: musicEnd,
+      volume: 0.3,
+    };
+
+    return {
+      ...track,
+      clips: [...track.clips, musicClip],
+    };
+  });
+
+  return {
+    tracks: updatedTracks,
+    totalDuration: calculateTotalDuration(updatedTracks),
+  };
+}
+
+/**
+ * Start a new music cue at `startTime`, running to the end of the video. A music
+ * clip already playing there is shortened to crossfade into the new one.
+ */
+export function addMusicClip(
+  timeline: Timeline,
+  musicAssetId: string,
+  startTime: number
+): { timeline: Timeline; clip: MusicClip } {
+  const reelEnd = calculateVideoDuration(timeline) || timeline.totalDuration;
+  const clip: MusicClip = {
+    id: `music-${Date.now()}`,
+    type: 'audio',
+    audioType: 'music',
+    sourceId: musicAssetId,
+    startTime,
+    duration: Math.max(MIN_MUSIC_CLIP_SECONDS, reelEnd - startTime),
+    volume: 0.3,
+  };
+
+  const updatedTracks = timeline.tracks.map(track => {
+    if (track.type !== 'audio') return track;
+
+    const clips = track.clips.map(existing => {
+      if (!isMusicClip(existing)) return existing;
+      const end = existing.startTime + existing.duration;
+      if (existing.startTime >= startTime || end <= startTime) return existing;
       return {
-        ...track,
-        clips: [...track.clips, musicClip],
+        ...existing,
+        duration: Math.max(MIN_MUSIC_CLIP_SECONDS, startTime + MUSIC_CROSSFADE_SECONDS - existing.startTime),
       };
+    });
+
+    return { ...track, clips: [...clips, clip] };
+  });
+
+  return {
+    timeline: {
+      tracks: updatedTracks,
+      totalDuration: calculateTotalDuration(updatedTracks),
+    },
+    clip,
+  };
+}
+
+/**
+ * Change a music clip's source, fades or length
+ */
+export function updateMusicClip(
+  timeline: Timeline,
+  clipId: string,
+  updates: Partial<Pick<MusicClip, 'sourceId' | 'duration' | 'fadeIn' | 'fadeOut'>>
+): Timeline {
+  const updatedTracks = timeline.tracks.map(track => ({
+    ...track,
+    clips: track.clips.map(clip =>
+      clip.id === clipId && isMusicClip(clip) ? { ...clip, ...updates } : clip
+    ),
+  }));
+
+  return {
+    tracks: updatedTracks,
+    totalDuration: calculateTotalDuration(updatedTracks),
+  };
+}
+
+// Ambient beds placed on the timeline cover this much (they loop to fill it)
+const DEFAULT_AMBIENT_SECONDS = 10;
+const MIN_SOUND_EFFECT_CLIP_SECONDS = 0.1;
+
+/**
+ * Place a sound from the sound effect library at `startTime`, on the audio track.
+ * SFX last as long as the sound; ambient beds loop, so they get a longer clip
+ * (capped at the end of the reel).
+ */
+export function addSoundEffectClip(
+  timeline: Timeline,
+  effect: SoundEffect,
+  startTime: number
+): { timeline: Timeline; clip: SoundEffectClip } {
+  const reelEnd = calculateVideoDuration(timeline) || timeline.totalDuration;
+  const clipStart = Math.max(0, Math.min(startTime, reelEnd - MIN_SOUND_EFFECT_CLIP_SECONDS));
+  const length = effect.kind === 'ambient'
+    ? Math.max(DEFAULT_AMBIENT_SECONDS, effect.durationSeconds)
+    : effect.durationSeconds;
+
+  const clip: SoundEffectClip = {
+    id: `${effect.kind}-${Date.now()}`,
+    type: 'audio',
+    audioType: effect.kind,
+    sourceId: effect.audioAssetId,
+    startTime: clipStart,
+    duration: Math.max(MIN_SOUND_EFFECT_CLIP_SECONDS, Math.min(length, reelEnd - clipStart)),
+    volume: effect.kind === 'ambient' ? 0.5 : 1,
+  };
+
+  const hasAudioTrack = timeline.tracks.some(track => track.type === 'audio');
+  const updatedTracks: TimelineTrack[] = hasAudioTrack
+    ? timeline.tracks.map(track =>
+        track.type === 'audio' ? { ...track, clips: [...track.clips, clip] } : track
+      )
+    : [...timeline.tracks, { id: 'track-audio', type: 'audio', clips: [clip] }];
+
+  return {
+    timeline: {
+      tracks: updatedTracks,
+      totalDuration: calculateTotalDuration(updatedTracks),
+    },
+    clip,
+  };
+}
+
+/**
+ * Change a sound effect or ambient clip's volume or length
+ */
+export function updateSoundEffectClip(
+  timeline: Timeline,
+  clipId: string,
+  updates: Partial<Pick<SoundEffectClip, 'volume' | 'duration'>>
+): Timeline {
+  const updatedTracks = timeline.tracks.map(track => ({
+    ...track,
+    clips: track.clips.map(clip =>
+      clip.id === clipId && isSoundEffectClip(clip) ? { ...clip, ...updates } : clip
+    ),
+  }));
+
+  return {
+    tracks: updatedTracks,
+    totalDuration: calculateTotalDuration(updatedTracks),
+  };
+}
+
+// Length of a new narration clip until its audio is generated
+const NEW_NARRATION_SECONDS = 3;
+const MIN_NARRATION_CLIP_SECONDS = 0.5;
+
+function createNarrationClip(segment: NarrationSegment, startTime: number, duration: number): AudioClip {
+  return {
+    id: `audio-${segment.id}`,
+    type: 'audio',
+    audioType: 'narration',
+    sourceId: segment.id,
+    text: segment.text,
+    startTime,
+    duration,
+  };
+}
+
+/**
+ * Where a narration segment plays: its clip, or the storyboard times if it has none
+ */
+function getSegmentPlacement(timeline: Timeline, segment: NarrationSegment): { startTime: number; duration: number } {
+  const clip = timeline.tracks
+    .flatMap(track => track.clips)
+    .find(other => isNarrationClip(other) && other.sourceId === segment.id);
+  return clip
+    ? { startTime: clip.startTime, duration: clip.duration }
+    : { startTime: segment.startTime, duration: segment.endTime - segment.startTime };
+}
+
+/**
+ * Swap the clips of the `removedIds` narration segments for `added`; tracks left
+ * empty are dropped like in removeTimelineClip
+ */
+function replaceNarrationClips(timeline: Timeline, removedIds: string[], added: AudioClip[]): Timeline {
+  const hasAudioTrack = timeline.tracks.some(track => track.type === 'audio');
+  const tracks: TimelineTrack[] = hasAudioTrack
+    ? timeline.tracks
+    : [...timeline.tracks, { id: 'track-audio', type: 'audio', clips: [] }];
+
+  const updatedTracks = tracks
+    .map(track => {
+      const clips = track.clips.filter(clip => !(isNarrationClip(clip) && removedIds.includes(clip.sourceId)));
+      return { ...track, clips: track.type === 'audio' ? [...clips, ...added] : clips };
+    })
+    .filter(track => track.clips.length > 0);
+
+  return {
+    tracks: updatedTracks,
+    totalDuration: calculateTotalDuration(updatedTracks),
+  };
+}
+
+/**
+ * Add an empty narration segment at `time`, with a placeholder clip that fits in
+ * the reel; the clip takes the length of its audio once that's generated
+ */
+export function addNarrationSegment(
+  storyboard: StoryboardResponse,
+  timeline: Timeline,
+  time: number
+): { storyboard: StoryboardResponse; timeline: Timeline; segment: NarrationSegment } {
+  const reelEnd = calculateVideoDuration(timeline) || timeline.totalDuration;
+  const startTime = Math.max(0, Math.min(time, reelEnd - MIN_NARRATION_CLIP_SECONDS));
+  const duration = Math.max(MIN_NARRATION_CLIP_SECONDS, Math.min(NEW_NARRATION_SECONDS, reelEnd - startTime));
+  const segment: NarrationSegment = {
+    id: `narration-${crypto.randomUUID()}`,
+    text: '',
+    startTime,
+    endTime: startTime + duration,
+  };
+
+  return {
+    storyboard: {
+      ...storyboard,
+      narration: [...(storyboard.narration || []), segment].sort((a, b) => a.startTime - b.startTime),
+    },
+    timeline: replaceNarrationClips(timeline, [], [createNarrationClip(segment, startTime, duration)]),
+    segment,
+  };
+}
+
+/**
+ * The narration segment that plays after `segmentId` on the timeline, if any
+ */
+export function getNextNarrationSegment(
+  storyboard: StoryboardResponse,
+  timeline: Timeline,
+  segmentId: string
+): NarrationSegment | null {
+  const placed = (storyboard.narration || [])
+    .map(segment => ({ segment, startTime: getSegmentPlacement(timeline, segment).startTime }))
+    .sort((a, b) => a.startTime - b.startTime);
+  const index = placed.findIndex(({ segment }) => segment.id === segmentId);
+  return index >= 0 ? placed[index + 1]?.segment ?? null : null;
+}
+
+/**
+ * Split a narration segment before word `wordIndex` (see getSentenceBoundaries) into
+ * two new segments with the same voice, each with its own clip in place of the
+ * original one.
+ *
+ * When `audio` is the segment's generated narration and still matches its text, it's
+ * cut at the same word and returned for the two halves, which then play back exactly as
+ * before. Otherwise the clip is divided in proportion to the text and `audio` is empty,
+ * so the halves need new audio.
+ */
+export function splitNarrationSegment(
+  storyboard: StoryboardResponse,
+  timeline: Timeline,
+  segmentId: string,
+  wordIndex: number,
+  audio?: NarrationGenerationResponse
+): { storyboard: StoryboardResponse; timeline: Timeline; segments: NarrationSegment[]; audio: NarrationGenerationResponse[] } {
+  const segment = storyboard.narration?.find(other => other.id === segmentId);
+  const words = segment ? splitNarrationWords(segment.text) : [];
+  if (!segment || wordIndex <= 0 || wordIndex >= words.length) {
+    return { storyboard, timeline, segments: [], audio: [] };
+  }
+
+  const firstText = words.slice(0, wordIndex).join(' ');
+  const secondText = words.slice(wordIndex).join(' ');
+  const firstId = `narration-${crypto.randomUUID()}`;
+  const secondId = `narration-${crypto.randomUUID()}`;
+  const audioMatches = !!audio && splitNarrationWords(audio.text).join(' ') === words.join(' ');
+  const splitAudio = audio && audioMatches ? splitNarrationAudio(audio, wordIndex, firstId, secondId) : null;
+
+  const { startTime, duration } = getSegmentPlacement(timeline, segment);
+  const estimatedCut = splitAudio
+    ? splitAudio[0].durationSeconds
+    : duration * (firstText.length / (firstText.length + secondText.length));
+  const cut = Math.max(MIN_NARRATION_CLIP_SECONDS, Math.min(estimatedCut, duration - MIN_NARRATION_CLIP_SECONDS));
+
+  const first: NarrationSegment = { ...segment, id: firstId, text: firstText, startTime, endTime: startTime + cut };
+  const second: NarrationSegment = { ...segment, id: secondId, text: secondText, startTime: startTime + cut, endTime: startTime + duration };
+
+  return {
+    storyboard: {
+      ...storyboard,
+      narration: (storyboard.narration || []).flatMap(other => (other.id === segmentId ? [first, second] : [other])),
+    },
+    timeline: replaceNarrationClips(timeline, [segmentId], [
+      createNarrationClip(first, startTime, cut),
+      createNarrationClip(second, startTime + cut, duration - cut),
+    ]),
+    segments: [first, second],
+    audio: splitAudio ?? [],
+  };
+}
+
+/**
+ * Join a narration segment with the one after it into a new segment, with the first
+ * one's voice and a clip covering both. Its audio has to be generated again; `segment`
+ * is null when there's nothing to merge with.
+ */
+export function mergeNarrationSegments(
+  storyboard: StoryboardResponse,
+  timeline: Timeline,
+  segmentId: string
+): { storyboard: StoryboardResponse; timeline: Timeline; segment: NarrationSegment | null } {
+  const segment = storyboard.narration?.find(other => other.id === segmentId);
+  const next = getNextNarrationSegment(storyboard, timeline, segmentId);
+  if (!segment || !next) return { storyboard, timeline, segment: null };
+
+  const first = getSegmentPlacement(timeline, segment);
+  const second = getSegmentPlacement(timeline, next);
+  const startTime = Math.min(first.startTime, second.startTime);
+  const endTime = Math.max(first.startTime + first.duration, second.startTime + second.duration);
+  const merged: NarrationSegment = {
+    ...segment,
+    id: `narration-${crypto.randomUUID()}`,
+    text: [segment.text, next.text].map(text => text.trim()).filter(Boolean).join(' '),
+    startTime,
+    endTime,
+  };
+
+  return {
+    storyboard: {
+      ...storyboard,
+      narration: (storyboard.narration || [])
+        .filter(other => other.id !== next.id)
+        .map(other => (other.id === segmentId ? merged : other)),
+    },
+    timeline: replaceNarrationClips(timeline, [segmentId, next.id], [
+      createNarrationClip(merged, startTime, endTime - startTime),
+    ]),
+    segment: merged,
+  };
+}
+
+/**
+ * Remove a narration segment and its clip
+ */
+export function deleteNarrationSegment(
+  storyboard: StoryboardResponse,
+  timeline: Timeline,
+  segmentId: string
+): { storyboard: StoryboardResponse; timeline: Timeline } {
+  return {
+    storyboard: {
+      ...storyboard,
+      narration: (storyboard.narration || []).filter(segment => segment.id !== segmentId),
+    },
+    timeline: replaceNarrationClips(timeline, [segmentId], []),
+  };
+}
+
+// Space left between narration segments that had to be moved to fit
+const NARRATION_GAP_SECONDS = 0.2;
+
+/**
+ * Copy of the timeline in another language: translated text on narration and text
+ * clips, and narration clips resized to their new audio and refit onto the same video.
+ *
+ * Segments keep their original start where they can. A longer segment pushes the
+ * following ones later; if narration then runs past the end of the video, segments
+ * are pulled back from the end. Anything that still overlaps is reported as a warning.
+ */
+export function localizeTimeline(
+  timeline: Timeline,
+  narrationText: Record<string, string>,
+  narrationDurations: Record<string, number>,
+  textOverlays: Record<string, string>
+): { timeline: Timeline; warnings: string[] } {
+  const warnings: string[] = [];
+  const reelEnd = calculateVideoDuration(timeline) || timeline.totalDuration;
+
+  const narrationClips = timeline.tracks
+    .flatMap(track => track.clips)
+    .filter((clip): clip is Extract<AudioClip, { audioType: 'narration' }> =>
+      clip.type === 'audio' && clip.audioType === 'narration'
+    )
+    .sort((a, b) => a.startTime - b.startTime);
+
+  const durations = narrationClips.map(clip => narrationDurations[clip.sourceId] ?? clip.duration);
+  const starts = narrationClips.map(clip => clip.startTime);
+
+  // Forward: push segments later so none starts before the previous one ends
+  for (let i = 1; i < starts.length; i++) {
+    const previousEnd = starts[i - 1] + durations[i - 1];
+    if (starts[i] < previousEnd) {
+      starts[i] = previousEnd + NARRATION_GAP_SECONDS;
     }
+  }
+
+  // Backward: pull segments earlier so narration ends with the video
+  let limit = reelEnd;
+  for (let i = starts.length - 1; i >= 0; i--) {
+    if (starts[i] + durations[i] > limit) {
+      starts[i] = Math.max(0, limit - durations[i]);
+    }
+    limit = starts[i] - NARRATION_GAP_SECONDS;
+  }
+
+  narrationClips.forEach((_clip, i) => {
+    const end = starts[i] + durations[i];
+    const nextStart = starts[i + 1];
+    if (end > reelEnd + 0.05) {
+      warnings.push(`Narration segment ${i + 1} runs ${(end - reelEnd).toFixed(1)}s past the end of the video`);
+    } else if (nextStart !== undefined && end > nextStart + 0.05) {
+      warnings.push(`Narration segment ${i + 1} overlaps the next segment by ${(end - nextStart).toFixed(1)}s`);
+    }
+  });
+
+  const placement = new Map(narrationClips.map((clip, i) => [clip.id, { startTime: starts[i], duration: durations[i] }]));
+
+  const updatedTracks = timeline.tracks.map(track => ({
+    ...track,
+    clips: track.clips.map(clip => {
+      if (clip.type === 'audio' && clip.audioType === 'narration') {
+        return {
+          ...clip,
+          ...placement.get(clip.id),
+          text: narrationText[clip.sourceId] ?? clip.text,
+        };
+      }
+      if (clip.type === 'text' && textOverlays[clip.id]) {
+        return { ...clip, text: textOverlays[clip.id] };
+      }
+      return clip;
+    }),
+  }));
+
+  return {
+    timeline: {
+      tracks: updatedTracks,
+      totalDuration: calculateTotalDuration(updatedTracks),
+    },
+    warnings,
+  };
+}
+
+/**
+ * The current timeline in a localized version's language. Narration and text added
+ * since the reel was translated keep the original language and are reported as warnings.
+ */
+export function applyLocalization(
+  timeline: Timeline,
+  localization: LocalizedVersion
+): { timeline: Timeline; warnings: string[] } {
+  const clips = timeline.tracks.flatMap(track => track.clips);
+  const durations = Object.fromEntries(
+    Object.entries(localization.generatedNarration).map(([id, result]) => [id, result.durationSeconds])
+  );
+
+  const localized = localizeTimeline(timeline, localization.narrationText, durations, localization.textOverlays);
+  const warnings = localized.warnings.map(warning => `${warning}; shorten the translation or regenerate`);
+
+  const untranslatedNarration = clips.filter(isNarrationClip).filter(clip => !localization.generatedNarration[clip.sourceId]);
+  if (untranslatedNarration.length > 0) {
+    warnings.push(`${untranslatedNarration.length} narration segment(s) changed since this version was translated; re-localize to update them`);
+  }
+  const untranslatedText = clips.filter(isTextClip).filter(clip => !localization.textOverlays[clip.id]);
+  if (untranslatedText.length > 0) {
+    warnings.push(`${untranslatedText.length} text overlay(s) added since this version was translated; re-localize to update them`);
+  }
+
+  return { timeline: localized.timeline, warnings };
+}
+
+// Shortest a clip may be trimmed to when aligning cuts
+const MIN_ALIGNED_CLIP_SECONDS = 2;
+// A cut this close after a downbeat counts as on it
+const BEAT_SNAP_TOLERANCE_SECONDS = 0.05;
+
+/**
+ * Move every video cut onto a downbeat of the music. `downbeats` are seconds into the
+ * music audio, which starts at `musicStartTime` on the timeline.
+ *
+ * Each clip is shortened so it ends on the latest downbeat at or before its current end,
+ * at most one bar earlier, and never below MIN_ALIGNED_CLIP_SECONDS; clips are only ever
+ * shortened because there may be no footage past their end. Later video clips ripple
+ * earlier to close the gap, keeping their transitions and any gaps between them.
+ * Narration, text and sound effects move with the clip they start over; music stays
+ * where it is, since that is what the cuts are aligned to.
+ */
+export function alignCutsToBeats(
+  timeline: Timeline,
+  downbeats: number[],
+  musicStartTime = 0
+): Timeline {
+  const beats = downbeats.map(time => time + musicStartTime).sort((a, b) => a - b);
+  if (beats.length < 2) return timeline;
+
+  const barLength = (beats[beats.length - 1] - beats[0]) / (beats.length - 1);
+
+  const originalClips = getOrderedVideoClips(timeline);
+  const alignedClips: VideoClip[] = [];
+
+  originalClips.forEach((original, i) => {
+    let startTime = original.startTime;
+    const prevOriginal = originalClips[i - 1];
+    const prevAligned = alignedClips[i - 1];
+    if (prevOriginal && prevAligned) {
+      // Keep the clip's relationship to the end of the previous one (overlap or gap)
+      const gap = original.startTime
+        - (prevOriginal.startTime + prevOriginal.duration
+          - getTransitionOverlap(original.transition, prevOriginal.duration, original.duration));
+      startTime = prevAligned.startTime + prevAligned.duration
+        - getTransitionOverlap(original.transition, prevAligned.duration, original.duration)
+        + gap;
+    }
+
+    const end = startTime + original.duration;
+    const downbeat = [...beats].reverse().find(time => time <= end + BEAT_SNAP_TOLERANCE_SECONDS);
+    const canSnap = downbeat !== undefined
+      && downbeat >= end - barLength
+      && downbeat - startTime >= MIN_ALIGNED_CLIP_SECONDS;
+    const duration = canSnap
+      ? Math.round(Math.min(original.duration, downbeat - startTime) * 1000) / 1000
+      : original.duration;
+
+    alignedClips.push({
+      ...original,
+      startTime: Math.max(0, startTime),
+      duration,
+      ...(original.trimStart !== undefined && original.trimEnd !== undefined && {
+        trimEnd: Math.min(original.trimEnd, original.trimStart + duration),
+      }),
+    });
+  });
+
+  // How far the video clip playing at `time` moved, i.e. the latest one starting at or before it
+  const getShift = (time: number) => {
+    const index = originalClips.findLastIndex(clip => clip.startTime <= time + 0.001);
+    return index < 0 ? 0 : alignedClips[index].startTime - originalClips[index].startTime;
+  };
+
+  const updatedTracks = timeline.tracks.map(track => {
+    if (track.type === 'video') {
+      return { ...track, clips: [...alignedClips, ...track.clips.filter(clip => !isVideoClip(clip))] };
+    }
+    return {
+      ...track,
+      clips: track.clips.map(clip => {
+        if (isMusicClip(clip)) return clip;
+        const shift = getShift(clip.startTime);
+        return shift === 0 ? clip : { ...clip, startTime: Math.max(0, clip.startTime + shift) };
+      }),
+    };
   });
 
   return {
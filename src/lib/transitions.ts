@@ -0,0 +1,161 @@
+/**
+ * Clip Transitions
+ *
+ * A video clip's `transition` describes how it replaces the previous clip. Anything
+ * but a cut overlaps the two clips, so the incoming clip starts `duration` seconds
+ * before the outgoing one ends and the reel gets shorter by the same amount.
+ *
+ * Shared by the timeline converter (layout), the preview player (approximation with
+ * opacity and clip-path) and the stitch route (FFmpeg xfade).
+ */
+
+import type { StoryboardShot } from "@/types/storyboard";
+import type { ClipTransition, TransitionType, VideoClip } from "@/types/timeline";
+
+export const TRANSITION_LABELS: Record<TransitionType, string> = {
+  cut: "Cut",
+  crossfade: "Crossfade",
+  "dip-to-black": "Dip to black",
+  wipe: "Wipe",
+};
+
+export const DEFAULT_TRANSITION_DURATION = 0.5;
+export const MIN_TRANSITION_DURATION = 0.1;
+export const MAX_TRANSITION_DURATION = 2;
+
+// FFmpeg xfade transition names
+const XFADE_TRANSITIONS: Record<Exclude<TransitionType, "cut">, string> = {
+  crossfade: "fade",
+  "dip-to-black": "fadeblack",
+  wipe: "wipeleft",
+};
+
+export const CUT: ClipTransition = { type: "cut", duration: 0 };
+
+/**
+ * Default transition into `nextShot`: crossfade between two cinematic shots, dip to
+ * black when switching between cinematic footage and a UI recording, and a plain cut
+ * between UI recordings so the product demo keeps its pace
+ */
+export function getDefaultTransition(prevShot: StoryboardShot, nextShot: StoryboardShot): ClipTransition {
+  if (prevShot.shotType === "cinematic" && nextShot.shotType === "cinematic") {
+    return { type: "crossfade", duration: DEFAULT_TRANSITION_DURATION };
+  }
+  if (prevShot.shotType !== nextShot.shotType) {
+    return { type: "dip-to-black", duration: DEFAULT_TRANSITION_DURATION };
+  }
+  return CUT;
+}
+
+/**
+ * Seconds the two clips overlap. Never more than half of either clip, so a
+ * transition can't swallow a short clip.
+ */
+export function getTransitionOverlap(
+  transition: ClipTransition | undefined,
+  prevDuration: number,
+  nextDuration: number
+): number {
+  if (!transition || transition.type === "cut") return 0;
+  const maxOverlap = Math.min(prevDuration, nextDuration) / 2;
+  return Math.max(0, Math.min(transition.duration, maxOverlap));
+}
+
+export interface VideoFrame {
+  clip: VideoClip;
+  opacity: number;       // 0-1
+  clipPath?: string;     // CSS clip-path for wipes
+}
+
+/**
+ * Which clip the preview shows at `time`, and how. A single <video> element can't
+ * blend two clips, so transitions are approximated: the outgoing clip shows for the
+ * first half of the overlap and the incoming clip for the second.
+ *
+ * - crossfade: fade the outgoing clip to half opacity, then the incoming one up from half
+ * - dip-to-black: fade the outgoing clip out, then the incoming clip in
+ * - wipe: reveal the incoming clip from the right edge over the whole overlap
+ */
+export function getVideoFrameAtTime(videoClips: VideoClip[], time: number): VideoFrame | null {
+  const sorted = [...videoClips].sort((a, b) => a.startTime - b.startTime);
+
+  for (let i = 0; i < sorted.length; i++) {
+    const clip = sorted[i];
+    if (time < clip.startTime || time >= clip.startTime + clip.duration) continue;
+
+    const next = sorted[i + 1];
+    const overlap = next ? getTransitionOverlap(next.transition, clip.duration, next.duration) : 0;
+    const inTransitionOut = next && overlap > 0 && time >= next.startTime;
+    const prev = sorted[i - 1];
+    const overlapIn = prev ? getTransitionOverlap(clip.transition, prev.duration, clip.duration) : 0;
+    const inTransitionIn = overlapIn > 0 && time < clip.startTime + overlapIn;
+
+    if (inTransitionOut && next) {
+      const progress = (time - next.startTime) / overlap;
+      if (next.transition?.type === "wipe") {
+        return { clip: next, opacity: 1, clipPath: `inset(0 0 0 ${((1 - progress) * 100).toFixed(1)}%)` };
+      }
+      if (progress >= 0.5) continue; // Incoming clip takes over
+      return {
+        clip,
+        opacity: next.transition?.type === "dip-to-black" ? 1 - progress * 2 : 1 - progress,
+      };
+    }
+
+    if (inTransitionIn) {
+      const progress = (time - clip.startTime) / overlapIn;
+      if (clip.transition?.type === "wipe") {
+        return { clip, opacity: 1, clipPath: `inset(0 0 0 ${((1 - progress) * 100).toFixed(1)}%)` };
+      }
+      return {
+        clip,
+        opacity: clip.transition?.type === "dip-to-black" ? progress * 2 - 1 : progress,
+      };
+    }
+
+    return { clip, opacity: 1 };
+  }
+
+  return null;
+}
+
+/**
+ * FFmpeg filter graph joining `inputCount` normalized clips with their transitions.
+ * `transitions[i]` is the transition into clip i (index 0 is ignored) and `durations`
+ * are the clips' real lengths. Cuts are joined with concat, everything else with
+ * xfade at an offset of the running output length minus the overlap.
+ *
+ * Returns the graph (reading [0:v]..[n:v], writing [v]) and the output length.
+ */
+export function buildTransitionFilter(
+  transitions: (ClipTransition | undefined)[],
+  durations: number[]
+): { filter: string; duration: number } {
+  const filters = durations.map((_, i) => `[${i}:v]settb=AVTB,format=yuv420p[s${i}]`);
+  let current = "s0";
+  let length = durations[0];
+
+  for (let i = 1; i < durations.length; i++) {
+    const transition = transitions[i];
+    const overlap = getTransitionOverlap(transition, durations[i - 1], durations[i]);
+    const output = i === durations.length - 1 ? "v" : `x${i}`;
+
+    if (!transition || transition.type === "cut" || overlap === 0) {
+      filters.push(`[${current}][s${i}]concat=n=2:v=1:a=0[${output}]`);
+      length += durations[i];
+    } else {
+      const offset = Math.max(0, length - overlap);
+      filters.push(
+        `[${current}][s${i}]xfade=transition=${XFADE_TRANSITIONS[transition.type]}:duration=${overlap.toFixed(3)}:offset=${offset.toFixed(3)}[${output}]`
+      );
+      length += durations[i] - overlap;
+    }
+    current = output;
+  }
+
+  if (durations.length === 1) {
+    filters[0] = "[0:v]settb=AVTB,format=yuv420p[v]";
+  }
+
+  return { filter: filters.join(";"), duration: length };
+}
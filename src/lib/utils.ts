@@ -4,3 +4,11 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+/**
+ * Whether `key` is one of the object's own keys. Use it to validate request values
+ * against a lookup table: `in` also accepts inherited keys such as "constructor".
+ */
+export function isOwnKey<T extends object>(object: T, key: unknown): key is keyof T {
+  return typeof key === "string" && Object.hasOwn(object, key);
+}
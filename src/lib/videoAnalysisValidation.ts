@@ -0,0 +1,125 @@
+/**
+ * Video Analysis Validation and Repair
+ *
+ * Checks model-generated screen recording analyses against VideoAnalysisResponse.
+ * Timestamps returned as strings ("5.5s") are coerced to numbers, a missing duration
+ * is inferred from the last segment, and segments are clamped to the duration and
+ * sorted. Missing descriptions or segments are reported so the route can re-ask.
+ */
+
+import { isObject, toSeconds, type ValidationResult } from "@/lib/structuredOutput";
+import type { VideoAnalysisResponse, VideoAnalysisSegment } from "@/types/video-analysis";
+
+type AnalysisContent = Pick<VideoAnalysisResponse, "overallDescription" | "duration" | "segments">;
+
+/**
+ * JSON Schema for Gemini's structured output mode
+ */
+export const VIDEO_ANALYSIS_SCHEMA = {
+  type: "object",
+  properties: {
+    overallDescription: { type: "string" },
+    duration: { type: "number", description: "Total video duration in seconds" },
+    segments: {
+      type: "array",
+      minItems: 1,
+      items: {
+        type: "object",
+        properties: {
+          startTime: { type: "number" },
+          endTime: { type: "number" },
+          description: { type: "string" },
+        },
+        required: ["startTime", "endTime", "description"],
+      },
+    },
+  },
+  required: ["overallDescription", "duration", "segments"],
+};
+
+export function validateVideoAnalysis(raw: unknown): ValidationResult<AnalysisContent> {
+  const errors: string[] = [];
+  const repairs: string[] = [];
+
+  if (!isObject(raw)) {
+    return { value: null, errors: ["Response must be a JSON object"], repairs };
+  }
+
+  if (typeof raw.overallDescription !== "string" || !raw.overallDescription.trim()) {
+    errors.push("overallDescription is required");
+  }
+
+  if (!Array.isArray(raw.segments) || raw.segments.length === 0) {
+    errors.push("segments must be a non-empty array");
+    return { value: null, errors, repairs };
+  }
+
+  const parsedSegments: VideoAnalysisSegment[] = [];
+  raw.segments.forEach((item, index) => {
+    const label = `segments[${index}]`;
+    if (!isObject(item)) {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+
+    const startTime = toSeconds(item.startTime);
+    const endTime = toSeconds(item.endTime);
+    if (startTime === null || endTime === null) {
+      errors.push(`${label}.startTime and endTime must be numbers (in seconds)`);
+      return;
+    }
+    if (typeof item.startTime !== "number" || typeof item.endTime !== "number") {
+      repairs.push(`${label} timestamps converted to numbers`);
+    }
+
+    if (typeof item.description !== "string" || !item.description.trim()) {
+      errors.push(`${label}.description is required`);
+      return;
+    }
+
+    parsedSegments.push({
+      startTime: Math.min(startTime, endTime),
+      endTime: Math.max(startTime, endTime),
+      description: item.description,
+    });
+  });
+
+  let duration = toSeconds(raw.duration);
+  if (duration === null || duration <= 0) {
+    duration = Math.max(0, ...parsedSegments.map(seg => seg.endTime));
+    repairs.push(`duration was missing; inferred ${duration}s from the last segment`);
+  } else if (typeof raw.duration !== "number") {
+    repairs.push("duration converted to a number");
+  }
+
+  const segments = parsedSegments
+    .map(seg => ({
+      ...seg,
+      startTime: Math.min(Math.max(0, seg.startTime), duration),
+      endTime: Math.min(Math.max(0, seg.endTime), duration),
+    }))
+    .filter(seg => seg.endTime > seg.startTime)
+    .sort((a, b) => a.startTime - b.startTime);
+
+  if (segments.length < parsedSegments.length) {
+    repairs.push(`${parsedSegments.length - segments.length} segment(s) outside the ${duration}s video were dropped`);
+  }
+
+  if (errors.length === 0 && segments.length === 0) {
+    errors.push("No segment falls within the video duration");
+  }
+
+  if (errors.length > 0) {
+    return { value: null, errors, repairs };
+  }
+
+  return {
+    value: {
+      overallDescription: raw.overallDescription as string,
+      duration,
+      segments,
+    },
+    errors,
+    repairs,
+  };
+}
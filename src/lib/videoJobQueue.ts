@@ -0,0 +1,158 @@
+/**
+ * Video Generation Job Queue
+ *
+ * Runs Veo generations in the background instead of inside an HTTP request.
+ * Each job is persisted as JSON so its state outlives the request that created it:
+ *
+ *   <data dir>/jobs/<jobId>.json - VideoGenerationJob
+ *
+ * A job moves queued -> running (Veo operation being started, then its name stored)
+ * -> succeeded | failed. Workers run in-process; if the server restarts, the next status
+ * check for an unfinished job starts a new worker that resumes polling the stored
+ * operation name. A job that was lost before its operation name was stored fails
+ * instead of being submitted to Veo a second time.
+ */
+
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { existsSync } from "fs";
+import path from "path";
+import { getDataDir, isSafeId } from "@/lib/dataDir";
+import { getAssetRecord, putAsset, readAsset } from "@/lib/assetStore";
+import { getAssetUrl } from "@/lib/assets";
+import { getImageToVideoProvider } from "@/lib/providers";
+import type { VideoGenerationJob, VideoGenerationRequest } from "@/types/video-generation";
+
+const MAX_JOB_DURATION_MS = 30 * 60 * 1000; // Give up on operations older than 30 minutes
+
+// Jobs with a worker running in this process
+const activeWorkers = new Set<string>();
+
+function getJobPath(jobId: string): string {
+  if (!isSafeId(jobId)) {
+    throw new Error(`Invalid job ID: ${jobId}`);
+  }
+  return getDataDir("jobs", `${jobId}.json`);
+}
+
+async function readJob(jobId: string): Promise<VideoGenerationJob | null> {
+  const jobPath = getJobPath(jobId);
+  if (!existsSync(jobPath)) {
+    return null;
+  }
+  return JSON.parse(await readFile(jobPath, "utf-8"));
+}
+
+async function writeJob(job: VideoGenerationJob): Promise<void> {
+  const jobPath = getJobPath(job.jobId);
+  await mkdir(path.dirname(jobPath), { recursive: true });
+
+  // Write to a temp file and rename so status checks never read a partial job
+  const tempPath = `${jobPath}.tmp`;
+  await writeFile(tempPath, JSON.stringify(job, null, 2));
+  await rename(tempPath, jobPath);
+}
+
+async function updateJob(
+  job: VideoGenerationJob,
+  changes: Partial<VideoGenerationJob>
+): Promise<VideoGenerationJob> {
+  const updated = { ...job, ...changes, updatedAt: new Date().toISOString() };
+  await writeJob(updated);
+  return updated;
+}
+
+async function runJob(initialJob: VideoGenerationJob): Promise<void> {
+  let job = initialJob;
+  const provider = getImageToVideoProvider();
+
+  if (!job.operationName) {
+    // Veo may have accepted the earlier request without us recording it; submitting
+    // again could pay for the same video twice
+    if (job.status === 'running') {
+      throw new Error("Video generation was interrupted while starting. Please try again.");
+    }
+    // Recorded before the request, so a restart during it is detected above
+    job = await updateJob(job, { status: 'running' });
+
+    const imageRecord = await getAssetRecord(job.request.imageAssetId);
+    const operationName = await provider.startGeneration(job.request, {
+      data: await readAsset(job.request.imageAssetId),
+      mimeType: imageRecord.mimeType,
+    });
+    job = await updateJob(job, { operationName });
+  }
+
+  let operation = await provider.getOperation(job.operationName!);
+  while (!operation.done) {
+    if (Date.now() - Date.parse(job.createdAt) > MAX_JOB_DURATION_MS) {
+      throw new Error("Video generation timed out. Please try again.");
+    }
+    await new Promise(resolve => setTimeout(resolve, provider.pollIntervalMs));
+    operation = await provider.getOperation(job.operationName!);
+  }
+
+  if (operation.error || !operation.videoUri) {
+    throw new Error(operation.error || "No video generated");
+  }
+
+  // Store video in the asset store
+  const videoBuffer = await provider.downloadVideo(operation.videoUri);
+  const videoAsset = await putAsset(videoBuffer, 'video/mp4');
+
+  await updateJob(job, {
+    status: 'succeeded',
+    result: {
+      shotId: job.request.shotId,
+      videoAssetId: videoAsset.assetId,
+      videoUrl: getAssetUrl(videoAsset.assetId),
+      prompt: job.request.prompt,
+      processingTimeMs: Date.now() - Date.parse(job.createdAt),
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+function startWorker(job: VideoGenerationJob): void {
+  if (activeWorkers.has(job.jobId)) return;
+  activeWorkers.add(job.jobId);
+
+  runJob(job)
+    .catch(async (error) => {
+      console.error(`Video job ${job.jobId} failed:`, error);
+      // Re-read so the failure doesn't overwrite the operation name recorded by the worker
+      const latest = (await readJob(job.jobId)) || job;
+      await updateJob(latest, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      });
+    })
+    .catch((error) => console.error(`Failed to record failure for video job ${job.jobId}:`, error))
+    .finally(() => activeWorkers.delete(job.jobId));
+}
+
+export async function submitVideoJob(request: VideoGenerationRequest): Promise<VideoGenerationJob> {
+  const now = new Date().toISOString();
+  const job: VideoGenerationJob = {
+    jobId: `job-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    status: 'queued',
+    request,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await writeJob(job);
+  startWorker(job);
+
+  return job;
+}
+
+export async function getVideoJob(jobId: string): Promise<VideoGenerationJob | null> {
+  const job = await readJob(jobId);
+
+  // Resume unfinished jobs whose worker was lost (e.g. the server restarted)
+  if (job && (job.status === 'queued' || job.status === 'running')) {
+    startWorker(job);
+  }
+
+  return job;
+}
@@ -0,0 +1,146 @@
+/**
+ * Video Reframing
+ *
+ * Builds the FFmpeg filter that fits a clip into the export frame.
+ *
+ * - Cinematic clips are scaled to cover the frame and center-cropped (Veo already
+ *   renders 16:9 or 9:16; square output crops the middle of a 16:9 clip)
+ * - UI recordings in "letterbox" mode are scaled to fit and padded with black
+ * - UI recordings in "smart" mode are first cropped to the app UI (cropdetect strips
+ *   black borders around a phone recording), then either cropped to fill the frame -
+ *   panning slowly across the UI when the crop hides part of it - or, when a crop would
+ *   cut off too much, fitted over a blurred copy of themselves instead of black bars
+ */
+
+import { exec } from "child_process";
+import { promisify } from "util";
+import { ASPECT_RATIOS } from "@/lib/outputFormat";
+import type { OutputFormat } from "@/types/output-format";
+
+const execAsync = promisify(exec);
+
+// Minimum share of the UI a fill-crop must keep, otherwise fall back to blur-fit
+const MIN_CROP_COVERAGE = 0.6;
+// Above this share a static center crop is used; below it the crop pans across the UI
+const STATIC_CROP_COVERAGE = 0.95;
+
+interface VideoInfo {
+  width: number;
+  height: number;
+  duration: number; // seconds
+}
+
+interface CropBox {
+  width: number;
+  height: number;
+  x: number;
+  y: number;
+}
+
+function even(value: number): number {
+  return Math.max(2, Math.floor(value / 2) * 2);
+}
+
+async function probeVideo(videoPath: string): Promise<VideoInfo> {
+  const { stdout } = await execAsync(
+    `ffprobe -v error -select_streams v:0 -show_entries stream=width,height:format=duration -of json "${videoPath}"`
+  );
+  const info = JSON.parse(stdout);
+  return {
+    width: Number(info.streams?.[0]?.width) || 0,
+    height: Number(info.streams?.[0]?.height) || 0,
+    duration: parseFloat(info.format?.duration) || 0,
+  };
+}
+
+/**
+ * Find the non-black area of the recording (the app UI inside any borders)
+ */
+async function detectContentBox(videoPath: string, info: VideoInfo): Promise<CropBox> {
+  const fullFrame = { width: info.width, height: info.height, x: 0, y: 0 };
+
+  // cropdetect logs to stderr; reset=0 accumulates the box over the whole clip
+  const { stderr } = await execAsync(
+    `ffmpeg -i "${videoPath}" -vf "cropdetect=limit=24:round=2:reset=0" -an -f null -`,
+    { maxBuffer: 16 * 1024 * 1024 }
+  );
+  const matches = [...stderr.matchAll(/crop=(\d+):(\d+):(\d+):(\d+)/g)];
+  const last = matches[matches.length - 1];
+  if (!last) return fullFrame;
+
+  const [width, height, x, y] = last.slice(1).map(Number);
+  // Ignore detections that are implausibly small (e.g. a mostly black fade)
+  if (width < info.width * 0.2 || height < info.height * 0.2) return fullFrame;
+
+  return { width, height, x, y };
+}
+
+function coverFilter(width: number, height: number): string {
+  return `scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height},setsar=1,fps=30`;
+}
+
+function letterboxFilter(width: number, height: number): string {
+  return `scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:black,setsar=1,fps=30`;
+}
+
+function smartUIFilter(box: CropBox, duration: number, width: number, height: number): string {
+  const targetRatio = width / height;
+  const contentRatio = box.width / box.height;
+
+  // Largest window with the output's shape that fits inside the UI
+  const windowWidth = contentRatio > targetRatio ? even(box.height * targetRatio) : even(box.width);
+  const windowHeight = contentRatio > targetRatio ? even(box.height) : even(box.width / targetRatio);
+  const coverage = (windowWidth * windowHeight) / (box.width * box.height);
+
+  if (coverage < MIN_CROP_COVERAGE) {
+    // Fit the whole UI over a blurred, darkened fill of itself
+    return [
+      `crop=${box.width}:${box.height}:${box.x}:${box.y},split[fg][bg]`,
+      `[bg]scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height},boxblur=20:5,eq=brightness=-0.15[blurred]`,
+      `[fg]scale=${width}:${height}:force_original_aspect_ratio=decrease[ui]`,
+      `[blurred][ui]overlay=(W-w)/2:(H-h)/2,setsar=1,fps=30`,
+    ].join(";");
+  }
+
+  const spareX = box.width - windowWidth;
+  const spareY = box.height - windowHeight;
+  let x = `${box.x + Math.floor(spareX / 2)}`;
+  let y = `${box.y + Math.floor(spareY / 2)}`;
+
+  // Pan from one edge of the UI to the other over the clip
+  if (coverage < STATIC_CROP_COVERAGE && duration > 0) {
+    const progress = `min(t/${duration.toFixed(3)}\\,1)`;
+    if (spareX > 0) x = `${box.x}+${spareX}*${progress}`;
+    if (spareY > 0) y = `${box.y}+${spareY}*${progress}`;
+  }
+
+  return `crop=${windowWidth}:${windowHeight}:${x}:${y},scale=${width}:${height},setsar=1,fps=30`;
+}
+
+/**
+ * Filter graph that fits the clip into the output frame. The result reads from its
+ * single input and writes a single output, for use as `-filter_complex "[0:v]<graph>[v]"`.
+ */
+export async function buildReframeFilter(
+  videoPath: string,
+  kind: "cinematic" | "ui",
+  format: OutputFormat
+): Promise<string> {
+  const { width, height } = ASPECT_RATIOS[format.aspectRatio];
+
+  if (kind === "cinematic") {
+    return coverFilter(width, height);
+  }
+
+  if (format.uiReframe === "letterbox") {
+    return letterboxFilter(width, height);
+  }
+
+  const info = await probeVideo(videoPath);
+  if (!info.width || !info.height) {
+    return letterboxFilter(width, height);
+  }
+
+  const box = await detectContentBox(videoPath, info);
+  return smartUIFilter(box, info.duration, width, height);
+}
@@ -0,0 +1,45 @@
+/**
+ * Video Clip Trimming
+ *
+ * A video clip plays its source video from `trimStart` to `trimEnd`. For UI shots these
+ * are times in the original screen recording, and the source is the clip extracted
+ * from it for the shot (which starts at the shot's startTime). For cinematic shots
+ * they are seconds into the generated video. Clips without trim points play their
+ * source from the beginning.
+ *
+ * Shared by the timeline converter (trim handles), the preview player and the stitch route.
+ */
+
+import type { StoryboardShot } from "@/types/storyboard";
+import type { VideoClip } from "@/types/timeline";
+
+// Generated cinematic videos are 8 seconds long
+export const CINEMATIC_SHOT_SECONDS = 8;
+export const MIN_TRIMMED_CLIP_SECONDS = 0.5;
+
+/**
+ * Range of the shot's source video that trim points can cover, in trim coordinates
+ */
+export function getSourceBounds(shot: StoryboardShot): { start: number; end: number } {
+  if (shot.shotType === "ui") {
+    return { start: shot.startTime, end: shot.endTime };
+  }
+  return { start: 0, end: CINEMATIC_SHOT_SECONDS };
+}
+
+/**
+ * In and out points of a clip, filling in the defaults for clips that were never trimmed.
+ * Playback runs for the clip's duration from the in point, so that sets the out point;
+ * a stored trimEnd can fall short of it for UI clips held longer than their shot.
+ */
+export function getClipTrim(clip: VideoClip, shot: StoryboardShot): { trimStart: number; trimEnd: number } {
+  const trimStart = clip.trimStart ?? getSourceBounds(shot).start;
+  return { trimStart, trimEnd: trimStart + clip.duration };
+}
+
+/**
+ * Seconds into the shot's video file (the generated or extracted clip) where the clip starts
+ */
+export function getClipSourceOffset(clip: VideoClip, shot: StoryboardShot): number {
+  return Math.max(0, getClipTrim(clip, shot).trimStart - getSourceBounds(shot).start);
+}
@@ -0,0 +1,64 @@
+/**
+ * Narration Voice Settings
+ *
+ * Default voice, setting ranges and per-segment resolution. Shared by the client
+ * (voice picker) and the server (request validation).
+ */
+
+import type { NarrationSegment } from "@/types/storyboard";
+import type { NarrationVoice, VoiceSettings } from "@/types/voice";
+
+export const DEFAULT_VOICE_ID = "21m00Tcm4TlvDq8ikWAM"; // Rachel
+export const DEFAULT_SPEECH_MODEL = "eleven_turbo_v2_5"; // Fast, high-quality model
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  stability: 0.5,
+  similarityBoost: 0.75,
+  style: 0,
+  speed: 1,
+};
+
+export const DEFAULT_NARRATION_VOICE: NarrationVoice = {
+  voiceId: DEFAULT_VOICE_ID,
+  settings: DEFAULT_VOICE_SETTINGS,
+};
+
+// Sentence used when auditioning a voice without a segment's own text
+export const AUDITION_TEXT = "Meet the easiest way to get things done. Set up in minutes, and see results today.";
+
+interface VoiceSettingRange {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+export const VOICE_SETTING_RANGES: Record<keyof VoiceSettings, VoiceSettingRange> = {
+  stability: { label: "Stability", min: 0, max: 1, step: 0.05 },
+  similarityBoost: { label: "Similarity", min: 0, max: 1, step: 0.05 },
+  style: { label: "Style", min: 0, max: 1, step: 0.05 },
+  speed: { label: "Speed", min: 0.7, max: 1.2, step: 0.05 },
+};
+
+/**
+ * The voice a segment is rendered with: its own override, or the project default
+ */
+export function resolveSegmentVoice(
+  projectVoice: NarrationVoice,
+  segment: NarrationSegment | undefined
+): NarrationVoice {
+  return segment?.voice ?? projectVoice;
+}
+
+/**
+ * Returns an error message when any setting is missing or out of range, otherwise null
+ */
+export function validateVoiceSettings(settings: VoiceSettings): string | null {
+  for (const [key, range] of Object.entries(VOICE_SETTING_RANGES) as [keyof VoiceSettings, VoiceSettingRange][]) {
+    const value = settings[key];
+    if (typeof value !== "number" || value < range.min || value > range.max) {
+      return `voiceSettings.${key} must be between ${range.min} and ${range.max}`;
+    }
+  }
+  return null;
+}
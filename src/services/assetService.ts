@@ -0,0 +1,18 @@
+import type { AssetUploadResponse } from "@/types/asset";
+
+export async function uploadAsset(file: Blob): Promise<AssetUploadResponse> {
+  const response = await fetch("/api/assets", {
+    method: "POST",
+    headers: {
+      "Content-Type": file.type || "application/octet-stream",
+    },
+    body: file,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || "Failed to upload file");
+  }
+
+  return response.json();
+}
@@ -1,19 +1,30 @@
 import type { NarrationGenerationResponse } from "@/types/narration";
-import type { MusicGenerationResponse } from "@/types/music";
+import type { MusicAnalysisResponse, MusicGenerationResponse } from "@/types/music";
+import type { BrandProfile } from "@/types/brand";
+import type { NarrationVoice } from "@/types/voice";
+import type { PronunciationEntry } from "@/types/pronunciation";
+import type { SoundEffect, SoundEffectKind } from "@/types/sound-effect";
 
 export interface GenerateNarrationRequest {
   narrationId: string;
   text: string;
+  voice: NarrationVoice;
+  pronunciations: PronunciationEntry[];
+  languageCode?: string;
 }
 
 export interface GenerateMusicRequest {
   prompt: string;
   durationMs: number;
+  brandProfile?: BrandProfile;
 }
 
 export async function generateNarration(
   narrationId: string,
-  text: string
+  text: string,
+  voice: NarrationVoice,
+  pronunciations: PronunciationEntry[],
+  languageCode?: string
 ): Promise<NarrationGenerationResponse> {
   const response = await fetch("/api/narration/generate", {
     method: "POST",
@@ -23,6 +34,10 @@ export async function generateNarration(
     body: JSON.stringify({
       narrationId,
       text,
+      voiceId: voice.voiceId,
+      voiceSettings: voice.settings,
+      pronunciations,
+      languageCode,
     }),
   });
 
@@ -36,7 +51,8 @@ export async function generateNarration(
 
 export async function generateMusic(
   prompt: string,
-  durationMs: number
+  durationMs: number,
+  brandProfile?: BrandProfile | null
 ): Promise<MusicGenerationResponse> {
   const response = await fetch("/api/music/generate", {
     method: "POST",
@@ -46,6 +62,7 @@ export async function generateMusic(
     body: JSON.stringify({
       prompt,
       durationMs,
+      brandProfile: brandProfile || undefined,
     }),
   });
 
@@ -56,3 +73,79 @@ export async function generateMusic(
 
   return response.json();
 }
+
+export async function analyzeMusic(audioAssetId: string): Promise<MusicAnalysisResponse> {
+  const response = await fetch("/api/music/analyze", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ audioAssetId }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || "Failed to analyze music");
+  }
+
+  return response.json();
+}
+
+export async function importMusic(audioAssetId: string, title: string): Promise<MusicGenerationResponse> {
+  const response = await fetch("/api/music/import", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ audioAssetId, title }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || "Failed to import music");
+  }
+
+  return response.json();
+}
+
+export async function generateSoundEffect(
+  prompt: string,
+  kind: SoundEffectKind,
+  durationSeconds?: number
+): Promise<SoundEffect> {
+  const response = await fetch("/api/sfx/generate", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ prompt, kind, durationSeconds }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || "Failed to generate sound effect");
+  }
+
+  return response.json();
+}
+
+export async function importSoundEffect(
+  audioAssetId: string,
+  name: string,
+  kind: SoundEffectKind
+): Promise<SoundEffect> {
+  const response = await fetch("/api/sfx/import", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ audioAssetId, name, kind }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || "Failed to import sound effect");
+  }
+
+  return response.json();
+}
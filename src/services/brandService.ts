@@ -0,0 +1,47 @@
+import type { BrandProfile, BrandProfileInput } from "@/types/brand";
+
+export async function listBrandProfiles(): Promise<BrandProfile[]> {
+  const response = await fetch("/api/brands");
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || "Failed to list brand profiles");
+  }
+
+  const data: { profiles: BrandProfile[] } = await response.json();
+  return data.profiles;
+}
+
+export async function saveBrandProfile(
+  profile: BrandProfileInput,
+  id?: string | null
+): Promise<BrandProfile> {
+  const response = await fetch("/api/brands/save", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      id: id || undefined,
+      profile,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || "Failed to save brand profile");
+  }
+
+  return response.json();
+}
+
+export async function deleteBrandProfile(id: string): Promise<void> {
+  const response = await fetch("/api/brands/delete", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ id }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || "Failed to delete brand profile");
+  }
+}
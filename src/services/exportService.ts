@@ -2,17 +2,22 @@ import type { Timeline } from "@/types/timeline";
 import type { StillImageResponse } from "@/types/still-image";
 import type { VideoGenerationResponse } from "@/types/video-generation";
 import type { NarrationGenerationResponse } from "@/types/narration";
-import type { MusicDuckingSettings } from "@/types/music";
+import type { MusicBeatGrid, MusicDuckingSettings } from "@/types/music";
 import type { StoryboardResponse } from "@/types/storyboard";
+import type { OutputFormat } from "@/types/output-format";
+import type { CaptionCue, CaptionGenerationResponse, CaptionStyle } from "@/types/captions";
+import type { LoudnessPreset, LoudnessReport } from "@/types/loudness";
 
 export interface StitchVideoRequest {
   timeline: Timeline;
   shots: Record<string, StoryboardResponse['shots'][0]>;
   generatedVideos: Record<string, VideoGenerationResponse>;
   generatedImages: Record<string, StillImageResponse>;
+  outputFormat: OutputFormat;
 }
 
 export interface StitchVideoResponse {
+  videoAssetId: string;
   videoUrl: string;
 }
 
@@ -23,35 +28,56 @@ export interface AssembleNarrationRequest {
 }
 
 export interface AssembleNarrationResponse {
+  audioAssetId: string;
   audioUrl: string;
 }
 
 export interface DuckMusicRequest {
-  musicUrl: string;
   timeline: Timeline;
   duckingSettings: MusicDuckingSettings;
   totalDuration: number;
+  beatGrids?: Record<string, MusicBeatGrid>; // by music asset ID
 }
 
 export interface DuckMusicResponse {
+  audioAssetId: string;
+  audioUrl: string;
+}
+
+export interface AssembleEffectsRequest {
+  timeline: Timeline;
+  totalDuration: number;
+}
+
+export interface AssembleEffectsResponse {
+  audioAssetId: string;
   audioUrl: string;
 }
 
 export interface AssembleFinalVideoRequest {
-  videoUrl: string;
-  narrationAudioUrl: string;
-  musicAudioUrl: string;
+  videoAssetId: string;
+  narrationAudioAssetId: string;
+  musicAudioAssetId: string;
+  effectsAudioAssetId?: string;
+  captions?: {
+    cues: CaptionCue[];
+    style: CaptionStyle;
+  };
+  loudnessPreset?: LoudnessPreset;
 }
 
 export interface AssembleFinalVideoResponse {
+  videoAssetId: string;
   videoUrl: string;
+  loudness: LoudnessReport;
 }
 
 export async function stitchVideoClips(
   timeline: Timeline,
   shots: Record<string, StoryboardResponse['shots'][0]>,
   generatedVideos: Record<string, VideoGenerationResponse>,
-  generatedImages: Record<string, StillImageResponse>
+  generatedImages: Record<string, StillImageResponse>,
+  outputFormat: OutputFormat
 ): Promise<StitchVideoResponse> {
   const response = await fetch("/api/video/stitch", {
     method: "POST",
@@ -61,6 +87,7 @@ export async function stitchVideoClips(
       shots,
       generatedVideos,
       generatedImages,
+      outputFormat,
     }),
   });
 
@@ -96,19 +123,19 @@ export async function assembleNarrationTrack(
 }
 
 export async function duckMusicTrack(
-  musicUrl: string,
   timeline: Timeline,
   duckingSettings: MusicDuckingSettings,
-  totalDuration: number
+  totalDuration: number,
+  beatGrids?: Record<string, MusicBeatGrid>
 ): Promise<DuckMusicResponse> {
   const response = await fetch("/api/audio/music/duck", {
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify({
-      musicUrl,
       timeline,
       duckingSettings,
       totalDuration,
+      beatGrids,
     }),
   });
 
@@ -120,18 +147,68 @@ export async function duckMusicTrack(
   return response.json();
 }
 
+export async function assembleEffectsTrack(
+  timeline: Timeline,
+  totalDuration: number
+): Promise<AssembleEffectsResponse> {
+  const response = await fetch("/api/audio/effects/assemble", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      timeline,
+      totalDuration,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || "Failed to assemble sound effects");
+  }
+
+  return response.json();
+}
+
+export async function generateCaptions(
+  timeline: Timeline,
+  generatedNarration: Record<string, NarrationGenerationResponse>,
+  maxWordsPerCue: number
+): Promise<CaptionGenerationResponse> {
+  const response = await fetch("/api/captions/generate", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      timeline,
+      generatedNarration,
+      maxWordsPerCue,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || "Failed to generate captions");
+  }
+
+  return response.json();
+}
+
 export async function assembleFinalVideo(
-  videoUrl: string,
-  narrationAudioUrl: string,
-  musicAudioUrl: string
+  videoAssetId: string,
+  narrationAudioAssetId: string,
+  musicAudioAssetId: string,
+  captions?: AssembleFinalVideoRequest['captions'],
+  effectsAudioAssetId?: string,
+  loudnessPreset?: LoudnessPreset
 ): Promise<AssembleFinalVideoResponse> {
   const response = await fetch("/api/video/assemble", {
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify({
-      videoUrl,
-      narrationAudioUrl,
-      musicAudioUrl,
+      videoAssetId,
+      narrationAudioAssetId,
+      musicAudioAssetId,
+      effectsAudioAssetId,
+      captions,
+      loudnessPreset,
     }),
   });
 
@@ -0,0 +1,29 @@
+import type { BrandProfile } from "@/types/brand";
+import type { LanguageCode, TranslationItem, TranslationResponse } from "@/types/localization";
+
+export async function translateReel(
+  targetLanguage: LanguageCode,
+  narration: TranslationItem[],
+  textOverlays: TranslationItem[],
+  glossary: string[],
+  brandProfile?: BrandProfile | null
+): Promise<TranslationResponse> {
+  const response = await fetch("/api/localization/translate", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      targetLanguage,
+      narration,
+      textOverlays,
+      glossary,
+      brandProfile: brandProfile || undefined,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || "Failed to translate reel");
+  }
+
+  return response.json();
+}
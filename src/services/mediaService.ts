@@ -1,25 +1,36 @@
 import type { StillImageResponse } from "@/types/still-image";
-import type { VideoGenerationResponse } from "@/types/video-generation";
+import type { BrandProfile } from "@/types/brand";
+import type { AspectRatio } from "@/types/output-format";
+import type {
+  SubmitVideoJobResponse,
+  VideoGenerationJob,
+  VideoGenerationResponse,
+} from "@/types/video-generation";
 
 export interface GenerateStillImageRequest {
   shotId: string;
   prompt: string;
-  baseImage: string;
-  previousShots: string[];
+  baseImageAssetId: string;
+  previousShotAssetIds: string[];
+  brandProfile?: BrandProfile;
+  aspectRatio?: AspectRatio;
 }
 
 export interface GenerateVideoRequest {
   shotId: string;
-  imageUrl: string;
+  imageAssetId: string;
   prompt: string;
   model: 'veo-2' | 'veo-3';
+  aspectRatio?: AspectRatio;
 }
 
 export async function generateStillImage(
   shotId: string,
   prompt: string,
-  baseImage: string,
-  previousShots: string[] = []
+  baseImageAssetId: string,
+  previousShotAssetIds: string[] = [],
+  brandProfile?: BrandProfile | null,
+  aspectRatio?: AspectRatio
 ): Promise<StillImageResponse> {
   const response = await fetch("/api/images/generate", {
     method: "POST",
@@ -29,8 +40,10 @@ export async function generateStillImage(
     body: JSON.stringify({
       shotId,
       prompt,
-      baseImage,
-      previousShots,
+      baseImageAssetId,
+      previousShotAssetIds,
+      brandProfile: brandProfile || undefined,
+      aspectRatio,
     }),
   });
 
@@ -42,12 +55,17 @@ export async function generateStillImage(
   return response.json();
 }
 
-export async function generateVideo(
+const VIDEO_JOB_POLL_INTERVAL_MS = 5000;
+// The server gives up after 30 minutes; stop waiting a little after that in case it never reports back
+const VIDEO_JOB_MAX_WAIT_MS = 35 * 60 * 1000;
+
+export async function submitVideoJob(
   shotId: string,
-  imageUrl: string,
+  imageAssetId: string,
   prompt: string,
-  model: 'veo-2' | 'veo-3'
-): Promise<VideoGenerationResponse> {
+  model: 'veo-2' | 'veo-3',
+  aspectRatio?: AspectRatio
+): Promise<SubmitVideoJobResponse> {
   const response = await fetch("/api/videos/generate", {
     method: "POST",
     headers: {
@@ -55,16 +73,50 @@ export async function generateVideo(
     },
     body: JSON.stringify({
       shotId,
-      imageUrl,
+      imageAssetId,
       prompt,
       model,
+      aspectRatio,
     }),
   });
 
   if (!response.ok) {
     const errorData = await response.json();
-    throw new Error(errorData.error || "Failed to generate video");
+    throw new Error(errorData.error || "Failed to start video generation");
+  }
+
+  return response.json();
+}
+
+export async function getVideoJob(jobId: string): Promise<VideoGenerationJob> {
+  const response = await fetch(`/api/videos/jobs/${jobId}`);
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || "Failed to get video generation status");
   }
 
   return response.json();
 }
+
+/**
+ * Poll a video job until it finishes, resolving with the generated video.
+ * Rejects once the job is older than VIDEO_JOB_MAX_WAIT_MS, including jobs resumed after a reload.
+ */
+export async function waitForVideoJob(jobId: string): Promise<VideoGenerationResponse> {
+  while (true) {
+    const job = await getVideoJob(jobId);
+
+    if (job.status === 'succeeded' && job.result) {
+      return job.result;
+    }
+    if (job.status === 'failed') {
+      throw new Error(job.error || "Failed to generate video");
+    }
+    if (Date.now() - Date.parse(job.createdAt) > VIDEO_JOB_MAX_WAIT_MS) {
+      throw new Error("Video generation timed out. Please try again.");
+    }
+
+    await new Promise(resolve => setTimeout(resolve, VIDEO_JOB_POLL_INTERVAL_MS));
+  }
+}
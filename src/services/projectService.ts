@@ -0,0 +1,56 @@
+import type {
+  LoadProjectResponse,
+  ProjectState,
+  ProjectSummary,
+  SaveProjectResponse,
+} from "@/types/project";
+
+export async function saveProject(
+  name: string,
+  state: ProjectState,
+  projectId?: string | null
+): Promise<SaveProjectResponse> {
+  const response = await fetch("/api/projects/save", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      projectId: projectId || undefined,
+      name,
+      state,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || "Failed to save project");
+  }
+
+  return response.json();
+}
+
+export async function loadProject(projectId: string): Promise<LoadProjectResponse> {
+  const response = await fetch("/api/projects/load", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ projectId }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || "Failed to load project");
+  }
+
+  return response.json();
+}
+
+export async function listProjects(): Promise<ProjectSummary[]> {
+  const response = await fetch("/api/projects");
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || "Failed to list projects");
+  }
+
+  const data: { projects: ProjectSummary[] } = await response.json();
+  return data.projects;
+}
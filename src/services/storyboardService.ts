@@ -1,8 +1,14 @@
-import type { StoryboardResponse } from "@/types/storyboard";
+import type { PacingPreset, StoryboardResponse, TargetDuration } from "@/types/storyboard";
 import type { VideoAnalysisResponse } from "@/types/video-analysis";
+import type { BrandProfile } from "@/types/brand";
+import type { AspectRatio } from "@/types/output-format";
 
 export interface GenerateStoryboardRequest {
   productDescription: string;
+  brandProfile?: BrandProfile;
+  targetDuration?: TargetDuration;
+  pacing?: PacingPreset;
+  aspectRatio?: AspectRatio;
   videoAnalyses?: Array<{
     videoId: string;
     overallDescription: string;
@@ -17,10 +23,20 @@ export interface GenerateStoryboardRequest {
 
 export async function generateStoryboard(
   productDescription: string,
-  videoAnalyses: VideoAnalysisResponse[]
+  videoAnalyses: VideoAnalysisResponse[],
+  brandProfile?: BrandProfile | null,
+  options: {
+    targetDuration?: TargetDuration | null;
+    pacing?: PacingPreset;
+    aspectRatio?: AspectRatio;
+  } = {}
 ): Promise<StoryboardResponse> {
   const requestBody: GenerateStoryboardRequest = {
     productDescription: productDescription.trim(),
+    brandProfile: brandProfile || undefined,
+    targetDuration: options.targetDuration || undefined,
+    pacing: options.pacing,
+    aspectRatio: options.aspectRatio,
   };
 
   // Include video analyses if available
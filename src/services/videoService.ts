@@ -1,27 +1,37 @@
 import type { VideoAnalysisResponse } from "@/types/video-analysis";
 
 export interface AnalyzeVideoRequest {
-  video: string;
+  videoAssetId: string;
   mimeType: string;
   videoId: string;
 }
 
 export interface ExtractClipRequest {
   shotId: string;
-  videoData: string;
+  videoAssetId: string;
   startTime: number;
   endTime: number;
 }
 
 export interface ExtractClipResponse {
   shotId: string;
+  videoAssetId: string;
   videoUrl: string;
   processingTimeMs: number;
   timestamp: string;
 }
 
+export interface CompressVideoResponse {
+  compressedAssetId: string;
+  originalSize: number;
+  compressedSize: number;
+  compressionRatio: number;
+  processingTimeMs: number;
+  timestamp: string;
+}
+
 export async function analyzeVideo(
-  video: string,
+  videoAssetId: string,
   mimeType: string,
   videoId: string
 ): Promise<VideoAnalysisResponse> {
@@ -31,7 +41,7 @@ export async function analyzeVideo(
       "Content-Type": "application/json",
     },
     body: JSON.stringify({
-      video,
+      videoAssetId,
       mimeType,
       videoId,
     }),
@@ -47,7 +57,7 @@ export async function analyzeVideo(
 
 export async function extractClip(
   shotId: string,
-  videoData: string,
+  videoAssetId: string,
   startTime: number,
   endTime: number
 ): Promise<ExtractClipResponse> {
@@ -58,7 +68,7 @@ export async function extractClip(
     },
     body: JSON.stringify({
       shotId,
-      videoData,
+      videoAssetId,
       startTime,
       endTime,
     }),
@@ -71,3 +81,26 @@ export async function extractClip(
 
   return response.json();
 }
+
+export async function compressVideo(
+  videoAssetId: string,
+  targetSizeMB: number
+): Promise<CompressVideoResponse> {
+  const response = await fetch("/api/video/compress", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      videoAssetId,
+      targetSizeMB,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || "Failed to compress video");
+  }
+
+  return response.json();
+}
@@ -0,0 +1,39 @@
+import type { PronunciationEntry } from "@/types/pronunciation";
+import type { VoiceListResponse, VoiceOption, VoicePreviewResponse, VoiceSettings } from "@/types/voice";
+
+export async function listVoices(): Promise<VoiceOption[]> {
+  const response = await fetch("/api/voices");
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || "Failed to list voices");
+  }
+
+  const data: VoiceListResponse = await response.json();
+  return data.voices;
+}
+
+export async function previewVoice(
+  voiceId: string,
+  voiceSettings: VoiceSettings,
+  text?: string,
+  pronunciations?: PronunciationEntry[]
+): Promise<VoicePreviewResponse> {
+  const response = await fetch("/api/voices/preview", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      voiceId,
+      voiceSettings,
+      text,
+      pronunciations,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || "Failed to preview voice");
+  }
+
+  return response.json();
+}
@@ -0,0 +1,18 @@
+/**
+ * Metadata for a binary asset in the server's content-addressed asset store.
+ * The asset ID is the SHA-256 of the file contents, so uploading the same bytes
+ * twice yields the same ID and the file is stored once.
+ */
+export interface AssetRecord {
+  assetId: string; // sha256 hex digest of the contents
+  mimeType: string;
+  size: number; // bytes
+  createdAt: string;
+}
+
+/**
+ * Response from the asset upload API
+ */
+export interface AssetUploadResponse extends AssetRecord {
+  url: string; // URL the browser can use to stream the asset
+}
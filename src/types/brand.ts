@@ -0,0 +1,30 @@
+/**
+ * Brand profile: the company/product context that shapes every generation prompt
+ * (storyboard, still images and music), so storyboards fit the product being showcased.
+ */
+export interface BrandProfile {
+  id: string;
+  name: string; // display name, e.g. "Free World"
+  companyContext: string; // what the company/app does and for whom
+  audience: string; // who the sizzle reel is for
+  tone: string; // e.g. "hopeful, grounded, authentic"
+  allowedSettings: string[]; // environments shots may take place in
+  bannedImagery: string[]; // things that must never appear on screen
+  visualStyleGuardrails: string[]; // extra photographic/style rules for stills and video
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Editable fields of a brand profile (id and timestamps are assigned by the server)
+ */
+export type BrandProfileInput = Omit<BrandProfile, "id" | "createdAt" | "updatedAt">;
+
+export interface SaveBrandProfileRequest {
+  id?: string; // omit to create a new profile
+  profile: BrandProfileInput;
+}
+
+export interface DeleteBrandProfileRequest {
+  id: string;
+}
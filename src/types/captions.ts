@@ -0,0 +1,56 @@
+import type { Timeline, TextFontFamily } from "@/types/timeline";
+
+/**
+ * A spoken word with its time in seconds. Relative to the start of the narration
+ * audio in word timings, absolute timeline time once placed in a caption cue.
+ */
+export interface WordTiming {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * One caption shown on screen, built from consecutive words of a narration clip
+ */
+export interface CaptionCue {
+  start: number; // timeline seconds
+  end: number;
+  text: string;
+  words: WordTiming[];
+}
+
+/**
+ * How burned-in captions look. Sidecar files only carry the text and timing.
+ */
+export interface CaptionStyle {
+  fontFamily: TextFontFamily;
+  fontSize: number; // percentage of frame height
+  color: string; // hex color, e.g. #ffffff
+  background: boolean; // semi-transparent box behind the text
+  position: "top" | "bottom";
+  maxWordsPerCue: number;
+}
+
+/**
+ * Request payload for generating captions from the timeline's narration clips.
+ */
+export interface CaptionGenerationRequest {
+  timeline: Timeline;
+  // text the audio was generated from and its word timings, when known
+  generatedNarration: Record<string, { audioAssetId: string; text?: string; words?: WordTiming[] }>;
+  maxWordsPerCue?: number;
+}
+
+/**
+ * Generated captions plus SRT and WebVTT sidecar files in the asset store.
+ */
+export interface CaptionGenerationResponse {
+  cues: CaptionCue[];
+  srtAssetId: string;
+  srtUrl: string;
+  vttAssetId: string;
+  vttUrl: string;
+  processingTimeMs: number;
+  timestamp: string;
+}
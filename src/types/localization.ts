@@ -0,0 +1,48 @@
+import type { BrandProfile } from "@/types/brand";
+import type { NarrationGenerationResponse } from "@/types/narration";
+import type { NarrationVoice } from "@/types/voice";
+
+/**
+ * Languages a reel can be localized into (ISO 639-1, as ElevenLabs expects)
+ */
+export type LanguageCode = "es" | "fr" | "de" | "it" | "pt" | "ja" | "ko" | "zh" | "hi";
+
+export interface TranslationItem {
+  id: string; // narration segment ID or text clip ID
+  text: string;
+  maxSeconds?: number; // narration only: how long the original takes to say
+}
+
+/**
+ * Request payload for translating a reel's narration and text overlays.
+ */
+export interface TranslationRequest {
+  targetLanguage: LanguageCode;
+  narration: TranslationItem[];
+  textOverlays: TranslationItem[];
+  glossary?: string[]; // product names to keep untranslated (e.g. pronunciation lexicon terms)
+  brandProfile?: BrandProfile; // brand voice for tone
+}
+
+export interface TranslationResponse {
+  targetLanguage: LanguageCode;
+  narration: Record<string, string>; // segment ID -> translated text
+  textOverlays: Record<string, string>; // text clip ID -> translated text
+  attempts: number;
+  processingTimeMs: number;
+  timestamp: string;
+}
+
+/**
+ * A finished translation of the reel: translated narration and overlays, and narration
+ * audio in the new language. Only the translations are kept; they are applied to the
+ * current timeline when needed (see applyLocalization), so later edits to the reel carry over.
+ */
+export interface LocalizedVersion {
+  language: LanguageCode;
+  voice: NarrationVoice;
+  narrationText: Record<string, string>; // segment ID -> translated text
+  textOverlays: Record<string, string>; // text clip ID -> translated text
+  generatedNarration: Record<string, NarrationGenerationResponse>;
+  createdAt: string;
+}
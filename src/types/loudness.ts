@@ -0,0 +1,39 @@
+/**
+ * Loudness target the exported reel's audio is mastered to:
+ * - web: -14 LUFS, what YouTube and social feeds normalize to
+ * - broadcast: -23 LUFS, EBU R128 for TV
+ * - podcast: -16 LUFS, common for podcast and streaming audio apps
+ */
+export type LoudnessPreset = "web" | "broadcast" | "podcast";
+
+export interface LoudnessTarget {
+  integratedLufs: number; // integrated loudness
+  truePeakDbtp: number; // true-peak ceiling
+  loudnessRange: number; // LU; wider dynamics are compressed down to this
+}
+
+/**
+ * EBU R128 measurement of an audio stream
+ */
+export interface LoudnessMeasurement {
+  integratedLufs: number;
+  truePeakDbtp: number;
+  loudnessRange: number; // LU
+  threshold: number; // gating threshold in LUFS
+}
+
+/**
+ * How loud each part of the reel was and what the mastering stage made of it.
+ * Measurements are null for silent audio, which has no integrated loudness.
+ */
+export interface LoudnessReport {
+  preset: LoudnessPreset;
+  target: LoudnessTarget;
+  stems: {
+    narration: LoudnessMeasurement | null;
+    music: LoudnessMeasurement | null;
+    effects: LoudnessMeasurement | null; // also null when the reel has no sound effects
+  };
+  mix: LoudnessMeasurement | null; // narration, music and effects summed, before mastering
+  output: LoudnessMeasurement | null; // the exported reel
+}
@@ -1,3 +1,5 @@
+import type { BrandProfile } from "@/types/brand";
+
 /**
  * Request payload for generating background music with ElevenLabs Music API.
  */
@@ -5,20 +7,86 @@ export interface MusicGenerationRequest {
   prompt: string; // detailed music generation prompt
   durationMs: number; // requested music length in milliseconds
   modelId?: string; // ElevenLabs music model (defaults to 'music_v1')
+  brandProfile?: BrandProfile; // brand tone steers the mood
 }
 
+export type MusicSource = 'generated' | 'imported';
+
 /**
  * Response from music generation API containing the generated audio.
+ * Also describes music imported from a file, so both can be music candidates.
  */
 export interface MusicGenerationResponse {
-  audioUrl: string; // base64 data URL of the generated music
-  prompt: string;
-  requestedDurationMs: number; // what we asked for
+  audioAssetId: string; // asset ID of the generated music
+  audioUrl: string; // URL to stream the music asset
+  prompt: string; // empty for imported music
+  source?: MusicSource; // absent for music generated before import existed
+  title?: string; // file name of imported music
+  requestedDurationMs: number; // what we asked for (the track's own length for imports)
   actualDurationSeconds: number; // actual duration from audio file metadata
+  beatGrid?: MusicBeatGrid; // tempo, beats and sections (absent for music generated before analysis)
   processingTimeMs: number;
   timestamp: string;
 }
 
+/**
+ * A stretch of the track with consistent loudness, e.g. intro, build, drop
+ */
+export interface MusicSection {
+  start: number; // seconds, on a downbeat
+  end: number;
+  energy: number; // 0-1, mean loudness relative to the loudest section
+}
+
+/**
+ * Rhythmic analysis of a music asset. Times are seconds from the start of the audio.
+ * A track without a detectable pulse has bpm 0 and no beats.
+ */
+export interface MusicBeatGrid {
+  bpm: number;
+  beats: number[];
+  downbeats: number[]; // first beat of each bar (4/4 assumed)
+  sections: MusicSection[];
+}
+
+/**
+ * Request payload for importing an uploaded audio file as music.
+ * The file is uploaded to the asset store first (POST /api/assets).
+ */
+export interface MusicImportRequest {
+  audioAssetId: string;
+  title: string; // shown in the music candidates list, usually the file name
+}
+
+/**
+ * Request payload for analyzing an existing music asset.
+ */
+export interface MusicAnalysisRequest {
+  audioAssetId: string;
+}
+
+export interface MusicAnalysisResponse {
+  audioAssetId: string;
+  durationSeconds: number;
+  beatGrid: MusicBeatGrid;
+  processingTimeMs: number;
+}
+
+/**
+ * How a track is trimmed or looped to the reel's length. Looping repeats whole bars,
+ * [loopStart, loopEnd), `loopCount` times before playing on to the track's own ending:
+ * output = [0, loopEnd) + loopCount x [loopStart, loopEnd) + [loopEnd, end of track).
+ * The result is cut at targetDuration with a fade out.
+ */
+export interface MusicFitPlan {
+  targetDuration: number; // seconds
+  loopStart: number; // seconds into the track
+  loopEnd: number;
+  loopCount: number; // 0 = trim only
+  fadeOutStart: number; // seconds into the output
+  fadeOutDuration: number;
+}
+
 /**
  * Audio ducking configuration for background music
  */
@@ -1,3 +1,7 @@
+import type { WordTiming } from "@/types/captions";
+import type { VoiceSettings } from "@/types/voice";
+import type { PronunciationEntry } from "@/types/pronunciation";
+
 /**
  * Request payload for generating narration audio with ElevenLabs TTS.
  */
@@ -6,6 +10,9 @@ export interface NarrationGenerationRequest {
   text: string; // narration script text
   voiceId?: string; // ElevenLabs voice ID (optional, uses default if not provided)
   model?: string; // ElevenLabs model (e.g., 'eleven_turbo_v2_5')
+  voiceSettings?: VoiceSettings; // delivery settings (optional, uses defaults if not provided)
+  pronunciations?: PronunciationEntry[]; // project lexicon applied to the text before synthesis
+  languageCode?: string; // ISO 639-1 language of the text, for localized narration (default: English)
 }
 
 /**
@@ -13,9 +20,15 @@ export interface NarrationGenerationRequest {
  */
 export interface NarrationGenerationResponse {
   narrationId: string;
-  audioUrl: string; // base64 data URL of the generated audio
+  audioAssetId: string; // asset ID of the generated audio
+  audioUrl: string; // URL to stream the audio asset
   text: string;
   durationSeconds: number; // actual duration of the generated audio file
+  words?: WordTiming[]; // when each word is spoken, relative to the start of the audio
+  wordTimingSource?: "provider" | "aligner"; // exact provider timestamps or estimated locally
+  // Set when the segment was split from a longer segment's audio: it plays the file from
+  // here, and durationSeconds and words are relative to this point (see lib/narrationSegments.ts)
+  audioStartSeconds?: number;
   processingTimeMs: number;
   timestamp: string;
 }
@@ -28,5 +41,5 @@ export interface NarrationSegmentWithAudio {
   text: string;
   startTime: number;
   endTime: number;
-  audioUrl?: string; // populated after generation
+  audioAssetId?: string; // populated after generation
 }
@@ -0,0 +1,18 @@
+/**
+ * Frame shape of the exported reel. Drives still-image prompts, Veo's aspectRatio
+ * and how clips are normalized when stitching.
+ */
+export type AspectRatio = "16:9" | "9:16" | "1:1";
+
+/**
+ * How UI screen recordings are fitted to the output frame:
+ * - letterbox: scale to fit and pad with black
+ * - smart: crop to the detected app UI, then crop/pan to fill the frame, or fit it over
+ *   a blurred copy of itself when cropping would cut off too much of the UI
+ */
+export type UIReframeMode = "letterbox" | "smart";
+
+export interface OutputFormat {
+  aspectRatio: AspectRatio;
+  uiReframe: UIReframeMode;
+}
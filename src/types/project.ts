@@ -0,0 +1,111 @@
+import type { PacingPreset, StoryboardResponse, TargetDuration } from "@/types/storyboard";
+import type { Timeline } from "@/types/timeline";
+import type { StillImageResponse } from "@/types/still-image";
+import type { VideoGenerationResponse } from "@/types/video-generation";
+import type { NarrationGenerationResponse } from "@/types/narration";
+import type { MusicGenerationResponse, MusicDuckingSettings } from "@/types/music";
+import type { UploadedVideo, VideoAnalysisResponse } from "@/types/video-analysis";
+import type { OutputFormat } from "@/types/output-format";
+import type { CaptionStyle } from "@/types/captions";
+import type { NarrationVoice } from "@/types/voice";
+import type { PronunciationEntry } from "@/types/pronunciation";
+import type { LocalizedVersion } from "@/types/localization";
+import type { SoundEffect } from "@/types/sound-effect";
+import type { LoudnessPreset } from "@/types/loudness";
+
+/**
+ * Current version of the project file format.
+ * Bump this and register a migration in lib/projectMigrations.ts whenever
+ * the shape of ProjectState (or anything it contains, e.g. Timeline) changes.
+ */
+export const PROJECT_SCHEMA_VERSION = 14;
+
+/**
+ * Everything needed to restore the editor to where the user left off.
+ * Mirrors the state held by the Home page.
+ */
+export interface ProjectState {
+  productDescription: string;
+  brandProfileId: string | null; // brand profile used for generation (see types/brand.ts)
+  baseImageAssetId: string | null; // asset ID of the character/product reference image
+  targetDuration: TargetDuration | null; // requested reel length (null = model picks)
+  pacing: PacingPreset;
+  outputFormat: OutputFormat; // aspect ratio and UI reframe mode for generation and export
+  storyboard: StoryboardResponse | null;
+  timeline: Timeline | null;
+  generatedImages: Record<string, StillImageResponse>;
+  generatedVideos: Record<string, VideoGenerationResponse>;
+  generatedNarration: Record<string, NarrationGenerationResponse>;
+  generatedMusic: MusicGenerationResponse | null; // the music candidate in use
+  musicCandidates: MusicGenerationResponse[]; // generated and imported tracks to choose from
+  musicDuckingSettings: MusicDuckingSettings;
+  soundEffects: SoundEffect[]; // generated and uploaded sound effects and ambient beds
+  captionStyle: CaptionStyle; // how captions look when burned in on export
+  loudnessPreset: LoudnessPreset; // loudness the exported audio is mastered to
+  narrationVoice: NarrationVoice; // default voice for narration segments without their own
+  pronunciationLexicon: PronunciationEntry[]; // applied to every narration segment before synthesis
+  localizations: Record<string, LocalizedVersion>; // translated versions of the reel, by language code
+  veoModel: 'veo-2' | 'veo-3';
+  videoFiles: UploadedVideo[];
+  videoAnalyses: Record<string, VideoAnalysisResponse>;
+}
+
+/**
+ * A binary asset stored next to the manifest in the project bundle.
+ * Files are named by their asset ID (the SHA-256 of their contents), so a bundle can be
+ * copied to another machine and its assets re-imported into that machine's asset store.
+ */
+export interface ProjectAssetEntry {
+  assetId: string;
+  file: string; // path relative to the bundle directory, e.g. "assets/<sha256>.mp4"
+  mimeType: string;
+  size: number; // bytes
+}
+
+/**
+ * On-disk project manifest (project.json).
+ * Every asset ID referenced by `state` has a matching entry in `assets`.
+ */
+export interface ProjectManifest {
+  schemaVersion: number;
+  projectId: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  assets: ProjectAssetEntry[];
+  state: ProjectState;
+}
+
+export interface ProjectSummary {
+  projectId: string;
+  name: string;
+  schemaVersion: number;
+  updatedAt: string;
+}
+
+export interface SaveProjectRequest {
+  projectId?: string; // omit to create a new project
+  name: string;
+  state: ProjectState;
+}
+
+export interface SaveProjectResponse {
+  projectId: string;
+  name: string;
+  schemaVersion: number;
+  assetCount: number;
+  updatedAt: string;
+}
+
+export interface LoadProjectRequest {
+  projectId: string;
+}
+
+export interface LoadProjectResponse {
+  projectId: string;
+  name: string;
+  schemaVersion: number; // version the file was migrated to (always current)
+  createdAt: string;
+  updatedAt: string;
+  state: ProjectState;
+}
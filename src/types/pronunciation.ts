@@ -0,0 +1,17 @@
+/**
+ * How a lexicon entry changes what the speech provider is sent:
+ * - alias: the term is replaced by a sound-alike spelling (works with every model)
+ * - phoneme: the term is wrapped in an SSML <phoneme> tag with an IPA transcription
+ */
+export type PronunciationType = "alias" | "phoneme";
+
+/**
+ * A project-level pronunciation rule for a product or feature name.
+ * Terms match whole words, case-insensitively.
+ */
+export interface PronunciationEntry {
+  id: string;
+  term: string; // as written in the script, e.g. "Kubernetes"
+  type: PronunciationType;
+  value: string; // alias text ("koo-ber-net-eez") or IPA ("ˌkuːbərˈnɛtiːz")
+}
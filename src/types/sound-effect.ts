@@ -0,0 +1,42 @@
+/**
+ * Sound effects (one-shots such as whooshes and clicks) and ambient beds (room tone,
+ * city noise) placed on the timeline as 'sfx' and 'ambient' audio clips.
+ */
+export type SoundEffectKind = 'sfx' | 'ambient';
+
+export type SoundEffectSource = 'generated' | 'uploaded';
+
+/**
+ * Request payload for generating a sound effect with the ElevenLabs sound effects API.
+ */
+export interface SoundEffectGenerationRequest {
+  prompt: string; // e.g. "soft UI click", "busy coffee shop ambience"
+  kind: SoundEffectKind; // ambient beds are generated to loop seamlessly
+  durationSeconds?: number; // 0.5-30; the model picks a length when omitted
+  promptInfluence?: number; // 0-1, how literally the prompt is followed (default 0.3)
+}
+
+/**
+ * Request payload for adding an uploaded audio file to the sound effect library.
+ * The file is uploaded to the asset store first (POST /api/assets).
+ */
+export interface SoundEffectImportRequest {
+  audioAssetId: string;
+  name: string; // usually the file name
+  kind: SoundEffectKind;
+}
+
+/**
+ * An entry in the project's sound effect library, generated or uploaded
+ */
+export interface SoundEffect {
+  audioAssetId: string; // asset ID of the sound
+  audioUrl: string; // URL to stream the sound asset
+  kind: SoundEffectKind;
+  source: SoundEffectSource;
+  name: string; // shown in the library and on the timeline
+  prompt: string; // empty for uploaded sounds
+  durationSeconds: number; // duration from ffprobe
+  processingTimeMs: number;
+  timestamp: string;
+}
@@ -1,13 +1,19 @@
+import type { BrandProfile } from "@/types/brand";
+import type { AspectRatio } from "@/types/output-format";
+
 export interface StillImageGenerationRequest {
   prompt: string;
   shotId: string;
-  baseImage: string; // Base64 encoded base reference image (required)
-  previousShots?: string[]; // Array of base64 encoded previously generated shot images
+  baseImageAssetId: string; // asset ID of the base reference image (required)
+  previousShotAssetIds?: string[]; // asset IDs of previously generated shot images
+  brandProfile?: BrandProfile; // visual style guardrails and banned imagery
+  aspectRatio?: AspectRatio; // frame shape of the reel (default 16:9)
 }
 
 export interface StillImageResponse {
   shotId: string;
-  imageUrl: string;
+  imageAssetId: string; // asset ID of the generated image
+  imageUrl: string; // URL to stream the image asset
   prompt: string;
   processingTimeMs: number;
   timestamp: string;
@@ -1,3 +1,7 @@
+import type { BrandProfile } from "@/types/brand";
+import type { AspectRatio } from "@/types/output-format";
+import type { NarrationVoice } from "@/types/voice";
+
 interface BaseShotInfo {
   id: string;
   title: string;
@@ -26,18 +30,36 @@ export interface NarrationSegment {
   text: string; // voiceover script text
   startTime: number; // when narration starts (in seconds)
   endTime: number; // when narration ends (in seconds)
+  voice?: NarrationVoice; // overrides the project's default voice for this segment
 }
 
+/**
+ * Reel lengths marketing cuts to. Omitted means the model picks the length.
+ */
+export type TargetDuration = 15 | 30 | 60;
+
+/**
+ * How quickly the reel moves: shot lengths, UI clip lengths and narration density.
+ * See lib/storyboardPacing.ts for the numbers behind each preset.
+ */
+export type PacingPreset = "fast" | "balanced" | "relaxed";
+
 export interface StoryboardResponse {
   title: string;
   description: string;
   shots: StoryboardShot[];
   narration?: NarrationSegment[]; // independent narration timeline
   musicPrompt?: string; // prompt for AI music generation
+  targetDuration?: TargetDuration; // length the storyboard was generated for
+  pacing?: PacingPreset;
 }
 
 export interface StoryboardGenerationRequest {
   productDescription: string;
+  brandProfile?: BrandProfile; // company context injected into the prompt (neutral if omitted)
+  targetDuration?: TargetDuration; // total reel length in seconds (model picks if omitted)
+  pacing?: PacingPreset; // defaults to "balanced"
+  aspectRatio?: AspectRatio; // framing the shot prompts are written for (default 16:9)
   videoAnalyses?: Array<{
     videoId: string;
     overallDescription: string;
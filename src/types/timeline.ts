@@ -6,7 +6,7 @@
  * from source assets, enabling flexible editing.
  */
 
-export type ClipType = 'video' | 'audio';
+export type ClipType = 'video' | 'audio' | 'text';
 export type AudioType = 'narration' | 'music' | 'sfx' | 'ambient';
 
 /**
@@ -19,14 +19,52 @@ export interface BaseClip {
   duration: number;   // How long the clip plays (seconds)
 }
 
+export type TransitionType = 'cut' | 'crossfade' | 'dip-to-black' | 'wipe';
+
+/**
+ * Transition from the previous video clip into this one.
+ * Anything but a cut overlaps the two clips by `duration` seconds, so the clip
+ * starts that much before the previous clip ends.
+ */
+export interface ClipTransition {
+  type: TransitionType;
+  duration: number;         // Overlap in seconds (ignored for cuts)
+}
+
 /**
  * Video clip - references a shot from the storyboard
  */
 export interface VideoClip extends BaseClip {
   type: 'video';
   shotId: string;           // Reference to StoryboardShot
-  trimStart?: number;       // Offset into source video (for UI shots)
-  trimEnd?: number;         // End offset into source video (for UI shots)
+  trimStart?: number;       // In point: recording time for UI shots, seconds into the video for cinematic shots (see lib/videoTrim.ts)
+  trimEnd?: number;         // Out point, same units as trimStart
+  transition?: ClipTransition; // Transition in from the previous clip (none on the first clip = cut)
+}
+
+export type TextPosition = 'top' | 'center' | 'lower-third' | 'bottom';
+export type TextFontFamily = 'sans' | 'serif' | 'mono';
+export type TextAnimation = 'none' | 'fade' | 'slide';
+
+export interface TextStyle {
+  fontFamily: TextFontFamily;
+  fontSize: number;         // Percentage of frame height
+  color: string;            // Hex color, e.g. #ffffff
+  bold: boolean;
+  background: boolean;      // Semi-transparent box behind the text
+}
+
+/**
+ * Text clip - title cards, callouts and end cards drawn over the video
+ */
+export interface TextClip extends BaseClip {
+  type: 'text';
+  text: string;             // May contain line breaks
+  position: TextPosition;
+  style: TextStyle;
+  animationIn: TextAnimation;
+  animationOut: TextAnimation;
+  animationDuration: number; // Seconds for each of the in/out animations
 }
 
 /**
@@ -50,10 +88,10 @@ export type AudioClip =
       id: string;
       startTime: number;
       duration: number;
-      sourceId: string;       // Reference to music asset
+      sourceId: string;       // Asset ID of the music track (a music candidate); empty until music exists
       volume?: number;        // Volume level (0-1, default 1)
-      fadeIn?: number;        // Fade in duration (seconds)
-      fadeOut?: number;       // Fade out duration (seconds)
+      fadeIn?: number;        // Fade in duration (seconds, default 0)
+      fadeOut?: number;       // Fade out duration (seconds, default: ends on a downbeat)
     }
   | {
       type: 'audio';
@@ -61,14 +99,17 @@ export type AudioClip =
       id: string;
       startTime: number;
       duration: number;
-      sourceId: string;       // Reference to audio asset
-      volume?: number;        // Volume level (0-1, default 1)
+      sourceId: string;       // Asset ID of a sound in the sound effect library
+      volume?: number;        // Volume level (0-1, default 1); ambient beds loop to fill the clip
     };
 
+export type MusicClip = Extract<AudioClip, { audioType: 'music' }>;
+export type SoundEffectClip = Extract<AudioClip, { audioType: 'sfx' | 'ambient' }>;
+
 /**
  * Union type for all clip types
  */
-export type TimelineClip = VideoClip | AudioClip;
+export type TimelineClip = VideoClip | AudioClip | TextClip;
 
 /**
  * Timeline track - contains clips of a specific type
@@ -108,10 +149,18 @@ export function isAudioClip(clip: TimelineClip): clip is AudioClip {
   return clip.type === 'audio';
 }
 
+export function isTextClip(clip: TimelineClip): clip is TextClip {
+  return clip.type === 'text';
+}
+
 export function isNarrationClip(clip: TimelineClip): clip is AudioClip & { audioType: 'narration' } {
   return clip.type === 'audio' && clip.audioType === 'narration';
 }
 
-export function isMusicClip(clip: TimelineClip): clip is AudioClip & { audioType: 'music' } {
+export function isMusicClip(clip: TimelineClip): clip is MusicClip {
   return clip.type === 'audio' && clip.audioType === 'music';
 }
+
+export function isSoundEffectClip(clip: TimelineClip): clip is SoundEffectClip {
+  return clip.type === 'audio' && (clip.audioType === 'sfx' || clip.audioType === 'ambient');
+}
@@ -23,23 +23,23 @@ export interface VideoAnalysisResponse {
 }
 
 /**
- * Request payload for uploading a UI screen recording to be analyzed.
- * The video is sent as base64 encoded data.
+ * Request payload for analyzing a UI screen recording.
+ * The video must already be uploaded to the asset store.
  */
 export interface VideoUploadRequest {
-  video: string; // base64 encoded video data
+  videoAssetId: string; // asset ID of the (compressed) recording
   mimeType: string;
   videoId?: string; // optional identifier for the video
 }
 
 /**
  * Represents an uploaded video file in the UI.
- * Stores both original (for extraction) and compressed (for analysis) versions.
+ * References both original (for extraction) and compressed (for analysis) versions in the asset store.
  */
 export interface UploadedVideo {
   id: string;
   filename: string;
-  originalData: string; // base64 data URL for clip extraction
-  compressedData: string; // base64 data URL for analysis (may be same as original if <10MB)
+  originalAssetId: string; // asset ID of the original upload, used for clip extraction
+  compressedAssetId: string; // asset ID used for analysis (same as original if <10MB)
   mimeType: string;
 }
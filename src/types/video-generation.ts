@@ -1,12 +1,15 @@
+import type { AspectRatio } from "@/types/output-format";
+
 /**
  * Request payload for generating a video from a still image using Gemini Veo.
  * Combines the generated still image with a motion prompt to create a video clip.
  */
 export interface VideoGenerationRequest {
   shotId: string;
-  imageUrl: string; // base64 data URL of the still image
+  imageAssetId: string; // asset ID of the still image
   prompt: string; // motion/video prompt describing the desired animation
   model?: 'veo-2' | 'veo-3'; // Which Veo model to use (default: veo-3)
+  aspectRatio?: AspectRatio; // frame shape of the reel (default 16:9; 1:1 renders 16:9 for cropping)
 }
 
 /**
@@ -15,8 +18,35 @@ export interface VideoGenerationRequest {
  */
 export interface VideoGenerationResponse {
   shotId: string;
-  videoUrl: string; // base64 data URL of the generated video
+  videoAssetId: string; // asset ID of the generated video
+  videoUrl: string; // URL to stream the video asset
   prompt: string;
   processingTimeMs: number;
   timestamp: string;
 }
+
+export type VideoJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+/**
+ * A background Veo generation job.
+ * Persisted on the server so a generation survives closed tabs, proxy timeouts and restarts.
+ */
+export interface VideoGenerationJob {
+  jobId: string;
+  status: VideoJobStatus;
+  request: VideoGenerationRequest;
+  operationName?: string; // Veo long-running operation name, set once Veo accepted the job
+  result?: VideoGenerationResponse; // set when status is 'succeeded'
+  error?: string; // set when status is 'failed'
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Response from submitting a video generation job
+ */
+export interface SubmitVideoJobResponse {
+  jobId: string;
+  shotId: string;
+  status: VideoJobStatus;
+}
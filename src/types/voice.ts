@@ -0,0 +1,51 @@
+import type { PronunciationEntry } from "@/types/pronunciation";
+
+/**
+ * Delivery settings sent to the speech provider with every narration request.
+ * Ranges follow ElevenLabs voice_settings (see VOICE_SETTING_RANGES in lib/voices.ts).
+ */
+export interface VoiceSettings {
+  stability: number; // 0-1, lower is more expressive
+  similarityBoost: number; // 0-1, how closely to match the original voice
+  style: number; // 0-1, style exaggeration
+  speed: number; // 0.7-1.2, 1 is normal speaking rate
+}
+
+/**
+ * A voice plus the settings it is rendered with. Stored per project (default) and
+ * optionally per narration segment, so regenerating audio reproduces the same delivery.
+ */
+export interface NarrationVoice {
+  voiceId: string;
+  settings: VoiceSettings;
+}
+
+/**
+ * A voice offered by the speech provider.
+ */
+export interface VoiceOption {
+  voiceId: string;
+  name: string;
+  category?: string; // e.g. "premade", "cloned"
+  description?: string; // accent, age, use case etc.
+  previewUrl?: string; // provider-hosted sample, when available
+}
+
+export interface VoiceListResponse {
+  voices: VoiceOption[];
+}
+
+/**
+ * Request payload for auditioning a voice with specific settings.
+ */
+export interface VoicePreviewRequest {
+  voiceId: string;
+  voiceSettings: VoiceSettings;
+  text?: string; // defaults to a short sample sentence
+  pronunciations?: PronunciationEntry[]; // project lexicon, so previews match generated narration
+}
+
+export interface VoicePreviewResponse {
+  audioAssetId: string;
+  audioUrl: string;
+}